@@ -1,9 +1,75 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { CartesianCanvas, Shape, LineStyle, ArrowStyle, DrawingMode, HatchStyle } from './components/CartesianCanvas';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { CartesianCanvas, Shape, Layer, LineStyle, ArrowStyle, DrawingMode, HatchStyle, Point, ArcMode, PointConstructionKind, PlotDefinition, PlotKind } from './components/CartesianCanvas';
 import { TikzExportModal } from './components/TikzExportModal';
 import { HelpModal } from './components/HelpModal';
 import { TemplateLibraryModal } from './components/TemplateLibraryModal';
 import { RadiusInputModal } from './components/RadiusInputModal';
+import { TikzImportModal } from './components/TikzImportModal';
+import { ImageExportModal } from './components/ImageExportModal';
+import { RecentDocumentsModal } from './components/RecentDocumentsModal';
+import { RecoveryPrompt } from './components/RecoveryPrompt';
+import { LayersPanel } from './components/LayersPanel';
+import { ConstraintsPanel } from './components/ConstraintsPanel';
+import { AxesPanel } from './components/AxesPanel';
+import { TransformPanel } from './components/TransformPanel';
+import { InspectorPanel } from './components/InspectorPanel';
+import { renderThumbnail } from './components/canvasRenderer';
+import { ProjectDocument, parseProject, serializeProject, PROJECT_FILE_EXTENSION } from './services/projectService';
+import { TikzImportResult } from './services/tikzImporter';
+import { ExportMode, LayerOutput } from './services/exportGenerators';
+import { SnapKind, SNAP_KINDS, SNAP_KIND_LABELS } from './services/objectSnap';
+import { CONSTRUCTION_LABELS, createConstruction, resolvePoints, pushAnchorsToPoints, attachToPoints, detachCopies, nextPointLabel } from './services/points';
+import { PLOT_KINDS, PLOT_KIND_LABELS, PLOT_PRESETS, MAX_PLOT_SAMPLES, getPlotErrors } from './services/plot';
+import { evaluateNumber } from './services/expression';
+import { AxesSettings, DEFAULT_AXES_SETTINGS } from './services/axes';
+import { GridSettings, DEFAULT_GRID_SETTINGS } from './services/grid';
+import { BooleanOp, BOOLEAN_OPS, BOOLEAN_OP_LABELS, combineShapes, isBooleanOperand } from './services/boolean';
+import { OffsetSide, OffsetJoin, OFFSET_SIDE_LABELS, OFFSET_JOINS, OFFSET_JOIN_LABELS, isOffsetable, isOpenShape, offsetShape } from './services/offset';
+import { Affine, PivotKind, transformShape, rotationAbout, scalingAbout, skewingAbout, getSelectionBounds, getBoundsCenter } from './services/transform';
+import { AlignEdge, AlignTarget, DistributeAxis, DistributeMode, ALIGN_EDGES, ALIGN_EDGE_LABELS, ALIGN_TARGETS, ALIGN_TARGET_LABELS, DISTRIBUTE_AXES, DISTRIBUTE_AXIS_LABELS, DISTRIBUTE_MODES, DISTRIBUTE_MODE_LABELS, alignShapes, distributeShapes, countAlignUnits } from './services/align';
+import { CornerKind, EditTool, EDIT_TOOLS, EDIT_TOOL_LABELS, trimShape, extendShape, splitShape, joinCorner } from './services/editTools';
+import { Constraint, ConstraintKind, createConstraints, solveConstraints, getActiveConstraints, getPinnedIds } from './services/constraints';
+import { groupShapes, ungroupShapes, remapGroupIds, countSelectionUnits } from './services/groups';
+import { DEFAULT_LAYER, createLayer, resolveLayerId, isShapeVisible, isShapeEditable, sortShapesByLayer } from './services/layers';
+import { AutosaveRecord, RecentDocument, saveAutosave, loadAutosave, clearAutosave, saveRecentDocument } from './services/storageService';
+
+const AUTOSAVE_DELAY_MS = 1000;
+const generateDocumentId = () => Math.random().toString(36).substr(2, 9);
+
+const EDIT_TOOL_TITLES: Record<EditTool, string> = {
+  trim: `${EDIT_TOOL_LABELS.trim}: click the piece of a line, circle or arc to cut away between its crossings`,
+  extend: `${EDIT_TOOL_LABELS.extend}: click near the end of a line, polyline or arc to lengthen it to the next shape`,
+  split: `${EDIT_TOOL_LABELS.split}: click a line, arc, bezier or polygon where it should be cut in two`,
+  fillet: `${EDIT_TOOL_LABELS.fillet}: click two lines on the sides to keep`,
+};
+
+const EDIT_TOOL_ICONS: Record<EditTool, React.ReactNode> = {
+  trim: <><path d="M4 20L20 4" /><path d="M4 12h6" /><path d="M14 12h6" strokeDasharray="2 2" /></>,
+  extend: <><path d="M20 4v16" /><path d="M4 12h8" /><path d="M12 12h8" strokeDasharray="2 2" /><path d="M14 9l3 3-3 3" /></>,
+  split: <><path d="M3 17L10 10" /><path d="M14 14L21 7" /><circle cx="12" cy="12" r="1.5" fill="currentColor" /></>,
+  fillet: <><path d="M4 20V12a8 8 0 0 1 8-8h8" /></>,
+};
+
+const ALIGN_ICONS: Record<AlignEdge, React.ReactNode> = {
+  left: <><path d="M4 3v18" /><rect x="7" y="6" width="12" height="4" /><rect x="7" y="14" width="7" height="4" /></>,
+  center_x: <><path d="M12 3v18" /><rect x="5" y="6" width="14" height="4" /><rect x="8" y="14" width="8" height="4" /></>,
+  right: <><path d="M20 3v18" /><rect x="5" y="6" width="12" height="4" /><rect x="10" y="14" width="7" height="4" /></>,
+  top: <><path d="M3 4h18" /><rect x="6" y="7" width="4" height="12" /><rect x="14" y="7" width="4" height="7" /></>,
+  center_y: <><path d="M3 12h18" /><rect x="6" y="5" width="4" height="14" /><rect x="14" y="8" width="4" height="8" /></>,
+  bottom: <><path d="M3 20h18" /><rect x="6" y="5" width="4" height="12" /><rect x="14" y="10" width="4" height="7" /></>,
+};
+
+const DISTRIBUTE_ICONS: Record<DistributeAxis, React.ReactNode> = {
+  horizontal: <><path d="M3 4v16" /><path d="M21 4v16" /><rect x="9" y="7" width="6" height="10" /></>,
+  vertical: <><path d="M4 3h16" /><path d="M4 21h16" /><rect x="7" y="9" width="10" height="6" /></>,
+};
+
+const BOOLEAN_TITLES: Record<BooleanOp, string> = {
+  union: `${BOOLEAN_OP_LABELS.union}: merge the selected closed shapes`,
+  difference: `${BOOLEAN_OP_LABELS.difference}: cut the other selected shapes out of the first one`,
+  intersection: `${BOOLEAN_OP_LABELS.intersection}: keep where all selected shapes overlap`,
+  xor: `${BOOLEAN_OP_LABELS.xor}: keep where an odd number of selected shapes overlap`,
+};
 
 const App: React.FC = () => {
   const [shapes, setShapes] = useState<Shape[]>([]);
@@ -15,12 +81,17 @@ const App: React.FC = () => {
 
   const [mode, setMode] = useState<DrawingMode>('pan');
   const [isSnapEnabled, setIsSnapEnabled] = useState(true);
+  const [snapKinds, setSnapKinds] = useState<Set<SnapKind>>(() => new Set(SNAP_KINDS));
   const [lineStyle, setLineStyle] = useState<LineStyle>('solid');
   const [arrowStyle, setArrowStyle] = useState<ArrowStyle>('none');
   const [lineWidth, setLineWidth] = useState<number>(2); // Default to 2x for objects
+  const [arcMode, setArcMode] = useState<ArcMode>('center');
+  const [plotDefinition, setPlotDefinition] = useState<PlotDefinition>(PLOT_PRESETS.cartesian);
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
   const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
   const [isTemplateModalOpen, setIsTemplateModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isImageExportModalOpen, setIsImageExportModalOpen] = useState(false);
   
   // Radius Modal State
   const [isRadiusModalOpen, setIsRadiusModalOpen] = useState(false);
@@ -28,6 +99,14 @@ const App: React.FC = () => {
 
   // Offset Tool State
   const [offsetDistance, setOffsetDistance] = useState<number>(0.5);
+  const [offsetSide, setOffsetSide] = useState<OffsetSide>('inside');
+  const [offsetJoin, setOffsetJoin] = useState<OffsetJoin>('miter');
+  // Fillet tool: rounded or beveled corners, their radius or distance, and the first line picked
+  const [cornerKind, setCornerKind] = useState<CornerKind>('fillet');
+  const [cornerSize, setCornerSize] = useState<number>(0.5);
+  const [cornerPick, setCornerPick] = useState<{ id: string; at: Point } | null>(null);
+  // Direction of the next "point on circle" construction, in degrees
+  const [constructionAngle, setConstructionAngle] = useState<number>(45);
 
   // Linear Pattern (Array) Tool State
   const [patternDirection, setPatternDirection] = useState<'horizontal' | 'vertical' | 'horizontal_neg' | 'vertical_neg'>('vertical');
@@ -46,10 +125,44 @@ const App: React.FC = () => {
   const [exportAsNodes, setExportAsNodes] = useState(false);
   const [showAxes, setShowAxes] = useState(true);
   const [showGrid, setShowGrid] = useState(true);
-  const [exportMode, setExportMode] = useState<'standard' | 'tkz-euclide' | 'luamplib'>('standard');
+  const [exportMode, setExportMode] = useState<ExportMode>('standard');
+  const [layerOutput, setLayerOutput] = useState<LayerOutput>('scope');
+  const [axesSettings, setAxesSettings] = useState<AxesSettings>(DEFAULT_AXES_SETTINGS);
+  const [gridSettings, setGridSettings] = useState<GridSettings>(DEFAULT_GRID_SETTINGS);
+
+  // Layers (bottom to top). Not part of undo history: shapes keep their layerId and
+  // fall back to the bottom layer if theirs has been deleted since.
+  const [layers, setLayers] = useState<Layer[]>([DEFAULT_LAYER]);
+  const [activeLayerId, setActiveLayerId] = useState<string>(DEFAULT_LAYER.id);
+  const [isLayersPanelOpen, setIsLayersPanelOpen] = useState(false);
+  const [constraints, setConstraints] = useState<Constraint[]>([]);
+  const [isConstraintsPanelOpen, setIsConstraintsPanelOpen] = useState(false);
+  const [isAxesPanelOpen, setIsAxesPanelOpen] = useState(false);
+  const [isTransformPanelOpen, setIsTransformPanelOpen] = useState(false);
+  const [isInspectorOpen, setIsInspectorOpen] = useState(false);
+  const [pivotKind, setPivotKind] = useState<PivotKind>('selection');
+  const [customPivot, setCustomPivot] = useState<Point>({ x: 0, y: 0 });
+  const [alignTarget, setAlignTarget] = useState<AlignTarget>('selection');
+  const [distributeMode, setDistributeMode] = useState<DistributeMode>('gaps');
   
   const [clipboard, setClipboard] = useState<Shape[] | null>(null);
 
+  // View (owned here so it can be saved with the project)
+  const [scale, setScale] = useState(30);
+  const [offset, setOffset] = useState<Point>({ x: 0, y: 0 });
+
+  const projectInputRef = useRef<HTMLInputElement>(null);
+
+  // Document identity & autosave
+  const [documentId, setDocumentId] = useState<string>(generateDocumentId);
+  const [documentName, setDocumentName] = useState<string>('Untitled drawing');
+  const [isRecentModalOpen, setIsRecentModalOpen] = useState(false);
+  const [recoveryRecord, setRecoveryRecord] = useState<AutosaveRecord | null>(null);
+  // Autosave stays off until the startup recovery check is done, so it cannot overwrite the record being offered
+  const [isAutosaveReady, setIsAutosaveReady] = useState(false);
+  // Shapes array as of the last file save/open; anything else counts as unsaved work
+  const cleanShapesRef = useRef<Shape[]>(shapes);
+
   const saveHistory = useCallback(() => {
     setHistory(prev => [...prev, shapes]);
     setFuture([]); // Clear redo stack on new action
@@ -95,21 +208,30 @@ const App: React.FC = () => {
   }, [future, shapes]);
 
   const handleSelectAll = useCallback(() => {
-      const allIds = new Set(shapes.map(s => s.id));
+      const allIds = new Set(shapes.filter(s => isShapeEditable(s, layers)).map(s => s.id));
       setSelectedShapeIds(allIds);
-  }, [shapes]);
+  }, [shapes, layers]);
 
+  // Edited shapes keep their new geometry; shapes constrained to them follow
   const handleShapesUpdate = useCallback((updatedShapes: Shape[]) => {
-    setShapes(prev => prev.map(s => {
+    const merged = (prev: Shape[]) => prev.map(s => {
         const update = updatedShapes.find(u => u.id === s.id);
         return update || s;
-    }));
-  }, []);
+    });
+    // Dragging an end attached to a named point drags the point, and everything built on it
+    setShapes(prev => solveConstraints(resolvePoints(pushAnchorsToPoints(merged(prev), updatedShapes)), constraints, getPinnedIds(prev, updatedShapes)));
+  }, [constraints]);
 
   const handleShapeAdd = useCallback((shape: Shape) => {
+    const layer = layers.find(l => l.id === activeLayerId);
+    if (layer && (!layer.visible || layer.locked)) {
+        window.alert(`Layer "${layer.name}" is ${layer.locked ? 'locked' : 'hidden'}. Unlock or show it, or pick another layer, to draw.`);
+        return;
+    }
     saveHistory();
-    setShapes(prev => [...prev, shape]);
-  }, [saveHistory]);
+    const named = shape.type === 'point' && !shape.text ? { ...shape, text: nextPointLabel(shapes) } : shape;
+    setShapes(prev => [...prev, attachToPoints({ ...named, layerId: activeLayerId }, prev)]);
+  }, [saveHistory, layers, activeLayerId, shapes]);
 
   const handleInteractionStart = useCallback(() => {
     saveHistory();
@@ -125,11 +247,23 @@ const App: React.FC = () => {
 
   const handleAddTemplate = useCallback((newShapes: Shape[]) => {
       saveHistory();
-      setShapes(prev => [...prev, ...newShapes]);
+      setShapes(prev => [...prev, ...newShapes.map(s => ({ ...s, layerId: activeLayerId }))]);
       const newIds = new Set(newShapes.map(s => s.id));
       setSelectedShapeIds(newIds);
       setMode('pan'); 
-  }, [saveHistory]);
+  }, [saveHistory, activeLayerId]);
+
+  const handleImportTikz = useCallback((result: TikzImportResult, replace: boolean) => {
+      saveHistory();
+      const imported = result.shapes.map(s => ({ ...s, layerId: activeLayerId }));
+      setShapes(prev => replace ? imported : [...prev, ...imported]);
+      setSelectedShapeIds(new Set(result.shapes.map(s => s.id)));
+      if (replace) {
+          setShowGrid(result.showGrid);
+          setShowAxes(result.showAxes);
+      }
+      setMode('pan');
+  }, [saveHistory, activeLayerId]);
 
   const handleDuplicate = useCallback(() => {
     if (selectedShapeIds.size === 0) return;
@@ -158,7 +292,7 @@ const App: React.FC = () => {
             newIds.add(newShape.id);
         }
     });
-    setShapes(prev => [...prev, ...newShapes]);
+    setShapes(prev => [...prev, ...remapGroupIds(detachCopies(newShapes))]);
     setSelectedShapeIds(newIds);
   }, [selectedShapeIds, shapes, saveHistory]);
 
@@ -179,6 +313,9 @@ const App: React.FC = () => {
     else if (patternDirection === 'vertical') dy = patternSpacing;
     else if (patternDirection === 'vertical_neg') dy = -patternSpacing;
 
+    // One batch per copy, so each copy of a group becomes a group of its own
+    const copies: Shape[][] = Array.from({ length: patternCount - 1 }, () => []);
+
     shapes.forEach(shape => {
       if (selectedShapeIds.has(shape.id)) {
         // Keep the original selected (it's the 1st item)
@@ -210,11 +347,12 @@ const App: React.FC = () => {
             newShape.points = shape.points.map(p => ({ x: p.x + offX, y: p.y + offY }));
           }
 
-          newShapes.push(newShape);
+          copies[i - 1].push(newShape);
           newIds.add(newShape.id);
         }
       }
     });
+    copies.forEach(batch => newShapes.push(...remapGroupIds(detachCopies(batch))));
 
     setShapes(prev => [...prev, ...newShapes]);
     setSelectedShapeIds(newIds); // Select the whole array
@@ -264,6 +402,7 @@ const App: React.FC = () => {
     };
 
     const angleStep = (2 * Math.PI) / circularCount;
+    const copies: Shape[][] = Array.from({ length: circularCount - 1 }, () => []);
 
     // For each shape, create copies
     selectedShapes.forEach(s => {
@@ -313,8 +452,14 @@ const App: React.FC = () => {
                 if (s.cx2 !== undefined) { const p = rotatePoint(s.cx2, s.cy2!, midX, midY, angle); ns.cx2 = p.x; ns.cy2 = p.y; }
                 if (s.textX !== undefined) { const p = rotatePoint(s.textX, s.textY!, midX, midY, angle); ns.textX = p.x; ns.textY = p.y; }
 
-                // Update local rotation property
-                ns.rotation = (s.rotation || 0) + angle;
+                // Update local rotation property; arcs turn their own start/end angles instead
+                if (s.type === 'arc') {
+                    const r = Math.hypot(dx, dy); const start = (s.startAngle ?? 0) + angle;
+                    ns.startAngle = start; ns.endAngle = (s.endAngle ?? (s.startAngle ?? 0) + 2 * Math.PI) + angle;
+                    ns.x2 = ns.x1 + r * Math.cos(start); ns.y2 = ns.y1 + r * Math.sin(start);
+                } else {
+                    ns.rotation = (s.rotation || 0) + angle;
+                }
 
             } else {
                 // Point-based shapes (lines, bezier, etc.): rotate all defining coordinates
@@ -332,10 +477,11 @@ const App: React.FC = () => {
                 }
             }
 
-            newShapes.push(ns);
+            copies[i - 1].push(ns);
             newIds.add(ns.id);
         }
     });
+    copies.forEach(batch => newShapes.push(...remapGroupIds(detachCopies(batch))));
 
     setShapes(prev => [...prev, ...newShapes]);
     setSelectedShapeIds(newIds);
@@ -343,89 +489,78 @@ const App: React.FC = () => {
 
   }, [selectedShapeIds, shapes, circularCount, saveHistory]);
 
-  const handleOffset = useCallback(() => {
-    if (selectedShapeIds.size === 0) return;
+  // Offset copies of the selected shapes. Open shapes (and every shape when the side is set to
+  // "click") wait for a click on the canvas that picks the side
+  const handleOffset = useCallback((pick?: Point) => {
+    const selected = shapes.filter(s => selectedShapeIds.has(s.id));
+    if (selected.length === 0) return;
+    if (!(offsetDistance > 0)) { window.alert('The offset distance must be positive.'); return; }
+    if (!pick && (offsetSide === 'click' || selected.some(isOpenShape))) { setMode('offset_side'); return; }
+    if (mode === 'offset_side') setMode('pan');
+
+    const offsetable = selected.filter(isOffsetable);
+    const side = pick ?? (offsetSide === 'outside' ? 'outside' : 'inside');
+    const newShapes = offsetable.map(s => offsetShape(s, offsetDistance, side, offsetJoin)).filter((s): s is Shape => !!s);
+    const problems: string[] = [];
+    if (offsetable.length < selected.length) problems.push('Only lines, polylines, polygons, rectangles, circles, ellipses, arcs and bezier curves can be offset.');
+    if (newShapes.length < offsetable.length) problems.push(`Some shapes are too small to be offset ${offsetDistance} inwards.`);
+    if (problems.length > 0) window.alert(problems.join(' '));
+
+    if (newShapes.length > 0) {
+      saveHistory();
+      setShapes(prev => [...prev, ...detachCopies(newShapes)]);
+      setSelectedShapeIds(new Set(newShapes.map(s => s.id)));
+    }
+  }, [selectedShapeIds, shapes, saveHistory, offsetDistance, offsetSide, offsetJoin, mode]);
+
+  // Replaces the selected closed shapes, in selection order, by one compound shape where the
+  // first one stood; a difference keeps the first minus all the others
+  const handleBoolean = useCallback((op: BooleanOp) => {
+    const operands = [...selectedShapeIds].map(id => shapes.find(s => s.id === id)).filter((s): s is Shape => !!s && isBooleanOperand(s));
+    if (operands.length < 2) {
+      window.alert('Select at least two closed shapes: rectangles, circles, ellipses, closed polygons or earlier boolean results.');
+      return;
+    }
+    const result = combineShapes(operands, op);
+    if (!result) {
+      window.alert('The result is empty: nothing is left of the selected shapes.');
+      return;
+    }
     saveHistory();
-    const newShapes: Shape[] = [];
-    const newIds = new Set<string>();
-    const dist = offsetDistance;
+    const used = new Set(operands.map(s => s.id));
+    setShapes(prev => prev.flatMap(s => s.id === operands[0].id ? [result] : used.has(s.id) ? [] : [s]));
+    setSelectedShapeIds(new Set([result.id]));
+  }, [selectedShapeIds, shapes, saveHistory]);
 
-    shapes.forEach(s => {
-      if (!selectedShapeIds.has(s.id)) return;
-
-      let newShape: Shape | null = null;
-
-      if (s.type === 'rect' || s.type === 'round_rect') {
-        // Normalize bounds
-        const minX = Math.min(s.x1, s.x2);
-        const maxX = Math.max(s.x1, s.x2);
-        const minY = Math.min(s.y1, s.y2);
-        const maxY = Math.max(s.y1, s.y2);
-
-        // Apply offset (shrink inwards)
-        const nMinX = minX + dist;
-        const nMaxX = maxX - dist;
-        const nMinY = minY + dist;
-        const nMaxY = maxY - dist;
-
-        // Check if shape creates negative volume (inverted)
-        if (nMaxX > nMinX && nMaxY > nMinY) {
-          newShape = {
-            ...s,
-            id: Math.random().toString(36).substr(2, 9),
-            x1: nMinX, y1: nMinY, x2: nMaxX, y2: nMaxY
-          };
-        }
-      } else if (s.type === 'circle') {
-        const radius = Math.sqrt(Math.pow(s.x2 - s.x1, 2) + Math.pow(s.y2 - s.y1, 2));
-        const newRadius = radius - dist;
-        if (newRadius > 0) {
-          // Keep center s.x1, s.y1. 
-          // We need a point (x2, y2) that is distance newRadius away.
-          // We can just move x2 towards x1.
-          const angle = Math.atan2(s.y2 - s.y1, s.x2 - s.x1);
-          newShape = {
-            ...s,
-            id: Math.random().toString(36).substr(2, 9),
-            x2: s.x1 + newRadius * Math.cos(angle),
-            y2: s.y1 + newRadius * Math.sin(angle)
-          };
-        }
-      } else if (s.type === 'ellipse') {
-        const rx = Math.abs(s.x2 - s.x1);
-        const ry = Math.abs(s.y2 - s.y1);
-        const nRx = rx - dist;
-        const nRy = ry - dist;
-        
-        if (nRx > 0 && nRy > 0) {
-           // x1, y1 is center.
-           // x2 is x1 + rx (or -rx).
-           // y2 is y1 + ry (or -ry).
-           // We just need to reconstruct x2, y2 based on new radii relative to center.
-           // The CartesianCanvas uses abs diff, so direction doesn't strictly matter for rendering ellipse,
-           // but let's preserve the 'direction' of the defining box roughly.
-           const signX = s.x2 >= s.x1 ? 1 : -1;
-           const signY = s.y2 >= s.y1 ? 1 : -1;
-           newShape = {
-             ...s,
-             id: Math.random().toString(36).substr(2, 9),
-             x2: s.x1 + signX * nRx,
-             y2: s.y1 + signY * nRy
-           };
+  // A click with the trim, extend, split or fillet tool. Every other visible shape is a boundary
+  // for trim and extend; fillet waits for a second line
+  const handleEditPick = useCallback((id: string, at: Point) => {
+    const target = shapes.find(s => s.id === id);
+    if (!target) return;
+    try {
+      if (mode === 'fillet') {
+        const first = cornerPick && shapes.find(s => s.id === cornerPick.id);
+        if (!first || first.id === id) {
+          if (target.type !== 'line') throw new Error('Fillet and chamfer join two lines.');
+          setCornerPick({ id, at });
+          setSelectedShapeIds(new Set([id]));
+          return;
         }
+        const [a, b, joint] = joinCorner(first, cornerPick!.at, target, at, cornerSize, cornerKind);
+        saveHistory();
+        setShapes(prev => prev.flatMap(s => s.id === a.id ? (joint ? [a, joint] : [a]) : s.id === b.id ? [b] : [s]));
+        setCornerPick(null);
+        setSelectedShapeIds(new Set());
+        return;
       }
-
-      if (newShape) {
-        newShapes.push(newShape);
-        newIds.add(newShape.id);
-      }
-    });
-
-    if (newShapes.length > 0) {
-      setShapes(prev => [...prev, ...newShapes]);
-      setSelectedShapeIds(newIds);
+      const others = shapes.filter(s => s.id !== id && isShapeVisible(s, layers));
+      const pieces = mode === 'trim' ? trimShape(target, at, others) : mode === 'extend' ? [extendShape(target, at, others)] : splitShape(target, at);
+      saveHistory();
+      setShapes(prev => prev.flatMap(s => s.id === id ? pieces : [s]));
+    } catch (e) {
+      window.alert((e as Error).message);
     }
-  }, [selectedShapeIds, shapes, saveHistory, offsetDistance]);
+  }, [mode, shapes, layers, cornerPick, cornerSize, cornerKind, saveHistory]);
 
   const handleCopy = useCallback(() => {
     if (selectedShapeIds.size > 0) {
@@ -443,6 +578,7 @@ const App: React.FC = () => {
             const newShape: Shape = {
                 ...clipShape,
                 id: Math.random().toString(36).substr(2, 9),
+                layerId: activeLayerId,
                 x1: clipShape.x1 + offset, y1: clipShape.y1 - offset,
                 x2: clipShape.x2 + offset, y2: clipShape.y2 - offset,
             };
@@ -458,10 +594,10 @@ const App: React.FC = () => {
             newShapes.push(newShape);
             newIds.add(newShape.id);
         });
-        setShapes(prev => [...prev, ...newShapes]);
+        setShapes(prev => [...prev, ...remapGroupIds(detachCopies(newShapes))]);
         setSelectedShapeIds(newIds);
     }
-  }, [clipboard, saveHistory]);
+  }, [clipboard, saveHistory, activeLayerId]);
 
   const handleMirrorTool = useCallback(() => {
       if (selectedShapeIds.size === 0) return;
@@ -535,16 +671,16 @@ const App: React.FC = () => {
                  }
              }
 
-             // Reflect Rotation: NewAngle = 2*LineAngle - OldAngle
-             const oldRot = s.rotation || 0;
-             ns.rotation = 2 * lineAngle - oldRot;
-
-             // Handle specific arc angles (swap start/end because reflection flips chirality)
+             // Reflect arc angles; the sweep changes sign because reflection flips chirality
              if (s.type === 'arc') {
-                 const start = s.startAngle || 0;
-                 const end = s.endAngle || 0;
-                 ns.startAngle = 2 * lineAngle - end;
-                 ns.endAngle = 2 * lineAngle - start;
+                 const start = s.startAngle ?? 0;
+                 const end = s.endAngle ?? start + 2 * Math.PI;
+                 ns.startAngle = 2 * lineAngle - start;
+                 ns.endAngle = 2 * lineAngle - end;
+             } else {
+                 // Reflect Rotation: NewAngle = 2*LineAngle - OldAngle
+                 const oldRot = s.rotation || 0;
+                 ns.rotation = 2 * lineAngle - oldRot;
              }
              
              if (ns.textX !== undefined) { const p = reflectPoint(s.textX, s.textY!); ns.textX = p.x; ns.textY = p.y; }
@@ -566,7 +702,7 @@ const App: React.FC = () => {
     });
 
     // Add new shapes to the existing ones
-    setShapes(prev => [...prev, ...generatedShapes]);
+    setShapes(prev => [...prev, ...remapGroupIds(detachCopies(generatedShapes))]);
     // Select the new copies
     setSelectedShapeIds(generatedIds);
     setMode('pan'); // Return to normal mode
@@ -581,6 +717,18 @@ const App: React.FC = () => {
     }
   }, [selectedShapeIds, saveHistory]);
 
+  const handleGroup = useCallback(() => {
+    if (countSelectionUnits(selectedShapeIds, shapes) < 2) return;
+    saveHistory();
+    setShapes(prev => groupShapes(prev, selectedShapeIds));
+  }, [selectedShapeIds, shapes, saveHistory]);
+
+  const handleUngroup = useCallback(() => {
+    if (!shapes.some(s => selectedShapeIds.has(s.id) && s.groupIds?.length)) return;
+    saveHistory();
+    setShapes(prev => ungroupShapes(prev, selectedShapeIds));
+  }, [selectedShapeIds, shapes, saveHistory]);
+
   const handleAddDiameter = useCallback(() => {
     if (selectedShapeIds.size !== 1) return;
     const shapeId = Array.from(selectedShapeIds)[0];
@@ -599,7 +747,8 @@ const App: React.FC = () => {
             arrow: 'both',
             lineWidth: 1,
             strokeColor: strokeColor,
-            text: (r * 2).toFixed(2)
+            text: (r * 2).toFixed(2),
+            layerId: shape.layerId
         };
         setShapes(prev => [...prev, newShape]);
         setSelectedShapeIds(new Set([newShape.id]));
@@ -616,11 +765,68 @@ const App: React.FC = () => {
     }
   }, [editingShapeId, saveHistory]);
 
+  // Rotate, scale or skew the selection; shapes attached to it follow as when dragging
+  const handleTransform = useCallback((m: Affine) => {
+      const selected = shapes.filter(s => selectedShapeIds.has(s.id));
+      const updated = selected.map(s => transformShape(s, m)).filter((s): s is Shape => s !== null);
+      if (updated.length > 0) {
+          saveHistory();
+          handleShapesUpdate(updated);
+      }
+      if (updated.length < selected.length) window.alert('Function plots cannot be rotated, scaled or skewed; they were left as they are.');
+  }, [selectedShapeIds, shapes, saveHistory, handleShapesUpdate]);
+
+  // The pivot the transform panel and the canvas gizmo work about; null when there is nothing to measure
+  const transformPivot = useMemo((): Point | null => {
+      if (pivotKind === 'origin') return { x: 0, y: 0 };
+      if (pivotKind === 'custom') return customPivot;
+      // The selection set keeps ids in the order they were picked
+      const ids = pivotKind === 'first' ? [...selectedShapeIds].slice(0, 1) : [...selectedShapeIds];
+      const bounds = getSelectionBounds(shapes.filter(s => ids.includes(s.id)));
+      return bounds && getBoundsCenter(bounds);
+  }, [pivotKind, customPivot, selectedShapeIds, shapes]);
+
+  const handlePivotChange = useCallback((pivot: Point) => {
+      setPivotKind('custom');
+      setCustomPivot(pivot);
+  }, []);
+
+  // Exact values typed into the inspector; attached and constrained shapes follow as when dragging
+  const handleInspectorChange = useCallback((updated: Shape[]) => {
+      saveHistory();
+      handleShapesUpdate(updated);
+  }, [saveHistory, handleShapesUpdate]);
+
+  // Both move whole groups; the selection order decides which shape counts as first
+  const handleAlign = useCallback((edge: AlignEdge) => {
+      const ids = [...selectedShapeIds];
+      if (alignTarget !== 'origin' && countAlignUnits(shapes, ids) < 2) {
+          window.alert('Select at least two shapes or groups to align, or align to the origin.');
+          return;
+      }
+      const moved = alignShapes(shapes, ids, edge, alignTarget);
+      if (moved.length === 0) return;
+      saveHistory();
+      handleShapesUpdate(moved);
+  }, [selectedShapeIds, shapes, alignTarget, saveHistory, handleShapesUpdate]);
+
+  const handleDistribute = useCallback((axis: DistributeAxis) => {
+      const ids = [...selectedShapeIds];
+      if (countAlignUnits(shapes, ids) < 3) {
+          window.alert('Select at least three shapes or groups to distribute.');
+          return;
+      }
+      const moved = distributeShapes(shapes, ids, axis, distributeMode);
+      if (moved.length === 0) return;
+      saveHistory();
+      handleShapesUpdate(moved);
+  }, [selectedShapeIds, shapes, distributeMode, saveHistory, handleShapesUpdate]);
+
   const handleNudge = useCallback((dx: number, dy: number) => {
       if (selectedShapeIds.size === 0) return;
       saveHistory();
-      setShapes(prev => prev.map(s => {
-          if (!selectedShapeIds.has(s.id)) return s;
+      // Goes through the same path as dragging, so attached and constrained shapes follow
+      handleShapesUpdate(shapes.filter(s => selectedShapeIds.has(s.id)).map(s => {
           const ns = { ...s };
           // Move Start/End
           ns.x1 += dx; ns.y1 += dy;
@@ -642,8 +848,242 @@ const App: React.FC = () => {
           }
           return ns;
       }));
+  }, [selectedShapeIds, shapes, saveHistory, handleShapesUpdate]);
+
+  // --- Layers ---
+  const handleAddLayer = useCallback(() => {
+      const layer = createLayer(layers);
+      setLayers(prev => [...prev, layer]);
+      setActiveLayerId(layer.id);
+  }, [layers]);
+
+  const handleUpdateLayer = useCallback((id: string, changes: Partial<Layer>) => {
+      setLayers(prev => prev.map(l => l.id === id ? { ...l, ...changes } : l));
+  }, []);
+
+  const handleMoveLayer = useCallback((id: string, direction: 1 | -1) => {
+      setLayers(prev => {
+          const index = prev.findIndex(l => l.id === id);
+          const target = index + direction;
+          if (index < 0 || target < 0 || target >= prev.length) return prev;
+          const next = [...prev];
+          [next[index], next[target]] = [next[target], next[index]];
+          return next;
+      });
+  }, []);
+
+  const handleDeleteLayer = useCallback((id: string) => {
+      if (layers.length <= 1) return;
+      const layer = layers.find(l => l.id === id);
+      if (!layer) return;
+      const owned = shapes.filter(s => resolveLayerId(s, layers) === id);
+      if (owned.length > 0) {
+          if (!window.confirm(`Delete layer "${layer.name}" and its ${owned.length} shape${owned.length === 1 ? '' : 's'}?`)) return;
+          saveHistory();
+          const ownedIds = new Set(owned.map(s => s.id));
+          setShapes(prev => prev.filter(s => !ownedIds.has(s.id)));
+          setSelectedShapeIds(prev => new Set([...prev].filter(sid => !ownedIds.has(sid))));
+      }
+      const remaining = layers.filter(l => l.id !== id);
+      setLayers(remaining);
+      if (activeLayerId === id) setActiveLayerId(remaining[remaining.length - 1].id);
+  }, [layers, shapes, activeLayerId, saveHistory]);
+
+  const handleMoveSelectionToLayer = useCallback((id: string) => {
+      if (selectedShapeIds.size === 0) return;
+      saveHistory();
+      setShapes(prev => prev.map(s => selectedShapeIds.has(s.id) ? { ...s, layerId: id } : s));
   }, [selectedShapeIds, saveHistory]);
 
+  // Hiding or locking a layer drops its shapes from the selection
+  useEffect(() => {
+      setSelectedShapeIds(prev => {
+          const next = new Set([...prev].filter(id => {
+              const s = shapes.find(sh => sh.id === id);
+              return !s || isShapeEditable(s, layers);
+          }));
+          return next.size === prev.size ? prev : next;
+      });
+  }, [layers]);
+
+  const layerShapeCounts = useMemo(() => {
+      const counts: Record<string, number> = {};
+      shapes.forEach(s => {
+          const id = resolveLayerId(s, layers);
+          if (id) counts[id] = (counts[id] || 0) + 1;
+      });
+      return counts;
+  }, [shapes, layers]);
+
+  // What is on screen, in paint order: used for thumbnails and image export
+  const visibleShapes = useMemo(() => sortShapesByLayer(shapes.filter(s => isShapeVisible(s, layers)), layers), [shapes, layers]);
+
+  // Constraints on deleted shapes are kept while undo could bring the shapes back
+  const activeConstraints = useMemo(() => getActiveConstraints(constraints, shapes), [constraints, shapes]);
+
+  const handleAddConstraint = useCallback((kind: ConstraintKind) => {
+      const selected = [...selectedShapeIds].map(id => shapes.find(s => s.id === id)).filter((s): s is Shape => !!s);
+      let added: Constraint[];
+      try {
+          added = createConstraints(kind, selected);
+      } catch (e) {
+          window.alert(e instanceof Error ? e.message : String(e));
+          return;
+      }
+      const next = [...constraints, ...added];
+      saveHistory();
+      setConstraints(next);
+      // The first shape selected stays put while the others move to satisfy the new constraint
+      setShapes(prev => solveConstraints(prev, next, new Set(selected.slice(0, 1).map(s => s.id))));
+  }, [selectedShapeIds, shapes, constraints, saveHistory]);
+
+  const handleDeleteConstraint = useCallback((id: string) => {
+      setConstraints(prev => prev.filter(c => c.id !== id));
+  }, []);
+
+  const handleConstraintValueChange = useCallback((id: string, value: number) => {
+      const next = constraints.map(c => c.id === id ? { ...c, value } : c);
+      const changed = next.find(c => c.id === id);
+      saveHistory();
+      setConstraints(next);
+      setShapes(prev => solveConstraints(prev, next, new Set(changed?.refs.slice(0, 1).map(r => r.shapeId))));
+  }, [constraints, saveHistory]);
+
+  // Adds constructed points (and bisector lines) built from the selected points, in selection order
+  const handleConstruct = useCallback((kind: PointConstructionKind) => {
+      const layer = layers.find(l => l.id === activeLayerId);
+      if (layer && (!layer.visible || layer.locked)) {
+          window.alert(`Layer "${layer.name}" is ${layer.locked ? 'locked' : 'hidden'}. Unlock or show it, or pick another layer, to draw.`);
+          return;
+      }
+      const selected = [...selectedShapeIds].map(id => shapes.find(s => s.id === id)).filter((s): s is Shape => !!s);
+      let added: Shape[];
+      try {
+          added = createConstruction(kind, selected, shapes, { style: lineStyle, lineWidth, strokeColor }, constructionAngle);
+      } catch (e) {
+          window.alert(e instanceof Error ? e.message : String(e));
+          return;
+      }
+      saveHistory();
+      setShapes(prev => [...prev, ...added.map(s => ({ ...s, layerId: activeLayerId }))]);
+      setSelectedShapeIds(new Set(added.map(s => s.id)));
+  }, [layers, activeLayerId, selectedShapeIds, shapes, lineStyle, lineWidth, strokeColor, constructionAngle, saveHistory]);
+
+  const getProjectDocument = useCallback((): ProjectDocument => ({
+      shapes,
+      layers,
+      constraints: activeConstraints,
+      view: { scale, offset },
+      exportOptions: { exportMode, showAxes, showGrid, exportAsNodes, layerOutput, axes: axesSettings, grid: gridSettings },
+      styleDefaults: { lineStyle, arrowStyle, lineWidth, fillColor, strokeColor, hatchStyle },
+  }), [shapes, layers, activeConstraints, scale, offset, exportMode, showAxes, showGrid, exportAsNodes, layerOutput, axesSettings, gridSettings, lineStyle, arrowStyle, lineWidth, fillColor, strokeColor, hatchStyle]);
+
+  const loadProjectDocument = useCallback((doc: ProjectDocument) => {
+      setShapes(doc.shapes);
+      setLayers(doc.layers);
+      setActiveLayerId(doc.layers[doc.layers.length - 1].id);
+      setConstraints(doc.constraints);
+      setHistory([]);
+      setFuture([]);
+      setSelectedShapeIds(new Set());
+      setMode('pan');
+      setScale(doc.view.scale);
+      setOffset(doc.view.offset);
+      setExportMode(doc.exportOptions.exportMode);
+      setShowAxes(doc.exportOptions.showAxes);
+      setShowGrid(doc.exportOptions.showGrid);
+      setExportAsNodes(doc.exportOptions.exportAsNodes);
+      setLayerOutput(doc.exportOptions.layerOutput);
+      setAxesSettings(doc.exportOptions.axes);
+      setGridSettings(doc.exportOptions.grid);
+      setLineStyle(doc.styleDefaults.lineStyle);
+      setArrowStyle(doc.styleDefaults.arrowStyle);
+      setLineWidth(doc.styleDefaults.lineWidth);
+      setFillColor(doc.styleDefaults.fillColor);
+      setStrokeColor(doc.styleDefaults.strokeColor);
+      setHatchStyle(doc.styleDefaults.hatchStyle);
+  }, []);
+
+  const handleSaveProject = useCallback(() => {
+      const blob = new Blob([serializeProject(getProjectDocument())], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${documentName.trim() || 'drawing'}${PROJECT_FILE_EXTENSION}`;
+      a.click();
+      URL.revokeObjectURL(url);
+      cleanShapesRef.current = shapes;
+  }, [getProjectDocument, documentName, shapes]);
+
+  const handleOpenProjectFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Allow re-opening the same file
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = () => {
+          try {
+              const doc = parseProject(reader.result as string);
+              loadProjectDocument(doc);
+              cleanShapesRef.current = doc.shapes;
+              setDocumentId(generateDocumentId());
+              setDocumentName(file.name.replace(PROJECT_FILE_EXTENSION, '').replace(/\.json$/i, ''));
+          } catch (error) {
+              const msg = error instanceof Error ? error.message : 'Unknown error';
+              window.alert(`Could not open project: ${msg}`);
+          }
+      };
+      reader.readAsText(file);
+  };
+
+  const handleOpenRecentDocument = useCallback((doc: RecentDocument) => {
+      loadProjectDocument(doc.project);
+      cleanShapesRef.current = doc.project.shapes;
+      setDocumentId(doc.id);
+      setDocumentName(doc.name);
+  }, [loadProjectDocument]);
+
+  // Startup: offer to restore a drawing that was never saved to a file
+  useEffect(() => {
+      loadAutosave()
+          .then(record => {
+              if (record && record.dirty && record.project.shapes.length > 0) setRecoveryRecord(record);
+              else setIsAutosaveReady(true);
+          })
+          .catch(() => setIsAutosaveReady(true));
+  }, []);
+
+  const handleRecover = useCallback(() => {
+      if (!recoveryRecord) return;
+      loadProjectDocument(recoveryRecord.project);
+      setHistory(recoveryRecord.history);
+      setFuture(recoveryRecord.future);
+      setDocumentId(recoveryRecord.documentId);
+      setDocumentName(recoveryRecord.documentName);
+      setRecoveryRecord(null);
+      setIsAutosaveReady(true);
+  }, [recoveryRecord, loadProjectDocument]);
+
+  const handleDiscardRecovery = useCallback(() => {
+      setRecoveryRecord(null);
+      clearAutosave().catch(() => {}).finally(() => setIsAutosaveReady(true));
+  }, []);
+
+  // Background persistence (debounced)
+  useEffect(() => {
+      if (!isAutosaveReady) return;
+      const timer = window.setTimeout(() => {
+          const project = getProjectDocument();
+          const dirty = shapes !== cleanShapesRef.current && shapes.length > 0;
+          saveAutosave({ documentId, documentName, project, history, future, savedAt: Date.now(), dirty })
+              .catch(e => console.warn('Autosave failed:', e));
+          if (shapes.length > 0) {
+              saveRecentDocument({ id: documentId, name: documentName, updatedAt: Date.now(), thumbnail: renderThumbnail(visibleShapes), project })
+                  .catch(e => console.warn('Could not update recent documents:', e));
+          }
+      }, AUTOSAVE_DELAY_MS);
+      return () => window.clearTimeout(timer);
+  }, [isAutosaveReady, getProjectDocument, shapes, visibleShapes, history, future, documentId, documentName]);
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.target instanceof HTMLInputElement) return;
@@ -673,6 +1113,11 @@ const App: React.FC = () => {
           return;
       }
 
+      if (isCtrlOrMeta && e.key.toLowerCase() === 's') { e.preventDefault(); handleSaveProject(); return; }
+      if (isCtrlOrMeta && e.key.toLowerCase() === 'o') { e.preventDefault(); projectInputRef.current?.click(); return; }
+
+      if (isCtrlOrMeta && e.key.toLowerCase() === 'g') { e.preventDefault(); if (e.shiftKey) handleUngroup(); else handleGroup(); return; }
+
       if (isCtrlOrMeta && e.key === 'd') { e.preventDefault(); handleDuplicate(); }
       if (isCtrlOrMeta && e.key === 'c') { e.preventDefault(); handleCopy(); }
       if (isCtrlOrMeta && e.key === 'v') { e.preventDefault(); handlePaste(); }
@@ -692,7 +1137,7 @@ const App: React.FC = () => {
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleUndo, handleRedo, handleSelectAll, handleDuplicate, handleCopy, handlePaste, handleDelete, selectedShapeIds, isRadiusModalOpen, handleNudge]);
+  }, [handleUndo, handleRedo, handleSelectAll, handleDuplicate, handleCopy, handlePaste, handleDelete, handleGroup, handleUngroup, selectedShapeIds, isRadiusModalOpen, handleNudge, handleSaveProject]);
 
   useEffect(() => {
     if (['measure', 'measure_radius', 'measure_angle', 'mark_angle', 'brace'].includes(mode)) { setLineWidth(1); } else if (mode !== 'pan') { setLineWidth(2); }
@@ -727,6 +1172,14 @@ const App: React.FC = () => {
       }
   };
 
+  const toggleSnapKind = (kind: SnapKind) => {
+    setSnapKinds(prev => {
+      const next = new Set(prev);
+      if (next.has(kind)) next.delete(kind); else next.add(kind);
+      return next;
+    });
+  };
+
   const handleTextChange = (text: string) => {
     if (selectedShapeIds.size === 1) {
         saveHistory();
@@ -735,24 +1188,54 @@ const App: React.FC = () => {
   };
 
   useEffect(() => { 
-      if (mode !== 'pan' && mode !== 'circular_pattern' && mode !== 'mirror_axis') setSelectedShapeIds(new Set()); 
+      if (mode !== 'pan' && mode !== 'circular_pattern' && mode !== 'mirror_axis' && mode !== 'offset_side') setSelectedShapeIds(new Set()); 
+      setCornerPick(null);
   }, [mode]);
 
   const showArrowControls = useMemo(() => {
-      if (mode === 'line' || mode === 'arc' || mode === 'bezier' || mode === 'measure_radius') return true;
+      if (mode === 'line' || mode === 'arc' || mode === 'bezier' || mode === 'measure_radius' || mode === 'plot' || mode === 'polyline') return true;
       if (selectedShapeIds.size === 0) return false;
-      return shapes.some(s => selectedShapeIds.has(s.id) && (s.type === 'line' || s.type === 'arc' || s.type === 'bezier' || s.type === 'measure_radius'));
+      return shapes.some(s => selectedShapeIds.has(s.id) && (s.type === 'line' || s.type === 'arc' || s.type === 'bezier' || s.type === 'measure_radius' || s.type === 'plot' || (s.type === 'polygon' && !s.closed)));
   }, [mode, selectedShapeIds, shapes]);
   
   const showFillControls = useMemo(() => {
-      const fillable = ['rect', 'round_rect', 'circle', 'ellipse', 'freehand'];
+      const fillable = ['rect', 'round_rect', 'circle', 'ellipse', 'freehand', 'polygon', 'compound'];
       if (fillable.includes(mode)) return true;
       if (selectedShapeIds.size === 0) return false;
-      return shapes.some(s => selectedShapeIds.has(s.id) && fillable.includes(s.type));
+      return shapes.some(s => selectedShapeIds.has(s.id) && fillable.includes(s.type) && (s.type !== 'polygon' || s.closed));
   }, [mode, selectedShapeIds, shapes]);
 
+  const canCombine = useMemo(() => shapes.filter(s => selectedShapeIds.has(s.id) && isBooleanOperand(s)).length >= 2, [selectedShapeIds, shapes]);
+
   const controlsActive = mode !== 'pan' || selectedShapeIds.size > 0;
   const singleSelectedShape = selectedShapeIds.size === 1 ? shapes.find(s => s.id === Array.from(selectedShapeIds)[0]) : null;
+  const canGroup = countSelectionUnits(selectedShapeIds, shapes) >= 2;
+  const canUngroup = shapes.some(s => selectedShapeIds.has(s.id) && s.groupIds?.length);
+  // The plot controls edit the selected plot, or else what the plot tool draws next
+  const selectedPlot = singleSelectedShape?.type === 'plot' && singleSelectedShape.plot ? singleSelectedShape : null;
+  const activePlot = selectedPlot?.plot ?? plotDefinition;
+  const plotErrors = getPlotErrors(activePlot);
+
+  const handlePlotChange = (changes: Partial<PlotDefinition>) => {
+      const next = { ...activePlot, ...changes };
+      setPlotDefinition(next);
+      if (selectedPlot) {
+          saveHistory();
+          setShapes(prev => prev.map(s => s.id === selectedPlot.id ? { ...s, plot: next } : s));
+      }
+  };
+
+  // Domain ends accept expressions such as 2*pi; an invalid entry is put back
+  const handlePlotDomainCommit = (index: 0 | 1, input: HTMLInputElement) => {
+      let value: number;
+      try { value = evaluateNumber(input.value); } catch (e) {
+          window.alert((e as Error).message);
+          input.value = String(Math.round(activePlot.domain[index] * 1000) / 1000);
+          return;
+      }
+      if (value === activePlot.domain[index]) return;
+      handlePlotChange({ domain: index === 0 ? [value, activePlot.domain[1]] : [activePlot.domain[0], value] });
+  };
 
   return (
     <div className="flex flex-col h-full w-full bg-slate-950 text-slate-200">
@@ -762,6 +1245,7 @@ const App: React.FC = () => {
             <h1 className="text-xl font-bold bg-gradient-to-r from-cyan-400 to-blue-500 bg-clip-text text-transparent leading-none tracking-tight">
                 TikZ CAD
             </h1>
+            <input type="text" value={documentName} onChange={(e) => setDocumentName(e.target.value)} className="ml-3 bg-transparent text-xs text-slate-400 border border-transparent hover:border-slate-700 focus:border-cyan-500 rounded px-1.5 py-0.5 w-36 focus:outline-none focus:text-slate-200" title="Document Name" />
           </div>
 
           <div className="flex flex-wrap justify-center items-center gap-2 overflow-x-auto scrollbar-hide">
@@ -773,15 +1257,51 @@ const App: React.FC = () => {
                     <input type="checkbox" checked={showGrid} onChange={(e) => setShowGrid(e.target.checked)} className="w-3.5 h-3.5 rounded border-slate-600 bg-slate-800 text-indigo-600 focus:ring-indigo-500 focus:ring-offset-slate-900"/>
                     <span className="text-xs font-bold text-slate-400 group-hover:text-slate-200 transition-colors">Grid</span>
                 </label>
+                <button onClick={() => setIsAxesPanelOpen(open => !open)} className={`p-1 rounded transition-colors ${isAxesPanelOpen ? 'text-cyan-400 bg-slate-800' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'}`} title="Axes & Grid Settings">
+                  <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M4 20V4l-2 2M4 4l2 2"/><path d="M4 20h16l-2-2M20 20l-2 2"/><path d="M8 20v-2M12 20v-2M16 20v-2M4 16h2M4 12h2M4 8h2"/></svg>
+                </button>
                 <label className="flex items-center gap-1.5 cursor-pointer select-none group whitespace-nowrap">
                     <input type="checkbox" checked={exportAsNodes} onChange={(e) => setExportAsNodes(e.target.checked)} className="w-3.5 h-3.5 rounded border-slate-600 bg-slate-800 text-indigo-600 focus:ring-indigo-500 focus:ring-offset-slate-900"/>
                     <span className="text-xs font-bold text-slate-400 group-hover:text-slate-200 transition-colors">Nodes</span>
                 </label>
                 <div className="w-px h-6 bg-slate-800 mx-1"></div>
+                <input type="file" accept=".json,application/json" ref={projectInputRef} onChange={handleOpenProjectFile} className="hidden" />
+                <button onClick={() => projectInputRef.current?.click()} className="px-2.5 py-1 bg-slate-700 hover:bg-slate-600 text-white text-xs font-bold rounded shadow-sm flex items-center gap-2 transition-colors whitespace-nowrap" title="Open Project (Ctrl+O)">
+                  <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 7a2 2 0 0 1 2-2h4l2 2h8a2 2 0 0 1 2 2v9a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2z"></path></svg>
+                  Open
+                </button>
+                <button onClick={handleSaveProject} className="px-2.5 py-1 bg-slate-700 hover:bg-slate-600 text-white text-xs font-bold rounded shadow-sm flex items-center gap-2 transition-colors whitespace-nowrap" title="Save Project (Ctrl+S)">
+                  <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z"></path><polyline points="17 21 17 13 7 13 7 21"></polyline><polyline points="7 3 7 8 15 8"></polyline></svg>
+                  Save
+                </button>
+                <button onClick={() => setIsRecentModalOpen(true)} className="px-2.5 py-1 bg-slate-700 hover:bg-slate-600 text-white text-xs font-bold rounded shadow-sm flex items-center gap-2 transition-colors whitespace-nowrap" title="Recent Documents">
+                  <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"></circle><polyline points="12 6 12 12 16 14"></polyline></svg>
+                  Recent
+                </button>
+                <button onClick={() => setIsImportModalOpen(true)} className="px-2.5 py-1 bg-slate-700 hover:bg-slate-600 text-white text-xs font-bold rounded shadow-sm flex items-center gap-2 transition-colors whitespace-nowrap" title="Import TikZ Code">
+                  <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line></svg>
+                  Import
+                </button>
                 <button onClick={() => setIsTemplateModalOpen(true)} className="px-2.5 py-1 bg-slate-700 hover:bg-slate-600 text-white text-xs font-bold rounded shadow-sm flex items-center gap-2 transition-colors whitespace-nowrap" title="Insert Template">
                   <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="3" width="7" height="7"></rect><rect x="14" y="3" width="7" height="7"></rect><rect x="14" y="14" width="7" height="7"></rect><rect x="3" y="14" width="7" height="7"></rect></svg>
                   Templates
                 </button>
+                <button onClick={() => setIsLayersPanelOpen(open => !open)} className={`px-2.5 py-1 ${isLayersPanelOpen ? 'bg-cyan-700 hover:bg-cyan-600' : 'bg-slate-700 hover:bg-slate-600'} text-white text-xs font-bold rounded shadow-sm flex items-center gap-2 transition-colors whitespace-nowrap`} title="Layers">
+                  <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 2L2 7l10 5 10-5-10-5zM2 17l10 5 10-5M2 12l10 5 10-5"/></svg>
+                  Layers
+                </button>
+                <button onClick={() => setIsInspectorOpen(open => !open)} className={`px-2.5 py-1 ${isInspectorOpen ? 'bg-cyan-700 hover:bg-cyan-600' : 'bg-slate-700 hover:bg-slate-600'} text-white text-xs font-bold rounded shadow-sm flex items-center gap-2 transition-colors whitespace-nowrap`} title="Properties: exact coordinates and dimensions of the selection">
+                  <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M4 6h10"/><path d="M4 12h6"/><path d="M4 18h10"/><circle cx="18" cy="6" r="2"/><circle cx="14" cy="12" r="2"/><circle cx="18" cy="18" r="2"/></svg>
+                  Properties
+                </button>
+                <button onClick={() => setIsConstraintsPanelOpen(open => !open)} className={`px-2.5 py-1 ${isConstraintsPanelOpen ? 'bg-cyan-700 hover:bg-cyan-600' : 'bg-slate-700 hover:bg-slate-600'} text-white text-xs font-bold rounded shadow-sm flex items-center gap-2 transition-colors whitespace-nowrap`} title="Constraints">
+                  <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M4 20V4"/><path d="M4 20h16"/><rect x="4" y="14" width="6" height="6"/><circle cx="17" cy="7" r="3"/></svg>
+                  Constraints
+                </button>
+                <button onClick={() => setIsImageExportModalOpen(true)} className="px-2.5 py-1 bg-slate-700 hover:bg-slate-600 text-white text-xs font-bold rounded shadow-sm flex items-center gap-2 transition-colors whitespace-nowrap" title="Export PNG / PDF">
+                  <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="3" width="18" height="18" rx="2" ry="2"></rect><circle cx="8.5" cy="8.5" r="1.5"></circle><polyline points="21 15 16 10 5 21"></polyline></svg>
+                  Image
+                </button>
                 <button onClick={() => { setExportMode('standard'); setIsExportModalOpen(true); }} className="px-2.5 py-1 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold rounded shadow-sm flex items-center gap-2 transition-colors whitespace-nowrap" title="Generate Optimized TikZ Code">
                   <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m12 3-1.912 5.813a2 2 0 0 1-1.275 1.275L3 12l5.813 1.912a2 2 0 0 1 1.275 1.275L12 21l1.912-5.813a2 2 0 0 1 1.275-1.275L12 3Z"></path></svg>
                   TikZ
@@ -794,6 +1314,10 @@ const App: React.FC = () => {
                   <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 2L2 7l10 5 10-5-10-5zM2 17l10 5 10-5M2 12l10 5 10-5"/></svg>
                   Luamplib
                 </button>
+                <button onClick={() => { setExportMode('pgfplots'); setIsExportModalOpen(true); }} className="px-2.5 py-1 bg-amber-600 hover:bg-amber-500 text-white text-xs font-bold rounded shadow-sm flex items-center gap-2 transition-colors whitespace-nowrap" title="Generate pgfplots Axis Code">
+                  <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 3v18h18"></path><path d="M7 15c3-8 6-8 10-2"></path></svg>
+                  pgfplots
+                </button>
           </div>
 
           <div className="flex justify-end items-center min-w-fit">
@@ -816,6 +1340,8 @@ const App: React.FC = () => {
               <button onClick={() => setMode('pan')} className={`p-1.5 rounded transition-colors ${mode === 'pan' ? 'bg-cyan-600 text-white shadow' : 'hover:bg-slate-700 text-slate-400 hover:text-slate-200'}`} title="Pan & Select Mode"><svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M5 9l-3 3 3 3M9 5l3-3 3 3M19 9l3 3-3 3M9 19l3 3 3-3M2 12h20M12 2v20" /></svg></button>
               <div className="w-px bg-slate-700 mx-1"></div>
               <button onClick={() => setMode('freehand')} className={`p-1.5 rounded transition-colors ${mode === 'freehand' ? 'bg-yellow-600 text-white shadow' : 'hover:bg-slate-700 text-slate-400 hover:text-slate-200'}`} title="Freehand"><svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="m18 15-6-6-6 6"/><path d="m21 12-6-6-6 6"/><path d="M3 21h18"/><path d="M3 21v-8a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2v8"/></svg></button>
+              <button onClick={() => setMode('polygon')} className={`p-1.5 rounded transition-colors ${mode === 'polygon' ? 'bg-yellow-600 text-white shadow' : 'hover:bg-slate-700 text-slate-400 hover:text-slate-200'}`} title="Polygon (click each vertex; click the first vertex, double-click or press Enter to close)"><svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinejoin="round"><path d="M12 3l9 7-3.5 11h-11L3 10z" /></svg></button>
+              <button onClick={() => setMode('polyline')} className={`p-1.5 rounded transition-colors ${mode === 'polyline' ? 'bg-yellow-600 text-white shadow' : 'hover:bg-slate-700 text-slate-400 hover:text-slate-200'}`} title="Polyline (click each vertex; double-click or press Enter to finish)"><svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinejoin="round"><path d="M3 20l5-12 6 8 7-12" /></svg></button>
               <button onClick={() => setMode('line')} className={`p-1.5 rounded transition-colors ${mode === 'line' ? 'bg-yellow-600 text-white shadow' : 'hover:bg-slate-700 text-slate-400 hover:text-slate-200'}`} title="Line"><svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><line x1="3" y1="21" x2="21" y2="3" /><path d="M3 21l4-4" /><path d="M21 3l-4 4" /></svg></button>
               <button onClick={() => setMode('bezier')} className={`p-1.5 rounded transition-colors ${mode === 'bezier' ? 'bg-yellow-600 text-white shadow' : 'hover:bg-slate-700 text-slate-400 hover:text-slate-200'}`} title="Bezier Curve"><svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M3 12c0-8 18-8 18 0" /><path d="M3 12v1" /><path d="M21 12v1" /></svg></button>
               <button onClick={() => setMode('rect')} className={`p-1.5 rounded transition-colors ${mode === 'rect' ? 'bg-yellow-600 text-white shadow' : 'hover:bg-slate-700 text-slate-400 hover:text-slate-200'}`} title="Rectangle"><svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect x="3" y="3" width="18" height="18" rx="2" ry="2" /></svg></button>
@@ -828,20 +1354,37 @@ const App: React.FC = () => {
               <button onClick={() => setMode('mark_angle')} className={`p-1.5 rounded transition-colors ${mode === 'mark_angle' ? 'bg-yellow-600 text-white shadow' : 'hover:bg-slate-700 text-slate-400 hover:text-slate-200'}`} title="Mark Angle"><svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M19 5L5 19" /><path d="M5 5l14 14" /><path d="M12 15a3 3 0 0 1 0-6" /></svg></button>
               <button onClick={() => setMode('brace')} className={`p-1.5 rounded transition-colors ${mode === 'brace' ? 'bg-yellow-600 text-white shadow' : 'hover:bg-slate-700 text-slate-400 hover:text-slate-200'}`} title="Curly Brace"><svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M8 3v5a5 5 0 0 0 5 5v0a5 5 0 0 1-5 5v5" /></svg></button>
               <button onClick={() => setMode('text')} className={`p-1.5 rounded transition-colors ${mode === 'text' ? 'bg-yellow-600 text-white shadow' : 'hover:bg-slate-700 text-slate-400 hover:text-slate-200'}`} title="Text Label"><svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M4 7V4h16v3" /><path d="M9 20h6" /><path d="M12 4v16" /></svg></button>
+              <button onClick={() => setMode('point')} className={`p-1.5 rounded transition-colors ${mode === 'point' ? 'bg-yellow-600 text-white shadow' : 'hover:bg-slate-700 text-slate-400 hover:text-slate-200'}`} title="Named Point"><svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><circle cx="8" cy="16" r="2.5" fill="currentColor" /><path d="M13 10l3-6 3 6M14 8h4" /></svg></button>
+              <button onClick={() => setMode('plot')} className={`p-1.5 rounded transition-colors ${mode === 'plot' ? 'bg-yellow-600 text-white shadow' : 'hover:bg-slate-700 text-slate-400 hover:text-slate-200'}`} title="Function Plot"><svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M3 3v18h18" /><path d="M6 16c2-7 4-10 6-5s4 3 7-7" /></svg></button>
             </div>
             <button onClick={() => setIsSnapEnabled(!isSnapEnabled)} className={`p-2 rounded border border-slate-700 transition-colors ${isSnapEnabled ? 'bg-cyan-900/50 border-cyan-500 text-cyan-400' : 'bg-slate-800 text-slate-400 hover:border-slate-500'}`} title="Toggle Grid Snapping">
               <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M3 3h18v18H3zM12 8v8M8 12h8" /></svg>
             </button>
+            <div className="flex bg-slate-800 rounded p-1 gap-0.5 border border-slate-700">
+              {SNAP_KINDS.map(kind => (
+                <button key={kind} onClick={() => toggleSnapKind(kind)} className={`px-1.5 py-0.5 rounded text-[10px] font-mono transition-colors ${snapKinds.has(kind) ? 'bg-cyan-900/50 text-cyan-400' : 'text-slate-500 hover:text-slate-300'}`} title={`Snap to ${SNAP_KIND_LABELS[kind].toLowerCase()}`}>{SNAP_KIND_LABELS[kind].slice(0, 3)}</button>
+              ))}
+            </div>
         </div>
 
         {/* Row 2: Editing & Transformation Tools */}
         <div className="flex flex-wrap items-center justify-center gap-2 w-full pt-1">
-            {singleSelectedShape?.type === 'text' && (
+            {(singleSelectedShape?.type === 'text' || singleSelectedShape?.type === 'point') && (
               <div className="flex items-center gap-2">
-                <input type="text" value={singleSelectedShape.text || ''} onChange={(e) => handleTextChange(e.target.value)} placeholder="Label text..." className="bg-slate-800 text-sm text-slate-100 border border-slate-700 rounded px-2 py-1 focus:outline-none focus:border-cyan-500 w-32" />
+                <input type="text" value={singleSelectedShape.text || ''} onChange={(e) => handleTextChange(e.target.value)} placeholder={singleSelectedShape.type === 'point' ? 'Point name...' : 'Label text...'} className="bg-slate-800 text-sm text-slate-100 border border-slate-700 rounded px-2 py-1 focus:outline-none focus:border-cyan-500 w-32" />
                 <div className="h-6 w-px bg-slate-700 mx-1"></div>
               </div>
             )}
+            {selectedShapeIds.size > 0 && (
+              <div className="flex items-center gap-2">
+                 <select value="" onChange={(e) => { if (e.target.value) handleConstruct(e.target.value as PointConstructionKind); }} className="bg-slate-800 text-xs text-slate-200 border border-slate-700 rounded px-1 py-1 appearance-none" title="Construct from the selected points, in selection order">
+                    <option value="">Construct...</option>
+                    {(Object.keys(CONSTRUCTION_LABELS) as PointConstructionKind[]).map(kind => <option key={kind} value={kind}>{CONSTRUCTION_LABELS[kind]}</option>)}
+                 </select>
+                 <input type="number" step="5" value={constructionAngle} onChange={(e) => setConstructionAngle(Number(e.target.value))} className="bg-slate-800 text-xs text-slate-200 border border-slate-700 rounded px-1 py-1 w-12 text-center" title="Angle of Point on Circle (degrees)" />
+                 <div className="h-6 w-px bg-slate-700 mx-1"></div>
+              </div>
+            )}
             {singleSelectedShape?.type === 'round_rect' && (
               <div className="flex items-center gap-2">
                  <label className="text-[10px] text-slate-500 font-bold uppercase mb-0.5">Radius</label>
@@ -849,6 +1392,48 @@ const App: React.FC = () => {
                  <div className="h-6 w-px bg-slate-700 mx-1"></div>
               </div>
             )}
+            {mode === 'arc' && (
+              <div className="flex items-center gap-2">
+                 <label className="text-[10px] text-slate-500 font-bold uppercase mb-0.5">Arc</label>
+                 <select value={arcMode} onChange={(e) => setArcMode(e.target.value as ArcMode)} className="bg-slate-800 text-xs text-slate-200 border border-slate-700 rounded px-1 py-1 appearance-none" title="How the arc's points are picked">
+                    <option value="center">Center, start, end</option><option value="three_point">Three points</option>
+                 </select>
+                 <div className="h-6 w-px bg-slate-700 mx-1"></div>
+              </div>
+            )}
+            {(mode === 'plot' || selectedPlot) && (
+              <div className="flex items-center gap-2">
+                 <select value={activePlot.kind} onChange={(e) => handlePlotChange(PLOT_PRESETS[e.target.value as PlotKind])} className="bg-slate-800 text-xs text-slate-200 border border-slate-700 rounded px-1 py-1 appearance-none" title="Kind of curve">
+                    {PLOT_KINDS.map(kind => <option key={kind} value={kind}>{PLOT_KIND_LABELS[kind]}</option>)}
+                 </select>
+                 <label className="text-[10px] text-slate-500 font-bold uppercase mb-0.5">{activePlot.kind === 'cartesian' ? 'y =' : activePlot.kind === 'parametric' ? 'x =' : 'r ='}</label>
+                 <input type="text" value={activePlot.expression} onChange={(e) => handlePlotChange({ expression: e.target.value })} title={plotErrors[0] ?? (activePlot.kind === 'polar' ? 'Use θ, theta or t for the angle in radians' : `Expression in ${activePlot.kind === 'cartesian' ? 'x' : 't'}`)} className={`bg-slate-800 text-xs font-mono text-slate-100 border rounded px-2 py-1 focus:outline-none w-32 ${plotErrors[0] ? 'border-red-500' : 'border-slate-700 focus:border-cyan-500'}`} />
+                 {activePlot.kind === 'parametric' && (<>
+                    <label className="text-[10px] text-slate-500 font-bold uppercase mb-0.5">y =</label>
+                    <input type="text" value={activePlot.expressionY ?? ''} onChange={(e) => handlePlotChange({ expressionY: e.target.value })} title={plotErrors[1] ?? 'Expression in t'} className={`bg-slate-800 text-xs font-mono text-slate-100 border rounded px-2 py-1 focus:outline-none w-32 ${plotErrors[1] ? 'border-red-500' : 'border-slate-700 focus:border-cyan-500'}`} />
+                 </>)}
+                 <label className="text-[10px] text-slate-500 font-bold uppercase mb-0.5">{activePlot.kind === 'cartesian' ? 'x' : activePlot.kind === 'parametric' ? 't' : 'θ'}</label>
+                 {([0, 1] as const).map(index => (
+                    <input key={`${index}:${activePlot.domain[index]}`} type="text" defaultValue={String(Math.round(activePlot.domain[index] * 1000) / 1000)} onBlur={(e) => handlePlotDomainCommit(index, e.target)} onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }} className="bg-slate-800 text-xs text-slate-200 border border-slate-700 rounded px-1 py-1 w-14 text-center" title={index === 0 ? 'Domain start, e.g. -pi' : 'Domain end, e.g. 2*pi'} />
+                 ))}
+                 <input type="number" min="2" max={MAX_PLOT_SAMPLES} step="10" value={activePlot.samples} onChange={(e) => { const n = Math.round(Number(e.target.value)); if (n >= 2 && n <= MAX_PLOT_SAMPLES) handlePlotChange({ samples: n }); }} className="bg-slate-800 text-xs text-slate-200 border border-slate-700 rounded px-1 py-1 w-14 text-center" title="Samples" />
+                 <div className="h-6 w-px bg-slate-700 mx-1"></div>
+              </div>
+            )}
+            {singleSelectedShape?.type === 'mark_angle' && (
+              <div className="flex items-center gap-2">
+                 <label className="text-[10px] text-slate-500 font-bold uppercase mb-0.5">Radius</label>
+                 <input type="number" step="0.1" min="0.1" value={singleSelectedShape.angleRadius ?? 0.5} onChange={(e) => { const r = Number(e.target.value); if (r > 0) updateSelectedProperty('angleRadius', r); }} className="bg-slate-800 text-xs text-slate-200 border border-slate-700 rounded px-1 py-1 w-14 text-center" />
+                 <select value={singleSelectedShape.angleArcs ?? 1} disabled={!!singleSelectedShape.rightAngle} onChange={(e) => updateSelectedProperty('angleArcs', Number(e.target.value))} className="bg-slate-800 text-xs text-slate-200 border border-slate-700 rounded px-1 py-1 appearance-none disabled:opacity-40" title="Number of arcs">
+                    <option value={1}>1 arc</option><option value={2}>2 arcs</option><option value={3}>3 arcs</option>
+                 </select>
+                 <label className="flex items-center gap-1 text-xs text-slate-300 cursor-pointer">
+                    <input type="checkbox" checked={!!singleSelectedShape.rightAngle} onChange={(e) => updateSelectedProperty('rightAngle', e.target.checked)} className="accent-cyan-500" />Right
+                 </label>
+                 <input type="text" value={singleSelectedShape.text || ''} onChange={(e) => handleTextChange(e.target.value)} placeholder="Label, e.g. $\alpha$" className="bg-slate-800 text-xs text-slate-100 border border-slate-700 rounded px-2 py-1 focus:outline-none focus:border-cyan-500 w-28" />
+                 <div className="h-6 w-px bg-slate-700 mx-1"></div>
+              </div>
+            )}
             {singleSelectedShape?.type === 'circle' && (
                <button onClick={handleAddDiameter} className="px-3 py-1 bg-yellow-600/20 hover:bg-yellow-600/40 border border-yellow-600 text-yellow-500 hover:text-yellow-400 text-xs font-bold rounded flex items-center gap-2 transition-colors mr-2">
                   <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><circle cx="12" cy="12" r="10"/><path d="m4.93 4.93 14.14 14.14"/></svg>Add Diameter
@@ -896,8 +1481,13 @@ const App: React.FC = () => {
             <button onClick={handleMirrorTool} disabled={selectedShapeIds.size === 0} className={`p-2 rounded transition-colors ${selectedShapeIds.size > 0 && mode === 'mirror_axis' ? 'bg-pink-600 text-white' : selectedShapeIds.size > 0 ? 'text-slate-200 hover:text-white hover:bg-slate-700' : 'text-slate-600 cursor-not-allowed'}`} title="Mirror across Line (Draw Axis)">
                <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="m18 8-4-4 4-4"/><path d="M14 4h7a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H2"/><path d="M12 2v20"/></svg>
             </button>
+            <button onClick={() => setIsTransformPanelOpen(open => !open)} className={`p-2 rounded transition-colors ${isTransformPanelOpen ? 'bg-cyan-600 text-white' : 'text-slate-200 hover:text-white hover:bg-slate-700'}`} title="Transform: rotate, scale or skew the selection about a pivot">
+               <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect x="4" y="4" width="16" height="16" strokeDasharray="3 3"/><rect x="2" y="2" width="4" height="4" fill="currentColor"/><rect x="18" y="18" width="4" height="4" fill="currentColor"/><path d="M12 4V1"/><circle cx="12" cy="12" r="2"/></svg>
+            </button>
             
             <button onClick={handleDuplicate} disabled={selectedShapeIds.size === 0} className={`p-2 rounded transition-colors ${selectedShapeIds.size > 0 ? 'text-slate-200 hover:text-white hover:bg-slate-700' : 'text-slate-600 cursor-not-allowed'}`} title="Duplicate"><svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect x="9" y="9" width="13" height="13" rx="2" ry="2"></rect><path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"></path></svg></button>
+            <button onClick={handleGroup} disabled={!canGroup} className={`p-2 rounded transition-colors ${canGroup ? 'text-slate-200 hover:text-white hover:bg-slate-700' : 'text-slate-600 cursor-not-allowed'}`} title="Group (Ctrl+G)"><svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect x="2" y="2" width="20" height="20" rx="2" strokeDasharray="4 3" /><rect x="6" y="6" width="6" height="6" /><circle cx="15.5" cy="15.5" r="3" /></svg></button>
+            <button onClick={handleUngroup} disabled={!canUngroup} className={`p-2 rounded transition-colors ${canUngroup ? 'text-slate-200 hover:text-white hover:bg-slate-700' : 'text-slate-600 cursor-not-allowed'}`} title="Ungroup (Ctrl+Shift+G)"><svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect x="3" y="3" width="8" height="8" /><circle cx="17" cy="17" r="4" /></svg></button>
             
             <div className="flex items-center gap-2 p-1.5 bg-slate-800/50 rounded border border-slate-700">
                <div className="flex flex-col">
@@ -931,9 +1521,72 @@ const App: React.FC = () => {
             <div className="flex items-center gap-2 p-1.5 bg-slate-800/50 rounded border border-slate-700">
                <div className="flex flex-col">
                    <label className="text-[10px] text-slate-500 font-bold uppercase mb-0.5">Dist</label>
-                   <input type="number" value={offsetDistance} onChange={(e) => setOffsetDistance(Number(e.target.value))} className="bg-slate-800 text-xs text-slate-200 border border-slate-700 rounded px-1 py-1 w-12 text-center" step="0.1" title="Offset Distance"/>
+                   <input type="number" min="0" value={offsetDistance} onChange={(e) => setOffsetDistance(Number(e.target.value))} className="bg-slate-800 text-xs text-slate-200 border border-slate-700 rounded px-1 py-1 w-12 text-center" step="0.1" title="Offset Distance"/>
                </div>
-               <button onClick={handleOffset} disabled={selectedShapeIds.size === 0} className={`p-2 rounded transition-colors ${selectedShapeIds.size > 0 ? 'text-slate-200 hover:text-white hover:bg-slate-700' : 'text-slate-600 cursor-not-allowed'}`} title="Offset Shape"><svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect x="3" y="3" width="18" height="18" rx="2" /><rect x="7" y="7" width="10" height="10" rx="1" /></svg></button>
+               <div className="flex flex-col">
+                   <label className="text-[10px] text-slate-500 font-bold uppercase mb-0.5">Side</label>
+                   <select value={offsetSide} onChange={(e) => setOffsetSide(e.target.value as OffsetSide)} className="bg-slate-800 text-xs text-slate-200 border border-slate-700 rounded px-1 py-1 appearance-none w-20" title="Where closed shapes are offset to; lines, polylines and curves always take a click">
+                      {(Object.keys(OFFSET_SIDE_LABELS) as OffsetSide[]).map(side => <option key={side} value={side}>{OFFSET_SIDE_LABELS[side]}</option>)}
+                   </select>
+               </div>
+               <div className="flex flex-col">
+                   <label className="text-[10px] text-slate-500 font-bold uppercase mb-0.5">Join</label>
+                   <select value={offsetJoin} onChange={(e) => setOffsetJoin(e.target.value as OffsetJoin)} className="bg-slate-800 text-xs text-slate-200 border border-slate-700 rounded px-1 py-1 appearance-none w-16" title="Outer corners of offset polygons and rectangles">
+                      {OFFSET_JOINS.map(join => <option key={join} value={join}>{OFFSET_JOIN_LABELS[join]}</option>)}
+                   </select>
+               </div>
+               <button onClick={() => handleOffset()} disabled={selectedShapeIds.size === 0} className={`p-2 rounded transition-colors ${selectedShapeIds.size > 0 && mode === 'offset_side' ? 'bg-cyan-600 text-white' : selectedShapeIds.size > 0 ? 'text-slate-200 hover:text-white hover:bg-slate-700' : 'text-slate-600 cursor-not-allowed'}`} title="Offset Shape"><svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect x="3" y="3" width="18" height="18" rx="2" /><rect x="7" y="7" width="10" height="10" rx="1" /></svg></button>
+            </div>
+
+            <div className="flex items-center gap-1 p-1.5 bg-slate-800/50 rounded border border-slate-700">
+               {BOOLEAN_OPS.map(op => (
+                   <button key={op} onClick={() => handleBoolean(op)} disabled={!canCombine} className={`p-1.5 rounded transition-colors ${canCombine ? 'text-slate-200 hover:text-white hover:bg-slate-700' : 'text-slate-600 cursor-not-allowed'}`} title={BOOLEAN_TITLES[op]}>
+                       <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+                           <defs><clipPath id={`bool-${op}`}><circle cx="9" cy="12" r="6" /></clipPath></defs>
+                           <g fill="currentColor" fillOpacity="0.5" stroke="none">
+                               {op !== 'intersection' && <circle cx="9" cy="12" r="6" />}
+                               {(op === 'union' || op === 'xor') && <circle cx="15" cy="12" r="6" />}
+                               {op === 'intersection' && <circle cx="15" cy="12" r="6" clipPath={`url(#bool-${op})`} />}
+                               {op !== 'union' && op !== 'intersection' && <circle cx="15" cy="12" r="6" clipPath={`url(#bool-${op})`} fill="#020617" fillOpacity="1" />}
+                           </g>
+                           <circle cx="9" cy="12" r="6" /><circle cx="15" cy="12" r="6" />
+                       </svg>
+                   </button>
+               ))}
+            </div>
+
+            <div className="flex items-center gap-1 p-1.5 bg-slate-800/50 rounded border border-slate-700">
+               {EDIT_TOOLS.map(tool => (
+                   <button key={tool} onClick={() => setMode(tool)} className={`p-1.5 rounded transition-colors ${mode === tool ? 'bg-cyan-600 text-white' : 'text-slate-200 hover:text-white hover:bg-slate-700'}`} title={EDIT_TOOL_TITLES[tool]}>
+                       <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round">{EDIT_TOOL_ICONS[tool]}</svg>
+                   </button>
+               ))}
+               {mode === 'fillet' && (
+                 <>
+                   <select value={cornerKind} onChange={(e) => setCornerKind(e.target.value as CornerKind)} className="bg-slate-800 text-xs text-slate-200 border border-slate-700 rounded px-1 py-1 appearance-none" title="Round the corner with an arc, or cut it with a bevel">
+                      <option value="fillet">Fillet</option><option value="chamfer">Chamfer</option>
+                   </select>
+                   <input type="number" min="0" step="0.1" value={cornerSize} onChange={(e) => setCornerSize(Number(e.target.value))} className="bg-slate-800 text-xs text-slate-200 border border-slate-700 rounded px-1 py-1 w-12 text-center" title={cornerKind === 'fillet' ? 'Fillet radius; 0 just joins the lines' : 'Chamfer distance along each line; 0 just joins the lines'} />
+                 </>
+               )}
+            </div>
+            <div className="flex items-center gap-1 p-1.5 bg-slate-800/50 rounded border border-slate-700">
+               <select value={alignTarget} onChange={(e) => setAlignTarget(e.target.value as AlignTarget)} className="bg-slate-800 text-xs text-slate-200 border border-slate-700 rounded px-1 py-1 appearance-none w-20" title="What the selection is aligned to">
+                  {ALIGN_TARGETS.map(target => <option key={target} value={target}>{ALIGN_TARGET_LABELS[target]}</option>)}
+               </select>
+               {ALIGN_EDGES.map(edge => (
+                   <button key={edge} onClick={() => handleAlign(edge)} disabled={selectedShapeIds.size === 0} className={`p-1.5 rounded transition-colors ${selectedShapeIds.size > 0 ? 'text-slate-200 hover:text-white hover:bg-slate-700' : 'text-slate-600 cursor-not-allowed'}`} title={ALIGN_EDGE_LABELS[edge]}>
+                       <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">{ALIGN_ICONS[edge]}</svg>
+                   </button>
+               ))}
+               <select value={distributeMode} onChange={(e) => setDistributeMode(e.target.value as DistributeMode)} className="bg-slate-800 text-xs text-slate-200 border border-slate-700 rounded px-1 py-1 appearance-none w-16" title="Distribute by equal steps between centers, or by equal gaps between neighbours">
+                  {DISTRIBUTE_MODES.map(m => <option key={m} value={m}>{DISTRIBUTE_MODE_LABELS[m]}</option>)}
+               </select>
+               {DISTRIBUTE_AXES.map(axis => (
+                   <button key={axis} onClick={() => handleDistribute(axis)} disabled={selectedShapeIds.size === 0} className={`p-1.5 rounded transition-colors ${selectedShapeIds.size > 0 ? 'text-slate-200 hover:text-white hover:bg-slate-700' : 'text-slate-600 cursor-not-allowed'}`} title={DISTRIBUTE_AXIS_LABELS[axis]}>
+                       <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">{DISTRIBUTE_ICONS[axis]}</svg>
+                   </button>
+               ))}
             </div>
             <button onClick={handleDelete} disabled={selectedShapeIds.size === 0} className={`p-2 rounded transition-colors ${selectedShapeIds.size > 0 ? 'text-slate-200 hover:text-red-400 hover:bg-red-900/20' : 'text-slate-600 cursor-not-allowed'}`} title="Delete"><svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path></svg></button>
         </div>
@@ -943,10 +1596,16 @@ const App: React.FC = () => {
         <CartesianCanvas
           mode={mode}
           isSnapEnabled={isSnapEnabled}
+          snapKinds={snapKinds}
           lineStyle={lineStyle}
           arrowStyle={arrowStyle}
           lineWidth={lineWidth}
+          arcMode={arcMode}
+          plotDefinition={plotDefinition}
+          axesSettings={axesSettings}
+          gridSettings={gridSettings}
           shapes={shapes}
+          layers={layers}
           selectedShapeIds={selectedShapeIds}
           onSelectionChange={handleSelectionChange}
           onShapeAdd={handleShapeAdd}
@@ -954,21 +1613,94 @@ const App: React.FC = () => {
           onInteractionStart={handleInteractionStart}
           onCircularPatternCenter={handleCircularPatternCenter}
           onMirrorLine={performMirror}
+          onEditPick={handleEditPick}
+          onOffsetSide={handleOffset}
+          transformPivot={isTransformPanelOpen ? transformPivot : null}
+          onTransformPivotChange={handlePivotChange}
+          scale={scale}
+          setScale={setScale}
+          offset={offset}
+          setOffset={setOffset}
         />
+        {isLayersPanelOpen && (
+          <LayersPanel
+            layers={layers}
+            activeLayerId={activeLayerId}
+            shapeCounts={layerShapeCounts}
+            hasSelection={selectedShapeIds.size > 0}
+            onClose={() => setIsLayersPanelOpen(false)}
+            onSetActive={setActiveLayerId}
+            onAdd={handleAddLayer}
+            onDelete={handleDeleteLayer}
+            onUpdate={handleUpdateLayer}
+            onMove={handleMoveLayer}
+            onMoveSelection={handleMoveSelectionToLayer}
+          />
+        )}
+        {isConstraintsPanelOpen && (
+          <ConstraintsPanel
+            constraints={activeConstraints}
+            shapes={shapes}
+            selectedShapeIds={selectedShapeIds}
+            onClose={() => setIsConstraintsPanelOpen(false)}
+            onAdd={handleAddConstraint}
+            onDelete={handleDeleteConstraint}
+            onValueChange={handleConstraintValueChange}
+            onSelect={handleSelectionChange}
+          />
+        )}
+        {isInspectorOpen && (
+          <InspectorPanel
+            shapes={[...selectedShapeIds].map(id => shapes.find(s => s.id === id)).filter((s): s is Shape => !!s)}
+            onChange={handleInspectorChange}
+            onClose={() => setIsInspectorOpen(false)}
+          />
+        )}
+        {isTransformPanelOpen && (
+          <TransformPanel
+            pivotKind={pivotKind}
+            onPivotKindChange={setPivotKind}
+            pivot={transformPivot}
+            onPivotChange={handlePivotChange}
+            hasSelection={selectedShapeIds.size > 0}
+            onRotate={(degrees) => transformPivot && handleTransform(rotationAbout(degrees * Math.PI / 180, transformPivot))}
+            onScale={(sx, sy) => transformPivot && handleTransform(scalingAbout(sx, sy, transformPivot))}
+            onSkew={(x, y) => transformPivot && handleTransform(skewingAbout(x * Math.PI / 180, y * Math.PI / 180, transformPivot))}
+            onClose={() => setIsTransformPanelOpen(false)}
+          />
+        )}
+        {isAxesPanelOpen && (
+          <AxesPanel
+            settings={axesSettings}
+            onChange={(changes) => setAxesSettings(prev => ({ ...prev, ...changes }))}
+            grid={gridSettings}
+            onGridChange={(changes) => setGridSettings(prev => ({ ...prev, ...changes }))}
+            onClose={() => setIsAxesPanelOpen(false)}
+          />
+        )}
       </main>
 
       <TikzExportModal
         isOpen={isExportModalOpen}
         onClose={() => setIsExportModalOpen(false)}
         shapes={shapes}
+        layers={layers}
+        layerOutput={layerOutput}
+        onLayerOutputChange={setLayerOutput}
         exportAsNodes={exportAsNodes}
         exportMode={exportMode}
         showAxes={showAxes}
         showGrid={showGrid}
+        axesSettings={axesSettings}
+        gridSettings={gridSettings}
       />
       <HelpModal isOpen={isHelpModalOpen} onClose={() => setIsHelpModalOpen(false)} />
       <TemplateLibraryModal isOpen={isTemplateModalOpen} onClose={() => setIsTemplateModalOpen(false)} onSelectTemplate={handleAddTemplate} />
       <RadiusInputModal isOpen={isRadiusModalOpen} onClose={() => setIsRadiusModalOpen(false)} onApply={handleRadiusApply} />
+      <ImageExportModal isOpen={isImageExportModalOpen} onClose={() => setIsImageExportModalOpen(false)} shapes={visibleShapes} documentName={documentName} showAxes={showAxes} showGrid={showGrid} axesSettings={axesSettings} gridSettings={gridSettings} />
+      <TikzImportModal isOpen={isImportModalOpen} onClose={() => setIsImportModalOpen(false)} onImport={handleImportTikz} />
+      <RecentDocumentsModal isOpen={isRecentModalOpen} onClose={() => setIsRecentModalOpen(false)} onOpenDocument={handleOpenRecentDocument} />
+      <RecoveryPrompt record={recoveryRecord} onRecover={handleRecover} onDiscard={handleDiscardRecovery} />
     </div>
   );
 };
@@ -0,0 +1,127 @@
+import { readFileSync, writeFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseProject, PROJECT_FILE_EXTENSION } from '../services/projectService';
+import { ExportOptions, generateStandardTikz, generateTkzEuclide, generateLuamplib, generatePgfplots, generateSvg, getExportShapes } from '../services/exportGenerators';
+import { importTikz } from '../services/tikzImporter';
+import { getArcGeometry, isFullCircle } from '../services/arc';
+import { parsePlot } from '../services/plot';
+import { toPgfMath } from '../services/expression';
+import { Shape } from '../components/CartesianCanvas';
+
+// Golden-file check of the emitted code: every project in cli/fixtures is exported in each mode
+// and compared with the .tex or .svg file saved next to it. The standard TikZ export is also read
+// back with the importer and must give the same shapes again.
+//   npm test                   compare, failing on any difference
+//   npm test -- --update       rewrite the saved files after an intended change to the output
+
+const FIXTURES_DIR = join(import.meta.dirname, 'fixtures');
+
+// Each mode's output is saved as the project name plus its suffix
+const GENERATORS: Record<string, { generate: (shapes: Shape[], options: ExportOptions) => string; suffix: string }> = {
+  standard: { generate: generateStandardTikz, suffix: '.standard.tex' },
+  'tkz-euclide': { generate: generateTkzEuclide, suffix: '.tkz-euclide.tex' },
+  luamplib: { generate: generateLuamplib, suffix: '.luamplib.tex' },
+  pgfplots: { generate: generatePgfplots, suffix: '.pgfplots.tex' },
+  svg: { generate: generateSvg, suffix: '.svg' },
+};
+
+// First line that differs, to point at the change without dumping both files
+const firstDifference = (expected: string, actual: string) => {
+  const a = expected.split('\n'); const b = actual.split('\n');
+  const line = a.findIndex((l, i) => l !== b[i]);
+  const at = line === -1 ? a.length : line;
+  return `line ${at + 1}:\n  expected: ${a[at] ?? '<end of file>'}\n  actual:   ${b[at] ?? '<end of file>'}`;
+};
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+// What the standard TikZ export keeps of a shape, at the precision it writes. A full arc is drawn
+// as a circle and a measure labelled with its own length prints it either way, so those compare
+// as the same thing; ids, anchors, constructions and layers are not part of the TikZ.
+const describe = (s: Shape): string => {
+  const { id, anchors, construction, layerId, groupIds, ...d }: Record<string, any> = { ...s };
+  const radius = Math.hypot(s.x2 - s.x1, s.y2 - s.y1);
+  if (s.type === 'arc' && isFullCircle(getArcGeometry(s))) { d.type = 'circle'; delete d.startAngle; delete d.endAngle; }
+  if (d.type === 'circle') { d.x2 = s.x1 + radius; d.y2 = s.y1; }
+  if (s.type === 'measure' && d.text === String(round(radius))) delete d.text;
+  if (s.type === 'mark_angle' && s.rightAngle) delete d.angleArcs;
+  if (s.plot) d.plot = { ...s.plot, expression: parsePlot(s.plot).map(tree => toPgfMath(tree)), expressionY: undefined };
+  // Keys sorted, so field order never counts as a difference
+  return JSON.stringify(d, (_, v) => typeof v === 'number' ? round(v)
+    : v && typeof v === 'object' && !Array.isArray(v) ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b))) : v);
+};
+
+// Sorted descriptions; group ids are made up on import, so each group is named by what it holds
+const describeAll = (shapes: Shape[]): string[] => {
+  const own = shapes.map(describe);
+  const members = new Map<string, string[]>();
+  shapes.forEach((s, i) => s.groupIds?.forEach(g => members.set(g, [...(members.get(g) ?? []), own[i]])));
+  const name = (g: string) => {
+    const contents = members.get(g)!.sort().join('\n');
+    return `group of ${members.get(g)!.length} #${Array.from(contents).reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 7).toString(36)}`;
+  };
+  return shapes.map((s, i) => own[i] + (s.groupIds?.length ? ` in ${s.groupIds.map(name).join(' > ')}` : '')).sort();
+};
+
+// Entries of `a` left over once each is paired with an equal entry of `b`, so duplicates count
+const unmatched = (a: string[], b: string[]) => {
+  const rest = [...b];
+  return a.filter(d => { const i = rest.indexOf(d); if (i === -1) return true; rest.splice(i, 1); return false; });
+};
+
+// Every shape, grid and axes the standard export of a project shows come back from importing it
+const checkRoundTrip = (file: string, shapes: Shape[], options: ExportOptions): string[] => {
+  const result = importTikz(generateStandardTikz(shapes, options));
+  const problems = result.skipped.map(item => `skipped ${item}`);
+  if (result.showGrid !== !!options.showGrid) problems.push(`grid ${result.showGrid ? 'appeared' : 'was lost'}`);
+  if (result.showAxes !== !!options.showAxes) problems.push(`axes ${result.showAxes ? 'appeared' : 'were lost'}`);
+  const expected = describeAll(getExportShapes(shapes, options.layers));
+  const actual = describeAll(result.shapes);
+  unmatched(expected, actual).forEach(d => problems.push(`lost ${d}`));
+  unmatched(actual, expected).forEach(d => problems.push(`gained ${d}`));
+  return problems.map(problem => `${file} (import): ${problem}`);
+};
+
+const main = () => {
+  const update = process.argv.includes('--update');
+  const projects = readdirSync(FIXTURES_DIR).filter(f => f.endsWith(PROJECT_FILE_EXTENSION));
+  let failures = 0; let roundTripFailures = 0;
+  for (const file of projects) {
+    const doc = parseProject(readFileSync(join(FIXTURES_DIR, file), 'utf8'));
+    const options: ExportOptions = {
+      exportAsNodes: doc.exportOptions.exportAsNodes,
+      showAxes: doc.exportOptions.showAxes,
+      showGrid: doc.exportOptions.showGrid,
+      layers: doc.layers,
+      layerOutput: doc.exportOptions.layerOutput,
+      axes: doc.exportOptions.axes,
+      grid: doc.exportOptions.grid,
+    };
+    for (const [mode, { generate, suffix }] of Object.entries(GENERATORS)) {
+      const golden = join(FIXTURES_DIR, file.replace(PROJECT_FILE_EXTENSION, suffix));
+      const code = generate(doc.shapes, options) + '\n';
+      if (update) { writeFileSync(golden, code); console.error(`updated ${golden}`); continue; }
+      let expected: string;
+      try {
+        expected = readFileSync(golden, 'utf8');
+      } catch (e) {
+        failures++;
+        console.error(`${golden}: missing; run npm test -- --update to create it`);
+        continue;
+      }
+      if (expected === code) continue;
+      failures++;
+      console.error(`${file} (${mode}) differs from ${golden} at ${firstDifference(expected, code)}`);
+    }
+    if (update) continue;
+    const problems = checkRoundTrip(file, doc.shapes, options);
+    problems.forEach(problem => console.error(problem));
+    if (problems.length > 0) roundTripFailures++;
+  }
+  if (update) process.exit(0);
+  console.error(`${projects.length * Object.keys(GENERATORS).length - failures} of ${projects.length * Object.keys(GENERATORS).length} exports match`);
+  console.error(`${projects.length - roundTripFailures} of ${projects.length} standard exports import back unchanged`);
+  process.exit(failures + roundTripFailures > 0 ? 1 : 0);
+};
+
+main();
@@ -0,0 +1,107 @@
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { parseProject, PROJECT_FILE_EXTENSION } from '../services/projectService';
+import { ExportMode, EXPORT_MODES, LayerOutput, generateExport, generateSvg } from '../services/exportGenerators';
+
+// Converts saved projects to standalone documents without opening the editor:
+//   npm run export-tex -- figures/*.tikzcad.json --mode tkz-euclide --out-dir build/
+// Export settings come from each project unless overridden on the command line.
+
+const USAGE = `Usage: project-to-tex <project.json>... [options]
+
+Options:
+  --mode <mode>      ${EXPORT_MODES.join(' | ')} | svg (default: the project's own mode)
+  --out-dir <dir>    write output files there instead of next to each project
+  --stdout           print to standard output instead of writing files
+  --layers <kind>    scope | pgfonlayer: how each layer is wrapped (default: the project's)
+  --nodes / --no-nodes, --axes / --no-axes, --grid / --no-grid
+                     override the project's export options
+  -h, --help         show this message`;
+
+interface CliArgs {
+  files: string[];
+  mode?: ExportMode | 'svg';
+  outDir?: string;
+  stdout: boolean;
+  exportAsNodes?: boolean;
+  showAxes?: boolean;
+  showGrid?: boolean;
+  layerOutput?: LayerOutput;
+}
+
+const parseArgs = (argv: string[]): CliArgs => {
+  const args: CliArgs = { files: [], stdout: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (next === undefined) throw new Error(`Missing value for ${arg}`);
+      return next;
+    };
+    if (arg === '-h' || arg === '--help') { console.log(USAGE); process.exit(0); }
+    else if (arg === '--mode') {
+      const mode = value();
+      if (mode !== 'svg' && !EXPORT_MODES.includes(mode as ExportMode)) throw new Error(`Unknown mode "${mode}"`);
+      args.mode = mode as ExportMode | 'svg';
+    }
+    else if (arg === '--out-dir') args.outDir = value();
+    else if (arg === '--layers') {
+      const kind = value();
+      if (kind !== 'scope' && kind !== 'pgfonlayer') throw new Error(`Unknown layer output "${kind}"`);
+      args.layerOutput = kind;
+    }
+    else if (arg === '--stdout') args.stdout = true;
+    else if (arg === '--nodes' || arg === '--no-nodes') args.exportAsNodes = arg === '--nodes';
+    else if (arg === '--axes' || arg === '--no-axes') args.showAxes = arg === '--axes';
+    else if (arg === '--grid' || arg === '--no-grid') args.showGrid = arg === '--grid';
+    else if (arg.startsWith('-')) throw new Error(`Unknown option ${arg}`);
+    else args.files.push(arg);
+  }
+  return args;
+};
+
+const outputPath = (file: string, extension: string, outDir?: string) => {
+  const name = basename(file).replace(new RegExp(`(${PROJECT_FILE_EXTENSION.replace(/\./g, '\\.')}|\\.json)$`), '');
+  return join(outDir ?? dirname(file), name + extension);
+};
+
+const main = () => {
+  let args: CliArgs;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : e);
+    console.error(USAGE);
+    process.exit(2);
+  }
+  if (args.files.length === 0) { console.error(USAGE); process.exit(2); }
+  if (args.outDir && !args.stdout) mkdirSync(args.outDir, { recursive: true });
+
+  let failures = 0;
+  for (const file of args.files) {
+    try {
+      const doc = parseProject(readFileSync(file, 'utf8'));
+      const options = {
+        exportAsNodes: args.exportAsNodes ?? doc.exportOptions.exportAsNodes,
+        showAxes: args.showAxes ?? doc.exportOptions.showAxes,
+        showGrid: args.showGrid ?? doc.exportOptions.showGrid,
+        layers: doc.layers,
+        layerOutput: args.layerOutput ?? doc.exportOptions.layerOutput,
+        axes: doc.exportOptions.axes,
+        grid: doc.exportOptions.grid,
+      };
+      const mode = args.mode ?? doc.exportOptions.exportMode;
+      const code = mode === 'svg' ? generateSvg(doc.shapes, options) : generateExport(doc.shapes, mode, options);
+      if (args.stdout) { process.stdout.write(code + '\n'); continue; }
+      const target = outputPath(file, mode === 'svg' ? '.svg' : '.tex', args.outDir);
+      writeFileSync(target, code + '\n');
+      console.error(`${file} -> ${target}`);
+    } catch (e) {
+      failures++;
+      console.error(`${file}: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+  process.exit(failures > 0 ? 1 : 0);
+};
+
+main();
@@ -0,0 +1,146 @@
+import React from 'react';
+import { AxesSettings, AxesRange, AxisArrowStyle, AXIS_ARROW_STYLES } from '../services/axes';
+import { GridMode, GridSettings, GRID_MODES, GRID_MODE_LABELS } from '../services/grid';
+import { NumberField } from './NumberField';
+
+interface AxesPanelProps {
+  settings: AxesSettings;
+  onChange: (changes: Partial<AxesSettings>) => void;
+  grid: GridSettings;
+  onGridChange: (changes: Partial<GridSettings>) => void;
+  onClose: () => void;
+}
+
+const iconButton = 'p-1 rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed';
+const textInput = 'bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 text-slate-200 focus:outline-none focus:border-cyan-500';
+
+const ARROW_LABELS: Record<AxisArrowStyle, string> = { none: 'None', end: 'End', both: 'Both ends' };
+
+// A range used when a fixed range is first switched on
+const DEFAULT_RANGE: AxesRange = { xMin: -5, xMax: 5, yMin: -5, yMax: 5 };
+
+export const AxesPanel: React.FC<AxesPanelProps> = ({ settings, onChange, grid, onGridChange, onClose }) => {
+  const range = settings.range;
+  const setRange = (key: keyof AxesRange, v: number) => {
+    const next = { ...range!, [key]: v };
+    if (next.xMin >= next.xMax || next.yMin >= next.yMax) return 'Each range must end above where it starts.';
+    onChange({ range: next });
+    return null;
+  };
+  const positive = (key: 'xStep' | 'yStep') => (v: number) => { if (v <= 0) return 'The tick step must be positive.'; onChange(key === 'xStep' ? { xStep: v } : { yStep: v }); return null; };
+  const spacing = (key: 'xSpacing' | 'ySpacing' | 'ringSpacing' | 'isoSpacing') => (v: number) => {
+    if (v <= 0) return 'The grid spacing must be positive.';
+    onGridChange(key === 'xSpacing' ? { xSpacing: v } : key === 'ySpacing' ? { ySpacing: v } : key === 'ringSpacing' ? { ringSpacing: v } : { isoSpacing: v });
+    return null;
+  };
+  const count = (key: 'rays' | 'subdivisions', max: number) => (v: number) => {
+    const n = Math.round(v);
+    if (n < 1 || n > max) return `Enter a whole number from 1 to ${max}.`;
+    onGridChange(key === 'rays' ? { rays: n } : { subdivisions: n });
+    return null;
+  };
+
+  return (
+    <div className="absolute bottom-4 left-4 w-72 flex flex-col bg-slate-900/95 rounded-lg border border-slate-800 shadow-xl backdrop-blur-sm text-xs text-slate-300 z-10">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-800">
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Axes &amp; Grid</span>
+        <button onClick={onClose} className={`${iconButton} text-slate-400 hover:text-white hover:bg-slate-700`} title="Close">
+          <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-[auto_1fr_1fr] items-center gap-x-2 gap-y-1.5 px-3 py-2">
+        <span />
+        <span className="text-[10px] font-bold text-slate-500 uppercase">x</span>
+        <span className="text-[10px] font-bold text-slate-500 uppercase">y</span>
+
+        <span className="text-slate-400">Label</span>
+        <input type="text" value={settings.xLabel} onChange={(e) => onChange({ xLabel: e.target.value })} className={`${textInput} w-16`} title="x axis label; plain text is set in math mode" />
+        <input type="text" value={settings.yLabel} onChange={(e) => onChange({ yLabel: e.target.value })} className={`${textInput} w-16`} title="y axis label; plain text is set in math mode" />
+
+        <span className="text-slate-400">Tick step</span>
+        <div className="flex items-center gap-0.5">
+          <NumberField value={settings.xStep} title={settings.piTicks ? 'x tick step in multiples of π, e.g. 1/2' : 'x tick step'} onCommit={positive('xStep')} />
+          {settings.piTicks && <span className="text-slate-500">π</span>}
+        </div>
+        <NumberField value={settings.yStep} title="y tick step" onCommit={positive('yStep')} />
+
+        <span className="text-slate-400">Range</span>
+        {range ? (
+          <>
+            <div className="flex items-center gap-0.5"><NumberField value={range.xMin} title="x from" onCommit={(v) => setRange('xMin', v)} /><NumberField value={range.xMax} title="x to" onCommit={(v) => setRange('xMax', v)} /></div>
+            <div className="flex items-center gap-0.5"><NumberField value={range.yMin} title="y from" onCommit={(v) => setRange('yMin', v)} /><NumberField value={range.yMax} title="y to" onCommit={(v) => setRange('yMax', v)} /></div>
+          </>
+        ) : (
+          <span className="col-span-2 text-slate-500 italic">Follows the drawing</span>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-1.5 px-3 py-2 border-t border-slate-800">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={!!range} onChange={(e) => onChange({ range: e.target.checked ? DEFAULT_RANGE : null })} />
+          Fixed range
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={settings.numbered} onChange={(e) => onChange({ numbered: e.target.checked })} />
+          Numbered ticks
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer" title="x ticks at multiples of π, labelled π/2, π, 3π/2...">
+          <input type="checkbox" checked={settings.piTicks} onChange={(e) => onChange({ piTicks: e.target.checked })} />
+          π ticks on x
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span>Minor ticks per step</span>
+          <input type="number" min="0" max="9" value={settings.minorTicks} onChange={(e) => { const n = Math.round(Number(e.target.value)); if (n >= 0 && n <= 9) onChange({ minorTicks: n }); }} className={`${textInput} w-14 text-center`} />
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span>Origin label</span>
+          <input type="text" value={settings.originLabel} onChange={(e) => onChange({ originLabel: e.target.value })} placeholder="none" className={`${textInput} w-14 text-center`} />
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span>Arrows</span>
+          <select value={settings.arrow} onChange={(e) => onChange({ arrow: e.target.value as AxisArrowStyle })} className={`${textInput} w-24`}>
+            {AXIS_ARROW_STYLES.map(style => <option key={style} value={style}>{ARROW_LABELS[style]}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-col gap-1.5 px-3 py-2 border-t border-slate-800">
+        <label className="flex items-center justify-between gap-2">
+          <span>Grid</span>
+          <select value={grid.mode} onChange={(e) => onGridChange({ mode: e.target.value as GridMode })} className={`${textInput} w-24`}>
+            {GRID_MODES.map(mode => <option key={mode} value={mode}>{GRID_MODE_LABELS[mode]}</option>)}
+          </select>
+        </label>
+        {grid.mode === 'rectangular' && (
+          <div className="flex items-center justify-between gap-2">
+            <span>Spacing x / y</span>
+            <div className="flex items-center gap-0.5"><NumberField value={grid.xSpacing} title="Column width" onCommit={spacing('xSpacing')} /><NumberField value={grid.ySpacing} title="Row height" onCommit={spacing('ySpacing')} /></div>
+          </div>
+        )}
+        {grid.mode === 'polar' && (
+          <>
+            <div className="flex items-center justify-between gap-2">
+              <span>Ring spacing</span>
+              <NumberField value={grid.ringSpacing} title="Distance between rings" onCommit={spacing('ringSpacing')} />
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <span>Rays</span>
+              <NumberField value={grid.rays} title="Rays around the origin; 12 gives one every 30°" onCommit={count('rays', 360)} />
+            </div>
+          </>
+        )}
+        {grid.mode === 'isometric' && (
+          <div className="flex items-center justify-between gap-2">
+            <span>Triangle side</span>
+            <NumberField value={grid.isoSpacing} title="Side of the grid's triangles" onCommit={spacing('isoSpacing')} />
+          </div>
+        )}
+        <div className="flex items-center justify-between gap-2">
+          <span>Subdivisions</span>
+          <NumberField value={grid.subdivisions} title="Fainter lines per cell; snapping follows them" onCommit={count('subdivisions', 10)} />
+        </div>
+      </div>
+    </div>
+  );
+};
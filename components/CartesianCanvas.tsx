@@ -1,8 +1,23 @@
 import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { ZoomControls } from './ZoomControls';
-
-export type DrawingMode = 'pan' | 'freehand' | 'line' | 'bezier' | 'rect' | 'round_rect' | 'circle' | 'ellipse' | 'arc' | 'measure' | 'measure_radius' | 'mark_angle' | 'brace' | 'text' | 'circular_pattern' | 'mirror_axis';
-
+import { Viewport, BACKGROUND_COLOR, EDITOR_GRID_STYLE, drawGrid, drawShape as renderShape, drawSnapMarker, gridToScreen as viewGridToScreen } from './canvasRenderer';
+import { isShapeVisible, isShapeEditable, sortShapesByLayer } from '../services/layers';
+import { getGroupMemberIds, expandToGroups } from '../services/groups';
+import { getAngleMarkGeometry } from '../services/angleMark';
+import { findObjectSnap, SnapKind } from '../services/objectSnap';
+import { getArcGeometry, getArcPoint, isAngleOnArc, arcFromCenter, arcFromThreePoints, arcFromChord, setArcEnd, setArcRadius } from '../services/arc';
+import { getPlotBounds, getPlotRuns } from '../services/plot';
+import { AxesSettings } from '../services/axes';
+import { GridSettings, snapToGrid } from '../services/grid';
+import { getContours } from '../services/boolean';
+import { isEditTool } from '../services/editTools';
+import { Affine, Bounds, getSelectionBounds, transformShape, rotationAbout, scalingAbout } from '../services/transform';
+import { getVertices, getPolygonEdges, getPolygonBounds, getMinVertices, withVertices, moveVertex, insertVertex, removeVertex, isPointInPolygon } from '../services/polygon';
+
+export type DrawingMode = 'pan' | 'freehand' | 'polygon' | 'polyline' | 'line' | 'bezier' | 'rect' | 'round_rect' | 'circle' | 'ellipse' | 'arc' | 'measure' | 'measure_radius' | 'mark_angle' | 'brace' | 'text' | 'point' | 'plot' | 'circular_pattern' | 'mirror_axis' | 'trim' | 'extend' | 'split' | 'fillet' | 'offset_side';
+
+// How the arc tool picks its points: center -> start -> end, or start -> end -> a point on the arc
+export type ArcMode = 'center' | 'three_point';
 export type LineStyle = 'solid' | 'dashed' | 'dotted';
 export type ArrowStyle = 'none' | 'start' | 'end' | 'both';
 export type HatchStyle = 'none' | 'lines' | 'grid' | 'dots';
@@ -12,6 +27,35 @@ export interface Point {
   y: number;
 }
 
+// Shape ends that can be attached to named points: (x1, y1), (x2, y2) and (cx1, cy1)
+export type ShapeAnchor = 'start' | 'end' | 'cp1';
+
+export type PointConstructionKind = 'midpoint' | 'intersection' | 'mediator' | 'bisector' | 'foot' | 'circumcenter' | 'incenter' | 'on_circle';
+
+// How a constructed point derives from other named points, listed in `of` in the order
+// tkz-euclide takes them, e.g. intersection: A, B, C, D for lines AB and CD
+export interface PointConstruction {
+  kind: PointConstructionKind;
+  of: string[];
+  // mediator: which of the two points on the perpendicular bisector
+  index?: 0 | 1;
+  // on_circle: direction from the center in degrees
+  angle?: number;
+}
+
+export type PlotKind = 'cartesian' | 'parametric' | 'polar';
+
+// A sampled curve: y = f(x), (x(t), y(t)) or r(θ) with θ in radians, drawn relative to the shape's (x1, y1)
+export interface PlotDefinition {
+  kind: PlotKind;
+  // y(x), x(t) or r(θ)
+  expression: string;
+  // parametric: y(t)
+  expressionY?: string;
+  domain: [number, number];
+  samples: number;
+}
+
 export interface Shape {
   id: string;
   type: string;
@@ -37,16 +81,49 @@ export interface Shape {
   startAngle?: number;
   endAngle?: number;
   cornerRadius?: number;
+  // polygon: whether the last vertex joins back to the first (otherwise an open polyline)
+  closed?: boolean;
+  // compound: where each outline starts in `points`
+  contourStarts?: number[];
+  // mark_angle: arc radius in grid units, number of arcs (1-3) and right-angle square
+  angleRadius?: number;
+  angleArcs?: number;
+  rightAngle?: boolean;
   isGuide?: boolean;
+  layerId?: string;
+  // Enclosing groups, outermost first
+  groupIds?: string[];
+  // Named points (by id) this shape's ends are attached to
+  anchors?: Partial<Record<ShapeAnchor, string>>;
+  // point: how it is constructed from other points; free points have none
+  construction?: PointConstruction;
+  plot?: PlotDefinition;
+}
+
+export interface Layer {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
 }
 
 interface CartesianCanvasProps {
   mode: DrawingMode;
   isSnapEnabled: boolean;
+  // Enabled object snap kinds; these take precedence over grid snapping
+  snapKinds: Set<SnapKind>;
   lineStyle: LineStyle;
   arrowStyle: ArrowStyle;
   lineWidth: number;
+  arcMode: ArcMode;
+  // What the plot tool draws
+  plotDefinition: PlotDefinition;
+  // Labels, ticks and range of the axes behind the drawing
+  axesSettings: AxesSettings;
+  // Mode and spacing of the background grid, which snapping follows
+  gridSettings: GridSettings;
   shapes: Shape[];
+  layers: Layer[];
   selectedShapeIds: Set<string>;
   onSelectionChange: (ids: Set<string> | null) => void;
   onShapeAdd: (shape: Shape) => void;
@@ -54,6 +131,17 @@ interface CartesianCanvasProps {
   onInteractionStart: () => void;
   onCircularPatternCenter: (cx: number, cy: number) => void;
   onMirrorLine: (x1: number, y1: number, x2: number, y2: number) => void;
+  // Trim, extend, split and fillet: a click on a shape, at a grid point on or near it
+  onEditPick: (id: string, at: Point) => void;
+  // Offset: the clicked point picks the side the copies go to
+  onOffsetSide: (at: Point) => void;
+  // Transform gizmo: drawn around the selection while set, turning and scaling it about this point
+  transformPivot: Point | null;
+  onTransformPivotChange: (pivot: Point) => void;
+  scale: number;
+  setScale: (s: number) => void;
+  offset: Point;
+  setOffset: (o: Point) => void;
 }
 
 // --- Geometry Helpers ---
@@ -75,36 +163,66 @@ const isPointInRect = (px: number, py: number, x1: number, y1: number, x2: numbe
     return px >= minX && px <= maxX && py >= minY && py <= maxY;
 };
 
+// Object snaps catch the cursor within this many pixels
+const SNAP_TOLERANCE = 10;
+
 // Handle types
-type HandleType = 'start' | 'end' | 'n' | 's' | 'e' | 'w' | 'nw' | 'ne' | 'sw' | 'se' | 'move';
+// vertex:i drags a polygon vertex; insert:i sits mid-edge and drags out a new vertex after i
+type HandleType = 'start' | 'end' | 'cp1' | 'arc_start' | 'arc_end' | 'n' | 's' | 'e' | 'w' | 'nw' | 'ne' | 'sw' | 'se' | 'move' | `vertex:${number}` | `insert:${number}`;
+
+// Transform gizmo handles: the eight scale handles around the selection, the rotate knob above it
+// and the pivot itself
+type GizmoHandle = 'n' | 's' | 'e' | 'w' | 'nw' | 'ne' | 'sw' | 'se' | 'rotate' | 'pivot';
+
+// Height of the rotate knob above the selection, in pixels
+const GIZMO_KNOB = 24;
+// Gizmo rotation snaps to this step while Shift is held
+const ROTATE_SNAP = Math.PI / 12;
+
+// Index of the vertex or edge a polygon handle refers to
+const handleIndex = (handle: HandleType) => Number(handle.slice(handle.indexOf(':') + 1));
 
 export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
   mode,
   isSnapEnabled,
+  snapKinds,
   lineStyle,
   arrowStyle,
   lineWidth,
+  arcMode,
+  plotDefinition,
+  axesSettings,
+  gridSettings,
   shapes,
+  layers,
   selectedShapeIds,
   onSelectionChange,
   onShapeAdd,
   onShapesUpdate,
   onInteractionStart,
   onCircularPatternCenter,
-  onMirrorLine
+  onMirrorLine,
+  onEditPick,
+  onOffsetSide,
+  transformPivot,
+  onTransformPivotChange,
+  scale,
+  setScale,
+  offset,
+  setOffset
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
-  const [scale, setScale] = useState(30); 
-  const [offset, setOffset] = useState({ x: 0, y: 0 });
   
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   
   const [drawStart, setDrawStart] = useState<{x: number, y: number} | null>(null);
   const [currentShape, setCurrentShape] = useState<Shape | null>(null);
+  // The first two points of an arc once its drag is done; the next click supplies the third
+  const [arcPoints, setArcPoints] = useState<Point[] | null>(null);
   const [selectionBox, setSelectionBox] = useState<{x1: number, y1: number, x2: number, y2: number} | null>(null);
   
   const [editHandle, setEditHandle] = useState<HandleType | null>(null);
@@ -112,9 +230,15 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
   
   const [hoveredShapeId, setHoveredShapeId] = useState<string | null>(null);
   const [hoveredHandle, setHoveredHandle] = useState<HandleType | null>(null);
+  // A gizmo drag keeps the pivot, the grab point and the box it started with
+  const [gizmoDrag, setGizmoDrag] = useState<{ handle: GizmoHandle, pivot: Point, start: Point, bounds: Bounds } | null>(null);
+  const [hoveredGizmo, setHoveredGizmo] = useState<GizmoHandle | null>(null);
+
+  // Hidden layers are not drawn; locked ones are drawn but ignored by picking
+  const visibleShapes = useMemo(() => sortShapesByLayer(shapes.filter(s => isShapeVisible(s, layers)), layers), [shapes, layers]);
   
   // Track cursor position for the visual snap indicator
-  const [cursorPos, setCursorPos] = useState<{x: number, y: number} | null>(null);
+  const [cursorPos, setCursorPos] = useState<(Point & { kind?: SnapKind }) | null>(null);
 
   // Resize Observer
   useEffect(() => {
@@ -141,28 +265,55 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
   }, [offset, scale, dimensions]);
 
   const gridToScreen = useCallback((gx: number, gy: number) => {
-    const x = gx * scale + dimensions.width / 2 + offset.x;
-    const y = -gy * scale + dimensions.height / 2 + offset.y;
-    return { x, y };
+    return viewGridToScreen({ width: dimensions.width, height: dimensions.height, scale, offset }, gx, gy);
   }, [offset, scale, dimensions]);
 
-  const snap = useCallback((val: number) => {
-    if (!isSnapEnabled) return val;
-    return Math.round(val * 2) / 2;
-  }, [isSnapEnabled]);
+  const snap = useCallback((gx: number, gy: number): Point => {
+    if (!isSnapEnabled) return { x: gx, y: gy };
+    return snapToGrid({ x: gx, y: gy }, gridSettings);
+  }, [isSnapEnabled, gridSettings]);
+
+  // Nearest object snap, falling back to the grid. Perpendicular and tangent snaps measure from
+  // the start of the shape being drawn; shapes being edited are left out so they don't snap to themselves.
+  const snapPoint = useCallback((gx: number, gy: number, exclude?: Set<string>): Point & { kind?: SnapKind } => {
+      if (snapKinds.size > 0) {
+          const targets = exclude ? visibleShapes.filter(s => !exclude.has(s.id)) : visibleShapes;
+          const hit = findObjectSnap(targets, { x: gx, y: gy }, SNAP_TOLERANCE / scale, snapKinds, currentShape ? drawStart : null);
+          if (hit) return hit;
+      }
+      return snap(gx, gy);
+  }, [snapKinds, visibleShapes, scale, currentShape, drawStart, snap]);
 
   // Determine if a shape uses Box Handles (8 points) or Line Handles (2 points)
-  const isBoxShape = (type: string) => ['rect', 'round_rect', 'ellipse', 'text', 'arc'].includes(type);
+  const isBoxShape = (type: string) => ['rect', 'round_rect', 'ellipse', 'text'].includes(type);
 
   // Helper to calculate handles for a shape
   const getResizeHandles = useCallback((shape: Shape) => {
-      const handles: { x: number, y: number, type: HandleType }[] = [];
+      const handles: { x: number, y: number, type: HandleType, insert?: boolean }[] = [];
       const p1 = gridToScreen(shape.x1, shape.y1);
       const p2 = gridToScreen(shape.x2, shape.y2);
 
       if (shape.type === 'line' || shape.type === 'measure' || shape.type === 'measure_radius' || shape.type === 'brace' || shape.type === 'bezier' || shape.type === 'freehand') {
           handles.push({ x: p1.x, y: p1.y, type: 'start' });
           handles.push({ x: p2.x, y: p2.y, type: 'end' });
+      } else if (shape.type === 'polygon') {
+          getVertices(shape).forEach((v, i) => { const p = gridToScreen(v.x, v.y); handles.push({ x: p.x, y: p.y, type: `vertex:${i}` }); });
+          getPolygonEdges(shape).forEach(([a, b], i) => { const p = gridToScreen((a.x + b.x) / 2, (a.y + b.y) / 2); handles.push({ x: p.x, y: p.y, type: `insert:${i}`, insert: true }); });
+      } else if (shape.type === 'mark_angle') {
+          // Vertex plus one handle on each ray
+          handles.push({ x: p1.x, y: p1.y, type: 'start' });
+          handles.push({ x: p2.x, y: p2.y, type: 'end' });
+          if (shape.cx1 !== undefined && shape.cy1 !== undefined) { const p3 = gridToScreen(shape.cx1, shape.cy1); handles.push({ x: p3.x, y: p3.y, type: 'cp1' }); }
+      } else if (shape.type === 'arc') {
+          // Center, both ends (angles) and a radius handle halfway along
+          const geo = getArcGeometry(shape);
+          const a = gridToScreen(getArcPoint(geo, geo.startAngle).x, getArcPoint(geo, geo.startAngle).y);
+          const b = gridToScreen(getArcPoint(geo, geo.endAngle).x, getArcPoint(geo, geo.endAngle).y);
+          const mid = getArcPoint(geo, geo.startAngle + geo.sweep / 2); const m = gridToScreen(mid.x, mid.y);
+          handles.push({ x: p1.x, y: p1.y, type: 'start' });
+          handles.push({ x: a.x, y: a.y, type: 'arc_start' });
+          handles.push({ x: b.x, y: b.y, type: 'arc_end' });
+          handles.push({ x: m.x, y: m.y, type: 'end' });
       } else if (shape.type === 'circle') {
            // For circle, x1,y1 is center, x2,y2 is radius point. 
            // Let's provide 4 handles on the rim for resizing radius.
@@ -196,6 +347,28 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
       return handles;
   }, [gridToScreen]);
 
+  const gizmoBounds = useMemo(() => transformPivot ? getSelectionBounds(shapes.filter(s => selectedShapeIds.has(s.id))) : null, [transformPivot, shapes, selectedShapeIds]);
+
+  // Screen positions of the gizmo handles, the pivot last so it wins where they overlap
+  const getGizmoHandles = useCallback((): { x: number, y: number, type: GizmoHandle }[] => {
+      if (!gizmoBounds || !transformPivot) return [];
+      const a = gridToScreen(gizmoBounds.minX, gizmoBounds.maxY); const b = gridToScreen(gizmoBounds.maxX, gizmoBounds.minY);
+      const midX = (a.x + b.x) / 2; const midY = (a.y + b.y) / 2;
+      const p = gridToScreen(transformPivot.x, transformPivot.y);
+      return [
+          { x: a.x, y: a.y, type: 'nw' }, { x: b.x, y: a.y, type: 'ne' }, { x: b.x, y: b.y, type: 'se' }, { x: a.x, y: b.y, type: 'sw' },
+          { x: midX, y: a.y, type: 'n' }, { x: midX, y: b.y, type: 's' }, { x: b.x, y: midY, type: 'e' }, { x: a.x, y: midY, type: 'w' },
+          { x: midX, y: a.y - GIZMO_KNOB, type: 'rotate' },
+          { x: p.x, y: p.y, type: 'pivot' },
+      ];
+  }, [gizmoBounds, transformPivot, gridToScreen]);
+
+  const hitGizmo = (mx: number, my: number): GizmoHandle | null => {
+      const handles = getGizmoHandles();
+      for (let i = handles.length - 1; i >= 0; i--) if (dist({ x: mx, y: my }, handles[i]) < 8) return handles[i].type;
+      return null;
+  };
+
   // Hit Test Logic
   const hitTest = useCallback((mx: number, my: number): { id: string | null, handle: HandleType | null } => {
       const THRESHOLD = 8;
@@ -205,7 +378,7 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
       if (selectedShapeIds.size === 1) {
           const sId = Array.from(selectedShapeIds)[0] as string;
           const s = shapes.find(sh => sh.id === sId);
-          if (s) {
+          if (s && isShapeEditable(s, layers)) {
               const handles = getResizeHandles(s);
               for (const h of handles) {
                   if (dist(m, h) < THRESHOLD) return { id: sId, handle: h.type };
@@ -214,9 +387,9 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
       }
 
       // 2. Check Shapes bodies
-      for (let i = shapes.length - 1; i >= 0; i--) {
-          const s = shapes[i];
-          if (!s || s.isGuide) continue;
+      for (let i = visibleShapes.length - 1; i >= 0; i--) {
+          const s = visibleShapes[i];
+          if (!s || s.isGuide || !isShapeEditable(s, layers)) continue;
 
           const p1 = gridToScreen(s.x1, s.y1);
           const p2 = gridToScreen(s.x2, s.y2);
@@ -245,6 +418,35 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
           else if (s.type === 'text') {
                if (dist(m, p1) < 20) hit = true;
           }
+          else if (s.type === 'point') {
+               if (dist(m, p1) < THRESHOLD) hit = true;
+          }
+          else if (s.type === 'polygon') {
+              const pts = getVertices(s).map(p => gridToScreen(p.x, p.y));
+              if (getPolygonEdges({ ...s, points: pts }).some(([a, b]) => distToSegment(m, a, b) < THRESHOLD)) hit = true;
+              else if (s.closed && s.fillColor && s.fillColor !== 'none' && isPointInPolygon(m, pts)) hit = true;
+          }
+          else if (s.type === 'compound') {
+              const contours = getContours(s).map(c => c.map(p => gridToScreen(p.x, p.y)));
+              if (contours.some(c => c.some((a, k) => distToSegment(m, a, c[(k + 1) % c.length]) < THRESHOLD))) hit = true;
+              else if ((s.fillColor && s.fillColor !== 'none') || (s.hatchStyle && s.hatchStyle !== 'none')) { if (contours.reduce((inside, c) => inside !== isPointInPolygon(m, c), false)) hit = true; }
+          }
+          else if (s.type === 'plot') {
+              if (getPlotRuns(s).some(run => run.some((p, k) => k > 0 && distToSegment(m, gridToScreen(run[k - 1].x, run[k - 1].y), gridToScreen(p.x, p.y)) < THRESHOLD))) hit = true;
+          }
+          else if (s.type === 'arc') {
+              const geo = getArcGeometry(s);
+              if (Math.abs(dist(m, p1) - geo.radius * scale) < THRESHOLD && isAngleOnArc(geo, Math.atan2(p1.y - m.y, m.x - p1.x))) hit = true;
+          }
+          else if (s.type === 'mark_angle') {
+              // Anywhere inside the marked wedge, out to the outermost arc
+              const geo = getAngleMarkGeometry(s);
+              const outer = (geo.rightAngle ? geo.radius * Math.SQRT2 : geo.radius + 0.16) * scale;
+              let a = Math.atan2(p1.y - m.y, m.x - p1.x) - geo.startAngle;
+              while (a < 0) a += 2 * Math.PI;
+              while (a >= 2 * Math.PI) a -= 2 * Math.PI;
+              if (dist(m, p1) <= outer + THRESHOLD && a <= geo.sweep) hit = true;
+          }
           else if (s.type === 'bezier') {
              const cp1 = s.cx1 ? gridToScreen(s.cx1, s.cy1 || 0) : p1;
              const cp2 = s.cx2 ? gridToScreen(s.cx2, s.cy2 || 0) : p2;
@@ -256,7 +458,7 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
           if (hit) return { id: s.id, handle: null };
       }
       return { id: null, handle: null };
-  }, [shapes, gridToScreen, selectedShapeIds, getResizeHandles]);
+  }, [shapes, visibleShapes, layers, gridToScreen, selectedShapeIds, getResizeHandles, scale]);
 
 
   // Rendering
@@ -272,215 +474,28 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
     ctx.scale(dpr, dpr);
 
     // Background
-    ctx.fillStyle = '#020617'; 
+    ctx.fillStyle = BACKGROUND_COLOR; 
     ctx.fillRect(0, 0, dimensions.width, dimensions.height);
 
-    // Grid
-    const drawGrid = () => {
-        const center = gridToScreen(0, 0);
-        ctx.lineWidth = 1;
-        ctx.beginPath();
-        ctx.strokeStyle = '#1e293b';
-        const startX = Math.floor(-center.x / scale);
-        const endX = Math.ceil((dimensions.width - center.x) / scale);
-        const startY = Math.floor((center.y - dimensions.height) / scale);
-        const endY = Math.ceil(center.y / scale);
-
-        for (let i = startX; i <= endX; i++) {
-            const x = Math.floor(center.x + i * scale) + 0.5;
-            ctx.moveTo(x, 0); ctx.lineTo(x, dimensions.height);
-        }
-        for (let i = startY; i <= endY; i++) {
-            const y = Math.floor(center.y - i * scale) + 0.5;
-            ctx.moveTo(0, y); ctx.lineTo(dimensions.width, y);
-        }
-        ctx.stroke();
-
-        ctx.beginPath();
-        ctx.strokeStyle = '#94a3b8'; ctx.lineWidth = 2;
-        if (center.y >= 0 && center.y <= dimensions.height) { ctx.moveTo(0, center.y); ctx.lineTo(dimensions.width, center.y); }
-        if (center.x >= 0 && center.x <= dimensions.width) { ctx.moveTo(center.x, 0); ctx.lineTo(center.x, dimensions.height); }
-        ctx.stroke();
-
-        ctx.fillStyle = '#64748b'; ctx.font = '10px sans-serif'; ctx.textAlign = 'center'; ctx.textBaseline = 'top';
-        for (let i = startX; i <= endX; i++) {
-            if (i === 0) continue;
-            const x = center.x + i * scale;
-            if (x < 0 || x > dimensions.width) continue;
-            const tickY = Math.min(Math.max(center.y, 0), dimensions.height - 20);
-            ctx.beginPath(); ctx.moveTo(x, tickY); ctx.lineTo(x, tickY + 5); ctx.stroke();
-            ctx.fillText(String(i), x, tickY + 8);
-        }
-        ctx.textAlign = 'right'; ctx.textBaseline = 'middle';
-        for (let i = startY; i <= endY; i++) {
-            if (i === 0) continue;
-            const y = center.y - i * scale;
-            if (y < 0 || y > dimensions.height) continue;
-            const tickX = Math.min(Math.max(center.x, 20), dimensions.width);
-            ctx.beginPath(); ctx.moveTo(tickX, y); ctx.lineTo(tickX - 5, y); ctx.stroke();
-            ctx.fillText(String(i), tickX - 8, y);
-        }
-    };
-    drawGrid();
+    const view: Viewport = { width: dimensions.width, height: dimensions.height, scale, offset };
+    drawGrid(ctx, view, EDITOR_GRID_STYLE, axesSettings, gridSettings);
 
     // Shapes
     const drawShape = (shape: Shape, isSelected: boolean) => {
-        const p1 = gridToScreen(shape.x1, shape.y1);
-        const p2 = gridToScreen(shape.x2, shape.y2);
-        
-        ctx.save();
-        ctx.beginPath();
-        
-        let currentStrokeColor = shape.strokeColor || '#facc15';
-
-        if (shape.isGuide) {
-            currentStrokeColor = shape.strokeColor || '#94a3b8';
-            ctx.strokeStyle = currentStrokeColor; 
-            ctx.setLineDash([5, 5]); ctx.lineWidth = 1;
-        } else {
-            ctx.strokeStyle = currentStrokeColor; 
-            ctx.lineWidth = shape.lineWidth || 2;
-            if (shape.style === 'dashed') ctx.setLineDash([10, 5]);
-            if (shape.style === 'dotted') ctx.setLineDash([2, 4]);
-            if (isSelected || shape.id === hoveredShapeId) {
-                if(isSelected) { 
-                    currentStrokeColor = '#60a5fa';
-                    ctx.shadowColor = '#3b82f6'; ctx.shadowBlur = 8; 
-                    ctx.strokeStyle = currentStrokeColor; 
-                } 
-                else { ctx.shadowColor = 'rgba(255,255,255,0.3)'; ctx.shadowBlur = 4; }
-            }
-        }
-
-        const performFill = () => {
-             if (shape.fillColor && shape.fillColor !== 'none') { ctx.fillStyle = shape.fillColor; ctx.fill(); }
-             if (shape.hatchStyle && shape.hatchStyle !== 'none') {
-                 ctx.save(); ctx.clip(); ctx.beginPath();
-                 ctx.strokeStyle = shape.strokeColor || '#facc15'; ctx.lineWidth = 1; ctx.globalAlpha = 0.3;
-                 const size = Math.max(dimensions.width, dimensions.height);
-                 if (shape.hatchStyle === 'lines' || shape.hatchStyle === 'grid') { for (let i = 0; i < size; i+=10) { ctx.moveTo(i, 0); ctx.lineTo(0, i); } }
-                 if (shape.hatchStyle === 'grid') { for (let i = 0; i < size; i+=10) { ctx.moveTo(0, size-i); ctx.lineTo(i, size); } }
-                 ctx.stroke(); ctx.restore();
-             }
-        };
-
-        if (shape.rotation) {
-             let cx = shape.x1, cy = shape.y1;
-             if (['line','rect','round_rect','brace','measure'].includes(shape.type)) { cx = (shape.x1 + shape.x2) / 2; cy = (shape.y1 + shape.y2) / 2; }
-             const cp = gridToScreen(cx, cy);
-             ctx.translate(cp.x, cp.y); ctx.rotate(-shape.rotation); ctx.translate(-cp.x, -cp.y);
-        }
-
-        // Draw Geometry
-        switch (shape.type) {
-            case 'line': case 'measure': case 'brace': case 'measure_radius':
-                ctx.moveTo(p1.x, p1.y); ctx.lineTo(p2.x, p2.y); ctx.stroke();
-                
-                // Draw perpendicular witness lines for linear measures
-                if (shape.type === 'measure') {
-                    const tickLen = 15;
-                    const angle = Math.atan2(p2.y - p1.y, p2.x - p1.x);
-                    const px = Math.cos(angle + Math.PI/2) * tickLen;
-                    const py = Math.sin(angle + Math.PI/2) * tickLen;
-                    ctx.beginPath();
-                    ctx.moveTo(p1.x - px, p1.y - py); ctx.lineTo(p1.x + px, p1.y + py);
-                    ctx.moveTo(p2.x - px, p2.y - py); ctx.lineTo(p2.x + px, p2.y + py);
-                    ctx.stroke();
-                }
-
-                // Draw Arrows
-                if (shape.type === 'line' || shape.type === 'measure' || shape.type === 'measure_radius') {
-                    const angle = Math.atan2(p2.y - p1.y, p2.x - p1.x);
-                    const headLen = 8 + (shape.lineWidth - 1)*2;
-                    const drawHead = (tx: number, ty: number, ang: number) => {
-                        ctx.beginPath(); ctx.moveTo(tx, ty);
-                        ctx.lineTo(tx - headLen * Math.cos(ang - Math.PI/6), ty - headLen * Math.sin(ang - Math.PI/6));
-                        ctx.lineTo(tx - headLen * Math.cos(ang + Math.PI/6), ty - headLen * Math.sin(ang + Math.PI/6));
-                        ctx.closePath(); 
-                        ctx.fillStyle = currentStrokeColor; 
-                        ctx.fill();
-                    };
-                    if (shape.arrow === 'end' || shape.arrow === 'both' || shape.type === 'measure' || shape.type === 'measure_radius') drawHead(p2.x, p2.y, angle);
-                    if (shape.arrow === 'start' || shape.arrow === 'both' || shape.type === 'measure' || shape.type === 'measure_radius') drawHead(p1.x, p1.y, angle + Math.PI);
-                }
-
-                // Draw Text Label for Measure Types
-                if (shape.type === 'measure' || shape.type === 'measure_radius') {
-                    const midX = (p1.x + p2.x) / 2;
-                    const midY = (p1.y + p2.y) / 2;
-                    const text = shape.text || dist({x: shape.x1, y: shape.y1}, {x: shape.x2, y: shape.y2}).toFixed(2);
-                    
-                    ctx.save();
-                    ctx.fillStyle = '#020617'; // Match background color to clear line
-                    ctx.font = '12px sans-serif';
-                    ctx.textAlign = 'center';
-                    ctx.textBaseline = 'middle';
-                    const metrics = ctx.measureText(text);
-                    const pad = 4;
-                    // Draw background rect
-                    ctx.fillRect(midX - metrics.width/2 - pad, midY - 8, metrics.width + pad*2, 16);
-                    
-                    ctx.fillStyle = shape.strokeColor || '#facc15';
-                    ctx.fillText(text, midX, midY);
-                    ctx.restore();
-                }
-
-                break;
-            case 'rect': ctx.beginPath(); ctx.rect(p1.x, p1.y, p2.x - p1.x, p2.y - p1.y); performFill(); ctx.stroke(); break;
-            case 'round_rect': {
-                const lx = Math.min(p1.x, p2.x); const rx = Math.max(p1.x, p2.x);
-                const ty = Math.min(p1.y, p2.y); const by = Math.max(p1.y, p2.y);
-                const w = rx - lx; const h = by - ty;
-                const rUnits = shape.cornerRadius ?? 0.5; const radiusPx = rUnits * scale;
-                ctx.beginPath();
-                if (typeof (ctx as any).roundRect === 'function') (ctx as any).roundRect(lx, ty, w, h, radiusPx); else ctx.rect(lx, ty, w, h);
-                performFill(); ctx.stroke(); break;
-            }
-            case 'circle': { const r = dist(p1, p2); ctx.beginPath(); ctx.arc(p1.x, p1.y, r, 0, 2 * Math.PI); performFill(); ctx.stroke(); break; }
-            case 'ellipse': { const rx = Math.abs(p2.x - p1.x); const ry = Math.abs(p2.y - p1.y); ctx.beginPath(); ctx.ellipse(p1.x, p1.y, rx, ry, 0, 0, 2 * Math.PI); performFill(); ctx.stroke(); break; }
-            case 'arc': { const r = dist(p1, p2); ctx.beginPath(); ctx.arc(p1.x, p1.y, r, shape.startAngle || 0, shape.endAngle || 2*Math.PI); ctx.stroke(); break; }
-            case 'bezier': {
-                 if (shape.cx1 !== undefined) {
-                     const cp1 = gridToScreen(shape.cx1, shape.cy1 || 0); const cp2 = gridToScreen(shape.cx2 || 0, shape.cy2 || 0);
-                     ctx.beginPath(); ctx.moveTo(p1.x, p1.y); ctx.bezierCurveTo(cp1.x, cp1.y, cp2.x, cp2.y, p2.x, p2.y); ctx.stroke();
-                     if (isSelected) {
-                         ctx.lineWidth = 1; ctx.strokeStyle = '#64748b'; ctx.setLineDash([2, 2]);
-                         ctx.beginPath(); ctx.moveTo(p1.x, p1.y); ctx.lineTo(cp1.x, cp1.y); ctx.stroke();
-                         ctx.beginPath(); ctx.moveTo(p2.x, p2.y); ctx.lineTo(cp2.x, cp2.y); ctx.stroke();
-                         ctx.stroke(); ctx.fillStyle = '#facc15'; ctx.fillRect(cp1.x-3, cp1.y-3, 6, 6); ctx.fillRect(cp2.x-3, cp2.y-3, 6, 6);
-                     }
-                 } break;
-            }
-            case 'text': ctx.font = '14px sans-serif'; ctx.fillStyle = shape.strokeColor || '#e2e8f0'; ctx.textAlign = 'center'; ctx.textBaseline = 'middle'; ctx.fillText(shape.text || 'Text', p1.x, p1.y); break;
-            case 'freehand': {
-                 if (shape.points && shape.points.length > 0) {
-                     ctx.beginPath(); const start = gridToScreen(shape.points[0].x, shape.points[0].y); ctx.moveTo(start.x, start.y);
-                     for (let i = 1; i < shape.points.length; i++) { const p = gridToScreen(shape.points[i].x, shape.points[i].y); ctx.lineTo(p.x, p.y); }
-                     if (shape.fillColor && shape.fillColor !== 'none') { ctx.closePath(); performFill(); } ctx.stroke();
-                 } break;
-            }
-        }
-        ctx.restore();
-        
-        // Render Resize Handles if Selected
-        if (isSelected) {
-            const handles = getResizeHandles(shape);
-            handles.forEach(h => {
-                ctx.fillStyle = '#4ade80'; // Green
-                ctx.strokeStyle = '#ffffff';
-                ctx.lineWidth = 1;
-                const size = 6;
-                ctx.fillRect(h.x - size/2, h.y - size/2, size, size);
-                ctx.strokeRect(h.x - size/2, h.y - size/2, size, size);
-            });
-        }
+        renderShape(ctx, shape, view, {
+            isSelected,
+            isHovered: shape.id === hoveredShapeId,
+            handles: isSelected ? getResizeHandles(shape) : undefined,
+        });
     };
 
-    shapes.forEach(shape => drawShape(shape, selectedShapeIds.has(shape.id)));
+    visibleShapes.forEach(shape => drawShape(shape, selectedShapeIds.has(shape.id)));
     if (currentShape) drawShape(currentShape, true);
     
     // Snap Point Indicator
-    if (cursorPos && mode !== 'pan' && !isDragging && !currentShape) {
+    if (cursorPos?.kind) {
+        drawSnapMarker(ctx, gridToScreen(cursorPos.x, cursorPos.y), cursorPos.kind);
+    } else if (cursorPos && mode !== 'pan' && !isDragging && !currentShape) {
         const cp = gridToScreen(cursorPos.x, cursorPos.y);
         ctx.beginPath();
         ctx.arc(cp.x, cp.y, 4, 0, 2 * Math.PI);
@@ -488,6 +503,26 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
         ctx.fill();
     }
     
+    // Transform gizmo
+    const gizmo = getGizmoHandles();
+    if (gizmo.length > 0) {
+        const [nw, , se] = gizmo; const knob = gizmo[8]; const pivot = gizmo[9];
+        ctx.save();
+        ctx.strokeStyle = '#22d3ee'; ctx.lineWidth = 1; ctx.setLineDash([4, 3]);
+        ctx.strokeRect(nw.x, nw.y, se.x - nw.x, se.y - nw.y);
+        ctx.setLineDash([]);
+        ctx.beginPath(); ctx.moveTo(knob.x, nw.y); ctx.lineTo(knob.x, knob.y); ctx.stroke();
+        ctx.fillStyle = BACKGROUND_COLOR;
+        gizmo.slice(0, 8).forEach(h => { ctx.fillRect(h.x - 4, h.y - 4, 8, 8); ctx.strokeRect(h.x - 4, h.y - 4, 8, 8); });
+        ctx.beginPath(); ctx.arc(knob.x, knob.y, 5, 0, 2 * Math.PI); ctx.fill(); ctx.stroke();
+        // The pivot: a ringed crosshair
+        ctx.strokeStyle = '#f472b6';
+        ctx.beginPath(); ctx.arc(pivot.x, pivot.y, 6, 0, 2 * Math.PI);
+        ctx.moveTo(pivot.x - 10, pivot.y); ctx.lineTo(pivot.x + 10, pivot.y); ctx.moveTo(pivot.x, pivot.y - 10); ctx.lineTo(pivot.x, pivot.y + 10);
+        ctx.stroke();
+        ctx.restore();
+    }
+
     // Selection Box
     if (selectionBox) {
         ctx.fillStyle = 'rgba(59, 130, 246, 0.2)'; 
@@ -495,7 +530,7 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
         ctx.beginPath(); ctx.rect(selectionBox.x1, selectionBox.y1, selectionBox.x2 - selectionBox.x1, selectionBox.y2 - selectionBox.y1);
         ctx.fill(); ctx.stroke();
     }
-  }, [shapes, selectedShapeIds, currentShape, selectionBox, offset, scale, dimensions, gridToScreen, hoveredShapeId, getResizeHandles, cursorPos, mode, isDragging]);
+  }, [visibleShapes, selectedShapeIds, currentShape, selectionBox, offset, scale, dimensions, gridToScreen, hoveredShapeId, getResizeHandles, getGizmoHandles, cursorPos, mode, isDragging, axesSettings, gridSettings]);
 
 
   // --- EVENT HANDLERS ---
@@ -505,22 +540,49 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
       const mx = e.clientX - rect.left;
       const my = e.clientY - rect.top;
       const { x: gx, y: gy } = screenToGrid(e.clientX, e.clientY);
-      const sgx = snap(gx);
-      const sgy = snap(gy);
+      const { x: sgx, y: sgy } = mode === 'pan' ? snap(gx, gy) : snapPoint(gx, gy);
 
       if (e.button === 1 || (mode === 'pan' && !e.shiftKey)) {
+          // The gizmo sits on top of the shapes; moving the pivot changes no shape
+          const gizmo = e.button === 0 && transformPivot && gizmoBounds ? hitGizmo(mx, my) : null;
+          if (gizmo && transformPivot && gizmoBounds) {
+              if (gizmo !== 'pivot') onInteractionStart();
+              setInitialShapeState(shapes.filter(s => selectedShapeIds.has(s.id)));
+              setGizmoDrag({ handle: gizmo, pivot: transformPivot, start: { x: gx, y: gy }, bounds: gizmoBounds });
+              setIsDragging(true);
+              return;
+          }
+
           // Check Hit
           const { id: hitId, handle } = hitTest(mx, my);
 
           if (hitId) {
              onInteractionStart();
+             // A mid-edge handle becomes a new vertex, dragged straight away
+             if (handle?.startsWith('insert:')) {
+                 const s = shapes.find(sh => sh.id === hitId)!;
+                 const i = handleIndex(handle);
+                 const [a, b] = getPolygonEdges(s)[i];
+                 const ns = insertVertex(s, i, { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+                 onShapesUpdate([ns]);
+                 setInitialShapeState([ns]);
+                 setEditHandle(`vertex:${i + 1}`);
+                 setIsDragging(true);
+                 setDragStart({ x: sgx, y: sgy });
+                 return;
+             }
              let newSel: Set<string>;
+             // Clicking any member of a persistent group picks up the whole group
+             const members = handle ? [hitId] : getGroupMemberIds(shapes, hitId).filter(id => {
+                 const member = shapes.find(s => s.id === id);
+                 return member && isShapeEditable(member, layers);
+             });
 
              // Intelligent Selection Logic for Dragging Groups
              if (e.ctrlKey) {
                  newSel = new Set(selectedShapeIds);
-                 if (newSel.has(hitId)) newSel.delete(hitId);
-                 else newSel.add(hitId);
+                 if (newSel.has(hitId)) members.forEach(id => newSel.delete(id));
+                 else members.forEach(id => newSel.add(id));
              } else {
                  // If the clicked object is ALREADY selected, we KEEP the selection as is.
                  // This allows dragging a group of pre-selected objects.
@@ -528,7 +590,7 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
                  if (selectedShapeIds.has(hitId)) {
                      newSel = new Set(selectedShapeIds);
                  } else {
-                     newSel = new Set([hitId]);
+                     newSel = new Set(members);
                  }
              }
              
@@ -549,6 +611,44 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
           }
       }
 
+      // Split cuts at the snapped point; the other edit tools only need to know which part was clicked
+      if (isEditTool(mode)) {
+          const { id } = hitTest(mx, my);
+          if (id) onEditPick(id, mode === 'split' ? { x: sgx, y: sgy } : { x: gx, y: gy });
+          return;
+      }
+
+      if (mode === 'arc' && currentShape && arcPoints) {
+          const third = { x: sgx, y: sgy };
+          const arc = arcMode === 'center' ? arcFromCenter(arcPoints[0], arcPoints[1], third) : arcFromThreePoints(arcPoints[0], third, arcPoints[1]);
+          // A point on the chord line cannot define a three-point arc; wait for another click
+          if (!arc) return;
+          onShapeAdd({ ...currentShape, ...arc, id: Math.random().toString(36).substr(2, 9) });
+          setCurrentShape(null); setDrawStart(null); setArcPoints(null);
+          return;
+      }
+
+      if (mode === 'mark_angle' && currentShape) {
+          onShapeAdd({ ...currentShape, cx1: sgx, cy1: sgy, id: Math.random().toString(36).substr(2, 9) });
+          setCurrentShape(null); setDrawStart(null);
+          return;
+      }
+
+      // Each click fixes a vertex; clicking the first vertex (polygon), the last one again
+      // (double-click) or pressing Enter finishes
+      if ((mode === 'polygon' || mode === 'polyline') && currentShape) {
+          const fixed = getVertices(currentShape).slice(0, -1);
+          const first = gridToScreen(fixed[0].x, fixed[0].y);
+          const last = gridToScreen(fixed[fixed.length - 1].x, fixed[fixed.length - 1].y);
+          if ((currentShape.closed && fixed.length >= 3 && dist({ x: mx, y: my }, first) < SNAP_TOLERANCE) || dist({ x: mx, y: my }, last) < SNAP_TOLERANCE) {
+              finishPolygon(currentShape);
+              return;
+          }
+          setDrawStart({ x: sgx, y: sgy });
+          setCurrentShape(withVertices(currentShape, [...fixed, { x: sgx, y: sgy }, { x: sgx, y: sgy }]));
+          return;
+      }
+
       onInteractionStart();
       if (mode === 'pan' && e.shiftKey) {
           setDrawStart({ x: mx, y: my });
@@ -556,42 +656,127 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
           return;
       }
       if (mode === 'circular_pattern') { onCircularPatternCenter(sgx, sgy); return; }
+      if (mode === 'offset_side') { onOffsetSide({ x: gx, y: gy }); return; }
 
       setDrawStart({ x: sgx, y: sgy });
       setCurrentShape({
           id: 'temp', type: mode, x1: sgx, y1: sgy, x2: sgx, y2: sgy,
           style: lineStyle, arrow: arrowStyle, lineWidth: lineWidth,
-          points: mode === 'freehand' ? [{x: sgx, y: sgy}] : undefined
+          points: mode === 'freehand' ? [{x: sgx, y: sgy}] : undefined,
+          ...(mode === 'mark_angle' ? { angleRadius: 0.5, angleArcs: 1 } : {}),
+          ...(mode === 'plot' ? placePlot({ x: sgx, y: sgy }, { x: sgx, y: sgy }) : {}),
+          // The last vertex follows the cursor until the next click fixes it
+          ...(mode === 'polygon' || mode === 'polyline' ? { type: 'polygon', closed: mode === 'polygon', points: [{ x: sgx, y: sgy }, { x: sgx, y: sgy }] } : {})
       });
   };
 
+  // Adds a polygon being drawn with the vertices fixed so far, dropping it if there are too few
+  const finishPolygon = (shape: Shape) => {
+      const fixed = getVertices(shape).slice(0, -1);
+      if (fixed.length >= getMinVertices(shape)) onShapeAdd(withVertices({ ...shape, id: Math.random().toString(36).substr(2, 9) }, fixed));
+      setCurrentShape(null); setDrawStart(null);
+  };
+
+  // Enter finishes the polygon being drawn; re-registered every render so it sees the latest shape
+  useEffect(() => {
+      if (!currentShape || currentShape.type !== 'polygon') return;
+      const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Enter') finishPolygon(currentShape); };
+      window.addEventListener('keydown', onKeyDown);
+      return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Double-clicking a polygon vertex deletes it
+  const handleDoubleClick = (e: React.MouseEvent) => {
+      if (mode !== 'pan' || !containerRef.current) return;
+      const rect = containerRef.current.getBoundingClientRect();
+      const { id, handle } = hitTest(e.clientX - rect.left, e.clientY - rect.top);
+      const s = shapes.find(sh => sh.id === id);
+      if (!s || !handle?.startsWith('vertex:')) return;
+      const ns = removeVertex(s, handleIndex(handle));
+      if (!ns) { window.alert(s.closed ? 'A polygon needs at least 3 vertices.' : 'A polyline needs at least 2 vertices.'); return; }
+      onInteractionStart();
+      onShapesUpdate([ns]);
+  };
+
+  // Cartesian plots keep the grid's origin and take their domain from a horizontal drag (a click
+  // uses the toolbar's); parametric and polar plots are centred where the drag starts
+  const placePlot = (start: Point, end: Point): Partial<Shape> => {
+      if (plotDefinition.kind !== 'cartesian') return { x1: start.x, y1: start.y, x2: start.x, y2: start.y, plot: plotDefinition };
+      const domain: [number, number] = start.x === end.x ? plotDefinition.domain : [Math.min(start.x, end.x), Math.max(start.x, end.x)];
+      return { x1: 0, y1: 0, x2: 0, y2: 0, plot: { ...plotDefinition, domain } };
+  };
+
+  // Switching tools abandons a half-drawn shape (e.g. an angle mark waiting for its second ray)
+  useEffect(() => { setCurrentShape(null); setDrawStart(null); setArcPoints(null); }, [mode, arcMode]);
+
   const handleMouseMove = (e: React.MouseEvent) => {
       if (!containerRef.current) return;
       const rect = containerRef.current.getBoundingClientRect();
       const mx = e.clientX - rect.left;
       const my = e.clientY - rect.top;
       const { x: gx, y: gy } = screenToGrid(e.clientX, e.clientY);
-      const sgx = snap(gx);
-      const sgy = snap(gy);
+      // Object snaps apply while drawing and while dragging a handle
+      const isEditingHandle = isDragging && !!editHandle && editHandle !== 'move';
+      const snapped = mode !== 'pan' || isEditingHandle
+          ? snapPoint(gx, gy, isEditingHandle ? new Set(initialShapeState?.map(s => s.id)) : undefined)
+          : snap(gx, gy);
+      const sgx = snapped.x;
+      const sgy = snapped.y;
       
       // Update cursor position for snap indicator
-      setCursorPos({ x: sgx, y: sgy });
+      setCursorPos(snapped);
 
-      if (!isDragging && mode === 'pan' && !selectionBox) {
+      if (!isDragging && (mode === 'pan' || isEditTool(mode)) && !selectionBox) {
           const { id, handle } = hitTest(mx, my);
           setHoveredShapeId(id);
           setHoveredHandle(handle);
+          setHoveredGizmo(mode === 'pan' ? hitGizmo(mx, my) : null);
       } else {
           setHoveredShapeId(null);
           setHoveredHandle(null);
+          setHoveredGizmo(null);
+      }
+
+      if (isDragging && gizmoDrag) {
+          const { handle, pivot, start, bounds } = gizmoDrag;
+          if (handle === 'pivot') { const p = snapPoint(gx, gy); onTransformPivotChange({ x: p.x, y: p.y }); return; }
+          if (!initialShapeState) return;
+          let m: Affine;
+          if (handle === 'rotate') {
+              let angle = Math.atan2(gy - pivot.y, gx - pivot.x) - Math.atan2(start.y - pivot.y, start.x - pivot.x);
+              if (e.shiftKey) angle = Math.round(angle / ROTATE_SNAP) * ROTATE_SNAP;
+              m = rotationAbout(angle, pivot);
+          } else {
+              // The grabbed edge follows the cursor; the pivot stays put
+              const edgeX = handle.includes('e') ? bounds.maxX : handle.includes('w') ? bounds.minX : null;
+              const edgeY = handle.includes('n') ? bounds.maxY : handle.includes('s') ? bounds.minY : null;
+              const factor = (edge: number | null, c: number, p: number) => edge === null || Math.abs(edge - p) < 1e-9 ? null : (c - p) / (edge - p);
+              const fx = factor(edgeX, gx, pivot.x); const fy = factor(edgeY, gy, pivot.y);
+              // Shift scales evenly, by whichever factor has moved further
+              const even = fx === null ? fy : fy === null ? fx : Math.abs(fx - 1) > Math.abs(fy - 1) ? fx : fy;
+              const sx = e.shiftKey ? even ?? 1 : fx ?? 1; const sy = e.shiftKey ? even ?? 1 : fy ?? 1;
+              if (Math.abs(sx) < 1e-6 || Math.abs(sy) < 1e-6) return;
+              m = scalingAbout(sx, sy, pivot);
+          }
+          onShapesUpdate(initialShapeState.map(s => transformShape(s, m) ?? s));
+          return;
       }
 
       if (isDragging) {
           if (!editHandle) {
              setOffset({ x: e.clientX - dragStart.x, y: e.clientY - dragStart.y });
           } else if (initialShapeState) {
-             const dx = sgx - dragStart.x;
-             const dy = sgy - dragStart.y;
+             // On an object snap the handle itself lands on the snap point, wherever it was grabbed
+             const s0 = initialShapeState[0];
+             const anchor = snapped.kind && initialShapeState.length === 1
+                 ? editHandle === 'start' ? { x: s0.x1, y: s0.y1 }
+                 : editHandle === 'end' && s0.type !== 'arc' ? { x: s0.x2, y: s0.y2 }
+                 : editHandle === 'cp1' && s0.cx1 !== undefined && s0.cy1 !== undefined ? { x: s0.cx1, y: s0.cy1 }
+                 : editHandle.startsWith('vertex:') ? getVertices(s0)[handleIndex(editHandle)]
+                 : null
+                 : null;
+             const dx = sgx - (anchor ?? dragStart).x;
+             const dy = sgy - (anchor ?? dragStart).y;
              
              const updated = initialShapeState.map(s => {
                  const ns = { ...s };
@@ -603,6 +788,15 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
                      if (ns.points) ns.points = ns.points.map(p => ({x: p.x+dx, y: p.y+dy}));
                      if (ns.textX) ns.textX += dx; if(ns.textY) ns.textY += dy;
                  } 
+                 else if (editHandle.startsWith('vertex:')) {
+                     const i = handleIndex(editHandle);
+                     const v = getVertices(s)[i];
+                     return moveVertex(s, i, { x: v.x + dx, y: v.y + dy });
+                 }
+                 else if (s.type === 'arc' && editHandle !== 'start') {
+                     if (editHandle === 'arc_start' || editHandle === 'arc_end') return setArcEnd(s, editHandle === 'arc_start' ? 'start' : 'end', sgx, sgy);
+                     return setArcRadius(s, Math.max(0.1, dist({ x: s.x1, y: s.y1 }, { x: sgx, y: sgy })));
+                 }
                  else if (isBoxShape(s.type)) {
                      // Determine current Min/Max to know which edge is which
                      const isX1Min = s.x1 <= s.x2;
@@ -633,10 +827,15 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
                  }
                  else if (editHandle === 'start') {
                      ns.x1 += dx; ns.y1 += dy;
+                     // An arc's start point rides along with its center
+                     if (s.type === 'arc') { ns.x2 += dx; ns.y2 += dy; }
                  } 
                  else if (editHandle === 'end') {
                      ns.x2 += dx; ns.y2 += dy;
                  }
+                 else if (editHandle === 'cp1' && ns.cx1 !== undefined && ns.cy1 !== undefined) {
+                     ns.cx1 += dx; ns.cy1 += dy;
+                 }
                  return ns;
              });
              onShapesUpdate(updated);
@@ -649,9 +848,33 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
           return;
       }
 
+      // Third arc point: the button is up and the cursor picks the end or a point on the arc
+      if (currentShape && mode === 'arc' && arcPoints) {
+          const cursor = { x: sgx, y: sgy };
+          const arc = arcMode === 'center' ? arcFromCenter(arcPoints[0], arcPoints[1], cursor) : arcFromThreePoints(arcPoints[0], cursor, arcPoints[1]) ?? arcFromChord(arcPoints[0], arcPoints[1]);
+          setCurrentShape({ ...currentShape, ...arc });
+          return;
+      }
+
+      // Second step of an angle mark: the button is up and the cursor aims the second ray
+      if (currentShape && mode === 'mark_angle' && currentShape.cx1 !== undefined) {
+          setCurrentShape({ ...currentShape, cx1: sgx, cy1: sgy });
+          return;
+      }
+
+      if (currentShape && (mode === 'polygon' || mode === 'polyline')) {
+          setCurrentShape(moveVertex(currentShape, getVertices(currentShape).length - 1, { x: sgx, y: sgy }));
+          return;
+      }
+
       if (currentShape) {
-          const ns = { ...currentShape, x2: sgx, y2: sgy };
+          // A point follows the cursor until the button is released
+          const ns = mode === 'point' ? { ...currentShape, x1: sgx, y1: sgy, x2: sgx, y2: sgy }
+              : mode === 'plot' && drawStart ? { ...currentShape, ...placePlot(drawStart, { x: sgx, y: sgy }) }
+              : { ...currentShape, x2: sgx, y2: sgy };
           if (mode === 'freehand') ns.points = [...(ns.points || []), {x: gx, y: gy}];
+          // Center mode previews the full circle; three-point mode a half circle over the chord
+          if (mode === 'arc' && arcMode === 'three_point' && drawStart) Object.assign(ns, arcFromChord(drawStart, { x: sgx, y: sgy }));
           if (mode === 'bezier') {
               ns.cx1 = ns.x1 + (ns.x2 - ns.x1) * 0.33; ns.cy1 = ns.y1;
               ns.cx2 = ns.x1 + (ns.x2 - ns.x1) * 0.66; ns.cy2 = ns.y2;
@@ -661,7 +884,7 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
   };
 
   const handleMouseUp = () => {
-      if (isDragging) { setIsDragging(false); setEditHandle(null); setInitialShapeState(null); }
+      if (isDragging) { setIsDragging(false); setEditHandle(null); setInitialShapeState(null); setGizmoDrag(null); }
       
       // Handle Selection Box Completion
       if (selectionBox) { 
@@ -673,10 +896,11 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
           const newIds = new Set<string>();
 
           shapes.forEach(s => {
-              if (s.isGuide) return;
+              if (s.isGuide || !isShapeEditable(s, layers)) return;
               
-              const p1 = gridToScreen(s.x1, s.y1);
-              const p2 = gridToScreen(s.x2, s.y2);
+              const box = s.type === 'plot' ? getPlotBounds(s) : s.type === 'polygon' || s.type === 'compound' ? getPolygonBounds(s) : null;
+              const p1 = box ? gridToScreen(box.minX, box.minY) : gridToScreen(s.x1, s.y1);
+              const p2 = box ? gridToScreen(box.maxX, box.maxY) : gridToScreen(s.x2, s.y2);
               
               // Determine screen bounds of the shape
               // For simple intersection, we check if the shape's bounding box intersects the selection box
@@ -693,12 +917,34 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
               }
           });
           
-          onSelectionChange(newIds);
+          // Touching one member selects its whole group
+          const grouped = expandToGroups(newIds, shapes);
+          onSelectionChange(new Set([...grouped].filter(id => {
+              const member = shapes.find(s => s.id === id);
+              return member && isShapeEditable(member, layers);
+          })));
           setSelectionBox(null); 
           setDrawStart(null); 
       }
 
-      if (currentShape) {
+      // An angle mark takes a drag for the first ray and a click for the second
+      if (currentShape && mode === 'mark_angle' && currentShape.cx1 === undefined) {
+          if (currentShape.x1 === currentShape.x2 && currentShape.y1 === currentShape.y2) { setCurrentShape(null); setDrawStart(null); }
+          else setCurrentShape({ ...currentShape, cx1: currentShape.x2, cy1: currentShape.y2 });
+          setCursorPos(null);
+          return;
+      }
+
+      // An arc takes a drag for its first two points and a click for the third
+      if (currentShape && mode === 'arc' && !arcPoints) {
+          const second = cursorPos;
+          if (!drawStart || !second || (second.x === drawStart.x && second.y === drawStart.y)) { setCurrentShape(null); setDrawStart(null); }
+          else setArcPoints([drawStart, second]);
+          setCursorPos(null);
+          return;
+      }
+
+      if (currentShape && mode !== 'mark_angle' && mode !== 'arc' && mode !== 'polygon' && mode !== 'polyline') {
           if (mode === 'mirror_axis') onMirrorLine(currentShape.x1, currentShape.y1, currentShape.x2, currentShape.y2);
           else onShapeAdd({ ...currentShape, id: Math.random().toString(36).substr(2, 9) });
           setCurrentShape(null); setDrawStart(null);
@@ -714,6 +960,14 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
   // Determine Cursor Style
   const cursorStyle = useMemo(() => {
       if (mode !== 'pan') return 'crosshair';
+      const gizmo = gizmoDrag?.handle ?? hoveredGizmo;
+      if (gizmo) {
+          if (gizmo === 'rotate') return isDragging ? 'grabbing' : 'grab';
+          if (gizmo === 'pivot') return 'move';
+          if (gizmo === 'n' || gizmo === 's') return 'ns-resize';
+          if (gizmo === 'e' || gizmo === 'w') return 'ew-resize';
+          return gizmo === 'nw' || gizmo === 'se' ? 'nwse-resize' : 'nesw-resize';
+      }
       if (isDragging) {
           if (!editHandle) return 'grabbing';
           return 'crosshair'; // Fallback
@@ -727,7 +981,7 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
       }
       if (hoveredShapeId) return 'move'; 
       return 'grab';
-  }, [mode, isDragging, editHandle, hoveredShapeId, hoveredHandle]);
+  }, [mode, isDragging, editHandle, hoveredShapeId, hoveredHandle, gizmoDrag, hoveredGizmo]);
 
   return (
     <div ref={containerRef} className="relative w-full h-full bg-slate-950 overflow-hidden select-none">
@@ -739,6 +993,7 @@ export const CartesianCanvas: React.FC<CartesianCanvasProps> = ({
             onMouseMove={handleMouseMove}
             onMouseUp={handleMouseUp}
             onMouseLeave={handleMouseUp}
+            onDoubleClick={handleDoubleClick}
             onWheel={handleWheel}
         />
         <ZoomControls scale={scale} setScale={setScale} setOffset={setOffset} />
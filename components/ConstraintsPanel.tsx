@@ -0,0 +1,83 @@
+import React from 'react';
+import { Shape } from './CartesianCanvas';
+import { Constraint, ConstraintKind, ConstraintRef, CONSTRAINT_KINDS, CONSTRAINT_LABELS } from '../services/constraints';
+
+interface ConstraintsPanelProps {
+  // Only constraints whose shapes all exist
+  constraints: Constraint[];
+  shapes: Shape[];
+  selectedShapeIds: Set<string>;
+  onClose: () => void;
+  onAdd: (kind: ConstraintKind) => void;
+  onDelete: (id: string) => void;
+  onValueChange: (id: string, value: number) => void;
+  onSelect: (ids: Set<string>) => void;
+}
+
+const iconButton = 'p-1 rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed';
+
+const UNITS: Partial<Record<ConstraintKind, string>> = { distance: 'u', angle: '°' };
+
+export const ConstraintsPanel: React.FC<ConstraintsPanelProps> = ({
+  constraints,
+  shapes,
+  selectedShapeIds,
+  onClose,
+  onAdd,
+  onDelete,
+  onValueChange,
+  onSelect,
+}) => {
+  // e.g. "line #2 end" or "polygon #3 edge 1": shapes are numbered in drawing order, vertices and edges from 1
+  const describeRef = ({ shapeId, point, edge }: ConstraintRef) => {
+    const index = shapes.findIndex(s => s.id === shapeId);
+    const part = edge !== undefined ? ` edge ${edge + 1}` : point ? ` ${point.replace(/^vertex:(\d+)$/, (_, i) => `vertex ${Number(i) + 1}`)}` : '';
+    return `${shapes[index]?.type.replace('_', ' ')} #${index + 1}${part}`;
+  };
+
+  return (
+    <div className="absolute top-4 right-4 w-72 flex flex-col bg-slate-900/95 rounded-lg border border-slate-800 shadow-xl backdrop-blur-sm text-xs text-slate-300 z-10">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-800">
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Constraints</span>
+        <button onClick={onClose} className={`${iconButton} text-slate-400 hover:text-white hover:bg-slate-700`} title="Close">
+          <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-1 px-2 py-2 border-b border-slate-800">
+        {CONSTRAINT_KINDS.map(kind => (
+          <button key={kind} onClick={() => onAdd(kind)} disabled={selectedShapeIds.size === 0} className="py-1 rounded bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors" title={`Add a ${CONSTRAINT_LABELS[kind].toLowerCase()} constraint to the selection`}>
+            {CONSTRAINT_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+
+      {constraints.length === 0 ? (
+        <p className="px-3 py-2 text-slate-500 italic">Select shapes in order, then pick a constraint. The first shape selected stays put.</p>
+      ) : (
+        <ul className="flex flex-col max-h-72 overflow-y-auto py-1">
+          {constraints.map(c => {
+            const involved = c.refs.some(r => selectedShapeIds.has(r.shapeId));
+            return (
+              <li key={c.id} onClick={() => onSelect(new Set(c.refs.map(r => r.shapeId)))} className={`group flex items-center gap-1 px-2 py-1 cursor-pointer ${involved ? 'bg-cyan-900/40 text-white' : 'hover:bg-slate-800'}`}>
+                <div className="flex-grow min-w-0">
+                  <div className="font-bold">{CONSTRAINT_LABELS[c.kind]}</div>
+                  <div className="text-[10px] text-slate-500 truncate">{c.refs.map(describeRef).join(' · ')}</div>
+                </div>
+                {c.value !== undefined && (
+                  <div className="flex items-center gap-0.5" onClick={(e) => e.stopPropagation()}>
+                    <input type="number" step={c.kind === 'angle' ? 1 : 0.1} value={Math.round(c.value * 1000) / 1000} onChange={(e) => { const v = Number(e.target.value); if (isFinite(v) && (c.kind !== 'distance' || v >= 0)) onValueChange(c.id, v); }} className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 w-16 text-center text-slate-200" />
+                    <span className="text-slate-500">{UNITS[c.kind]}</span>
+                  </div>
+                )}
+                <button onClick={(e) => { e.stopPropagation(); onDelete(c.id); }} className={`${iconButton} text-slate-400 hover:text-red-400 opacity-0 group-hover:opacity-100`} title="Remove Constraint">
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path></svg>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
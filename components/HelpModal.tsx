@@ -45,6 +45,8 @@ export const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
                         <ul className="list-disc list-inside space-y-2 text-slate-300 text-sm">
                             <li><strong className="text-cyan-400">Pan:</strong> Select the <span className="inline-flex items-center px-1.5 py-0.5 rounded bg-slate-800 border border-slate-700 text-xs">Pan Tool</span> or hold Spacebar (standard behavior) to drag the canvas.</li>
                             <li><strong className="text-cyan-400">Zoom:</strong> Use the Mouse Wheel to zoom in/out centered on the cursor.</li>
+                            <li><strong className="text-cyan-400">Axes Settings:</strong> The ruler button next to the Axes and Grid checkboxes opens the axes panel: axis labels, tick steps, minor ticks, numbering, a fixed range, an origin label, π ticks for trigonometric graphs and arrow heads. The canvas and every export follow these settings.</li>
+                            <li><strong className="text-cyan-400">Grid Modes:</strong> The same panel switches the grid between rectangular (separate x and y spacing), polar (rings and rays) and isometric (triangles at 60°), each with optional subdivisions. Grid snapping follows the grid: half cells, ray angles on a polar grid and the 30°/60° lattice on an isometric one.</li>
                         </ul>
                     </section>
 
@@ -52,11 +54,32 @@ export const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
                         <h3 className="text-lg font-bold text-white mb-2 border-b border-slate-800 pb-1">Selection & Manipulation</h3>
                         <ul className="list-disc list-inside space-y-2 text-slate-300 text-sm">
                             <li><strong className="text-cyan-400">Single Select:</strong> Click on any object to select it.</li>
+                            <li><strong className="text-cyan-400">Groups:</strong> Clicking any member of a group selects the whole group. Groups can contain other groups; ungrouping removes one level at a time.</li>
                             <li><strong className="text-cyan-400">Multi Select:</strong> Hold <kbd className="px-1.5 py-0.5 rounded bg-slate-800 border border-slate-600 font-mono text-xs">Ctrl</kbd> or <kbd className="px-1.5 py-0.5 rounded bg-slate-800 border border-slate-600 font-mono text-xs">Meta</kbd> and click objects to add/remove them from selection.</li>
                             <li><strong className="text-cyan-400">Box Select:</strong> Hold <kbd className="px-1.5 py-0.5 rounded bg-slate-800 border border-slate-600 font-mono text-xs">Shift</kbd> + <strong>Right Click & Drag</strong> to create a selection box. All intersecting objects will be selected.</li>
                             <li><strong className="text-cyan-400">Move:</strong> Drag selected objects to move them. Snapping is enabled by default.</li>
                             <li><strong className="text-cyan-400">Rotate:</strong> Select an object. A pink handle connected by a dashed line will appear above it. Drag this handle to rotate.</li>
                             <li><strong className="text-cyan-400">Resize/Edit:</strong> Use the green handles (endpoints) or yellow handles (control points) to modify shapes.</li>
+                            <li><strong className="text-cyan-400">Object Snaps:</strong> While drawing or dragging a handle, the cursor snaps to endpoints, intersections, midpoints, centers, quadrants, perpendicular feet and tangent points of nearby shapes, shown by a cyan marker. Toggle each kind next to the grid snap button.</li>
+                        </ul>
+                    </section>
+
+                    <section>
+                        <h3 className="text-lg font-bold text-white mb-2 border-b border-slate-800 pb-1">Layers</h3>
+                        <ul className="list-disc list-inside space-y-2 text-slate-300 text-sm">
+                            <li><strong className="text-cyan-400">Panel:</strong> Open it with the <span className="inline-flex items-center px-1.5 py-0.5 rounded bg-slate-800 border border-slate-700 text-xs">Layers</span> button. New shapes go to the highlighted (active) layer; click a layer to activate it and double-click its name to rename it.</li>
+                            <li><strong className="text-cyan-400">Hide/Lock:</strong> Hidden layers are neither drawn nor exported. Locked layers stay visible but cannot be selected or edited.</li>
+                            <li><strong className="text-cyan-400">Order:</strong> The top of the list is drawn last (in front). Each layer exports as its own TikZ <code>scope</code> or <code>pgfonlayer</code>.</li>
+                        </ul>
+                    </section>
+
+                    <section>
+                        <h3 className="text-lg font-bold text-white mb-2 border-b border-slate-800 pb-1">Constraints</h3>
+                        <ul className="list-disc list-inside space-y-2 text-slate-300 text-sm">
+                            <li><strong className="text-cyan-400">Adding:</strong> Open the <span className="inline-flex items-center px-1.5 py-0.5 rounded bg-slate-800 border border-slate-700 text-xs">Constraints</span> panel, select shapes in order and pick a constraint. The first shape stays put; endpoints are matched where the shapes come closest.</li>
+                            <li><strong className="text-cyan-400">Solving:</strong> Whenever you drag or edit a shape, the shapes tied to it move as little as needed to keep every constraint, so a constrained square stays square.</li>
+                            <li><strong className="text-cyan-400">Polygons:</strong> Vertices join, keep distances and sit on curves like endpoints. Select a polygon on its own to constrain its edges: Perpendicular squares each edge to the next, Parallel pairs opposite edges and Equal Length matches every edge to the first, so Perpendicular plus Equal Length on the Square template keeps it square. Inserting or deleting vertices renumbers them, so re-add the polygon's constraints afterwards.</li>
+                            <li><strong className="text-cyan-400">Values:</strong> Distance and angle constraints keep the value they were created with; edit it in the panel to re-solve.</li>
                         </ul>
                     </section>
                 </div>
@@ -70,8 +93,16 @@ export const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
                             <li><strong className="text-yellow-500">Freehand:</strong> Draw arbitrary paths. Ideal for sketches.</li>
                             <li><strong className="text-yellow-500">Line:</strong> Simple straight line segment. Can add arrows.</li>
                             <li><strong className="text-yellow-500">Rect / Circle / Ellipse:</strong> Standard geometric shapes. Supports fill and hatch patterns.</li>
-                            <li><strong className="text-yellow-500">Arc:</strong> Draws an elliptical arc.</li>
+                            <li><strong className="text-yellow-500">Arc:</strong> Drag from the center to the start point, then click the end (counterclockwise). In <em>Three points</em> mode drag from start to end, then click a point the arc passes through. Drag the end handles to change the angles, the middle handle for the radius.</li>
                             <li><strong className="text-yellow-500">Bezier:</strong> Cubic Bezier curve with two control points.</li>
+                            <li><strong className="text-yellow-500">Polygon / Polyline:</strong> Click each vertex; finish by clicking the first vertex (polygon), double-clicking or pressing <kbd className="px-1.5 py-0.5 rounded bg-slate-800 border border-slate-600 font-mono text-xs">Enter</kbd>. Drag a vertex handle to move it, drag a hollow mid-edge handle to add a vertex, double-click a vertex to delete it. Closed polygons take fill and hatch patterns and export as a single <code>-- cycle</code> path.</li>
+                            <li><strong className="text-yellow-500">Boolean Operations:</strong> Select two or more closed shapes (rectangles, circles, ellipses, closed polygons or earlier results) and pick union, difference, intersection or exclusive or. A difference cuts the others out of the first shape selected. The result is one compound path that keeps holes: TikZ and SVG fill it with the even-odd rule, MetaPost fills it through a slit joining each hole to its outline.</li>
+                            <li><strong className="text-yellow-500">Trim / Extend / Split:</strong> Pick the tool, then click a shape. Trim cuts away the piece of a line, circle or arc between the crossings on either side of the click. Extend lengthens the clicked end of a line, open polyline or arc to the next shape in its way. Split cuts a line, arc, bezier or polyline in two at the (snapped) point, and opens a polygon there.</li>
+                            <li><strong className="text-yellow-500">Fillet / Chamfer:</strong> Set the radius (or chamfer distance) in the toolbar, then click two lines on the sides to keep. Both lines are cut or lengthened to the corner and joined by an arc or a bevel; 0 just makes them meet.</li>
+                            <li><strong className="text-yellow-500">Offset:</strong> Copies the selection a set distance away. Closed shapes and arcs go inside or outside (or towards a click, if the side is set to that); lines, polylines and bezier curves (approximated) go to the side you click next. Outer corners of polygons are mitered, rounded or beveled as chosen in the toolbar.</li>
+                            <li><strong className="text-yellow-500">Transform:</strong> Opens a panel to rotate the selection by an exact angle, scale it (evenly or not, negative factors mirror) or skew it, about the selection center, the first shape selected, the origin or a point you type or drag. A box with handles appears around the selection: drag its corners and sides to scale, the knob on top to rotate, the pink cross to move the pivot; Shift scales evenly and turns in 15° steps. A circle scaled unevenly becomes an ellipse; a skewed rectangle becomes a polygon and a stretched arc a polyline.</li>
+                            <li><strong className="text-yellow-500">Align / Distribute:</strong> Line up the selection's left, right, top or bottom edges or centers with the first shape selected, the selection's bounds or the origin. Distribute spaces three or more shapes evenly between the outermost two, by equal steps between centers or equal gaps between neighbours. Groups move as one.</li>
+                            <li><strong className="text-yellow-500">Properties:</strong> The Properties panel shows the selection's exact coordinates and sizes: ends of lines with their length and angle, circle radius and diameter, rectangle width and height, ellipse radii, bezier control points, rotation in degrees and the label. Fields take expressions such as √2, sqrt(3)/2 or 2π; with several shapes selected, values that differ read "mixed" and whatever you type applies to all of them.</li>
                         </ul>
                     </div>
                     <div className="space-y-4">
@@ -79,9 +110,12 @@ export const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
                         <ul className="space-y-3 text-sm text-slate-300">
                             <li><strong className="text-yellow-500">Measure (Dimension):</strong> Creates a linear dimension line with offset.</li>
                             <li><strong className="text-yellow-500">Radius / Diameter:</strong> Creates a measurement line. Note: Click near the rim of an existing Circle to instantly add a Diameter measurement.</li>
-                            <li><strong className="text-yellow-500">Mark Angle:</strong> Click two existing lines sequentially to create an angle mark between them.</li>
+                            <li><strong className="text-yellow-500">Mark Angle:</strong> Drag from the vertex along the first ray, then click a point on the second ray. The mark sweeps counterclockwise; set its radius, 1-3 arcs, a right-angle square and a label from the toolbar.</li>
                             <li><strong className="text-yellow-500">Curly Brace:</strong> Decorative brace between two points.</li>
                             <li><strong className="text-yellow-500">Text:</strong> Place a text label. Double-click or use the input box in the header to edit text.</li>
+                            <li><strong className="text-yellow-500">Named Point:</strong> Click to place a labelled point (A, B, C...). Lines, circles, arcs and marks drawn from a point stay attached to it, and tkz-euclide exports reuse its name.</li>
+                            <li><strong className="text-yellow-500">Function Plot:</strong> Pick <em>y = f(x)</em>, <em>x(t), y(t)</em> or <em>r(θ)</em> in the toolbar and type the expression, e.g. <code>x^2/2 - 1</code> or <code>2cos(3θ)</code>, with its domain and sample count. Drag across the x range for a function graph; parametric and polar curves are centred where you click. Exports use TikZ's own <code>plot</code> (sampled paths in MetaPost).</li>
+                            <li><strong className="text-yellow-500">Construct:</strong> With points or segments selected, pick a construction (midpoint, intersection, mediator, bisector, foot, circumcenter, incenter, point on circle). Constructed points are hollow and follow their parents when those move.</li>
                         </ul>
                     </div>
                 </div>
@@ -103,10 +137,26 @@ export const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
                                     <td className="px-4 py-2">Undo</td>
                                     <td className="px-4 py-2"><kbd className="bg-slate-800 border border-slate-600 rounded px-1.5 py-0.5 text-xs font-mono">Ctrl</kbd> + <kbd className="bg-slate-800 border border-slate-600 rounded px-1.5 py-0.5 text-xs font-mono">Z</kbd></td>
                                 </tr>
+                                <tr className="hover:bg-slate-800/50">
+                                    <td className="px-4 py-2">Save Project</td>
+                                    <td className="px-4 py-2"><kbd className="bg-slate-800 border border-slate-600 rounded px-1.5 py-0.5 text-xs font-mono">Ctrl</kbd> + <kbd className="bg-slate-800 border border-slate-600 rounded px-1.5 py-0.5 text-xs font-mono">S</kbd></td>
+                                </tr>
+                                <tr className="hover:bg-slate-800/50">
+                                    <td className="px-4 py-2">Open Project</td>
+                                    <td className="px-4 py-2"><kbd className="bg-slate-800 border border-slate-600 rounded px-1.5 py-0.5 text-xs font-mono">Ctrl</kbd> + <kbd className="bg-slate-800 border border-slate-600 rounded px-1.5 py-0.5 text-xs font-mono">O</kbd></td>
+                                </tr>
                                 <tr className="hover:bg-slate-800/50">
                                     <td className="px-4 py-2">Duplicate Selection</td>
                                     <td className="px-4 py-2"><kbd className="bg-slate-800 border border-slate-600 rounded px-1.5 py-0.5 text-xs font-mono">Ctrl</kbd> + <kbd className="bg-slate-800 border border-slate-600 rounded px-1.5 py-0.5 text-xs font-mono">D</kbd></td>
                                 </tr>
+                                <tr className="hover:bg-slate-800/50">
+                                    <td className="px-4 py-2">Group Selection</td>
+                                    <td className="px-4 py-2"><kbd className="bg-slate-800 border border-slate-600 rounded px-1.5 py-0.5 text-xs font-mono">Ctrl</kbd> + <kbd className="bg-slate-800 border border-slate-600 rounded px-1.5 py-0.5 text-xs font-mono">G</kbd></td>
+                                </tr>
+                                <tr className="hover:bg-slate-800/50">
+                                    <td className="px-4 py-2">Ungroup (outermost level)</td>
+                                    <td className="px-4 py-2"><kbd className="bg-slate-800 border border-slate-600 rounded px-1.5 py-0.5 text-xs font-mono">Ctrl</kbd> + <kbd className="bg-slate-800 border border-slate-600 rounded px-1.5 py-0.5 text-xs font-mono">Shift</kbd> + <kbd className="bg-slate-800 border border-slate-600 rounded px-1.5 py-0.5 text-xs font-mono">G</kbd></td>
+                                </tr>
                                 <tr className="hover:bg-slate-800/50">
                                     <td className="px-4 py-2">Copy</td>
                                     <td className="px-4 py-2"><kbd className="bg-slate-800 border border-slate-600 rounded px-1.5 py-0.5 text-xs font-mono">Ctrl</kbd> + <kbd className="bg-slate-800 border border-slate-600 rounded px-1.5 py-0.5 text-xs font-mono">C</kbd></td>
@@ -156,6 +206,10 @@ export const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
                                 <h4 className="font-bold text-cyan-400 text-sm">tkz-euclide</h4>
                                 <p className="text-xs text-slate-400">Uses the specialized `tkz-euclide` package commands (`\tkzDefPoint`, `\tkzDrawSegment`). Best for geometric constructions.</p>
                             </div>
+                            <div>
+                                <h4 className="font-bold text-cyan-400 text-sm">pgfplots</h4>
+                                <p className="text-xs text-slate-400">Places the drawing inside a `pgfplots` `axis` environment with ticks, axis labels and equal scaling. Function plots, lines and freehand strokes become `\addplot` commands. Best for calculus material.</p>
+                            </div>
                             <div>
                                 <h4 className="font-bold text-cyan-400 text-sm">Nodes Option</h4>
                                 <p className="text-xs text-slate-400">If checked, shapes like Rectangles and Circles are exported as TikZ nodes rather than paths. This is useful for diagrams where text needs to be placed inside shapes.</p>
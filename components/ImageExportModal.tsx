@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Shape } from './CartesianCanvas';
+import { AxesSettings } from '../services/axes';
+import { GridSettings } from '../services/grid';
+import { ImageBackground, ImageBounds, ImageExportOptions, getContentBounds, getPixelSize, renderPng, renderPdf } from '../services/imageExport';
+
+interface ImageExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  shapes: Shape[];
+  documentName: string;
+  showAxes: boolean;
+  showGrid: boolean;
+  axesSettings: AxesSettings;
+  gridSettings: GridSettings;
+}
+
+const DPI_PRESETS = [72, 150, 300, 600];
+const PREVIEW_DPI = 40;
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const ImageExportModal: React.FC<ImageExportModalProps> = ({ isOpen, onClose, shapes, documentName, showAxes, showGrid, axesSettings, gridSettings }) => {
+  const [dpi, setDpi] = useState(300);
+  const [boundsMode, setBoundsMode] = useState<'content' | 'custom'>('content');
+  const [margin, setMargin] = useState(0.5);
+  const [customBounds, setCustomBounds] = useState<ImageBounds>({ minX: -5, maxX: 5, minY: -5, maxY: 5 });
+  const [includeGrid, setIncludeGrid] = useState(showGrid);
+  const [includeAxes, setIncludeAxes] = useState(showAxes);
+  const [background, setBackground] = useState<ImageBackground>('white');
+  const [preview, setPreview] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the editor's grid/axes toggles and the current content each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setIncludeGrid(showGrid);
+    setIncludeAxes(showAxes);
+    setCustomBounds(getContentBounds(shapes, 0.5));
+    setError(null);
+  }, [isOpen]);
+
+  const options: ImageExportOptions = useMemo(() => ({
+    dpi,
+    bounds: boundsMode === 'content' ? getContentBounds(shapes, margin) : customBounds,
+    showGrid: includeGrid,
+    showAxes: includeAxes,
+    axes: axesSettings,
+    grid: gridSettings,
+    background,
+  }), [dpi, boundsMode, margin, customBounds, includeGrid, includeAxes, axesSettings, gridSettings, background, shapes]);
+
+  const isValid = options.bounds.maxX > options.bounds.minX && options.bounds.maxY > options.bounds.minY && dpi > 0;
+  const pixelSize = isValid ? getPixelSize(options) : { width: 0, height: 0 };
+
+  useEffect(() => {
+    if (!isOpen || !isValid) { setPreview(''); return; }
+    let cancelled = false;
+    let url = '';
+    renderPng(shapes, { ...options, dpi: PREVIEW_DPI })
+      .then(blob => { if (cancelled) return; url = URL.createObjectURL(blob); setPreview(url); })
+      .catch(() => { if (!cancelled) setPreview(''); });
+    return () => { cancelled = true; if (url) URL.revokeObjectURL(url); };
+  }, [isOpen, isValid, options, shapes]);
+
+  const handlePng = async () => {
+    setError(null);
+    try {
+      downloadBlob(await renderPng(shapes, options), `${documentName}.png`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not render the image.');
+    }
+  };
+
+  const handlePdf = () => {
+    setError(null);
+    downloadBlob(renderPdf(shapes, options), `${documentName}.pdf`);
+  };
+
+  const updateBound = (key: keyof ImageBounds, value: string) => {
+    const n = parseFloat(value);
+    if (!isNaN(n)) setCustomBounds(prev => ({ ...prev, [key]: n }));
+  };
+
+  if (!isOpen) return null;
+
+  const inputClass = 'w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-white focus:border-cyan-500 outline-none';
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-md p-4 animate-in fade-in duration-300">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-4xl flex flex-col max-h-[90vh] overflow-hidden relative z-10 text-slate-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-5 border-b border-slate-800 bg-slate-950/50">
+          <h2 className="text-xl font-bold text-white">Export Image</h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-all cursor-pointer"><svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg></button>
+        </div>
+
+        <div className="flex-grow flex gap-4 p-4 overflow-hidden">
+          {/* Settings */}
+          <div className="w-64 flex-none flex flex-col gap-4 overflow-y-auto text-xs">
+            <div className="flex flex-col gap-1.5">
+              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Resolution (PNG)</span>
+              <div className="flex gap-1">
+                {DPI_PRESETS.map(p => (
+                  <button key={p} onClick={() => setDpi(p)} className={`flex-1 py-1 rounded font-bold transition-colors ${dpi === p ? 'bg-cyan-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-slate-200'}`}>{p}</button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2">DPI <input type="number" min={1} value={dpi} onChange={(e) => setDpi(Math.max(1, parseInt(e.target.value) || 1))} className={inputClass} /></label>
+              <span className="text-slate-500">{pixelSize.width} × {pixelSize.height} px</span>
+            </div>
+
+            <div className="flex flex-col gap-1.5">
+              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Bounding Box (grid units)</span>
+              <div className="flex gap-1">
+                <button onClick={() => setBoundsMode('content')} className={`flex-1 py-1 rounded font-bold transition-colors ${boundsMode === 'content' ? 'bg-cyan-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-slate-200'}`}>Fit Content</button>
+                <button onClick={() => setBoundsMode('custom')} className={`flex-1 py-1 rounded font-bold transition-colors ${boundsMode === 'custom' ? 'bg-cyan-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-slate-200'}`}>Custom</button>
+              </div>
+              {boundsMode === 'content' ? (
+                <label className="flex items-center gap-2 whitespace-nowrap">Margin <input type="number" step={0.5} min={0} value={margin} onChange={(e) => setMargin(Math.max(0, parseFloat(e.target.value) || 0))} className={inputClass} /></label>
+              ) : (
+                <div className="grid grid-cols-2 gap-1.5">
+                  {(['minX', 'maxX', 'minY', 'maxY'] as (keyof ImageBounds)[]).map(key => (
+                    <label key={key} className="flex flex-col gap-0.5 text-slate-400">{key}<input type="number" step={0.5} defaultValue={customBounds[key]} onChange={(e) => updateBound(key, e.target.value)} className={inputClass} /></label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-col gap-1.5">
+              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Content</span>
+              <label className="flex items-center gap-2 cursor-pointer"><input type="checkbox" checked={includeGrid} onChange={(e) => setIncludeGrid(e.target.checked)} /> Grid</label>
+              <label className="flex items-center gap-2 cursor-pointer"><input type="checkbox" checked={includeAxes} onChange={(e) => setIncludeAxes(e.target.checked)} /> Axes</label>
+            </div>
+
+            <div className="flex flex-col gap-1.5">
+              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Background</span>
+              <select value={background} onChange={(e) => setBackground(e.target.value as ImageBackground)} className={inputClass}>
+                <option value="white">White (print colors)</option>
+                <option value="transparent">Transparent (print colors)</option>
+                <option value="editor">Dark (editor colors)</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="flex-grow flex items-center justify-center rounded-xl border border-slate-800 overflow-hidden p-4" style={{ backgroundImage: 'repeating-conic-gradient(#1e293b 0% 25%, #0f172a 0% 50%)', backgroundSize: '16px 16px' }}>
+            {preview ? <img src={preview} alt="Export preview" className="max-w-full max-h-[55vh] object-contain shadow-lg" /> : <span className="text-slate-500 text-sm">{isValid ? 'Rendering preview…' : 'Invalid bounding box'}</span>}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-5 border-t border-slate-800 bg-slate-900/50 flex justify-between items-center gap-2">
+          <div className="text-xs text-red-400">{error}</div>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-6 py-2 text-sm font-bold text-slate-400 hover:text-white transition-colors cursor-pointer">Close</button>
+            <button onClick={handlePdf} disabled={!isValid} className="px-6 py-2 text-sm font-bold bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded-xl transition-all cursor-pointer">Download PDF</button>
+            <button onClick={handlePng} disabled={!isValid} className="px-6 py-2 text-sm font-bold bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-xl shadow-lg shadow-indigo-500/20 transition-all cursor-pointer">Download PNG</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Shape } from './CartesianCanvas';
+import { NumberField } from './NumberField';
+import { PropertyKey, getCommonPropertyRows, getLabelName, getProperty, setProperty } from '../services/properties';
+
+interface InspectorPanelProps {
+  // The selection, in the order it was picked
+  shapes: Shape[];
+  onChange: (updated: Shape[]) => void;
+  onClose: () => void;
+}
+
+const iconButton = 'p-1 rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed';
+const textInput = 'bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 text-slate-200 focus:outline-none focus:border-cyan-500';
+
+// Values this close count as the same, so shapes drawn on one grid line don't read as mixed
+const SAME = 1e-9;
+
+export const InspectorPanel: React.FC<InspectorPanelProps> = ({ shapes, onChange, onClose }) => {
+  const rows = getCommonPropertyRows(shapes);
+  const labelNames = shapes.map(getLabelName);
+  const labelName = labelNames.length > 0 && labelNames.every(n => n !== null) ? labelNames[0] : null;
+  const texts = shapes.map(s => s.text || '');
+  const text = texts.every(t => t === texts[0]) ? texts[0] : null;
+
+  // The value all the shapes share, or null when they differ
+  const common = (key: PropertyKey) => {
+    const values = shapes.map(s => getProperty(s, key));
+    return values.every(v => Math.abs(v - values[0]) < SAME) ? values[0] : null;
+  };
+  const commit = (key: PropertyKey) => (v: number) => {
+    try { onChange(shapes.map(s => setProperty(s, key, v))); } catch (e) { return (e as Error).message; }
+    return null;
+  };
+  const commitText = (input: HTMLInputElement) => {
+    if (input.value === (text ?? '')) return;
+    onChange(shapes.map(s => ({ ...s, text: input.value })));
+  };
+
+  return (
+    <div className="absolute top-4 right-16 w-64 flex flex-col bg-slate-900/95 rounded-lg border border-slate-800 shadow-xl backdrop-blur-sm text-xs text-slate-300 z-10">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-800">
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Properties{shapes.length > 1 ? ` (${shapes.length} shapes)` : ''}</span>
+        <button onClick={onClose} className={`${iconButton} text-slate-400 hover:text-white hover:bg-slate-700`} title="Close">
+          <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+        </button>
+      </div>
+
+      {shapes.length === 0 ? (
+        <p className="px-3 py-2 text-slate-500 italic">Select a shape to edit its coordinates and dimensions.</p>
+      ) : rows.length === 0 && !labelName ? (
+        <p className="px-3 py-2 text-slate-500 italic">{shapes.length > 1 ? 'The selected shapes have no values in common.' : 'This shape has no values to edit here.'}</p>
+      ) : (
+        <div className="grid grid-cols-[auto_1fr] items-center gap-x-2 gap-y-1.5 px-3 py-2">
+          {rows.map(row => (
+            <React.Fragment key={row.keys.join(',')}>
+              <span className="text-slate-400">{row.label}</span>
+              <div className="flex items-center gap-0.5">
+                {row.keys.map(key => <NumberField key={key} value={common(key)} title={`${row.label}: a number or an expression such as √2 or 3/4*pi`} onCommit={commit(key)} />)}
+                {row.unit && <span className="text-slate-500">{row.unit}</span>}
+              </div>
+            </React.Fragment>
+          ))}
+          {labelName && (
+            <>
+              <span className="text-slate-400">{labelName}</span>
+              <input key={text ?? 'mixed'} type="text" defaultValue={text ?? ''} placeholder={text === null ? 'mixed' : undefined} onBlur={(e) => commitText(e.target)} onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }} className={`${textInput} w-full`} />
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
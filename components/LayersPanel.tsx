@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Layer } from './CartesianCanvas';
+
+interface LayersPanelProps {
+  layers: Layer[];
+  activeLayerId: string;
+  shapeCounts: Record<string, number>;
+  hasSelection: boolean;
+  onClose: () => void;
+  onSetActive: (id: string) => void;
+  onAdd: () => void;
+  onDelete: (id: string) => void;
+  onUpdate: (id: string, changes: Partial<Layer>) => void;
+  onMove: (id: string, direction: 1 | -1) => void;
+  onMoveSelection: (id: string) => void;
+}
+
+const iconButton = 'p-1 rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed';
+
+export const LayersPanel: React.FC<LayersPanelProps> = ({
+  layers,
+  activeLayerId,
+  shapeCounts,
+  hasSelection,
+  onClose,
+  onSetActive,
+  onAdd,
+  onDelete,
+  onUpdate,
+  onMove,
+  onMoveSelection,
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+
+  // Listed top-down like most editors: the last (front-most) layer comes first
+  const listed = layers.map((layer, index) => ({ layer, index })).reverse();
+
+  return (
+    <div className="absolute top-4 left-4 w-64 flex flex-col bg-slate-900/95 rounded-lg border border-slate-800 shadow-xl backdrop-blur-sm text-xs text-slate-300 z-10">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-800">
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Layers</span>
+        <div className="flex items-center gap-1">
+          <button onClick={onAdd} className={`${iconButton} text-slate-400 hover:text-white hover:bg-slate-700`} title="New Layer">
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><line x1="12" y1="5" x2="12" y2="19"></line><line x1="5" y1="12" x2="19" y2="12"></line></svg>
+          </button>
+          <button onClick={onClose} className={`${iconButton} text-slate-400 hover:text-white hover:bg-slate-700`} title="Close">
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+          </button>
+        </div>
+      </div>
+
+      <ul className="flex flex-col max-h-72 overflow-y-auto py-1">
+        {listed.map(({ layer, index }) => {
+          const isActive = layer.id === activeLayerId;
+          return (
+            <li key={layer.id} onClick={() => onSetActive(layer.id)} className={`group flex items-center gap-1 px-2 py-1 cursor-pointer ${isActive ? 'bg-cyan-900/40 text-white' : 'hover:bg-slate-800'}`}>
+              <button onClick={(e) => { e.stopPropagation(); onUpdate(layer.id, { visible: !layer.visible }); }} className={`${iconButton} ${layer.visible ? 'text-slate-300 hover:text-white' : 'text-slate-600 hover:text-slate-400'}`} title={layer.visible ? 'Hide Layer' : 'Show Layer'}>
+                {layer.visible
+                  ? <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"></path><circle cx="12" cy="12" r="3"></circle></svg>
+                  : <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M17.94 17.94A10.07 10.07 0 0 1 12 20c-7 0-11-8-11-8a18.45 18.45 0 0 1 5.06-5.94M9.9 4.24A9.12 9.12 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19"></path><line x1="1" y1="1" x2="23" y2="23"></line></svg>}
+              </button>
+              <button onClick={(e) => { e.stopPropagation(); onUpdate(layer.id, { locked: !layer.locked }); }} className={`${iconButton} ${layer.locked ? 'text-amber-400 hover:text-amber-300' : 'text-slate-600 hover:text-slate-400'}`} title={layer.locked ? 'Unlock Layer' : 'Lock Layer'}>
+                {layer.locked
+                  ? <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect><path d="M7 11V7a5 5 0 0 1 10 0v4"></path></svg>
+                  : <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect><path d="M7 11V7a5 5 0 0 1 9.9-1"></path></svg>}
+              </button>
+
+              {renamingId === layer.id ? (
+                <input
+                  autoFocus
+                  defaultValue={layer.name}
+                  onClick={(e) => e.stopPropagation()}
+                  onBlur={(e) => { if (e.target.value.trim()) onUpdate(layer.id, { name: e.target.value.trim() }); setRenamingId(null); }}
+                  onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); if (e.key === 'Escape') setRenamingId(null); }}
+                  className="flex-grow min-w-0 bg-slate-800 border border-cyan-500 rounded px-1 py-0.5 text-white outline-none"
+                />
+              ) : (
+                <span onDoubleClick={() => setRenamingId(layer.id)} className={`flex-grow min-w-0 truncate ${layer.visible ? '' : 'text-slate-500 italic'}`} title="Double-click to rename">{layer.name}</span>
+              )}
+              <span className="text-[10px] text-slate-500 tabular-nums">{shapeCounts[layer.id] || 0}</span>
+
+              <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                <button onClick={(e) => { e.stopPropagation(); onMove(layer.id, 1); }} disabled={index === layers.length - 1} className={`${iconButton} text-slate-400 hover:text-white`} title="Move Up">
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><polyline points="18 15 12 9 6 15"></polyline></svg>
+                </button>
+                <button onClick={(e) => { e.stopPropagation(); onMove(layer.id, -1); }} disabled={index === 0} className={`${iconButton} text-slate-400 hover:text-white`} title="Move Down">
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><polyline points="6 9 12 15 18 9"></polyline></svg>
+                </button>
+                <button onClick={(e) => { e.stopPropagation(); onDelete(layer.id); }} disabled={layers.length === 1} className={`${iconButton} text-slate-400 hover:text-red-400`} title="Delete Layer">
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path></svg>
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="px-3 py-2 border-t border-slate-800">
+        <button onClick={() => onMoveSelection(activeLayerId)} disabled={!hasSelection} className="w-full py-1 rounded font-bold bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors">
+          Move Selection to Active Layer
+        </button>
+      </div>
+    </div>
+  );
+};
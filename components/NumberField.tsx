@@ -0,0 +1,26 @@
+import React from 'react';
+import { evaluateNumber } from '../services/expression';
+
+const textInput = 'bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 text-slate-200 focus:outline-none focus:border-cyan-500';
+
+const format = (v: number) => String(Math.round(v * 1000) / 1000);
+
+// Numeric field that takes expressions such as 2*pi; commits on blur or Enter. `onCommit` returns
+// a message when the value is refused, and the field goes back to the old value. A null value
+// (several shapes that differ) shows as "mixed" and stays untouched until something is typed
+export const NumberField: React.FC<{ value: number | null; title: string; onCommit: (value: number) => string | null }> = ({ value, title, onCommit }) => {
+  const commit = (input: HTMLInputElement) => {
+    // Untouched text is left alone; it shows the value rounded
+    if (input.value === (value === null ? '' : format(value))) return;
+    let next: number;
+    try { next = evaluateNumber(input.value); } catch (e) {
+      window.alert((e as Error).message);
+      input.value = value === null ? '' : format(value);
+      return;
+    }
+    if (next === value) return;
+    const problem = onCommit(next);
+    if (problem) { window.alert(problem); input.value = value === null ? '' : format(value); }
+  };
+  return <input key={value ?? 'mixed'} type="text" defaultValue={value === null ? '' : format(value)} placeholder={value === null ? 'mixed' : undefined} onBlur={(e) => commit(e.target)} onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }} className={`${textInput} w-16 text-center`} title={title} />;
+};
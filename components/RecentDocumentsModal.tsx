@@ -0,0 +1,68 @@
+import React, { useState, useEffect } from 'react';
+import { RecentDocument, listRecentDocuments, deleteRecentDocument } from '../services/storageService';
+
+interface RecentDocumentsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenDocument: (doc: RecentDocument) => void;
+}
+
+export const RecentDocumentsModal: React.FC<RecentDocumentsModalProps> = ({ isOpen, onClose, onOpenDocument }) => {
+  const [documents, setDocuments] = useState<RecentDocument[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    listRecentDocuments()
+      .then(setDocuments)
+      .catch(e => setError(e instanceof Error ? e.message : 'Could not load recent documents.'));
+  }, [isOpen]);
+
+  const handleDelete = (id: string) => {
+    deleteRecentDocument(id)
+      .then(() => setDocuments(prev => prev.filter(d => d.id !== id)))
+      .catch(e => setError(e instanceof Error ? e.message : 'Could not remove the document.'));
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-3xl flex flex-col max-h-[85vh] overflow-hidden text-slate-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-5 border-b border-slate-800 bg-slate-950/50">
+          <h2 className="text-xl font-bold text-white">Recent Documents</h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-all">
+            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto">
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          {!error && documents.length === 0 && <p className="text-sm text-slate-500 text-center py-8">No recent documents yet. Drawings are stored here automatically while you work.</p>}
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+            {documents.map(doc => (
+              <div key={doc.id} className="flex flex-col bg-slate-800 border border-slate-700 hover:border-indigo-500 rounded-xl overflow-hidden transition-all group">
+                <button onClick={() => { onOpenDocument(doc); onClose(); }} className="flex flex-col text-left">
+                  {doc.thumbnail
+                    ? <img src={doc.thumbnail} alt={doc.name} className="w-full aspect-[4/3] object-cover bg-slate-950" />
+                    : <div className="w-full aspect-[4/3] bg-slate-950"></div>}
+                  <div className="px-3 pt-2">
+                    <div className="text-sm font-medium text-slate-200 group-hover:text-white truncate">{doc.name}</div>
+                    <div className="text-[10px] text-slate-500">{new Date(doc.updatedAt).toLocaleString()} · {doc.project.shapes.length} shapes</div>
+                  </div>
+                </button>
+                <div className="flex justify-end px-2 pb-2">
+                  <button onClick={() => handleDelete(doc.id)} className="text-[10px] font-bold uppercase text-slate-500 hover:text-red-400 px-1 py-0.5" title="Remove from list">Remove</button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
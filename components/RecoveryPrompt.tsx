@@ -0,0 +1,36 @@
+import React from 'react';
+import { AutosaveRecord } from '../services/storageService';
+
+interface RecoveryPromptProps {
+  record: AutosaveRecord | null;
+  onRecover: () => void;
+  onDiscard: () => void;
+}
+
+export const RecoveryPrompt: React.FC<RecoveryPromptProps> = ({ record, onRecover, onDiscard }) => {
+  if (!record) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl w-full max-w-sm flex flex-col overflow-hidden text-slate-200">
+        <div className="p-4 border-b border-slate-800 bg-slate-950/50">
+          <h3 className="font-bold text-white text-sm">Recover unsaved drawing?</h3>
+        </div>
+        <div className="p-4 flex flex-col gap-4">
+          <p className="text-xs text-slate-400">
+            <strong className="text-slate-200">{record.documentName}</strong> ({record.project.shapes.length} shapes) was not saved before the editor closed.
+            Last autosave: {new Date(record.savedAt).toLocaleString()}.
+          </p>
+          <div className="flex gap-2 justify-end">
+            <button onClick={onDiscard} className="px-3 py-1.5 text-xs font-bold text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors">
+              Discard
+            </button>
+            <button onClick={onRecover} className="px-3 py-1.5 text-xs font-bold bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg transition-colors shadow-lg shadow-indigo-500/20">
+              Recover
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React from 'react';
-import { Shape } from './CartesianCanvas';
+import { Shape, Point } from './CartesianCanvas';
+import { getRegularVertices, withVertices } from '../services/polygon';
 
 interface TemplateLibraryModalProps {
   isOpen: boolean;
@@ -12,64 +13,24 @@ export const TemplateLibraryModal: React.FC<TemplateLibraryModalProps> = ({ isOp
 
   const generateId = () => Math.random().toString(36).substr(2, 9);
 
-  const createPolygon = (sides: number, radius: number = 3): Shape[] => {
-    const shapes: Shape[] = [];
-    const angleStep = (2 * Math.PI) / sides;
-    // Rotate -90deg so the first vertex is at the top
-    const startAngle = -Math.PI / 2;
-
-    for (let i = 0; i < sides; i++) {
-      const a1 = startAngle + i * angleStep;
-      const a2 = startAngle + (i + 1) * angleStep;
-
-      shapes.push({
-        id: generateId(),
-        type: 'line',
-        x1: radius * Math.cos(a1),
-        y1: radius * Math.sin(a1),
-        x2: radius * Math.cos(a2),
-        y2: radius * Math.sin(a2),
-        style: 'solid',
-        arrow: 'none',
-        lineWidth: 2
-      });
-    }
-    return shapes;
-  };
-
-  const createStar = (points: number, outerRadius: number, innerRadius: number): Shape[] => {
-      const shapes: Shape[] = [];
-      const angleStep = Math.PI / points; 
-      const startAngle = -Math.PI / 2;
-
-      for (let i = 0; i < 2 * points; i++) {
-          const r1 = i % 2 === 0 ? outerRadius : innerRadius;
-          const r2 = (i + 1) % 2 === 0 ? outerRadius : innerRadius;
-          const a1 = startAngle + i * angleStep;
-          const a2 = startAngle + (i + 1) * angleStep;
-
-          shapes.push({
-              id: generateId(),
-              type: 'line',
-              x1: r1 * Math.cos(a1),
-              y1: r1 * Math.sin(a1),
-              x2: r2 * Math.cos(a2),
-              y2: r2 * Math.sin(a2),
-              style: 'solid',
-              arrow: 'none',
-              lineWidth: 2
-          });
-      }
-      return shapes;
-  }
+  // One closed polygon shape, so templates can be filled, hatched and edited vertex by vertex
+  const createPolygon = (points: Point[]): Shape[] => [withVertices({
+    id: generateId(),
+    type: 'polygon',
+    closed: true,
+    x1: 0, y1: 0, x2: 0, y2: 0,
+    style: 'solid',
+    arrow: 'none',
+    lineWidth: 2
+  }, points)];
 
   const templates = [
-      { name: 'Triangle', icon: '🔺', fn: () => createPolygon(3, 3) },
-      { name: 'Square', icon: '⬜', fn: () => createPolygon(4, 3) },
-      { name: 'Pentagon', icon: '⬠', fn: () => createPolygon(5, 3) },
-      { name: 'Hexagon', icon: '⬡', fn: () => createPolygon(6, 3) },
-      { name: 'Octagon', icon: '🛑', fn: () => createPolygon(8, 3) },
-      { name: 'Star (5-point)', icon: '⭐', fn: () => createStar(5, 4, 1.5) },
+      { name: 'Triangle', icon: '🔺', fn: () => createPolygon(getRegularVertices(3, 3)) },
+      { name: 'Square', icon: '⬜', fn: () => createPolygon(getRegularVertices(4, 3)) },
+      { name: 'Pentagon', icon: '⬠', fn: () => createPolygon(getRegularVertices(5, 3)) },
+      { name: 'Hexagon', icon: '⬡', fn: () => createPolygon(getRegularVertices(6, 3)) },
+      { name: 'Octagon', icon: '🛑', fn: () => createPolygon(getRegularVertices(8, 3)) },
+      { name: 'Star (5-point)', icon: '⭐', fn: () => createPolygon(getRegularVertices(5, 4, 1.5)) },
   ];
 
   return (
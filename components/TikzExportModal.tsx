@@ -1,41 +1,31 @@
 import React, { useMemo, useState, useEffect, useRef } from 'react';
-import { Shape } from './CartesianCanvas';
+import { Shape, Layer } from './CartesianCanvas';
 import { createChatSession, sendChatMessage, cleanLatexCode } from '../services/geminiService';
 import { Chat } from "@google/genai";
+import { AxesSettings } from '../services/axes';
+import { GridSettings } from '../services/grid';
+import { ExportMode, ExportOptions, LayerOutput, generateStandardTikz, generateTkzEuclide, generateLuamplib, generatePgfplots, generateSvg, buildColorRegistry, getExportShapes } from '../services/exportGenerators';
 
 interface TikzExportModalProps {
   isOpen: boolean;
   onClose: () => void;
   shapes: Shape[];
+  layers: Layer[];
+  layerOutput: LayerOutput;
+  onLayerOutputChange: (output: LayerOutput) => void;
   exportAsNodes: boolean;
-  exportMode: 'standard' | 'tkz-euclide' | 'luamplib';
+  exportMode: ExportMode;
   showAxes: boolean;
   showGrid: boolean;
+  axesSettings: AxesSettings;
+  gridSettings: GridSettings;
 }
 
-// Helper to check if color is considered "default" (Black, Slate UI color, or default Yellow)
-const isDefaultColor = (color: string | undefined) => {
-    if (!color || color === 'none') return true;
-    const hex = color.replace('#', '').toUpperCase();
-    return hex === 'FACC15' || hex === '94A3B8' || hex === '000000' || color.startsWith('black');
-};
-
-// Convert Hex to MetaPost RGB tuple (0,0,0) - (1,1,1)
-const hexToMP = (hex: string | undefined): string | null => {
-    if (!hex || hex === 'none') return null;
-    if (hex.startsWith('#')) hex = hex.slice(1);
-    const r = parseInt(hex.substring(0, 2), 16) / 255;
-    const g = parseInt(hex.substring(2, 4), 16) / 255;
-    const b = parseInt(hex.substring(4, 6), 16) / 255;
-    if (isNaN(r) || isNaN(g) || isNaN(b)) return null;
-    return `(${r.toFixed(3)}, ${g.toFixed(3)}, ${b.toFixed(3)})`;
-};
-
-export const TikzExportModal: React.FC<TikzExportModalProps> = ({ isOpen, onClose, shapes, exportAsNodes, exportMode, showAxes, showGrid }) => {
+export const TikzExportModal: React.FC<TikzExportModalProps> = ({ isOpen, onClose, shapes, layers, layerOutput, onLayerOutputChange, exportAsNodes, exportMode, showAxes, showGrid, axesSettings, gridSettings }) => {
   const [copied, setCopied] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [aiCode, setAiCode] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'ai' | 'standard'>('ai');
+  const [activeTab, setActiveTab] = useState<'ai' | 'standard' | 'svg'>('ai');
   const [customPrompt, setCustomPrompt] = useState('');
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -45,7 +35,9 @@ export const TikzExportModal: React.FC<TikzExportModalProps> = ({ isOpen, onClos
   const currentModelRef = useRef<string>('gemini-3-pro-preview');
   const currentExportModeRef = useRef<string>('standard');
 
-  const exportShapes = useMemo(() => shapes.filter(s => !s.isGuide), [shapes]);
+  const exportShapes = useMemo(() => getExportShapes(shapes, layers), [shapes, layers]);
+  const exportOptions: ExportOptions = useMemo(() => ({ exportAsNodes, showAxes, showGrid, layers, layerOutput, axes: axesSettings, grid: gridSettings }), [exportAsNodes, showAxes, showGrid, layers, layerOutput, axesSettings, gridSettings]);
+  const hasLayerSections = layers.filter(l => l.visible).length > 1;
 
   useEffect(() => {
       if (!isOpen) {
@@ -57,296 +49,23 @@ export const TikzExportModal: React.FC<TikzExportModalProps> = ({ isOpen, onClos
       }
   }, [isOpen]);
 
-  const f = (n: number) => {
-      if (Math.abs(n) < 0.0001) return 0;
-      return Number(n.toFixed(3));
-  };
-  const toDeg = (rad: number) => f(rad * 180 / Math.PI);
-
-  const getBounds = () => {
-    let minX = 0, maxX = 0, minY = 0, maxY = 0;
-    if (exportShapes.length > 0) {
-        minX = Infinity; maxX = -Infinity; minY = Infinity; maxY = -Infinity;
-        const check = (x: number, y: number) => { if (x < minX) minX = x; if (x > maxX) maxX = x; if (y < minY) minY = y; if (y > maxY) maxY = y; };
-        exportShapes.forEach(s => {
-            if (s.type === 'circle') { const r = Math.sqrt(Math.pow(s.x2 - s.x1, 2) + Math.pow(s.y2 - s.y1, 2)); check(s.x1 - r, s.y1 - r); check(s.x1 + r, s.y1 + r); }
-            else if (s.type === 'ellipse' || s.type === 'arc') { const rx = Math.abs(s.x2 - s.x1); const ry = Math.abs(s.y2 - s.y1); check(s.x1 - rx, s.y1 - ry); check(s.x1 + rx, s.y1 + ry); }
-            else if (s.type === 'text') { check(s.x1, s.y1); }
-            else { check(s.x1, s.y1); check(s.x2, s.y2); if (s.cx1 !== undefined) check(s.cx1, s.cy1); if (s.points) s.points.forEach(p => check(p.x, p.y)); }
-        });
-        minX = Math.floor(Math.min(minX, 0) - 1); maxX = Math.ceil(Math.max(maxX, 0) + 1); minY = Math.floor(Math.min(minY, 0) - 1); maxY = Math.ceil(Math.max(maxY, 0) + 1);
-    } else { minX = -5; maxX = 5; minY = -5; maxY = 5; }
-    return { minX, maxX, minY, maxY };
-  };
-
-  const getHatchPattern = (style: string | undefined): string => {
-      if (!style || style === 'none') return '';
-      if (style === 'lines') return 'pattern=north east lines';
-      if (style === 'grid') return 'pattern=grid';
-      if (style === 'dots') return 'pattern=dots';
-      return '';
-  };
-
-  const { colorMap, colorDefs } = useMemo(() => {
-      const uniqueColors = new Map<string, string>();
-      const definitions: string[] = [];
-      let counter = 1;
-      const registerColor = (color: string | undefined) => {
-          if (!color || color === 'none' || isDefaultColor(color)) return null;
-          const hex = color.replace('#', '').toUpperCase();
-          if (!uniqueColors.has(hex)) {
-              const name = `userColor${counter++}`;
-              uniqueColors.set(hex, name);
-              definitions.push(`\\definecolor{${name}}{HTML}{${hex}}`);
-          }
-          return uniqueColors.get(hex);
-      };
-      exportShapes.forEach(s => { registerColor(s.fillColor); registerColor(s.strokeColor); });
-      return { colorMap: uniqueColors, colorDefs: definitions.join('\n') };
-  }, [exportShapes]);
-
-  const getColorName = (color: string | undefined) => {
-      if (!color || color === 'none' || isDefaultColor(color)) return null;
-      const hex = color.replace('#', '').toUpperCase();
-      return colorMap.get(hex) || null;
-  };
-
-  const getShapeSignature = (s: Shape) => {
-      let strokeSig = s.strokeColor;
-      if (isDefaultColor(strokeSig)) strokeSig = 'black'; 
-      const props = [ s.type, s.style, s.arrow, s.lineWidth, s.fillColor, strokeSig, s.hatchStyle, s.text ];
-      if (['line', 'bezier', 'measure', 'measure_radius', 'brace'].includes(s.type)) { props.push(f(s.x2 - s.x1)); props.push(f(s.y2 - s.y1)); }
-      if(s.type === 'circle') { const r = Math.sqrt(Math.pow(s.x2 - s.x1, 2) + Math.pow(s.y2 - s.y1, 2)); props.push(f(r)); } 
-      else if (s.type === 'rect') { props.push(f(Math.abs(s.x2 - s.x1))); props.push(f(Math.abs(s.y2 - s.y1))); } 
-      else if (s.type === 'round_rect') { props.push(f(Math.abs(s.x2 - s.x1))); props.push(f(Math.abs(s.y2 - s.y1))); props.push(f(s.cornerRadius ?? 0.5)); }
-      return props.join('|');
-  };
-
-  const getTikzOptions = (shape: Shape, colorResolver: (c: string|undefined) => string|null) => {
-      const options: string[] = [];
-      const strokeName = colorResolver(shape.strokeColor);
-      const fillName = colorResolver(shape.fillColor);
-      if (strokeName) options.push(`draw=${strokeName}`);
-      if (fillName) options.push(`fill=${fillName}`);
-      if (shape.style === 'dashed') options.push('dashed');
-      if (shape.style === 'dotted') options.push('dotted');
-      options.push(shape.lineWidth <= 1 ? 'semithick' : shape.lineWidth === 2 ? 'thick' : `line width=${(shape.lineWidth * 0.4).toFixed(1)}mm`);
-      const hatch = getHatchPattern(shape.hatchStyle);
-      if ( hatch) options.push(hatch);
-      if (shape.type === 'round_rect') { const r = shape.cornerRadius ?? 0.5; options.push(`rounded corners=${f(r)}`); }
-      if (shape.type !== 'brace' && (!exportAsNodes || ['line', 'bezier', 'arc', 'measure_radius'].includes(shape.type))) {
-        if (shape.arrow === 'start') options.push('<-'); else if (shape.arrow === 'end') options.push('->'); else if (shape.arrow === 'both') options.push('<->');
-      }
-      if (shape.rotation) {
-          let cx = shape.x1, cy = shape.y1;
-          if (['line','rect','round_rect','brace','measure'].includes(shape.type)) { cx = (shape.x1 + shape.x2) / 2; cy = (shape.y1 + shape.y2) / 2; }
-          options.push(`rotate around={${toDeg(-shape.rotation)}:(${f(cx)},${f(cy)})}`);
-      }
-      return `[${options.join(', ')}]`;
-  };
-
-  const mergeNodeOpts = (baseOpts: string, shapeOpts: string) => {
-       const cleanBase = baseOpts.slice(1, -1).trim();
-       const parts = []; if (cleanBase) parts.push(cleanBase);
-       const hasDraw = cleanBase.includes('draw=') || cleanBase === 'draw' || cleanBase.includes('draw,') || cleanBase.includes(', draw');
-       if (!hasDraw) parts.push('draw');
-       parts.push(shapeOpts);
-       return `[${parts.join(', ')}]`;
+  const { colorDefs } = useMemo(() => buildColorRegistry(exportShapes), [exportShapes]);
+  const standardTikzCode = useMemo(() => exportMode === 'standard' ? generateStandardTikz(shapes, exportOptions) : '', [shapes, exportMode, exportOptions]);
+  const tkzEuclideCode = useMemo(() => exportMode === 'tkz-euclide' ? generateTkzEuclide(shapes, exportOptions) : '', [shapes, exportMode, exportOptions]);
+  const luamplibCode = useMemo(() => exportMode === 'luamplib' ? generateLuamplib(shapes, exportOptions) : '', [shapes, exportMode, exportOptions]);
+  const pgfplotsCode = useMemo(() => exportMode === 'pgfplots' ? generatePgfplots(shapes, exportOptions) : '', [shapes, exportMode, exportOptions]);
+  const svgCode = useMemo(() => activeTab === 'svg' ? generateSvg(shapes, exportOptions) : '', [shapes, activeTab, exportOptions]);
+
+  const handleDownloadSvg = () => {
+    const blob = new Blob([svgCode], { type: 'image/svg+xml' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'drawing.svg';
+    a.click();
+    URL.revokeObjectURL(url);
   };
 
-  const getTikzDrawCommand = (shape: Shape, asNode: boolean, isLoop: boolean, optionsStr: string = '') => {
-      switch (shape.type) {
-        case 'line': return `\\draw${optionsStr} (${f(shape.x1)}, ${f(shape.y1)}) -- (${f(shape.x2)}, ${f(shape.y2)});`;
-        case 'rect': return asNode ? `\\node ${mergeNodeOpts(optionsStr, `rectangle, minimum width=${f(Math.abs(shape.x2-shape.x1))}cm, minimum height=${f(Math.abs(shape.y2-shape.y1))}cm`)} at (${f((shape.x1+shape.x2)/2)}, ${f((shape.y1+shape.y2)/2)}) {};` : `\\draw${optionsStr} (${f(shape.x1)}, ${f(shape.y1)}) rectangle (${f(shape.x2)}, ${f(shape.y2)});`;
-        case 'round_rect': {
-            const r = shape.cornerRadius ?? 0.5;
-            return asNode ? `\\node ${mergeNodeOpts(optionsStr, `rectangle, rounded corners=${f(r)}, minimum width=${f(Math.abs(shape.x2-shape.x1))}cm, minimum height=${f(Math.abs(shape.y2-shape.y1))}cm`)} at (${f((shape.x1+shape.x2)/2)}, ${f((shape.y1+shape.y2)/2)}) {};` : `\\draw${optionsStr} (${f(shape.x1)}, ${f(shape.y1)}) rectangle (${f(shape.x2)}, ${f(shape.y2)});`;
-        }
-        case 'circle': {
-            const r = Math.sqrt(Math.pow(shape.x2-shape.x1,2)+Math.pow(shape.y2-shape.y1,2));
-            return asNode ? `\\node ${mergeNodeOpts(optionsStr, `circle, minimum size=${f(2*r)}cm`)} at (${f(shape.x1)}, ${f(shape.y1)}) {};` : `\\draw${optionsStr} (${f(shape.x1)}, ${f(shape.y1)}) circle (${f(r)});`;
-        }
-        case 'text': return `\\node [text=${optionsStr.includes('draw=') ? optionsStr.match(/draw=([^,\]]+)/)?.[1] : 'black'}] at (${f(shape.x1)}, ${f(shape.y1)}) {${shape.text || 'Text'}};`;
-        case 'freehand': return `\\draw${optionsStr} plot[smooth, tension=0.7] coordinates {${shape.points?.map(p => `(${f(p.x)},${f(p.y)})`).join(' ')}} -- cycle;`;
-        case 'bezier': return `\\draw${optionsStr} (${f(shape.x1)}, ${f(shape.y1)}) .. controls (${f(shape.cx1||0)}, ${f(shape.cy1||0)}) and (${f(shape.cx2||0)}, ${f(shape.cy2||0)}) .. (${f(shape.x2)}, ${f(shape.y2)});`;
-        case 'measure_radius': return `\\draw${optionsStr} (${f(shape.x1)}, ${f(shape.y1)}) -- node[above, sloped, fill=white, inner sep=1pt] {${shape.text || f(Math.sqrt(Math.pow(shape.x2-shape.x1,2)+Math.pow(shape.y2-shape.y1,2)))}} (${f(shape.x2)}, ${f(shape.y2)});`;
-        case 'brace': return `\\draw [decorate,decoration={brace,amplitude=10pt,raise=4pt}, ${optionsStr.replace(/[\[\]]/g,'')}] (${f(shape.x1)}, ${f(shape.y1)}) -- (${f(shape.x2)}, ${f(shape.y2)});`;
-        case 'measure': {
-            const dx = shape.x2 - shape.x1;
-            const dy = shape.y2 - shape.y1;
-            const len = Math.sqrt(dx*dx + dy*dy);
-            if(len === 0) return '';
-
-            const nx = -dy / len;
-            const ny = dx / len;
-
-            // Determine offset distance (default 0.1cm or based on control point)
-            let offsetDist = 0.1; 
-            if (shape.cx1 !== undefined && shape.cy1 !== undefined) {
-                const vcx = shape.cx1 - shape.x1;
-                const vcy = shape.cy1 - shape.y1;
-                // Project control point vector onto normal
-                offsetDist = vcx * nx + vcy * ny;
-            }
-            
-            // Ensure offset direction consistency relative to the shape vector
-            const sign = offsetDist >= 0 ? 1 : -1;
-            const gap = 0.05 * sign; 
-            const overshoot = 0.2 * sign;
-            const currentDist = offsetDist;
-
-            // Origin Points (Start of witness line, near object)
-            const w1x = shape.x1 + nx * gap;
-            const w1y = shape.y1 + ny * gap;
-            const w2x = shape.x2 + nx * gap;
-            const w2y = shape.y2 + ny * gap;
-
-            // End Points (End of witness line, past arrow)
-            const w1xe = shape.x1 + nx * (currentDist + overshoot);
-            const w1ye = shape.y1 + ny * (currentDist + overshoot);
-            const w2xe = shape.x2 + nx * (currentDist + overshoot);
-            const w2ye = shape.y2 + ny * (currentDist + overshoot);
-
-            // Dimension Line Points (at arrows)
-            const d1x = shape.x1 + nx * currentDist;
-            const d1y = shape.y1 + ny * currentDist;
-            const d2x = shape.x2 + nx * currentDist;
-            const d2y = shape.y2 + ny * currentDist;
-
-            const dimText = shape.text || f(len);
-            
-            // Clean options for style (remove arrow heads from witness lines, add them to dim line)
-            const rawOpts = optionsStr.replace(/[\[\]]/g,'');
-            const styleOpts = rawOpts.split(',').filter(s => !s.includes('->') && !s.includes('<-')).join(',');
-            const finalExtOpts = styleOpts ? `${styleOpts}, thin` : 'thin';
-
-            return `
-  % Measure ${dimText}
-  \\draw[${finalExtOpts}] (${f(w1x)},${f(w1y)}) -- (${f(w1xe)},${f(w1ye)});
-  \\draw[${finalExtOpts}] (${f(w2x)},${f(w2y)}) -- (${f(w2xe)},${f(w2ye)});
-  \\draw[<->, >=latex, ${finalExtOpts}] (${f(d1x)},${f(d1y)}) -- node[midway, fill=white, inner sep=1pt, sloped] {${dimText}} (${f(d2x)},${f(d2y)});`;
-        }
-        default: return `% ${shape.type} fallback`;
-      }
-  };
-  
-  const getTikzLoopCommand = (shape: Shape, asNode: boolean, optionsStr: string, count: number, startX: number, startY: number, dx: number, dy: number) => {
-      const coord = (start: number, step: number) => step === 0 ? f(start) : `{${f(start)} + \\i*${f(step)}}`;
-      const s = shape; let drawPart = "";
-      if (s.type === 'circle') {
-          const r = Math.sqrt(Math.pow(s.x2-s.x1,2)+Math.pow(s.y2-s.y1,2));
-          drawPart = asNode ? `\\node ${mergeNodeOpts(optionsStr, `circle, minimum size=${f(2*r)}cm`)} at (${coord(startX, dx)}, ${coord(startY, dy)}) {};` : `\\draw${optionsStr} (${coord(startX, dx)}, ${coord(startY, dy)}) circle (${f(r)});`;
-      } else if (s.type === 'rect' || s.type === 'round_rect') {
-          const w = s.x2 - s.x1; const h = s.y2 - s.y1; const r = s.cornerRadius ?? 0.5;
-          if(asNode) { const centerX = startX + w/2; const centerY = startY + h/2; drawPart = `\\node ${mergeNodeOpts(optionsStr, `rectangle${s.type==='round_rect'?`, rounded corners=${f(r)}`:''}, minimum width=${f(Math.abs(w))}cm, minimum height=${f(Math.abs(h))}cm`)} at (${coord(centerX, dx)}, ${coord(centerY, dy)}) {};`; } 
-          else drawPart = `\\draw${optionsStr} (${coord(startX, dx)}, ${coord(startY, dy)}) rectangle (${coord(startX + w, dx)}, ${coord(startY + h, dy)});`;
-      } else if (s.type === 'line') {
-          const lx = s.x2 - s.x1; const ly = s.y2 - s.y1; drawPart = `\\draw${optionsStr} (${coord(startX, dx)}, ${coord(startY, dy)}) -- (${coord(startX + lx, dx)}, ${coord(startY + ly, dy)});`;
-      } else return `% Loop fallback\n` + Array.from({length: count}).map((_, i) => getTikzDrawCommand({...s, x1: s.x1 + i*dx, y1: s.y1 + i*dy, x2: s.x2 + i*dx, y2: s.y2 + i*dy}, asNode, false, optionsStr)).join('\n');
-      return `  \\foreach \\i in {0,...,${count - 1}} {\n    ${drawPart}\n  }`;
-  };
-
-  const standardTikzCode = useMemo(() => {
-    if (exportMode !== 'standard') return '';
-    const { minX, maxX, minY, maxY } = getBounds();
-    let header = `\\documentclass[margin=3.14mm]{standalone}\n\\usepackage{tikz}\n\\usetikzlibrary{decorations.pathreplacing, patterns}\n${colorDefs}\n\\begin{document}\n\\begin{tikzpicture}[>=latex]\n`;
-    if (showGrid) header += `  \\draw[help lines, step=1, color=black!10] (${minX}, ${minY}) grid (${maxX}, ${maxY});\n`;
-    if (showAxes) header += `  \\draw[->, thick, color=black] (${minX - 0.5}, 0) -- (${maxX + 0.5}, 0) node[right] {$x$};\n  \\draw[->, thick, color=black] (0, ${minY - 0.5}) -- (0, ${maxY + 0.5}) node[above] {$y$};\n`;
-    const groups = new Map<string, Shape[]>();
-    exportShapes.forEach(s => { const sig = getShapeSignature(s); if(!groups.has(sig)) groups.set(sig, []); groups.get(sig)!.push(s); });
-    let body = "";
-    groups.forEach((groupShapes) => {
-        groupShapes.sort((a, b) => Math.abs(a.x1 - b.x1) > 0.01 ? a.x1 - b.x1 : a.y1 - b.y1);
-        const visited = new Set<string>();
-        for (let i = 0; i < groupShapes.length; i++) {
-            const startShape = groupShapes[i]; if (visited.has(startShape.id)) continue;
-            let bestChain: Shape[] = [startShape]; let bestDx = 0; let bestDy = 0;
-            for (let j = i + 1; j < groupShapes.length; j++) {
-                const secondShape = groupShapes[j]; if (visited.has(secondShape.id)) continue;
-                const dx = secondShape.x1 - startShape.x1; const dy = secondShape.y1 - startShape.y1;
-                if (Math.abs(dx) < 0.01 && Math.abs(dy) < 0.01) continue;
-                const currentChain = [startShape, secondShape]; let prev = secondShape;
-                while (true) {
-                    const nextX = prev.x1 + dx; const nextY = prev.y1 + dy;
-                    const nextShape = groupShapes.find(s => !visited.has(s.id) && !currentChain.includes(s) && Math.abs(s.x1 - nextX) < 0.05 && Math.abs(s.y1 - nextY) < 0.05);
-                    if (nextShape) { currentChain.push(nextShape); prev = nextShape; } else break;
-                }
-                if (currentChain.length > bestChain.length) { bestChain = currentChain; bestDx = dx; bestDy = dy; }
-            }
-            if (bestChain.length >= 3) {
-                 bestChain.forEach(s => visited.add(s.id));
-                 const opts = getTikzOptions(bestChain[0], getColorName);
-                 body += getTikzLoopCommand(bestChain[0], exportAsNodes, opts, bestChain.length, bestChain[0].x1, bestChain[0].y1, bestDx, bestDy) + '\n';
-            } else {
-                 visited.add(startShape.id);
-                 body += `  ${getTikzDrawCommand(startShape, exportAsNodes, false, getTikzOptions(startShape, getColorName))}\n`;
-            }
-        }
-    });
-    return header + body + '\\end{tikzpicture}\n\\end{document}';
-  }, [exportShapes, exportAsNodes, exportMode, showAxes, showGrid, colorDefs, colorMap]);
-
-  const tkzEuclideCode = useMemo(() => {
-    if (exportMode !== 'tkz-euclide') return '';
-    const { minX, maxX, minY, maxY } = getBounds();
-    let header = `\\documentclass[margin=3.14mm]{standalone}\n\\usepackage{tkz-euclide}\n\\usetikzlibrary{patterns,calc}\n${colorDefs}\n\\begin{document}\n\\begin{tikzpicture}\n  \\tkzInit[xmin=${minX}, xmax=${maxX}, ymin=${minY}, ymax=${maxY}]\n`;
-    if (showGrid) header += `  \\tkzGrid\n`;
-    if (showAxes) header += `  \\tkzDrawX\n  \\tkzDrawY\n`;
-    const body = exportShapes.map((shape, i) => {
-        const strokeName = getColorName(shape.strokeColor); const fillName = getColorName(shape.fillColor);
-        const options = []; if(strokeName) options.push(`color=${strokeName}`); if(fillName) options.push(`fill=${fillName}`);
-        if (shape.type === 'round_rect') options.push(`rounded corners=${f(shape.cornerRadius ?? 0.5)}`);
-        const optStr = options.length > 0 ? `[${options.join(',')}]` : '';
-        if (shape.type === 'line') return `  \\tkzDefPoint(${f(shape.x1)},${f(shape.y1)}){A${i+1}} \\tkzDefPoint(${f(shape.x2)},${f(shape.y2)}){B${i+1}}\n  \\tkzDrawSegment${optStr}(A${i+1},B${i+1})`;
-        if (shape.type === 'measure_radius') {
-             const len = Math.sqrt(Math.pow(shape.x2-shape.x1, 2) + Math.pow(shape.y2-shape.y1, 2)); const label = shape.text || f(len);
-             let arrowOpts = options.join(','); if (!arrowOpts.includes('->') && !arrowOpts.includes('<-')) arrowOpts = arrowOpts ? `${arrowOpts}, <->, >=latex` : '<->, >=latex';
-             return `  \\tkzDefPoint(${f(shape.x1)},${f(shape.y1)}){R${i+1}A} \\tkzDefPoint(${f(shape.x2)},${f(shape.y2)}){R${i+1}B}\n  \\tkzDrawSegment[${arrowOpts}](R${i+1}A,R${i+1}B)\n  \\tkzLabelSegment[fill=white, inner sep=1pt](R${i+1}A,R${i+1}B){${label}}`;
-        }
-        if (shape.type === 'circle') { const r = Math.sqrt(Math.pow(shape.x2-shape.x1,2)+Math.pow(shape.y2-shape.y1,2)); return `  \\tkzDefPoint(${f(shape.x1)},${f(shape.y1)}){O${i+1}}\n  \\tkzDefPoint(${f(shape.x1+r)},${f(shape.y1)}){P${i+1}}\n  \\tkzDrawCircle[${options.join(',')}] (O${i+1},P${i+1})`; }
-        if (shape.type === 'rect') {
-            const lx = Math.min(shape.x1, shape.x2); const rx = Math.max(shape.x1, shape.x2); const by = Math.min(shape.y1, shape.y2); const ty = Math.max(shape.y1, shape.y2);
-            return `  \\tkzDefPoint(${f(lx)},${f(by)}){P${i+1}A} \\tkzDefPoint(${f(rx)},${f(by)}){P${i+1}B} \\tkzDefPoint(${f(rx)},${f(ty)}){P${i+1}C} \\tkzDefPoint(${f(lx)},${f(ty)}){P${i+1}D}\n  \\tkzDrawPolygon${optStr}(P${i+1}A,P${i+1}B,P${i+1}C,P${i+1}D)`;
-        }
-        if (shape.type === 'round_rect') {
-            const lx = Math.min(shape.x1, shape.x2); const rx = Math.max(shape.x1, shape.x2); const by = Math.min(shape.y1, shape.y2); const ty = Math.max(shape.y1, shape.y2);
-            return `  \\tkzDefPoint(${f(lx)},${f(by)}){P${i+1}Min} \\tkzDefPoint(${f(rx)},${f(ty)}){P${i+1}Max}\n  \\draw${optStr} (P${i+1}Min) rectangle (P${i+1}Max);`;
-        }
-        if (shape.type === 'measure') { const len = Math.sqrt(Math.pow(shape.x2-shape.x1, 2) + Math.pow(shape.y2-shape.y1, 2)); const label = shape.text || f(len); return `  \\tkzDefPoint(${f(shape.x1)},${f(shape.y1)}){M${i+1}A} \\tkzDefPoint(${f(shape.x2)},${f(shape.y2)}){M${i+1}B}\n  \\tkzDrawSegment[dim={${label}, 0.1 cm, midway, font=\\small}](M${i+1}A,M${i+1}B)`; }
-        if (shape.type === 'brace') return `  \\tkzDefPoint(${f(shape.x1)},${f(shape.y1)}){Br${i+1}A} \\tkzDefPoint(${f(shape.x2)},${f(shape.y2)}){Br${i+1}B}\n  \\draw [decorate,decoration={brace,amplitude=10pt,raise=4pt}, ${options.join(',')}] (Br${i+1}A) -- (Br${i+1}B);`;
-        if (shape.type === 'text') return `  \\tkzText${optStr}(${f(shape.x1)},${f(shape.y1)}){${shape.text || 'Text'}}`;
-        return `% tkz fallback for ${shape.type}`;
-    }).join('\n');
-    return header + body + '\n\\end{tikzpicture}\n\\end{document}';
-  }, [exportShapes, exportMode, showAxes, showGrid, colorDefs, colorMap]);
-
-  const luamplibCode = useMemo(() => {
-    if (exportMode !== 'luamplib') return '';
-    let header = `\\documentclass{standalone}\n\\usepackage{luamplib}\n\\begin{document}\n\\begin{mplibcode}\nbeginfig(1);\nu:=1cm;\n`;
-    if (showGrid) { const { minX, maxX, minY, maxY } = getBounds(); header += `\n% Grid\nfor i=${minX} upto ${maxX}: draw (i*u, ${minY}*u)--(i*u, ${maxY}*u) withcolor 0.9white; endfor\nfor j=${minY} upto ${maxY}: draw (${minX}*u, j*u)--(${maxX}*u, j*u) withcolor 0.9white; endfor\n`; }
-    if (showAxes) { const { minX, maxX, minY, maxY } = getBounds(); header += `\n% Axes\ndrawarrow (${minX - 0.5}*u, 0)--(${maxX + 0.5}*u, 0); label.rt(btex $x$ etex, (${maxX + 0.5}*u, 0));\ndrawarrow (0, ${minY - 0.5}*u)--(0, ${maxY + 0.5}*u); label.top(btex $y$ etex, (0, ${maxY + 0.5}*u));\n`; }
-    const body = exportShapes.map((shape) => {
-        let pathDef = '';
-        if (shape.type === 'line') pathDef = `(${f(shape.x1)}*u, ${f(shape.y1)}*u)--(${f(shape.x2)}*u, ${f(shape.y2)}*u)`;
-        else if (shape.type === 'rect') pathDef = `(${f(shape.x1)}*u, ${f(shape.y1)}*u)--(${f(shape.x2)}*u, ${f(shape.y1)}*u)--(${f(shape.x2)}*u, ${f(shape.y2)}*u)--(${f(shape.x1)}*u, ${f(shape.y2)}*u)--cycle`;
-        else if (shape.type === 'round_rect') {
-            const lx = Math.min(shape.x1, shape.x2); const rx = Math.max(shape.x1, shape.x2); const by = Math.min(shape.y1, shape.y2); const ty = Math.max(shape.y1, shape.y2); const r = shape.cornerRadius ?? 0.5;
-            pathDef = `(${f(lx+r)}*u, ${f(by)}*u) -- (${f(rx-r)}*u, ${f(by)}*u) & quartercircle scaled (${f(2*r)}*u) rotated 270 shifted (${f(rx-r)}*u, ${f(by+r)}*u) -- (${f(rx)}*u, ${f(ty-r)}*u) & quartercircle scaled (${f(2*r)}*u) rotated 0 shifted (${f(rx-r)}*u, ${f(ty-r)}*u) -- (${f(lx+r)}*u, ${f(ty)}*u) & quartercircle scaled (${f(2*r)}*u) rotated 90 shifted (${f(lx+r)}*u, ${f(ty-r)}*u) -- (${f(lx)}*u, ${f(by+r)}*u) & quartercircle scaled (${f(2*r)}*u) rotated 180 shifted (${f(lx+r)}*u, ${f(by+r)}*u) -- cycle`;
-        } else if (shape.type === 'circle') { const r = Math.sqrt(Math.pow(shape.x2 - shape.x1, 2) + Math.pow(shape.y2 - shape.y1, 2)); pathDef = `fullcircle scaled (${f(2*r)}*u) shifted (${f(shape.x1)}*u, ${f(shape.y1)}*u)`; }
-        else if (shape.type === 'text') return `label(btex ${shape.text || "Text"} etex, (${f(shape.x1)}*u, ${f(shape.y1)}*u));`;
-        else return `% MetaPost fallback for ${shape.type}`;
-        
-        let cmd = `path p; p := ${pathDef};\n`;
-        if (shape.fillColor && shape.fillColor !== 'none') { const fillC = hexToMP(shape.fillColor); if (fillC) cmd += `fill p withcolor ${fillC};\n`; }
-        let drawCmd = 'draw p'; if (shape.strokeColor && !isDefaultColor(shape.strokeColor)) { const strokeC = hexToMP(shape.strokeColor); if (strokeC) drawCmd += ` withcolor ${strokeC}`; }
-        if (shape.lineWidth > 2) drawCmd += ` withpen pencircle scaled ${f(shape.lineWidth * 0.5)}`; else if (shape.lineWidth === 1) drawCmd += ` withpen pencircle scaled 0.5`;
-        if (shape.type === 'line') { if (shape.arrow === 'end' || shape.arrow === 'both') drawCmd = drawCmd.replace('draw', 'drawarrow'); if (shape.arrow === 'start' || shape.arrow === 'both') if (shape.arrow === 'both') drawCmd = drawCmd.replace('drawarrow', 'drawdblarrow'); }
-        cmd += drawCmd + ';';
-        return cmd;
-    }).join('\n');
-    return header + body + `\nendfig;\n\\end{mplibcode}\n\\end{document}`;
-  }, [exportShapes, exportMode, showGrid, showAxes]);
-
   const generateAiTikz = async (instruction?: string, isRefining: boolean = false) => {
     if (exportShapes.length === 0 && !instruction && !selectedImage) return;
     setIsGenerating(true);
@@ -360,6 +79,7 @@ export const TikzExportModal: React.FC<TikzExportModalProps> = ({ isOpen, onClos
       if (exportMode === 'standard') inputData = standardTikzCode;
       else if (exportMode === 'tkz-euclide') inputData = tkzEuclideCode;
       else if (exportMode === 'luamplib') inputData = luamplibCode; 
+      else if (exportMode === 'pgfplots') inputData = pgfplotsCode;
       let promptText = "";
       let inlineData = undefined;
       if (isRefining) promptText = instruction || "Please refine the code.";
@@ -383,7 +103,8 @@ export const TikzExportModal: React.FC<TikzExportModalProps> = ({ isOpen, onClos
 
   let displayedCode = "";
   if (activeTab === 'ai') displayedCode = aiCode || (shapes.length === 0 ? "% Ready." : "% Generating...");
-  else displayedCode = exportMode === 'tkz-euclide' ? tkzEuclideCode : exportMode === 'luamplib' ? luamplibCode : standardTikzCode;
+  else if (activeTab === 'svg') displayedCode = svgCode;
+  else displayedCode = exportMode === 'tkz-euclide' ? tkzEuclideCode : exportMode === 'luamplib' ? luamplibCode : exportMode === 'pgfplots' ? pgfplotsCode : standardTikzCode;
 
   if (!isOpen) return null;
 
@@ -404,6 +125,7 @@ export const TikzExportModal: React.FC<TikzExportModalProps> = ({ isOpen, onClos
         <div className="flex p-1 bg-slate-950/50 m-4 mb-2 rounded-xl border border-slate-800">
           <button onClick={() => setActiveTab('ai')} className={`flex-1 py-2 text-sm font-semibold rounded-lg transition-all ${activeTab === 'ai' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-200'}`}>AI Optimized</button>
           <button onClick={() => setActiveTab('standard')} className={`flex-1 py-2 text-sm font-semibold rounded-lg transition-all ${activeTab === 'standard' ? 'bg-slate-700 text-white shadow-lg' : 'text-slate-400 hover:text-slate-200'}`}>Standard Raw</button>
+          <button onClick={() => setActiveTab('svg')} className={`flex-1 py-2 text-sm font-semibold rounded-lg transition-all ${activeTab === 'svg' ? 'bg-emerald-700 text-white shadow-lg' : 'text-slate-400 hover:text-slate-200'}`}>SVG</button>
         </div>
 
         {/* AI Controls Area */}
@@ -466,10 +188,22 @@ export const TikzExportModal: React.FC<TikzExportModalProps> = ({ isOpen, onClos
         <div className="p-5 border-t border-slate-800 bg-slate-900/50 flex items-center justify-between">
           <div className="flex flex-col">
             <div className="text-[10px] text-slate-500 uppercase tracking-widest font-bold">Output Format</div>
-            <div className="text-xs text-indigo-400 font-semibold">Standalone LaTeX Document</div>
+            <div className="text-xs text-indigo-400 font-semibold">{activeTab === 'svg' ? 'Scalable Vector Graphics' : 'Standalone LaTeX Document'}</div>
           </div>
+          {hasLayerSections && activeTab !== 'svg' && exportMode !== 'luamplib' && exportMode !== 'pgfplots' && (
+            <label className="flex items-center gap-2 text-xs text-slate-400">
+              Layers as
+              <select value={layerOutput} onChange={(e) => onLayerOutputChange(e.target.value as LayerOutput)} className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:outline-none focus:border-indigo-500">
+                <option value="scope">scope</option>
+                <option value="pgfonlayer">pgfonlayer</option>
+              </select>
+            </label>
+          )}
           <div className="flex gap-2">
             <button onClick={onClose} className="px-6 py-2 text-sm font-bold text-slate-400 hover:text-white transition-colors cursor-pointer">Close</button>
+            {activeTab === 'svg' && (
+              <button onClick={handleDownloadSvg} className="px-6 py-2 text-sm font-bold bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl transition-all active:scale-95 cursor-pointer">Download .svg</button>
+            )}
             <button onClick={() => { navigator.clipboard.writeText(displayedCode); setCopied(true); setTimeout(() => setCopied(false), 2000); }} className="px-6 py-2 text-sm font-bold bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl shadow-lg shadow-indigo-500/20 transition-all active:scale-95 cursor-pointer">
               {copied ? 'Success!' : 'Copy to Clipboard'}
             </button>
@@ -0,0 +1,81 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { importTikz, TikzImportResult } from '../services/tikzImporter';
+
+interface TikzImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (result: TikzImportResult, replace: boolean) => void;
+}
+
+export const TikzImportModal: React.FC<TikzImportModalProps> = ({ isOpen, onClose, onImport }) => {
+  const [code, setCode] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => { if (!isOpen) setCode(''); }, [isOpen]);
+
+  const result = useMemo(() => (code.trim() ? importTikz(code) : null), [code]);
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => setCode(reader.result as string);
+    reader.readAsText(file);
+  };
+
+  const handleImport = (replace: boolean) => {
+    if (!result || result.shapes.length === 0) return;
+    onImport(result, replace);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-md p-4 animate-in fade-in duration-300">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-3xl flex flex-col max-h-[90vh] overflow-hidden relative z-10 text-slate-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-5 border-b border-slate-800 bg-slate-950/50">
+          <h2 className="text-xl font-bold text-white">Import TikZ</h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-all cursor-pointer"><svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg></button>
+        </div>
+
+        {/* Source */}
+        <div className="flex-grow flex flex-col gap-3 p-4 overflow-hidden">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Paste TikZ code or a full standalone document</span>
+            <input type="file" accept=".tex,.tikz,.txt" ref={fileInputRef} onChange={handleFileUpload} className="hidden" />
+            <button onClick={() => fileInputRef.current?.click()} className="px-2.5 py-1 bg-slate-700 hover:bg-slate-600 text-white text-xs font-bold rounded shadow-sm transition-colors">Load .tex File</button>
+          </div>
+          <textarea value={code} onChange={(e) => setCode(e.target.value)} placeholder={'\\begin{tikzpicture}\n  \\draw (0,0) -- (2,1);\n\\end{tikzpicture}'} className="w-full min-h-[260px] flex-grow bg-slate-950/80 border border-slate-800 rounded-xl text-slate-300 font-mono text-sm p-4 resize-none focus:outline-none focus:border-indigo-500" />
+
+          {result && (
+            <div className="text-xs flex flex-col gap-1 max-h-32 overflow-y-auto">
+              <div className="text-emerald-400 font-semibold">
+                {result.shapes.length} shape{result.shapes.length === 1 ? '' : 's'} recognized
+                {result.showGrid && ' · grid'}{result.showAxes && ' · axes'}
+              </div>
+              {result.skipped.length > 0 && (
+                <div className="text-amber-400">
+                  <div className="font-semibold">Skipped ({result.skipped.length}):</div>
+                  <ul className="list-disc list-inside text-amber-300/80 font-mono">
+                    {result.skipped.map(item => <li key={item}>{item}</li>)}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-5 border-t border-slate-800 bg-slate-900/50 flex justify-end gap-2">
+          <button onClick={onClose} className="px-6 py-2 text-sm font-bold text-slate-400 hover:text-white transition-colors cursor-pointer">Cancel</button>
+          <button onClick={() => handleImport(false)} disabled={!result || result.shapes.length === 0} className="px-6 py-2 text-sm font-bold bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded-xl transition-all cursor-pointer">Add to Drawing</button>
+          <button onClick={() => handleImport(true)} disabled={!result || result.shapes.length === 0} className="px-6 py-2 text-sm font-bold bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-xl shadow-lg shadow-indigo-500/20 transition-all cursor-pointer">Replace Drawing</button>
+        </div>
+      </div>
+    </div>
+  );
+};
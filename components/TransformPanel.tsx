@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Point } from './CartesianCanvas';
+import { NumberField } from './NumberField';
+import { PivotKind, PIVOT_KINDS, PIVOT_LABELS } from '../services/transform';
+
+interface TransformPanelProps {
+  pivotKind: PivotKind;
+  onPivotKindChange: (kind: PivotKind) => void;
+  // Where the selection turns and scales about; null with nothing selected
+  pivot: Point | null;
+  onPivotChange: (pivot: Point) => void;
+  hasSelection: boolean;
+  // Angles in degrees, counterclockwise
+  onRotate: (degrees: number) => void;
+  onScale: (sx: number, sy: number) => void;
+  onSkew: (xDegrees: number, yDegrees: number) => void;
+  onClose: () => void;
+}
+
+const iconButton = 'p-1 rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed';
+const textInput = 'bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 text-slate-200 focus:outline-none focus:border-cyan-500';
+const applyButton = 'px-2 py-0.5 bg-slate-700 hover:bg-slate-600 text-white font-bold rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed';
+
+const nonZero = (v: number) => v === 0 ? 'A scale factor of 0 would flatten the selection.' : null;
+const skewable = (v: number) => Math.abs(v) >= 90 ? 'Skew angles must lie strictly between -90° and 90°.' : null;
+
+export const TransformPanel: React.FC<TransformPanelProps> = ({ pivotKind, onPivotKindChange, pivot, onPivotChange, hasSelection, onRotate, onScale, onSkew, onClose }) => {
+  const [angle, setAngle] = useState(90);
+  const [sx, setSx] = useState(2);
+  const [sy, setSy] = useState(2);
+  const [uniform, setUniform] = useState(true);
+  const [skewX, setSkewX] = useState(15);
+  const [skewY, setSkewY] = useState(0);
+
+  return (
+    <div className="absolute bottom-4 right-4 w-72 flex flex-col bg-slate-900/95 rounded-lg border border-slate-800 shadow-xl backdrop-blur-sm text-xs text-slate-300 z-10">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-800">
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Transform</span>
+        <button onClick={onClose} className={`${iconButton} text-slate-400 hover:text-white hover:bg-slate-700`} title="Close">
+          <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-1.5 px-3 py-2">
+        <label className="flex items-center justify-between gap-2">
+          <span>Pivot</span>
+          <select value={pivotKind} onChange={(e) => onPivotKindChange(e.target.value as PivotKind)} className={`${textInput} w-32`}>
+            {PIVOT_KINDS.map(kind => <option key={kind} value={kind}>{PIVOT_LABELS[kind]}</option>)}
+          </select>
+        </label>
+        <div className="flex items-center justify-between gap-2">
+          <span>x / y</span>
+          {pivot ? (
+            <div className="flex items-center gap-0.5">
+              <NumberField value={pivot.x} title="Pivot x; editing it makes the pivot a custom point" onCommit={(v) => { onPivotChange({ x: v, y: pivot.y }); return null; }} />
+              <NumberField value={pivot.y} title="Pivot y; editing it makes the pivot a custom point" onCommit={(v) => { onPivotChange({ x: pivot.x, y: v }); return null; }} />
+            </div>
+          ) : (
+            <span className="text-slate-500 italic">Nothing selected</span>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-[auto_1fr_auto] items-center gap-x-2 gap-y-1.5 px-3 py-2 border-t border-slate-800">
+        <span className="text-slate-400">Rotate</span>
+        <div className="flex items-center gap-0.5">
+          <NumberField value={angle} title="Angle in degrees, counterclockwise" onCommit={(v) => { setAngle(v); return null; }} />
+          <span className="text-slate-500">°</span>
+        </div>
+        <button onClick={() => onRotate(angle)} disabled={!hasSelection} className={applyButton}>Apply</button>
+
+        <span className="text-slate-400">Scale</span>
+        <div className="flex items-center gap-0.5">
+          <NumberField value={sx} title={uniform ? 'Scale factor' : 'Horizontal scale factor; negative mirrors'} onCommit={(v) => { const problem = nonZero(v); if (!problem) { setSx(v); if (uniform) setSy(v); } return problem; }} />
+          {!uniform && <NumberField value={sy} title="Vertical scale factor; negative mirrors" onCommit={(v) => { const problem = nonZero(v); if (!problem) setSy(v); return problem; }} />}
+        </div>
+        <button onClick={() => onScale(sx, uniform ? sx : sy)} disabled={!hasSelection} className={applyButton}>Apply</button>
+
+        <span />
+        <label className="col-span-2 flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={uniform} onChange={(e) => { setUniform(e.target.checked); if (e.target.checked) setSy(sx); }} />
+          Uniform
+        </label>
+
+        <span className="text-slate-400">Skew</span>
+        <div className="flex items-center gap-0.5">
+          <NumberField value={skewX} title="Horizontal skew in degrees (TikZ xslant)" onCommit={(v) => { const problem = skewable(v); if (!problem) setSkewX(v); return problem; }} />
+          <NumberField value={skewY} title="Vertical skew in degrees (TikZ yslant)" onCommit={(v) => { const problem = skewable(v); if (!problem) setSkewY(v); return problem; }} />
+        </div>
+        <button onClick={() => onSkew(skewX, skewY)} disabled={!hasSelection} className={applyButton}>Apply</button>
+      </div>
+
+      <p className="px-3 py-2 border-t border-slate-800 text-slate-500">
+        On the canvas, drag the box handles to scale, the knob to rotate and the pink cross to move the pivot. Shift scales evenly and turns in 15° steps.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,440 @@
+import { Shape, Point } from './CartesianCanvas';
+import { getAngleMarkGeometry, getAngleMarkRadii } from '../services/angleMark';
+import { getArcBounds, getArcGeometry } from '../services/arc';
+import { getPlotBounds, getPlotRuns } from '../services/plot';
+import { SnapKind, SNAP_KIND_LABELS } from '../services/objectSnap';
+import { AxesSettings, DEFAULT_AXES_SETTINGS, getAxisLabelText, getAxisTicks, getMinorTicks, getTickSpacing } from '../services/axes';
+import { DEFAULT_GRID_SETTINGS, GridSettings, getGridCellSize, getGridLines, getGridRings } from '../services/grid';
+import { getContours } from '../services/boolean';
+
+// Pure drawing routines shared by the editor canvas and offscreen renders (thumbnails, image export).
+
+export interface Viewport {
+  width: number;
+  height: number;
+  scale: number;
+  offset: Point;
+}
+
+export interface DrawShapeOptions {
+  isSelected?: boolean;
+  isHovered?: boolean;
+  // Screen-space handle positions to draw on top of a selected shape; insert handles (where a
+  // polygon edge can take a new vertex) are drawn smaller and hollow
+  handles?: (Point & { insert?: boolean })[];
+  // Fill behind measure labels; matches the surface the drawing is rendered on
+  backgroundColor?: string;
+}
+
+export interface GridStyle {
+  showGrid: boolean;
+  showAxes: boolean;
+  gridColor: string;
+  axisColor: string;
+  labelColor: string;
+}
+
+export const BACKGROUND_COLOR = '#020617';
+
+export const EDITOR_GRID_STYLE: GridStyle = { showGrid: true, showAxes: true, gridColor: '#1e293b', axisColor: '#94a3b8', labelColor: '#64748b' };
+
+const dist = (p1: Point, p2: Point): number => Math.sqrt(Math.pow(p1.x - p2.x, 2) + Math.pow(p1.y - p2.y, 2));
+
+// Filled arrow head with its tip at (tx, ty) pointing along ang (screen radians)
+const drawArrowHead = (ctx: CanvasRenderingContext2D, tx: number, ty: number, ang: number, lineWidth: number, color: string) => {
+    const headLen = 8 + (lineWidth - 1)*2;
+    ctx.beginPath(); ctx.moveTo(tx, ty);
+    ctx.lineTo(tx - headLen * Math.cos(ang - Math.PI/6), ty - headLen * Math.sin(ang - Math.PI/6));
+    ctx.lineTo(tx - headLen * Math.cos(ang + Math.PI/6), ty - headLen * Math.sin(ang + Math.PI/6));
+    ctx.closePath();
+    ctx.fillStyle = color;
+    ctx.fill();
+};
+
+export const gridToScreen = (view: Viewport, gx: number, gy: number): Point => {
+  const x = gx * view.scale + view.width / 2 + view.offset.x;
+  const y = -gy * view.scale + view.height / 2 + view.offset.y;
+  return { x, y };
+};
+
+export const drawGrid = (ctx: CanvasRenderingContext2D, view: Viewport, style: GridStyle = EDITOR_GRID_STYLE, axes: AxesSettings = DEFAULT_AXES_SETTINGS, grid: GridSettings = DEFAULT_GRID_SETTINGS) => {
+    const { width, height, scale } = view;
+    const center = gridToScreen(view, 0, 0);
+    // Visible extent in grid units, narrowed to the fixed axes range when there is one
+    let x0 = -center.x / scale, x1 = (width - center.x) / scale;
+    let y0 = (center.y - height) / scale, y1 = center.y / scale;
+    if (axes.range) {
+        x0 = Math.max(x0, axes.range.xMin); x1 = Math.min(x1, axes.range.xMax);
+        y0 = Math.max(y0, axes.range.yMin); y1 = Math.min(y1, axes.range.yMax);
+        if (x0 > x1 || y0 > y1) return;
+    }
+    const sx = (gx: number) => center.x + gx * scale;
+    const sy = (gy: number) => center.y - gy * scale;
+    // Canvas-wide lines unless a range bounds them
+    const left = axes.range ? sx(x0) : 0, right = axes.range ? sx(x1) : width;
+    const top = axes.range ? sy(y1) : 0, bottom = axes.range ? sy(y0) : height;
+
+    if (style.showGrid) {
+        const extent = { minX: x0, maxX: x1, minY: y0, maxY: y1 };
+        // Minor lines are left out when they would crowd closer than a few pixels
+        const showMinor = getGridCellSize(grid) / Math.max(1, Math.round(grid.subdivisions)) * scale >= 4;
+        // Axis-parallel lines sit on pixel centres to stay crisp
+        const crisp = (v: number) => Math.floor(v) + 0.5;
+        ctx.save();
+        ctx.beginPath(); ctx.rect(left, top, right - left, bottom - top); ctx.clip();
+        ctx.lineWidth = 1;
+        ctx.strokeStyle = style.gridColor;
+        [true, false].forEach(minor => {
+            if (minor && !showMinor) return;
+            ctx.globalAlpha = minor ? 0.5 : 1;
+            ctx.beginPath();
+            getGridLines(grid, extent).filter(l => l.minor === minor).forEach(l => {
+                let ax = sx(l.x1), ay = sy(l.y1), bx = sx(l.x2), by = sy(l.y2);
+                if (l.x1 === l.x2) { ax = bx = crisp(ax); ay = top; by = bottom; }
+                if (l.y1 === l.y2) { ay = by = crisp(ay); ax = left; bx = right; }
+                ctx.moveTo(ax, ay); ctx.lineTo(bx, by);
+            });
+            getGridRings(grid, extent).filter(r => r.minor === minor).forEach(r => {
+                ctx.moveTo(center.x + r.r * scale, center.y);
+                ctx.arc(center.x, center.y, r.r * scale, 0, 2 * Math.PI);
+            });
+            ctx.stroke();
+        });
+        ctx.restore();
+    }
+    if (!style.showAxes) return;
+
+    ctx.beginPath();
+    ctx.strokeStyle = style.axisColor; ctx.lineWidth = 2;
+    const showX = center.y >= top && center.y <= bottom;
+    const showY = center.x >= left && center.x <= right;
+    if (showX) { ctx.moveTo(left, center.y); ctx.lineTo(right, center.y); }
+    if (showY) { ctx.moveTo(center.x, top); ctx.lineTo(center.x, bottom); }
+    ctx.stroke();
+    // Arrow heads sit at the ends of the range, or at the canvas edges for endless axes
+    if (axes.arrow !== 'none') {
+        if (showX) { drawArrowHead(ctx, right, center.y, 0, 2, style.axisColor); if (axes.arrow === 'both') drawArrowHead(ctx, left, center.y, Math.PI, 2, style.axisColor); }
+        if (showY) { drawArrowHead(ctx, center.x, top, -Math.PI / 2, 2, style.axisColor); if (axes.arrow === 'both') drawArrowHead(ctx, center.x, bottom, Math.PI / 2, 2, style.axisColor); }
+    }
+
+    ctx.fillStyle = style.labelColor; ctx.font = 'italic 13px serif';
+    if (showX && axes.xLabel) { ctx.textAlign = 'right'; ctx.textBaseline = 'bottom'; ctx.fillText(getAxisLabelText(axes.xLabel), right - 6, center.y - 6); }
+    if (showY && axes.yLabel) { ctx.textAlign = 'left'; ctx.textBaseline = 'top'; ctx.fillText(getAxisLabelText(axes.yLabel), center.x + 8, top + 6); }
+    if (showX && showY && axes.originLabel) { ctx.textAlign = 'right'; ctx.textBaseline = 'top'; ctx.fillText(getAxisLabelText(axes.originLabel), center.x - 4, center.y + 4); }
+
+    ctx.font = '10px sans-serif';
+    // Minor ticks are skipped when they would crowd closer than a few pixels
+    const minorX = getTickSpacing(axes, 'x') / (axes.minorTicks + 1) * scale >= 4 ? getMinorTicks(axes, 'x', x0, x1) : [];
+    const minorY = getTickSpacing(axes, 'y') / (axes.minorTicks + 1) * scale >= 4 ? getMinorTicks(axes, 'y', y0, y1) : [];
+    const tickY = Math.min(Math.max(center.y, 0), height - 20);
+    ctx.textAlign = 'center'; ctx.textBaseline = 'top';
+    ctx.beginPath();
+    minorX.forEach(gx => { ctx.moveTo(sx(gx), tickY); ctx.lineTo(sx(gx), tickY + 3); });
+    getAxisTicks(axes, 'x', x0, x1).forEach(t => {
+        const x = sx(t.value);
+        ctx.moveTo(x, tickY); ctx.lineTo(x, tickY + 5);
+        if (axes.numbered) ctx.fillText(t.text, x, tickY + 8);
+    });
+    const tickX = Math.min(Math.max(center.x, 20), width);
+    ctx.textAlign = 'right'; ctx.textBaseline = 'middle';
+    minorY.forEach(gy => { ctx.moveTo(tickX, sy(gy)); ctx.lineTo(tickX - 3, sy(gy)); });
+    getAxisTicks(axes, 'y', y0, y1).forEach(t => {
+        const y = sy(t.value);
+        ctx.moveTo(tickX, y); ctx.lineTo(tickX - 5, y);
+        if (axes.numbered) ctx.fillText(t.text, tickX - 8, y);
+    });
+    ctx.stroke();
+};
+
+export const drawShape = (ctx: CanvasRenderingContext2D, shape: Shape, view: Viewport, options: DrawShapeOptions = {}) => {
+    const { isSelected = false, isHovered = false, handles, backgroundColor = BACKGROUND_COLOR } = options;
+    const toScreen = (gx: number, gy: number) => gridToScreen(view, gx, gy);
+    const p1 = toScreen(shape.x1, shape.y1);
+    const p2 = toScreen(shape.x2, shape.y2);
+
+    ctx.save();
+    ctx.beginPath();
+
+    let currentStrokeColor = shape.strokeColor || '#facc15';
+
+    if (shape.isGuide) {
+        currentStrokeColor = shape.strokeColor || '#94a3b8';
+        ctx.strokeStyle = currentStrokeColor;
+        ctx.setLineDash([5, 5]); ctx.lineWidth = 1;
+    } else {
+        ctx.strokeStyle = currentStrokeColor;
+        ctx.lineWidth = shape.lineWidth || 2;
+        if (shape.style === 'dashed') ctx.setLineDash([10, 5]);
+        if (shape.style === 'dotted') ctx.setLineDash([2, 4]);
+        if (isSelected || isHovered) {
+            if(isSelected) {
+                currentStrokeColor = '#60a5fa';
+                ctx.shadowColor = '#3b82f6'; ctx.shadowBlur = 8;
+                ctx.strokeStyle = currentStrokeColor;
+            }
+            else { ctx.shadowColor = 'rgba(255,255,255,0.3)'; ctx.shadowBlur = 4; }
+        }
+    }
+
+    const performFill = (fillRule: CanvasFillRule = 'nonzero') => {
+         if (shape.fillColor && shape.fillColor !== 'none') { ctx.fillStyle = shape.fillColor; ctx.fill(fillRule); }
+         if (shape.hatchStyle && shape.hatchStyle !== 'none') {
+             ctx.save(); ctx.clip(fillRule); ctx.beginPath();
+             ctx.strokeStyle = shape.strokeColor || '#facc15'; ctx.lineWidth = 1; ctx.globalAlpha = 0.3;
+             const size = Math.max(view.width, view.height);
+             if (shape.hatchStyle === 'lines' || shape.hatchStyle === 'grid') { for (let i = 0; i < size; i+=10) { ctx.moveTo(i, 0); ctx.lineTo(0, i); } }
+             if (shape.hatchStyle === 'grid') { for (let i = 0; i < size; i+=10) { ctx.moveTo(0, size-i); ctx.lineTo(i, size); } }
+             ctx.stroke(); ctx.restore();
+         }
+    };
+
+    if (shape.rotation) {
+         let cx = shape.x1, cy = shape.y1;
+         if (['line','rect','round_rect','brace','measure'].includes(shape.type)) { cx = (shape.x1 + shape.x2) / 2; cy = (shape.y1 + shape.y2) / 2; }
+         const cp = toScreen(cx, cy);
+         ctx.translate(cp.x, cp.y); ctx.rotate(-shape.rotation); ctx.translate(-cp.x, -cp.y);
+    }
+
+    // Draw Geometry
+    switch (shape.type) {
+        case 'line': case 'measure': case 'brace': case 'measure_radius':
+            ctx.moveTo(p1.x, p1.y); ctx.lineTo(p2.x, p2.y); ctx.stroke();
+
+            // Draw perpendicular witness lines for linear measures
+            if (shape.type === 'measure') {
+                const tickLen = 15;
+                const angle = Math.atan2(p2.y - p1.y, p2.x - p1.x);
+                const px = Math.cos(angle + Math.PI/2) * tickLen;
+                const py = Math.sin(angle + Math.PI/2) * tickLen;
+                ctx.beginPath();
+                ctx.moveTo(p1.x - px, p1.y - py); ctx.lineTo(p1.x + px, p1.y + py);
+                ctx.moveTo(p2.x - px, p2.y - py); ctx.lineTo(p2.x + px, p2.y + py);
+                ctx.stroke();
+            }
+
+            // Draw Arrows
+            if (shape.type === 'line' || shape.type === 'measure' || shape.type === 'measure_radius') {
+                const angle = Math.atan2(p2.y - p1.y, p2.x - p1.x);
+                const drawHead = (tx: number, ty: number, ang: number) => drawArrowHead(ctx, tx, ty, ang, shape.lineWidth, currentStrokeColor);
+                if (shape.arrow === 'end' || shape.arrow === 'both' || shape.type === 'measure' || shape.type === 'measure_radius') drawHead(p2.x, p2.y, angle);
+                if (shape.arrow === 'start' || shape.arrow === 'both' || shape.type === 'measure' || shape.type === 'measure_radius') drawHead(p1.x, p1.y, angle + Math.PI);
+            }
+
+            // Draw Text Label for Measure Types
+            if (shape.type === 'measure' || shape.type === 'measure_radius') {
+                const midX = (p1.x + p2.x) / 2;
+                const midY = (p1.y + p2.y) / 2;
+                const text = shape.text || dist({x: shape.x1, y: shape.y1}, {x: shape.x2, y: shape.y2}).toFixed(2);
+
+                ctx.save();
+                ctx.fillStyle = backgroundColor; // Match background color to clear line
+                ctx.font = '12px sans-serif';
+                ctx.textAlign = 'center';
+                ctx.textBaseline = 'middle';
+                const metrics = ctx.measureText(text);
+                const pad = 4;
+                // Draw background rect
+                ctx.fillRect(midX - metrics.width/2 - pad, midY - 8, metrics.width + pad*2, 16);
+
+                ctx.fillStyle = shape.strokeColor || '#facc15';
+                ctx.fillText(text, midX, midY);
+                ctx.restore();
+            }
+
+            break;
+        case 'rect': ctx.beginPath(); ctx.rect(p1.x, p1.y, p2.x - p1.x, p2.y - p1.y); performFill(); ctx.stroke(); break;
+        case 'round_rect': {
+            const lx = Math.min(p1.x, p2.x); const rx = Math.max(p1.x, p2.x);
+            const ty = Math.min(p1.y, p2.y); const by = Math.max(p1.y, p2.y);
+            const w = rx - lx; const h = by - ty;
+            const rUnits = shape.cornerRadius ?? 0.5; const radiusPx = rUnits * view.scale;
+            ctx.beginPath();
+            if (typeof (ctx as any).roundRect === 'function') (ctx as any).roundRect(lx, ty, w, h, radiusPx); else ctx.rect(lx, ty, w, h);
+            performFill(); ctx.stroke(); break;
+        }
+        case 'circle': { const r = dist(p1, p2); ctx.beginPath(); ctx.arc(p1.x, p1.y, r, 0, 2 * Math.PI); performFill(); ctx.stroke(); break; }
+        case 'ellipse': { const rx = Math.abs(p2.x - p1.x); const ry = Math.abs(p2.y - p1.y); ctx.beginPath(); ctx.ellipse(p1.x, p1.y, rx, ry, 0, 0, 2 * Math.PI); performFill(); ctx.stroke(); break; }
+        case 'arc': {
+            // Screen y points down, so grid angles are negated and counterclockwise flips
+            const geo = getArcGeometry(shape); const r = geo.radius * view.scale; const dir = Math.sign(geo.sweep) || 1;
+            ctx.beginPath(); ctx.arc(p1.x, p1.y, r, -geo.startAngle, -geo.endAngle, geo.sweep > 0); ctx.stroke();
+            const tip = (a: number) => ({ x: p1.x + r * Math.cos(a), y: p1.y - r * Math.sin(a) });
+            // Travel direction on screen at angle a is (-sin a, -cos a) for a counterclockwise arc
+            if (shape.arrow === 'end' || shape.arrow === 'both') { const t = tip(geo.endAngle); drawArrowHead(ctx, t.x, t.y, Math.atan2(-Math.cos(geo.endAngle) * dir, -Math.sin(geo.endAngle) * dir), shape.lineWidth, currentStrokeColor); }
+            if (shape.arrow === 'start' || shape.arrow === 'both') { const t = tip(geo.startAngle); drawArrowHead(ctx, t.x, t.y, Math.atan2(Math.cos(geo.startAngle) * dir, Math.sin(geo.startAngle) * dir), shape.lineWidth, currentStrokeColor); }
+            break;
+        }
+        case 'bezier': {
+             if (shape.cx1 !== undefined) {
+                 const cp1 = toScreen(shape.cx1, shape.cy1 || 0); const cp2 = toScreen(shape.cx2 || 0, shape.cy2 || 0);
+                 ctx.beginPath(); ctx.moveTo(p1.x, p1.y); ctx.bezierCurveTo(cp1.x, cp1.y, cp2.x, cp2.y, p2.x, p2.y); ctx.stroke();
+                 if (isSelected) {
+                     ctx.lineWidth = 1; ctx.strokeStyle = '#64748b'; ctx.setLineDash([2, 2]);
+                     ctx.beginPath(); ctx.moveTo(p1.x, p1.y); ctx.lineTo(cp1.x, cp1.y); ctx.stroke();
+                     ctx.beginPath(); ctx.moveTo(p2.x, p2.y); ctx.lineTo(cp2.x, cp2.y); ctx.stroke();
+                     ctx.stroke(); ctx.fillStyle = '#facc15'; ctx.fillRect(cp1.x-3, cp1.y-3, 6, 6); ctx.fillRect(cp2.x-3, cp2.y-3, 6, 6);
+                 }
+             } break;
+        }
+        case 'mark_angle': {
+            const geo = getAngleMarkGeometry(shape);
+            const s = view.scale;
+            if (geo.rightAngle) {
+                const a = toScreen(shape.x1 + geo.radius * geo.ux, shape.y1 + geo.radius * geo.uy);
+                const c = toScreen(shape.x1 + geo.radius * (geo.ux + geo.vx), shape.y1 + geo.radius * (geo.uy + geo.vy));
+                const b = toScreen(shape.x1 + geo.radius * geo.vx, shape.y1 + geo.radius * geo.vy);
+                ctx.beginPath(); ctx.moveTo(a.x, a.y); ctx.lineTo(c.x, c.y); ctx.lineTo(b.x, b.y); ctx.stroke();
+            } else {
+                // Counterclockwise in grid space is counterclockwise on screen once angles are negated
+                getAngleMarkRadii(geo).forEach(r => {
+                    ctx.beginPath(); ctx.arc(p1.x, p1.y, r * s, -geo.startAngle, -(geo.startAngle + geo.sweep), true); ctx.stroke();
+                });
+            }
+            if (shape.text) {
+                const lp = toScreen(geo.labelX, geo.labelY);
+                ctx.font = '13px sans-serif'; ctx.fillStyle = shape.strokeColor || '#facc15'; ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
+                ctx.fillText(shape.text.replace(/\$/g, ''), lp.x, lp.y);
+            }
+            // The rays themselves belong to other shapes; hint at them while editing
+            if (isSelected && shape.cx1 !== undefined && shape.cy1 !== undefined) {
+                const p3 = toScreen(shape.cx1, shape.cy1);
+                ctx.lineWidth = 1; ctx.strokeStyle = '#64748b'; ctx.setLineDash([2, 2]); ctx.shadowBlur = 0;
+                ctx.beginPath(); ctx.moveTo(p2.x, p2.y); ctx.lineTo(p1.x, p1.y); ctx.lineTo(p3.x, p3.y); ctx.stroke();
+            }
+            break;
+        }
+        case 'point': {
+            // Constructed points are hollow so they read as dependent on others
+            const color = shape.strokeColor || '#facc15';
+            ctx.setLineDash([]); ctx.lineWidth = 1.5; ctx.fillStyle = shape.construction ? backgroundColor : color;
+            ctx.beginPath(); ctx.arc(p1.x, p1.y, 3.5, 0, 2 * Math.PI); ctx.fill(); ctx.stroke();
+            if (shape.text) { ctx.font = 'italic 14px serif'; ctx.fillStyle = color; ctx.textAlign = 'left'; ctx.textBaseline = 'bottom'; ctx.fillText(shape.text, p1.x + 5, p1.y - 4); }
+            break;
+        }
+        case 'text': ctx.font = '14px sans-serif'; ctx.fillStyle = shape.strokeColor || '#e2e8f0'; ctx.textAlign = 'center'; ctx.textBaseline = 'middle'; ctx.fillText(shape.text || 'Text', p1.x, p1.y); break;
+        case 'plot': {
+            const runs = getPlotRuns(shape).map(run => run.map(p => toScreen(p.x, p.y)));
+            ctx.beginPath();
+            runs.forEach(run => { ctx.moveTo(run[0].x, run[0].y); run.slice(1).forEach(p => ctx.lineTo(p.x, p.y)); });
+            ctx.stroke();
+            // Arrow tips follow the last (or first) sampled step
+            const first = runs[0]; const last = runs[runs.length - 1];
+            if ((shape.arrow === 'end' || shape.arrow === 'both') && last?.length >= 2) { const [a, b] = last.slice(-2); drawArrowHead(ctx, b.x, b.y, Math.atan2(b.y - a.y, b.x - a.x), shape.lineWidth, currentStrokeColor); }
+            if ((shape.arrow === 'start' || shape.arrow === 'both') && first?.length >= 2) { const [b, a] = first; drawArrowHead(ctx, b.x, b.y, Math.atan2(b.y - a.y, b.x - a.x), shape.lineWidth, currentStrokeColor); }
+            break;
+        }
+        case 'polygon': {
+            const pts = (shape.points ?? []).map(p => toScreen(p.x, p.y));
+            if (pts.length === 0) break;
+            ctx.beginPath(); ctx.moveTo(pts[0].x, pts[0].y);
+            pts.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+            if (shape.closed) { ctx.closePath(); performFill(); }
+            ctx.stroke();
+            if (!shape.closed && pts.length >= 2) {
+                const [a, b] = pts.slice(-2); const [c, d] = pts;
+                if (shape.arrow === 'end' || shape.arrow === 'both') drawArrowHead(ctx, b.x, b.y, Math.atan2(b.y - a.y, b.x - a.x), shape.lineWidth, currentStrokeColor);
+                if (shape.arrow === 'start' || shape.arrow === 'both') drawArrowHead(ctx, c.x, c.y, Math.atan2(c.y - d.y, c.x - d.x), shape.lineWidth, currentStrokeColor);
+            }
+            break;
+        }
+        case 'compound': {
+            getContours(shape).forEach(contour => {
+                const pts = contour.map(p => toScreen(p.x, p.y));
+                ctx.moveTo(pts[0].x, pts[0].y);
+                pts.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+                ctx.closePath();
+            });
+            performFill('evenodd');
+            ctx.stroke();
+            break;
+        }
+        case 'freehand': {
+             if (shape.points && shape.points.length > 0) {
+                 ctx.beginPath(); const start = toScreen(shape.points[0].x, shape.points[0].y); ctx.moveTo(start.x, start.y);
+                 for (let i = 1; i < shape.points.length; i++) { const p = toScreen(shape.points[i].x, shape.points[i].y); ctx.lineTo(p.x, p.y); }
+                 if (shape.fillColor && shape.fillColor !== 'none') { ctx.closePath(); performFill(); } ctx.stroke();
+             } break;
+        }
+    }
+    ctx.restore();
+
+    // Render Resize Handles if Selected
+    if (isSelected && handles) {
+        handles.forEach(h => {
+            if (h.insert) {
+                ctx.beginPath(); ctx.arc(h.x, h.y, 3, 0, 2 * Math.PI);
+                ctx.fillStyle = backgroundColor; ctx.strokeStyle = '#4ade80'; ctx.lineWidth = 1;
+                ctx.fill(); ctx.stroke();
+                return;
+            }
+            ctx.fillStyle = '#4ade80'; // Green
+            ctx.strokeStyle = '#ffffff';
+            ctx.lineWidth = 1;
+            const size = 6;
+            ctx.fillRect(h.x - size/2, h.y - size/2, size, size);
+            ctx.strokeRect(h.x - size/2, h.y - size/2, size, size);
+        });
+    }
+};
+
+// Object snap marker at screen point p, one glyph per kind (CAD conventions), with its name beside it.
+export const drawSnapMarker = (ctx: CanvasRenderingContext2D, p: Point, kind: SnapKind) => {
+    const r = 6;
+    ctx.save();
+    ctx.strokeStyle = '#22d3ee'; ctx.lineWidth = 2; ctx.setLineDash([]);
+    ctx.beginPath();
+    switch (kind) {
+        case 'endpoint': ctx.rect(p.x - r, p.y - r, 2 * r, 2 * r); break;
+        case 'midpoint': ctx.moveTo(p.x, p.y - r); ctx.lineTo(p.x + r, p.y + r); ctx.lineTo(p.x - r, p.y + r); ctx.closePath(); break;
+        case 'center': ctx.arc(p.x, p.y, r, 0, 2 * Math.PI); ctx.moveTo(p.x + 1, p.y); ctx.arc(p.x, p.y, 1, 0, 2 * Math.PI); break;
+        case 'quadrant': ctx.moveTo(p.x, p.y - r); ctx.lineTo(p.x + r, p.y); ctx.lineTo(p.x, p.y + r); ctx.lineTo(p.x - r, p.y); ctx.closePath(); break;
+        case 'intersection': ctx.moveTo(p.x - r, p.y - r); ctx.lineTo(p.x + r, p.y + r); ctx.moveTo(p.x + r, p.y - r); ctx.lineTo(p.x - r, p.y + r); break;
+        case 'perpendicular': ctx.moveTo(p.x - r, p.y - r); ctx.lineTo(p.x - r, p.y + r); ctx.lineTo(p.x + r, p.y + r); ctx.moveTo(p.x - r, p.y); ctx.lineTo(p.x, p.y); ctx.lineTo(p.x, p.y + r); break;
+        case 'tangent': ctx.arc(p.x, p.y, r, 0, 2 * Math.PI); ctx.moveTo(p.x - r, p.y - r); ctx.lineTo(p.x + r, p.y - r); break;
+    }
+    ctx.stroke();
+    ctx.font = '11px sans-serif'; ctx.fillStyle = '#22d3ee'; ctx.textAlign = 'left'; ctx.textBaseline = 'top';
+    ctx.fillText(SNAP_KIND_LABELS[kind], p.x + r + 4, p.y + r + 2);
+    ctx.restore();
+};
+
+// Grid-space bounding box of the drawable shapes, or null for an empty drawing.
+export const getShapesBounds = (shapes: Shape[]): { minX: number, maxX: number, minY: number, maxY: number } | null => {
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    const check = (x: number, y: number) => { if (x < minX) minX = x; if (x > maxX) maxX = x; if (y < minY) minY = y; if (y > maxY) maxY = y; };
+    shapes.forEach(s => {
+        if (s.isGuide) return;
+        if (s.type === 'arc') { const b = getArcBounds(s); check(b.minX, b.minY); check(b.maxX, b.maxY); }
+        else if (s.type === 'plot') { const b = getPlotBounds(s); check(b.minX, b.minY); check(b.maxX, b.maxY); }
+        else if (s.type === 'circle') { const r = Math.sqrt(Math.pow(s.x2 - s.x1, 2) + Math.pow(s.y2 - s.y1, 2)); check(s.x1 - r, s.y1 - r); check(s.x1 + r, s.y1 + r); }
+        else if (s.type === 'ellipse') { const rx = Math.abs(s.x2 - s.x1); const ry = Math.abs(s.y2 - s.y1); check(s.x1 - rx, s.y1 - ry); check(s.x1 + rx, s.y1 + ry); }
+        else if (s.type === 'text') { check(s.x1, s.y1); }
+        else { check(s.x1, s.y1); check(s.x2, s.y2); if (s.cx1 !== undefined) check(s.cx1, s.cy1 ?? s.y1); if (s.points) s.points.forEach(p => check(p.x, p.y)); }
+    });
+    if (!isFinite(minX)) return null;
+    return { minX, maxX, minY, maxY };
+};
+
+// Renders a small preview of the drawing, framed to fit its content, and returns it as a PNG data URL.
+export const renderThumbnail = (shapes: Shape[], width: number = 160, height: number = 120): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return '';
+
+    const bounds = getShapesBounds(shapes) || { minX: -5, maxX: 5, minY: -5, maxY: 5 };
+    const pad = 1;
+    const spanX = Math.max(bounds.maxX - bounds.minX + 2 * pad, 1);
+    const spanY = Math.max(bounds.maxY - bounds.minY + 2 * pad, 1);
+    const scale = Math.min(width / spanX, height / spanY);
+    const midX = (bounds.minX + bounds.maxX) / 2;
+    const midY = (bounds.minY + bounds.maxY) / 2;
+    const view: Viewport = { width, height, scale, offset: { x: -midX * scale, y: midY * scale } };
+
+    ctx.fillStyle = BACKGROUND_COLOR;
+    ctx.fillRect(0, 0, width, height);
+    drawGrid(ctx, view);
+    shapes.forEach(shape => drawShape(ctx, shape, view));
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,118 @@
+import { Shape } from '../components/CartesianCanvas';
+import { getTopGroupId } from './groups';
+import { Bounds, getSelectionBounds, translateShape } from './transform';
+
+// Aligning and distributing move whole units, i.e. loose shapes or outermost groups, so a group
+// keeps its own layout. Units are measured by the box around everything they draw.
+
+export type AlignEdge = 'left' | 'center_x' | 'right' | 'top' | 'center_y' | 'bottom';
+export type AlignTarget = 'first' | 'selection' | 'origin';
+export type DistributeAxis = 'horizontal' | 'vertical';
+// Equal steps between the units' centers, or equal empty space between neighbours
+export type DistributeMode = 'spacing' | 'gaps';
+
+export const ALIGN_EDGES: AlignEdge[] = ['left', 'center_x', 'right', 'top', 'center_y', 'bottom'];
+
+export const ALIGN_EDGE_LABELS: Record<AlignEdge, string> = {
+  left: 'Align left edges',
+  center_x: 'Align centers horizontally',
+  right: 'Align right edges',
+  top: 'Align top edges',
+  center_y: 'Align centers vertically',
+  bottom: 'Align bottom edges',
+};
+
+export const ALIGN_TARGETS: AlignTarget[] = ['first', 'selection', 'origin'];
+
+export const ALIGN_TARGET_LABELS: Record<AlignTarget, string> = {
+  first: 'First selected',
+  selection: 'Selection',
+  origin: 'Origin',
+};
+
+export const DISTRIBUTE_AXES: DistributeAxis[] = ['horizontal', 'vertical'];
+
+export const DISTRIBUTE_AXIS_LABELS: Record<DistributeAxis, string> = {
+  horizontal: 'Distribute horizontally',
+  vertical: 'Distribute vertically',
+};
+
+export const DISTRIBUTE_MODES: DistributeMode[] = ['spacing', 'gaps'];
+
+export const DISTRIBUTE_MODE_LABELS: Record<DistributeMode, string> = {
+  spacing: 'Centers',
+  gaps: 'Gaps',
+};
+
+interface Unit {
+  shapes: Shape[];
+  bounds: Bounds;
+}
+
+// Units in the order their first shape was selected
+const getUnits = (shapes: Shape[], ids: string[]): Unit[] => {
+  const keys: string[] = [];
+  const members = new Map<string, Shape[]>();
+  ids.forEach(id => {
+    const shape = shapes.find(s => s.id === id);
+    if (!shape) return;
+    const key = getTopGroupId(shape) ?? shape.id;
+    if (!members.has(key)) { keys.push(key); members.set(key, []); }
+    members.get(key)!.push(shape);
+  });
+  return keys.map(key => ({ shapes: members.get(key)!, bounds: getSelectionBounds(members.get(key)!)! }));
+};
+
+// Number of units the selection moves as
+export const countAlignUnits = (shapes: Shape[], ids: string[]) => getUnits(shapes, ids).length;
+
+const moveUnit = (unit: Unit, dx: number, dy: number): Shape[] =>
+  dx === 0 && dy === 0 ? [] : unit.shapes.map(s => translateShape(s, dx, dy));
+
+// Where along its axis an edge of the box lies; grid y points up, so the top is maxY
+const edgeOf = (b: Bounds, edge: AlignEdge) => {
+  switch (edge) {
+    case 'left': return b.minX;
+    case 'center_x': return (b.minX + b.maxX) / 2;
+    case 'right': return b.maxX;
+    case 'top': return b.maxY;
+    case 'center_y': return (b.minY + b.maxY) / 2;
+    case 'bottom': return b.minY;
+  }
+};
+
+const isHorizontal = (edge: AlignEdge) => edge === 'left' || edge === 'center_x' || edge === 'right';
+
+// The selected shapes that move so each unit's edge meets the target's
+export const alignShapes = (shapes: Shape[], ids: string[], edge: AlignEdge, target: AlignTarget): Shape[] => {
+  const units = getUnits(shapes, ids);
+  if (units.length === 0) return [];
+  const goal = target === 'origin' ? 0
+    : edgeOf(target === 'first' ? units[0].bounds : getSelectionBounds(units.flatMap(u => u.shapes))!, edge);
+  return units.flatMap(u => {
+    const shift = goal - edgeOf(u.bounds, edge);
+    return isHorizontal(edge) ? moveUnit(u, shift, 0) : moveUnit(u, 0, shift);
+  });
+};
+
+// The selected shapes that move to space the units evenly; the outermost two stay where they are
+export const distributeShapes = (shapes: Shape[], ids: string[], axis: DistributeAxis, mode: DistributeMode): Shape[] => {
+  const min = (b: Bounds) => axis === 'horizontal' ? b.minX : b.minY;
+  const max = (b: Bounds) => axis === 'horizontal' ? b.maxX : b.maxY;
+  const center = (b: Bounds) => (min(b) + max(b)) / 2;
+  const units = getUnits(shapes, ids).sort((a, b) => center(a.bounds) - center(b.bounds));
+  if (units.length < 3) return [];
+  const first = units[0].bounds; const last = units[units.length - 1].bounds;
+  const step = mode === 'spacing'
+    ? (center(last) - center(first)) / (units.length - 1)
+    : (max(last) - min(first) - units.reduce((sum, u) => sum + max(u.bounds) - min(u.bounds), 0)) / (units.length - 1);
+  let next = min(first);
+  return units.flatMap((u, i) => {
+    const size = max(u.bounds) - min(u.bounds);
+    // Centers step evenly from the first one; otherwise each unit starts one gap after the last
+    const start = mode === 'spacing' ? center(first) + i * step - size / 2 : next;
+    next = start + size + step;
+    const shift = i === 0 || i === units.length - 1 ? 0 : start - min(u.bounds);
+    return axis === 'horizontal' ? moveUnit(u, shift, 0) : moveUnit(u, 0, shift);
+  });
+};
@@ -0,0 +1,53 @@
+import { Shape } from '../components/CartesianCanvas';
+
+// An angle mark is stored as a vertex (x1, y1), a point on the first ray (x2, y2) and a point on
+// the second ray (cx1, cy1). The mark sweeps counterclockwise from the first ray to the second,
+// matching TikZ's `angle=A--O--B`, \tkzMarkAngle(A,O,B) and the MetaPost anglemark macro.
+
+export const ANGLE_MARK_DEFAULT_RADIUS = 0.5;
+// Spacing between the arcs of a double or triple mark, in grid units
+export const ANGLE_MARK_ARC_GAP = 0.08;
+// Distance of the label beyond the outermost arc
+export const ANGLE_MARK_LABEL_OFFSET = 0.3;
+
+export interface AngleMarkGeometry {
+  // Direction of the first ray and counterclockwise sweep to the second, in radians
+  startAngle: number;
+  sweep: number;
+  radius: number;
+  arcs: number;
+  rightAngle: boolean;
+  // Unit vectors along both rays
+  ux: number; uy: number;
+  vx: number; vy: number;
+  labelX: number;
+  labelY: number;
+}
+
+export const getAngleMarkGeometry = (shape: Shape): AngleMarkGeometry => {
+  const startAngle = Math.atan2(shape.y2 - shape.y1, shape.x2 - shape.x1);
+  // Without a second ray yet (e.g. while drawing) assume a right angle
+  const endAngle = shape.cx1 !== undefined && shape.cy1 !== undefined && (shape.cx1 !== shape.x1 || shape.cy1 !== shape.y1)
+    ? Math.atan2(shape.cy1 - shape.y1, shape.cx1 - shape.x1)
+    : startAngle + Math.PI / 2;
+  let sweep = endAngle - startAngle;
+  while (sweep <= 0) sweep += 2 * Math.PI;
+  while (sweep > 2 * Math.PI) sweep -= 2 * Math.PI;
+
+  const radius = shape.angleRadius && shape.angleRadius > 0 ? shape.angleRadius : ANGLE_MARK_DEFAULT_RADIUS;
+  const arcs = Math.min(3, Math.max(1, Math.round(shape.angleArcs || 1)));
+  const rightAngle = !!shape.rightAngle;
+  const outer = rightAngle ? radius * Math.SQRT2 : radius + (arcs - 1) * ANGLE_MARK_ARC_GAP;
+  const mid = startAngle + sweep / 2;
+  return {
+    startAngle, sweep, radius, arcs, rightAngle,
+    ux: Math.cos(startAngle), uy: Math.sin(startAngle),
+    vx: Math.cos(endAngle), vy: Math.sin(endAngle),
+    labelX: shape.x1 + (outer + ANGLE_MARK_LABEL_OFFSET) * Math.cos(mid),
+    labelY: shape.y1 + (outer + ANGLE_MARK_LABEL_OFFSET) * Math.sin(mid),
+  };
+};
+
+// Radii of the individual arcs, innermost first
+export const getAngleMarkRadii = (geo: AngleMarkGeometry): number[] =>
+  Array.from({ length: geo.arcs }, (_, i) => geo.radius + i * ANGLE_MARK_ARC_GAP);
@@ -0,0 +1,109 @@
+import { Shape } from '../components/CartesianCanvas';
+
+// An arc is stored as its center (x1, y1), its start point (x2, y2), which also fixes the radius,
+// and start/end angles in radians measured counterclockwise in grid space. An end angle below the
+// start angle runs clockwise, exactly like TikZ's arc[start angle=..., end angle=...].
+// Arcs saved without angles are full circles.
+
+const TAU = 2 * Math.PI;
+
+type Point = { x: number; y: number };
+type ArcFields = Pick<Shape, 'x1' | 'y1' | 'x2' | 'y2' | 'startAngle' | 'endAngle'>;
+
+export interface ArcGeometry {
+  cx: number;
+  cy: number;
+  radius: number;
+  startAngle: number;
+  endAngle: number;
+  // Signed: positive is counterclockwise
+  sweep: number;
+}
+
+// Turn in (0, 2π]; a zero turn counts as a full one so a closed arc never vanishes
+const positiveTurn = (a: number) => { const t = a % TAU; return t <= 0 ? t + TAU : t; };
+
+export const getArcGeometry = (shape: Shape): ArcGeometry => {
+  const startAngle = shape.startAngle ?? 0;
+  const endAngle = shape.endAngle ?? startAngle + TAU;
+  return {
+    cx: shape.x1, cy: shape.y1,
+    radius: Math.hypot(shape.x2 - shape.x1, shape.y2 - shape.y1),
+    startAngle, endAngle, sweep: endAngle - startAngle,
+  };
+};
+
+export const isFullCircle = (geo: ArcGeometry) => Math.abs(geo.sweep) >= TAU - 1e-9;
+
+export const getArcPoint = (geo: ArcGeometry, angle: number): Point => ({
+  x: geo.cx + geo.radius * Math.cos(angle),
+  y: geo.cy + geo.radius * Math.sin(angle),
+});
+
+// Whether a direction from the center falls within the swept part of the arc
+export const isAngleOnArc = (geo: ArcGeometry, angle: number) => {
+  if (isFullCircle(geo)) return true;
+  const along = geo.sweep >= 0 ? angle - geo.startAngle : geo.startAngle - angle;
+  return ((along % TAU) + TAU) % TAU <= Math.abs(geo.sweep);
+};
+
+export const getArcBounds = (shape: Shape) => {
+  const geo = getArcGeometry(shape);
+  const points = [getArcPoint(geo, geo.startAngle), getArcPoint(geo, geo.endAngle)];
+  // Add every axis extreme the arc passes through
+  for (let k = 0; k < 4; k++) if (isAngleOnArc(geo, k * Math.PI / 2)) points.push(getArcPoint(geo, k * Math.PI / 2));
+  return {
+    minX: Math.min(...points.map(p => p.x)), maxX: Math.max(...points.map(p => p.x)),
+    minY: Math.min(...points.map(p => p.y)), maxY: Math.max(...points.map(p => p.y)),
+  };
+};
+
+// Center, start point, then any point giving the end direction; sweeps counterclockwise
+export const arcFromCenter = (center: Point, start: Point, end: Point): ArcFields => {
+  const startAngle = Math.atan2(start.y - center.y, start.x - center.x);
+  const endAngle = startAngle + positiveTurn(Math.atan2(end.y - center.y, end.x - center.x) - startAngle);
+  return { x1: center.x, y1: center.y, x2: start.x, y2: start.y, startAngle, endAngle };
+};
+
+// Arc from a through b to c, turning whichever way passes b; null when the points are collinear
+export const arcFromThreePoints = (a: Point, b: Point, c: Point): ArcFields | null => {
+  const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+  if (Math.abs(d) < 1e-9) return null;
+  const a2 = a.x * a.x + a.y * a.y; const b2 = b.x * b.x + b.y * b.y; const c2 = c.x * c.x + c.y * c.y;
+  const center = {
+    x: (a2 * (b.y - c.y) + b2 * (c.y - a.y) + c2 * (a.y - b.y)) / d,
+    y: (a2 * (c.x - b.x) + b2 * (a.x - c.x) + c2 * (b.x - a.x)) / d,
+  };
+  const startAngle = Math.atan2(a.y - center.y, a.x - center.x);
+  const endDirection = Math.atan2(c.y - center.y, c.x - center.x);
+  // d is twice the signed area of abc: positive when a -> b -> c turns counterclockwise
+  const endAngle = d > 0 ? startAngle + positiveTurn(endDirection - startAngle) : startAngle - positiveTurn(startAngle - endDirection);
+  return { x1: center.x, y1: center.y, x2: a.x, y2: a.y, startAngle, endAngle };
+};
+
+// Half circle over the chord a-c, shown while the third point is still being picked
+export const arcFromChord = (a: Point, c: Point): ArcFields => {
+  const center = { x: (a.x + c.x) / 2, y: (a.y + c.y) / 2 };
+  const startAngle = Math.atan2(a.y - center.y, a.x - center.x);
+  return { x1: center.x, y1: center.y, x2: a.x, y2: a.y, startAngle, endAngle: startAngle + Math.PI };
+};
+
+// Re-aims one end of the arc at (x, y), keeping the other end and the turning direction
+export const setArcEnd = (shape: Shape, which: 'start' | 'end', x: number, y: number): Shape => {
+  const geo = getArcGeometry(shape);
+  const direction = Math.atan2(y - geo.cy, x - geo.cx);
+  const ccw = geo.sweep >= 0;
+  if (which === 'end') {
+    const endAngle = geo.startAngle + (ccw ? positiveTurn(direction - geo.startAngle) : -positiveTurn(geo.startAngle - direction));
+    return { ...shape, startAngle: geo.startAngle, endAngle };
+  }
+  const startAngle = geo.endAngle - (ccw ? positiveTurn(geo.endAngle - direction) : -positiveTurn(direction - geo.endAngle));
+  const start = getArcPoint(geo, startAngle);
+  return { ...shape, x2: start.x, y2: start.y, startAngle, endAngle: geo.endAngle };
+};
+
+export const setArcRadius = (shape: Shape, radius: number): Shape => {
+  const geo = getArcGeometry(shape);
+  const start = getArcPoint({ ...geo, radius }, geo.startAngle);
+  return { ...shape, x2: start.x, y2: start.y };
+};
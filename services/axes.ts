@@ -0,0 +1,132 @@
+// Axis settings shared by the editor canvas and every exporter, so the axes on screen and in the
+// generated code always agree. Tick positions are multiples of the step (times π for π ticks)
+// counted from the origin. The grid has its own settings in grid.ts.
+
+export type AxisArrowStyle = 'none' | 'end' | 'both';
+
+export interface AxesRange {
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+export interface AxesSettings {
+  // Typeset as math unless they bring their own dollars
+  xLabel: string;
+  yLabel: string;
+  // Major tick spacing; with piTicks the x step is a multiple of π (0.5 gives π/2)
+  xStep: number;
+  yStep: number;
+  // Minor ticks between two major ones
+  minorTicks: number;
+  numbered: boolean;
+  // Fixed extent of the axes and grid; null follows the drawing
+  range: AxesRange | null;
+  // Written below left of the origin when not empty, e.g. O
+  originLabel: string;
+  piTicks: boolean;
+  arrow: AxisArrowStyle;
+}
+
+export const DEFAULT_AXES_SETTINGS: AxesSettings = {
+  xLabel: 'x', yLabel: 'y', xStep: 1, yStep: 1, minorTicks: 0, numbered: true,
+  range: null, originLabel: '', piTicks: false, arrow: 'end',
+};
+
+export const AXIS_ARROW_STYLES: AxisArrowStyle[] = ['none', 'end', 'both'];
+
+export type Axis = 'x' | 'y';
+
+export interface AxisTick {
+  value: number;
+  // Label as TeX math (without dollars) and as plain text for the canvas and SVG
+  tex: string;
+  text: string;
+}
+
+// Axes needing more ticks than this get none, so a tiny step cannot hang the editor
+const MAX_TICKS = 2000;
+
+// Distance between major ticks in drawing units
+export const getTickSpacing = (settings: AxesSettings, axis: Axis) =>
+  axis === 'x' ? settings.xStep * (settings.piTicks ? Math.PI : 1) : settings.yStep;
+
+const round = (v: number) => Math.abs(v) < 1e-9 ? 0 : Number(v.toFixed(3));
+
+// k·π as a reduced fraction when k has a small denominator, e.g. 1.5 -> 3π/2
+const formatPi = (k: number): { tex: string; text: string } => {
+  const d = Array.from({ length: 12 }, (_, i) => i + 1).find(d => Math.abs(k * d - Math.round(k * d)) < 1e-6);
+  if (d === undefined) return { tex: `${round(k)}\\pi`, text: `${round(k)}π` };
+  const n = Math.round(k * d);
+  const sign = n < 0 ? '-' : '';
+  const m = Math.abs(n) === 1 ? '' : String(Math.abs(n));
+  if (d === 1) return { tex: `${sign}${m}\\pi`, text: `${sign}${m}π` };
+  return { tex: `${sign}\\frac{${m}\\pi}{${d}}`, text: `${sign}${m}π/${d}` };
+};
+
+const formatTick = (settings: AxesSettings, axis: Axis, value: number) => {
+  if (axis === 'x' && settings.piTicks) return formatPi(value / Math.PI);
+  const text = String(round(value));
+  return { tex: text, text };
+};
+
+// Nonzero multiples of spacing within [min, max]
+const getMultiples = (spacing: number, min: number, max: number): number[] => {
+  if (!(spacing > 0) || (max - min) / spacing > MAX_TICKS) return [];
+  const values: number[] = [];
+  for (let i = Math.ceil(min / spacing - 1e-9); i <= Math.floor(max / spacing + 1e-9); i++) if (i !== 0) values.push(i * spacing);
+  return values;
+};
+
+// Major ticks of one axis between min and max, origin excluded
+export const getAxisTicks = (settings: AxesSettings, axis: Axis, min: number, max: number): AxisTick[] =>
+  getMultiples(getTickSpacing(settings, axis), min, max).map(value => ({ value, ...formatTick(settings, axis, value) }));
+
+// Minor tick positions between min and max, leaving out those that fall on a major tick
+export const getMinorTicks = (settings: AxesSettings, axis: Axis, min: number, max: number): number[] => {
+  const n = Math.max(0, Math.round(settings.minorTicks));
+  if (n === 0) return [];
+  const spacing = getTickSpacing(settings, axis) / (n + 1);
+  return getMultiples(spacing, min, max).filter(v => Math.round(v / spacing) % (n + 1) !== 0);
+};
+
+export const getAxisLabelTex = (label: string) => label.includes('$') ? label : `$${label}$`;
+
+// What the canvas and SVG show for a label: TeX dollars dropped
+export const getAxisLabelText = (label: string) => label.replace(/\$/g, '');
+
+// Extent of the axes in an export: the fixed range, or the drawing's bounds with the half unit
+// overhang the axes have always had
+export const getAxesExtent = (settings: AxesSettings, bounds: { minX: number; maxX: number; minY: number; maxY: number }) =>
+  settings.range
+    ? { x0: settings.range.xMin, x1: settings.range.xMax, y0: settings.range.yMin, y1: settings.range.yMax }
+    : { x0: bounds.minX - 0.5, x1: bounds.maxX + 0.5, y0: bounds.minY - 0.5, y1: bounds.maxY + 0.5 };
+
+// Extent of the grid in an export: the fixed range, or the drawing's bounds
+export const getGridExtent = (settings: AxesSettings, bounds: { minX: number; maxX: number; minY: number; maxY: number }) =>
+  settings.range
+    ? { minX: settings.range.xMin, maxX: settings.range.xMax, minY: settings.range.yMin, maxY: settings.range.yMax }
+    : bounds;
+
+const isFiniteNumber = (v: any): v is number => typeof v === 'number' && isFinite(v);
+
+// Settings from a saved file, falling back to the defaults for anything missing or malformed
+export const normalizeAxesSettings = (raw: any): AxesSettings => {
+  const d = DEFAULT_AXES_SETTINGS;
+  if (!raw || typeof raw !== 'object') return d;
+  const range = raw.range && ['xMin', 'xMax', 'yMin', 'yMax'].every(k => isFiniteNumber(raw.range[k])) && raw.range.xMin < raw.range.xMax && raw.range.yMin < raw.range.yMax
+    ? { xMin: raw.range.xMin, xMax: raw.range.xMax, yMin: raw.range.yMin, yMax: raw.range.yMax } : null;
+  return {
+    xLabel: typeof raw.xLabel === 'string' ? raw.xLabel : d.xLabel,
+    yLabel: typeof raw.yLabel === 'string' ? raw.yLabel : d.yLabel,
+    xStep: isFiniteNumber(raw.xStep) && raw.xStep > 0 ? raw.xStep : d.xStep,
+    yStep: isFiniteNumber(raw.yStep) && raw.yStep > 0 ? raw.yStep : d.yStep,
+    minorTicks: isFiniteNumber(raw.minorTicks) && raw.minorTicks >= 0 ? Math.round(raw.minorTicks) : d.minorTicks,
+    numbered: typeof raw.numbered === 'boolean' ? raw.numbered : d.numbered,
+    range,
+    originLabel: typeof raw.originLabel === 'string' ? raw.originLabel : d.originLabel,
+    piTicks: typeof raw.piTicks === 'boolean' ? raw.piTicks : d.piTicks,
+    arrow: AXIS_ARROW_STYLES.includes(raw.arrow) ? raw.arrow : d.arrow,
+  };
+};
@@ -0,0 +1,222 @@
+import { Shape, Point } from '../components/CartesianCanvas';
+import { isPointInPolygon, withVertices } from './polygon';
+
+// Path booleans on closed shapes. Every operand is reduced to polygon outlines (curves sampled
+// finely), all edges are cut where they cross, and each piece is kept when the result is filled
+// on exactly one side of it. The result is a `compound` shape: its outlines follow one another in
+// `points`, each starting at an index listed in `contourStarts`, and are oriented with the filled
+// side on their left, so holes run clockwise and either fill rule paints the same region.
+
+export type BooleanOp = 'union' | 'difference' | 'intersection' | 'xor';
+
+export const BOOLEAN_OPS: BooleanOp[] = ['union', 'difference', 'intersection', 'xor'];
+
+export const BOOLEAN_OP_LABELS: Record<BooleanOp, string> = {
+  union: 'Union',
+  difference: 'Difference',
+  intersection: 'Intersection',
+  xor: 'Exclusive or',
+};
+
+// Segments per full turn when circles, ellipses and rounded corners become polygons
+const CURVE_SEGMENTS = 96;
+// Pieces closer than this (in drawing units) count as touching; also the probe distance either side of an edge
+const EPS = 1e-6;
+
+export const isBooleanOperand = (s: Shape) =>
+  ['rect', 'round_rect', 'circle', 'ellipse', 'compound'].includes(s.type) || (s.type === 'polygon' && !!s.closed);
+
+// The outlines of a compound shape
+export const getContours = (shape: Shape): Point[][] => {
+  const pts = shape.points ?? [];
+  const starts = shape.contourStarts ?? [0];
+  return starts.map((start, i) => pts.slice(start, starts[i + 1] ?? pts.length)).filter(c => c.length >= 3);
+};
+
+// A compound shape holding the given outlines, styled like `base`
+export const withContours = (base: Shape, contours: Point[][]): Shape => {
+  const contourStarts: number[] = [];
+  contours.reduce((start, c) => { contourStarts.push(start); return start + c.length; }, 0);
+  return withVertices({ ...base, type: 'compound', contourStarts }, contours.flat());
+};
+
+// Outlines from elsewhere (e.g. an even-odd TikZ path) turned the way compound shapes expect:
+// those nested an odd number of times are holes and run clockwise, the others counterclockwise
+export const orientContours = (contours: Point[][]): Point[][] => contours.map(c => {
+  const depth = contours.filter(o => o !== c && isPointInPolygon(c[0], o)).length;
+  return (getContourArea(c) > 0) === (depth % 2 === 0) ? c : [...c].reverse();
+});
+
+const rotateAbout = (p: Point, c: Point, angle: number): Point => {
+  if (!angle) return p;
+  const cos = Math.cos(angle); const sin = Math.sin(angle);
+  return { x: c.x + (p.x - c.x) * cos - (p.y - c.y) * sin, y: c.y + (p.x - c.x) * sin + (p.y - c.y) * cos };
+};
+
+const sampleEllipse = (c: Point, rx: number, ry: number): Point[] =>
+  Array.from({ length: CURVE_SEGMENTS }, (_, i) => {
+    const a = 2 * Math.PI * i / CURVE_SEGMENTS;
+    return { x: c.x + rx * Math.cos(a), y: c.y + ry * Math.sin(a) };
+  });
+
+// Outlines of a closed shape as polygons, counterclockwise, with the shape's rotation applied
+export const getShapeContours = (s: Shape): Point[][] => {
+  switch (s.type) {
+    case 'rect': case 'round_rect': {
+      const minX = Math.min(s.x1, s.x2); const maxX = Math.max(s.x1, s.x2);
+      const minY = Math.min(s.y1, s.y2); const maxY = Math.max(s.y1, s.y2);
+      const c = { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
+      const r = s.type === 'round_rect' ? Math.min(s.cornerRadius ?? 0.5, (maxX - minX) / 2, (maxY - minY) / 2) : 0;
+      const corners = [{ x: maxX, y: minY }, { x: maxX, y: maxY }, { x: minX, y: maxY }, { x: minX, y: minY }];
+      const steps = CURVE_SEGMENTS / 4;
+      // Each rounded corner is a quarter circle turning from the previous side to the next
+      const outline = r <= 0 ? corners : corners.flatMap((p, k) => {
+        const cx = p.x - Math.sign(p.x - c.x) * r; const cy = p.y - Math.sign(p.y - c.y) * r;
+        const start = (k - 1) * Math.PI / 2;
+        return Array.from({ length: steps + 1 }, (_, i) => ({ x: cx + r * Math.cos(start + Math.PI / 2 * i / steps), y: cy + r * Math.sin(start + Math.PI / 2 * i / steps) }));
+      });
+      return [outline.map(p => rotateAbout(p, c, s.rotation || 0))];
+    }
+    case 'circle': {
+      const r = Math.hypot(s.x2 - s.x1, s.y2 - s.y1);
+      return [sampleEllipse({ x: s.x1, y: s.y1 }, r, r)];
+    }
+    case 'ellipse': {
+      const c = { x: s.x1, y: s.y1 };
+      return [sampleEllipse(c, Math.abs(s.x2 - s.x1), Math.abs(s.y2 - s.y1)).map(p => rotateAbout(p, c, s.rotation || 0))];
+    }
+    case 'polygon': return s.closed && (s.points?.length ?? 0) >= 3 ? [s.points!] : [];
+    case 'compound': return getContours(s);
+    default: return [];
+  }
+};
+
+// Signed area, positive when counterclockwise
+export const getContourArea = (pts: Point[]) =>
+  pts.reduce((sum, p, i) => { const q = pts[(i + 1) % pts.length]; return sum + p.x * q.y - q.x * p.y; }, 0) / 2;
+
+// Even-odd: inside when inside an odd number of outlines
+const isInside = (p: Point, contours: Point[][]) => contours.reduce((inside, c) => inside !== isPointInPolygon(p, c), false);
+
+const apply = (op: BooleanOp, a: boolean, b: boolean) =>
+  op === 'union' ? a || b : op === 'intersection' ? a && b : op === 'difference' ? a && !b : a !== b;
+
+const key = (p: Point) => `${Math.round(p.x / EPS)},${Math.round(p.y / EPS)}`;
+
+type Edge = { a: Point; b: Point };
+
+// Cuts every edge where it meets another (crossing, touching or overlapping), so no two pieces cross
+const splitEdges = (edges: Edge[]): Edge[] => {
+  const cuts: { t: number; p: Point }[][] = edges.map(() => []);
+  const cross = (u: Point, v: Point) => u.x * v.y - u.y * v.x;
+  for (let i = 0; i < edges.length; i++) {
+    const { a: p } = edges[i]; const r = { x: edges[i].b.x - p.x, y: edges[i].b.y - p.y };
+    const rr = r.x * r.x + r.y * r.y;
+    for (let j = i + 1; j < edges.length; j++) {
+      const { a: q } = edges[j]; const s = { x: edges[j].b.x - q.x, y: edges[j].b.y - q.y };
+      const ss = s.x * s.x + s.y * s.y;
+      const qp = { x: q.x - p.x, y: q.y - p.y };
+      const denom = cross(r, s);
+      if (Math.abs(denom) <= 1e-12 * Math.sqrt(rr * ss)) {
+        // Parallel: only collinear overlaps matter, cut at each end of the other edge
+        if (Math.abs(cross(qp, r)) > EPS * Math.sqrt(rr)) continue;
+        [q, edges[j].b].forEach(e => { const t = ((e.x - p.x) * r.x + (e.y - p.y) * r.y) / rr; if (t > 0 && t < 1) cuts[i].push({ t, p: e }); });
+        [p, edges[i].b].forEach(e => { const u = ((e.x - q.x) * s.x + (e.y - q.y) * s.y) / ss; if (u > 0 && u < 1) cuts[j].push({ t: u, p: e }); });
+        continue;
+      }
+      const t = cross(qp, s) / denom; const u = cross(qp, r) / denom;
+      if (t < -1e-9 || t > 1 + 1e-9 || u < -1e-9 || u > 1 + 1e-9) continue;
+      const x = { x: p.x + t * r.x, y: p.y + t * r.y };
+      if (t > 1e-9 && t < 1 - 1e-9) cuts[i].push({ t, p: x });
+      if (u > 1e-9 && u < 1 - 1e-9) cuts[j].push({ t: u, p: x });
+    }
+  }
+  return edges.flatMap((e, i) => {
+    const pts = [e.a, ...cuts[i].sort((m, n) => m.t - n.t).map(c => c.p), e.b];
+    return pts.slice(1).map((b, k) => ({ a: pts[k], b })).filter(piece => key(piece.a) !== key(piece.b));
+  });
+};
+
+// Joins directed edges into closed loops. Where several leave one vertex the sharpest left turn
+// wins, which keeps outlines that only touch at a corner apart.
+const chainLoops = (edges: Edge[]): Point[][] => {
+  const outgoing = new Map<string, Edge[]>();
+  edges.forEach(e => { const k = key(e.a); if (!outgoing.has(k)) outgoing.set(k, []); outgoing.get(k)!.push(e); });
+  const used = new Set<Edge>();
+  const loops: Point[][] = [];
+  edges.forEach(first => {
+    if (used.has(first)) return;
+    const loop: Point[] = [];
+    let e: Edge | undefined = first;
+    while (e && !used.has(e)) {
+      used.add(e); loop.push(e.a);
+      const d = { x: e.b.x - e.a.x, y: e.b.y - e.a.y };
+      const next: Edge[] = (outgoing.get(key(e.b)) ?? []).filter(n => !used.has(n));
+      const turn = (n: Edge) => { const v = { x: n.b.x - n.a.x, y: n.b.y - n.a.y }; return Math.atan2(d.x * v.y - d.y * v.x, d.x * v.x + d.y * v.y); };
+      e = next.length > 0 ? next.reduce((best, n) => turn(n) > turn(best) ? n : best) : undefined;
+    }
+    loops.push(loop);
+  });
+  return loops;
+};
+
+// Drops vertices lying on the straight line through their neighbours, and slivers with no area
+const simplify = (loops: Point[][]): Point[][] => loops.map(loop => loop.filter((p, i) => {
+  const a = loop[(i + loop.length - 1) % loop.length]; const b = loop[(i + 1) % loop.length];
+  const ab = Math.hypot(b.x - a.x, b.y - a.y);
+  return ab < EPS || Math.abs((p.x - a.x) * (b.y - a.y) - (p.y - a.y) * (b.x - a.x)) / ab > EPS;
+})).filter(loop => loop.length >= 3 && Math.abs(getContourArea(loop)) > EPS);
+
+// Outlines of `op` applied to two regions given by their outlines (even-odd)
+export const combineContours = (a: Point[][], b: Point[][], op: BooleanOp): Point[][] => {
+  const edgesOf = (contours: Point[][]) => contours.flatMap(c => c.map((p, i) => ({ a: p, b: c[(i + 1) % c.length] })));
+  const seen = new Set<string>();
+  const kept: Edge[] = [];
+  splitEdges([...edgesOf(a), ...edgesOf(b)]).forEach(({ a: p, b: q }) => {
+    // Probe just left and right of the piece's middle; it is an outline where the result changes
+    const len = Math.hypot(q.x - p.x, q.y - p.y);
+    const n = { x: -(q.y - p.y) / len * EPS, y: (q.x - p.x) / len * EPS };
+    const m = { x: (p.x + q.x) / 2, y: (p.y + q.y) / 2 };
+    const left = { x: m.x + n.x, y: m.y + n.y }; const right = { x: m.x - n.x, y: m.y - n.y };
+    const inLeft = apply(op, isInside(left, a), isInside(left, b));
+    if (inLeft === apply(op, isInside(right, a), isInside(right, b))) return;
+    const e = inLeft ? { a: p, b: q } : { a: q, b: p };
+    // Where the operands share an edge both copies qualify; keep one
+    const k = `${key(e.a)}>${key(e.b)}`;
+    if (seen.has(k)) return;
+    seen.add(k); kept.push(e);
+  });
+  return simplify(chainLoops(kept));
+};
+
+// One compound shape for `op` applied to the shapes in order: the first minus all the others
+// for a difference, otherwise all of them together. Null when nothing is left.
+export const combineShapes = (shapes: Shape[], op: BooleanOp): Shape | null => {
+  const [first, ...rest] = shapes;
+  const contours = rest.reduce((acc, s) => combineContours(acc, getShapeContours(s), op), getShapeContours(first));
+  if (contours.length === 0) return null;
+  return withContours({
+    id: Math.random().toString(36).substr(2, 9), type: 'compound', x1: 0, y1: 0, x2: 0, y2: 0,
+    style: first.style, arrow: 'none', lineWidth: first.lineWidth,
+    strokeColor: first.strokeColor, fillColor: first.fillColor, hatchStyle: first.hatchStyle, layerId: first.layerId,
+  }, contours);
+};
+
+// Cycles to fill for outlines with holes where the fill takes a single cycle (MetaPost): each hole
+// is spliced into the outline around it through a zero-width slit from its nearest vertex
+export const getSlitCycles = (contours: Point[][]): Point[][] => {
+  const outers = contours.filter(c => getContourArea(c) > 0);
+  const cycles = outers.map(c => [...c]);
+  contours.filter(c => getContourArea(c) < 0).forEach(hole => {
+    // The smallest outline around the hole
+    const around = outers.map((c, i) => ({ c, i })).filter(({ c }) => isPointInPolygon(hole[0], c))
+      .sort((m, n) => getContourArea(m.c) - getContourArea(n.c))[0];
+    if (!around) return;
+    const cycle = cycles[around.i];
+    let best = { i: 0, j: 0, d: Infinity };
+    cycle.forEach((p, i) => hole.forEach((q, j) => { const d = Math.hypot(p.x - q.x, p.y - q.y); if (d < best.d) best = { i, j, d }; }));
+    const loop = [...hole.slice(best.j), ...hole.slice(0, best.j), hole[best.j]];
+    cycle.splice(best.i + 1, 0, ...loop, cycle[best.i]);
+  });
+  return cycles;
+};
@@ -0,0 +1,437 @@
+import { Shape } from '../components/CartesianCanvas';
+import { getArcGeometry, getArcPoint } from './arc';
+import { getPolygonEdges, getVertices, withVertices } from './polygon';
+
+// Constraints tie shapes together by id and are kept in their own list, like layers. A constraint
+// whose shapes are gone (deleted, or not yet restored by undo) is simply ignored by the solver.
+// Distances are in grid units, angles in degrees measured counterclockwise.
+
+export type ConstraintKind =
+  | 'coincident' | 'parallel' | 'perpendicular' | 'equal_length' | 'tangent'
+  | 'distance' | 'angle' | 'horizontal' | 'vertical' | 'point_on_curve';
+
+export const CONSTRAINT_KINDS: ConstraintKind[] = [
+  'coincident', 'horizontal', 'vertical', 'parallel', 'perpendicular',
+  'equal_length', 'tangent', 'point_on_curve', 'distance', 'angle',
+];
+
+export const CONSTRAINT_LABELS: Record<ConstraintKind, string> = {
+  coincident: 'Coincident',
+  parallel: 'Parallel',
+  perpendicular: 'Perpendicular',
+  equal_length: 'Equal Length',
+  tangent: 'Tangent',
+  distance: 'Distance',
+  angle: 'Angle',
+  horizontal: 'Horizontal',
+  vertical: 'Vertical',
+  point_on_curve: 'Point on Curve',
+};
+
+// How many shapes each kind relates
+const REF_COUNTS: Record<ConstraintKind, number[]> = {
+  coincident: [2], parallel: [2], perpendicular: [2], equal_length: [2], tangent: [2], point_on_curve: [2],
+  horizontal: [1, 2], vertical: [1, 2], distance: [1, 2], angle: [1, 2],
+};
+
+// Which point of a shape a constraint holds on to; without one it refers to the whole shape.
+// Polygon vertices are numbered from 0 in drawing order.
+export type ShapePointName = 'start' | 'end' | 'center' | `vertex:${number}`;
+
+export interface ConstraintRef {
+  shapeId: string;
+  point?: ShapePointName;
+  // A polygon edge, from vertex i to the next, that takes part like a line
+  edge?: number;
+}
+
+export interface Constraint {
+  id: string;
+  kind: ConstraintKind;
+  refs: ConstraintRef[];
+  // Target of distance and angle constraints
+  value?: number;
+}
+
+type Point = { x: number; y: number };
+
+const SEGMENT_TYPES = ['line', 'measure', 'brace'];
+const CIRCLE_TYPES = ['circle', 'arc'];
+
+export const isSegmentShape = (shape: Shape) => SEGMENT_TYPES.includes(shape.type);
+export const isCircleShape = (shape: Shape) => CIRCLE_TYPES.includes(shape.type);
+
+const getVertexIndex = (name: ShapePointName) => name.startsWith('vertex:') ? Number(name.slice(7)) : null;
+
+// The named points a constraint can grab on each kind of shape
+export const getShapePointNames = (shape: Shape): ShapePointName[] => {
+  if (SEGMENT_TYPES.includes(shape.type) || shape.type === 'bezier') return ['start', 'end'];
+  if (shape.type === 'polygon') return getVertices(shape).map((_, i): ShapePointName => `vertex:${i}`);
+  if (shape.type === 'arc') return ['center', 'start', 'end'];
+  if (shape.type === 'circle' || shape.type === 'ellipse') return ['center'];
+  return [];
+};
+
+export const getShapePoint = (shape: Shape, name: ShapePointName): Point => {
+  const vertex = getVertexIndex(name);
+  if (vertex !== null) return getVertices(shape)[vertex] ?? { x: shape.x1, y: shape.y1 };
+  if (shape.type === 'arc') {
+    if (name === 'center') return { x: shape.x1, y: shape.y1 };
+    if (name === 'start') return { x: shape.x2, y: shape.y2 };
+    const geo = getArcGeometry(shape);
+    return getArcPoint(geo, geo.endAngle);
+  }
+  if (name === 'end') return { x: shape.x2, y: shape.y2 };
+  return { x: shape.x1, y: shape.y1 };
+};
+
+// The line a polygon edge stands for, so residuals can treat it like any other segment
+const getEdgeLine = (shape: Shape, edge: number): Shape => {
+  const [a, b] = getPolygonEdges(shape)[edge];
+  return { ...shape, type: 'line', x1: a.x, y1: a.y, x2: b.x, y2: b.y };
+};
+
+const getRefShape = (shape: Shape, ref: ConstraintRef) => ref.edge === undefined ? shape : getEdgeLine(shape, ref.edge);
+
+const newConstraintId = () => 'c' + Math.random().toString(36).substr(2, 9);
+
+const dist = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+const radiusOf = (shape: Shape) => Math.hypot(shape.x2 - shape.x1, shape.y2 - shape.y1);
+const lengthOf = (shape: Shape) => isCircleShape(shape) ? radiusOf(shape) : Math.hypot(shape.x2 - shape.x1, shape.y2 - shape.y1);
+const unitOf = (shape: Shape): Point => {
+  const len = Math.hypot(shape.x2 - shape.x1, shape.y2 - shape.y1) || 1;
+  return { x: (shape.x2 - shape.x1) / len, y: (shape.y2 - shape.y1) / len };
+};
+const wrapAngle = (a: number) => Math.atan2(Math.sin(a), Math.cos(a));
+// Counterclockwise angle from the first segment's direction to the second's
+const angleBetween = (a: Shape, b: Shape) => {
+  const u = unitOf(a); const v = unitOf(b);
+  return Math.atan2(u.x * v.y - u.y * v.x, u.x * v.x + u.y * v.y);
+};
+// Signed distance from p to the infinite line through a segment
+const lineDistance = (line: Shape, p: Point) => {
+  const u = unitOf(line);
+  return u.x * (p.y - line.y1) - u.y * (p.x - line.x1);
+};
+
+// How far a point is from lying on a curve; zero when it does
+const curveDistance = (curve: Shape, p: Point) => isCircleShape(curve)
+  ? dist(p, { x: curve.x1, y: curve.y1 }) - radiusOf(curve)
+  : lineDistance(curve, p);
+
+const tangentResidual = (a: Shape, b: Shape) => {
+  if (isCircleShape(a) && isCircleShape(b)) {
+    // Touching from outside or from inside, whichever is closer to holding
+    const d = dist({ x: a.x1, y: a.y1 }, { x: b.x1, y: b.y1 });
+    const outer = d - (radiusOf(a) + radiusOf(b));
+    const inner = d - Math.abs(radiusOf(a) - radiusOf(b));
+    return Math.abs(outer) < Math.abs(inner) ? outer : inner;
+  }
+  const [line, circle] = isCircleShape(a) ? [b, a] : [a, b];
+  return Math.abs(lineDistance(line, { x: circle.x1, y: circle.y1 })) - radiusOf(circle);
+};
+
+// Residuals are all zero exactly when the constraint holds
+const residuals = (c: Constraint, shapes: Shape[]): number[] => {
+  const [a, b] = shapes;
+  const pointOf = (i: number) => getShapePoint(shapes[i], c.refs[i].point ?? 'start');
+  switch (c.kind) {
+    case 'coincident': { const p = pointOf(0); const q = pointOf(1); return [p.x - q.x, p.y - q.y]; }
+    case 'horizontal': return c.refs.length === 1 ? [a.y2 - a.y1] : [pointOf(1).y - pointOf(0).y];
+    case 'vertical': return c.refs.length === 1 ? [a.x2 - a.x1] : [pointOf(1).x - pointOf(0).x];
+    case 'parallel': return [Math.sin(angleBetween(a, b))];
+    case 'perpendicular': return [Math.cos(angleBetween(a, b))];
+    case 'equal_length': return [lengthOf(a) - lengthOf(b)];
+    case 'tangent': return [tangentResidual(a, b)];
+    case 'point_on_curve': return [curveDistance(b, pointOf(0))];
+    case 'distance': return [(c.refs.length === 1 ? lengthOf(a) : dist(pointOf(0), pointOf(1))) - (c.value ?? 0)];
+    case 'angle': {
+      const target = (c.value ?? 0) * Math.PI / 180;
+      const current = c.refs.length === 1 ? Math.atan2(a.y2 - a.y1, a.x2 - a.x1) : angleBetween(a, b);
+      return [wrapAngle(current - target)];
+    }
+  }
+};
+
+// Numeric fields the solver may change on each kind of shape
+type VariableKey = 'x1' | 'y1' | 'x2' | 'y2' | 'endAngle';
+
+const variableKeys = (shape: Shape): VariableKey[] =>
+  shape.type === 'arc' ? ['x1', 'y1', 'x2', 'y2', 'endAngle'] : ['x1', 'y1', 'x2', 'y2'];
+
+// A polygon's unknowns are its vertices; (x1, y1) and (x2, y2) are synced from them afterwards
+type Variable = { shapeId: string; key: VariableKey } | { shapeId: string; vertex: number; axis: 'x' | 'y' };
+
+const TOLERANCE = 1e-9;
+const MAX_ITERATIONS = 50;
+// Shapes the user is dragging give way this much less than the rest
+const PINNED_MOBILITY = 1e-4;
+
+// Gaussian elimination with partial pivoting; null when the system is singular
+const solveLinear = (m: number[][], rhs: number[]): number[] | null => {
+  const n = rhs.length;
+  const a = m.map((row, i) => [...row, rhs[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    if (Math.abs(a[pivot][col]) < 1e-14) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = a[r][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[r][k] -= f * a[col][k];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = a[r][n];
+    for (let k = r + 1; k < n; k++) sum -= a[r][k] * x[k];
+    x[r] = sum / a[r][r];
+  }
+  return x;
+};
+
+// The referenced vertex or edge must still exist; removing vertices can leave a constraint behind
+const isRefUsable = (ref: ConstraintRef, shape: Shape | undefined) => {
+  if (!shape) return false;
+  const vertex = ref.point ? getVertexIndex(ref.point) : null;
+  if (vertex !== null && vertex >= getVertices(shape).length) return false;
+  return ref.edge === undefined || ref.edge < getPolygonEdges(shape).length;
+};
+
+const isUsable = (c: Constraint, byId: Map<string, Shape>) => c.refs.every(r => isRefUsable(r, byId.get(r.shapeId)));
+
+// Pin ids for single polygon vertices, so dragging one corner holds just that corner
+const getVertexPinId = (shapeId: string, vertex: number) => `${shapeId}:vertex:${vertex}`;
+
+// What to hold still while solving after `updated` replaced shapes in `before`: the updated
+// shapes, or only the vertices that moved when part of a polygon was dragged
+export const getPinnedIds = (before: Shape[], updated: Shape[]): Set<string> => {
+  const pins = new Set<string>();
+  updated.forEach(u => {
+    const old = before.find(s => s.id === u.id);
+    const pts = getVertices(u);
+    const oldPts = old ? getVertices(old) : [];
+    const moved = pts.map((p, i) => p.x !== oldPts[i]?.x || p.y !== oldPts[i]?.y);
+    if (u.type === 'polygon' && old?.type === 'polygon' && pts.length === oldPts.length && moved.some(m => !m)) {
+      moved.forEach((m, i) => { if (m) pins.add(getVertexPinId(u.id, i)); });
+    } else {
+      pins.add(u.id);
+    }
+  });
+  return pins;
+};
+
+// Moves shapes as little as possible until every constraint holds again. Shapes in `pinnedIds`
+// (the ones the user just edited) only move when nothing else can satisfy a constraint.
+export const solveConstraints = (shapes: Shape[], constraints: Constraint[], pinnedIds: Set<string> = new Set()): Shape[] => {
+  const byId = new Map(shapes.map(s => [s.id, s]));
+  const active = constraints.filter(c => isUsable(c, byId));
+  if (active.length === 0) return shapes;
+
+  // Only shapes tied to a constraint take part
+  const involvedIds = [...new Set(active.flatMap(c => c.refs.map(r => r.shapeId)))];
+  const vars: Variable[] = [];
+  involvedIds.forEach(id => {
+    const shape = byId.get(id)!;
+    if (shape.type === 'polygon') {
+      getVertices(shape).forEach((_, vertex) => { vars.push({ shapeId: id, vertex, axis: 'x' }, { shapeId: id, vertex, axis: 'y' }); });
+      return;
+    }
+    variableKeys(shape).forEach(key => { if (typeof shape[key] === 'number') vars.push({ shapeId: id, key }); });
+  });
+  // Vertices are copied too, since the solver writes into them
+  const working = new Map(involvedIds.map(id => {
+    const shape = byId.get(id)!;
+    return [id, shape.points ? { ...shape, points: shape.points.map(p => ({ ...p })) } : { ...shape }];
+  }));
+  const read = (v: Variable) => {
+    const shape = working.get(v.shapeId)!;
+    return 'key' in v ? shape[v.key] as number : shape.points![v.vertex][v.axis];
+  };
+  const write = (values: number[]) => vars.forEach((v, i) => {
+    const shape = working.get(v.shapeId)!;
+    if ('key' in v) shape[v.key] = values[i]; else shape.points![v.vertex][v.axis] = values[i];
+  });
+  const evaluate = () => active.flatMap(c => residuals(c, c.refs.map(r => getRefShape(working.get(r.shapeId)!, r))));
+  const norm = (r: number[]) => r.reduce((sum, v) => sum + v * v, 0);
+  const worst = (r: number[]) => Math.max(...r.map(Math.abs));
+  const initial = vars.map(read);
+  const isPinned = (v: Variable) => pinnedIds.has(v.shapeId) || ('vertex' in v && pinnedIds.has(getVertexPinId(v.shapeId, v.vertex)));
+
+  // Damped Gauss-Newton from the initial values; mobility scales how readily each variable moves
+  const run = (mobility: number[]) => {
+    let x = initial;
+    write(x);
+    let r = evaluate();
+    for (let iter = 0; iter < MAX_ITERATIONS && worst(r) > TOLERANCE; iter++) {
+      // Forward-difference Jacobian, one column per variable
+      const h = 1e-7;
+      const columns = x.map((_, j) => {
+        if (mobility[j] === 0) return r.map(() => 0);
+        const shifted = [...x]; shifted[j] += h; write(shifted);
+        return evaluate().map((v, i) => (v - r[i]) / h);
+      });
+      write(x);
+      // Smallest weighted step that zeroes the linearised residuals: dx = D Jt (J D Jt + eps I)^-1 (-r)
+      const m = r.length;
+      const jdjt = Array.from({ length: m }, (_, i) => Array.from({ length: m }, (_, k) =>
+        columns.reduce((sum, col, j) => sum + col[i] * mobility[j] * col[k], 0) + (i === k ? 1e-10 : 0)));
+      const y = solveLinear(jdjt, r.map(v => -v));
+      if (!y) break;
+      const step = columns.map((col, j) => mobility[j] * col.reduce((sum, v, i) => sum + v * y[i], 0));
+
+      // Halve the step until it actually helps
+      let improved = false;
+      for (let scale = 1; scale > 1e-4 && !improved; scale /= 2) {
+        const candidate = x.map((v, j) => v + scale * step[j]);
+        write(candidate);
+        const rc = evaluate();
+        if (norm(rc) < norm(r)) { x = candidate; r = rc; improved = true; }
+      }
+      write(x);
+      if (!improved) break;
+    }
+    return { x, r };
+  };
+
+  // Edited shapes stay exactly where the user put them unless the constraints cannot hold otherwise
+  let { x, r } = run(vars.map(v => isPinned(v) ? 0 : 1));
+  if (worst(r) > 1e-6 && vars.some(isPinned)) {
+    ({ x, r } = run(vars.map(v => isPinned(v) ? PINNED_MOBILITY : 1)));
+  }
+  write(x);
+  if (x.some(v => !isFinite(v))) return shapes;
+
+  return shapes.map(s => {
+    const solved = working.get(s.id);
+    if (!solved) return s;
+    if (s.type === 'polygon') {
+      const pts = getVertices(s);
+      return getVertices(solved).every((p, i) => p.x === pts[i].x && p.y === pts[i].y) ? s : withVertices(solved, getVertices(solved));
+    }
+    if (s.type === 'arc') {
+      // The start angle follows the start point so the arc keeps its shape
+      const direction = Math.atan2(solved.y2 - solved.y1, solved.x2 - solved.x1);
+      const start = s.startAngle ?? 0;
+      solved.startAngle = start + wrapAngle(direction - start);
+    }
+    return variableKeys(s).every(key => solved[key] === s[key]) ? s : solved;
+  });
+};
+
+// Constraints that still refer to shapes in the drawing
+export const getActiveConstraints = (constraints: Constraint[], shapes: Shape[]): Constraint[] => {
+  const byId = new Map(shapes.map(s => [s.id, s]));
+  return constraints.filter(c => isUsable(c, byId));
+};
+
+// The pair of named points, one on each shape, that lie closest together
+const nearestPoints = (a: Shape, b: Shape): [ShapePointName, ShapePointName] | null => {
+  let best: [ShapePointName, ShapePointName] | null = null;
+  let bestDist = Infinity;
+  getShapePointNames(a).forEach(pa => getShapePointNames(b).forEach(pb => {
+    const d = dist(getShapePoint(a, pa), getShapePoint(b, pb));
+    if (d < bestDist) { bestDist = d; best = [pa, pb]; }
+  }));
+  return best;
+};
+
+// Builds constraints of one kind from the selected shapes, in selection order. The first shape is
+// the reference the others are related to; points are picked where the shapes come closest.
+export const createConstraints = (kind: ConstraintKind, selected: Shape[]): Constraint[] => {
+  const make = (refs: ConstraintRef[], value?: number): Constraint =>
+    value === undefined ? { id: newConstraintId(), kind, refs } : { id: newConstraintId(), kind, refs, value };
+  const segments = selected.filter(isSegmentShape);
+  const withPoints = selected.filter(s => getShapePointNames(s).length > 0);
+  // A polygon selected on its own is constrained through its edges
+  const polygon = selected.length === 1 && selected[0].type === 'polygon' ? selected[0] : null;
+  const edge = (i: number): ConstraintRef => ({ shapeId: polygon!.id, edge: i });
+  const edgeCount = polygon ? getPolygonEdges(polygon).length : 0;
+
+  switch (kind) {
+    case 'horizontal':
+    case 'vertical':
+      if (segments.length === 0) throw new Error(`Select one or more lines to make ${kind}.`);
+      return segments.map(s => make([{ shapeId: s.id }]));
+    case 'parallel':
+    case 'perpendicular':
+      if (polygon && kind === 'perpendicular') {
+        // Each edge square to the next; in a closed quadrilateral the last corner follows
+        if (edgeCount < 2) throw new Error('The polygon needs two or more edges to make them perpendicular.');
+        return Array.from({ length: edgeCount - 1 }, (_, i) => make([edge(i), edge(i + 1)]));
+      }
+      if (polygon) {
+        // Opposite edges of a closed polygon with an even number of sides
+        if (!polygon.closed || edgeCount % 2 !== 0) throw new Error('Only a closed polygon with an even number of sides has opposite edges to make parallel.');
+        return Array.from({ length: edgeCount / 2 }, (_, i) => make([edge(i), edge(i + edgeCount / 2)]));
+      }
+      if (segments.length < 2) throw new Error(`Select two or more lines to make them ${kind}.`);
+      return segments.slice(1).map(s => make([{ shapeId: segments[0].id }, { shapeId: s.id }]));
+    case 'equal_length': {
+      if (polygon && edgeCount >= 2) return Array.from({ length: edgeCount - 1 }, (_, i) => make([edge(0), edge(i + 1)]));
+      const sized = selected.filter(s => isSegmentShape(s) || isCircleShape(s));
+      if (sized.length < 2) throw new Error('Select two or more lines or circles to give them equal length.');
+      return sized.slice(1).map(s => make([{ shapeId: sized[0].id }, { shapeId: s.id }]));
+    }
+    case 'coincident': {
+      if (withPoints.length < 2) throw new Error('Select two or more shapes with endpoints or centers to join them.');
+      return withPoints.slice(1).map(s => {
+        const [pa, pb] = nearestPoints(withPoints[0], s)!;
+        return make([{ shapeId: withPoints[0].id, point: pa }, { shapeId: s.id, point: pb }]);
+      });
+    }
+    case 'tangent': {
+      const [a, b] = selected;
+      if (selected.length !== 2 || !(isCircleShape(a) || isCircleShape(b)) || ![a, b].every(s => isCircleShape(s) || isSegmentShape(s))) {
+        throw new Error('Select a circle or arc and a line or another circle to make them tangent.');
+      }
+      return [make([{ shapeId: a.id }, { shapeId: b.id }])];
+    }
+    case 'point_on_curve': {
+      if (selected.length !== 2) throw new Error('Select a shape and the line, circle or arc its point should lie on.');
+      // The curve is the circle if there is exactly one, otherwise the second shape selected
+      const [first, second] = selected;
+      const [owner, curve] = isCircleShape(first) && !isCircleShape(second) ? [second, first] : [first, second];
+      if (!(isCircleShape(curve) || isSegmentShape(curve)) || getShapePointNames(owner).length === 0) {
+        throw new Error('Select a shape and the line, circle or arc its point should lie on.');
+      }
+      const point = getShapePointNames(owner).reduce((best, name) =>
+        Math.abs(curveDistance(curve, getShapePoint(owner, name))) < Math.abs(curveDistance(curve, getShapePoint(owner, best))) ? name : best);
+      return [make([{ shapeId: owner.id, point }, { shapeId: curve.id }])];
+    }
+    case 'distance': {
+      // Keeps the current value; it can be edited afterwards
+      if (selected.length === 1 && isSegmentShape(selected[0])) return [make([{ shapeId: selected[0].id }], lengthOf(selected[0]))];
+      if (withPoints.length !== 2) throw new Error('Select a line, or two shapes whose nearest points should keep their distance.');
+      const [a, b] = withPoints;
+      const [pa, pb] = nearestPoints(a, b)!;
+      return [make([{ shapeId: a.id, point: pa }, { shapeId: b.id, point: pb }], dist(getShapePoint(a, pa), getShapePoint(b, pb)))];
+    }
+    case 'angle': {
+      const toDegrees = (a: number) => Math.round(a * 180 / Math.PI * 1000) / 1000;
+      if (segments.length === 1) return [make([{ shapeId: segments[0].id }], toDegrees(Math.atan2(segments[0].y2 - segments[0].y1, segments[0].x2 - segments[0].x1)))];
+      if (segments.length !== 2) throw new Error('Select one line (angle to the x-axis) or two lines.');
+      return [make([{ shapeId: segments[0].id }, { shapeId: segments[1].id }], toDegrees(angleBetween(segments[0], segments[1])))];
+    }
+  }
+};
+
+// Keeps only well-formed constraints when reading a project file
+export const normalizeConstraints = (raw: any): Constraint[] => {
+  if (!Array.isArray(raw)) return [];
+  const pointNames: ShapePointName[] = ['start', 'end', 'center'];
+  const isPointName = (p: any) => pointNames.includes(p) || (typeof p === 'string' && /^vertex:\d+$/.test(p));
+  const isIndex = (i: any) => Number.isInteger(i) && i >= 0;
+  return raw
+    .filter((c: any) => c && CONSTRAINT_KINDS.includes(c.kind) && Array.isArray(c.refs) && REF_COUNTS[c.kind as ConstraintKind].includes(c.refs.length)
+      && c.refs.every((r: any) => r && typeof r.shapeId === 'string' && (r.point === undefined || isPointName(r.point)) && (r.edge === undefined || isIndex(r.edge))))
+    .map((c: any): Constraint => {
+      const constraint: Constraint = {
+        id: typeof c.id === 'string' && c.id ? c.id : newConstraintId(),
+        kind: c.kind,
+        refs: c.refs.map((r: any): ConstraintRef => ({ shapeId: r.shapeId, ...(r.point ? { point: r.point } : {}), ...(r.edge !== undefined ? { edge: r.edge } : {}) })),
+      };
+      if (typeof c.value === 'number' && isFinite(c.value)) constraint.value = c.value;
+      return constraint;
+    });
+};
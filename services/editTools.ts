@@ -0,0 +1,294 @@
+import { Shape, Point, ShapeAnchor } from '../components/CartesianCanvas';
+import { getArcGeometry, getArcPoint, isFullCircle, setArcEnd, arcFromThreePoints } from './arc';
+import { getPrimitives, intersect, Primitive } from './objectSnap';
+import { getVertices, withVertices } from './polygon';
+
+// CAD edits on existing geometry, each picked with a click on the shape:
+// - trim removes the piece of a line, circle or arc between the crossings on either side of the click
+// - extend lengthens the clicked end of a line, open polyline or arc up to the nearest shape beyond it
+// - split cuts a line, arc, bezier or polygon in two at a point (a polygon opens into a polyline)
+// - fillet / chamfer joins two lines with an arc or a bevel, cutting or lengthening both to meet it;
+//   each line keeps the side it was clicked on
+// Edits that cannot be made throw an Error whose message is meant for the user.
+
+export type EditTool = 'trim' | 'extend' | 'split' | 'fillet';
+export type CornerKind = 'fillet' | 'chamfer';
+
+export const EDIT_TOOLS: EditTool[] = ['trim', 'extend', 'split', 'fillet'];
+
+export const EDIT_TOOL_LABELS: Record<EditTool, string> = {
+  trim: 'Trim',
+  extend: 'Extend',
+  split: 'Split',
+  fillet: 'Fillet / Chamfer',
+};
+
+export const isEditTool = (mode: string): mode is EditTool => (EDIT_TOOLS as string[]).includes(mode);
+
+const EPS = 1e-9;
+const TAU = 2 * Math.PI;
+// Extend casts its rays this far, well beyond any drawing
+const RAY_LENGTH = 1e6;
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+const dist = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+// Angle turned counterclockwise, in [0, 2π)
+const turn = (a: number) => ((a % TAU) + TAU) % TAU;
+
+// Points where the pieces cross any of the other shapes
+const getCrossings = (prims: Primitive[], others: Shape[]): Point[] => {
+  const edges = others.flatMap(getPrimitives);
+  return prims.flatMap(p => edges.flatMap(q => intersect(p, q)));
+};
+
+// The shape without the anchors of ends it no longer shares with the original
+const keepAnchors = (shape: Shape, keep: ShapeAnchor[]): Shape => {
+  if (!shape.anchors) return shape;
+  const anchors = Object.fromEntries(Object.entries(shape.anchors).filter(([k]) => keep.includes(k as ShapeAnchor)));
+  const { anchors: _, ...rest } = shape;
+  return Object.keys(anchors).length > 0 ? { ...rest, anchors } : rest;
+};
+
+// A piece keeps the arrow heads of the original ends it still has
+const keepArrow = (shape: Shape, hasStart: boolean, hasEnd: boolean): Shape['arrow'] => {
+  const start = hasStart && (shape.arrow === 'start' || shape.arrow === 'both');
+  const end = hasEnd && (shape.arrow === 'end' || shape.arrow === 'both');
+  return start && end ? 'both' : start ? 'start' : end ? 'end' : 'none';
+};
+
+const cubicPoint = (p: Point[], t: number): Point => {
+  const u = 1 - t;
+  return {
+    x: u * u * u * p[0].x + 3 * u * u * t * p[1].x + 3 * u * t * t * p[2].x + t * t * t * p[3].x,
+    y: u * u * u * p[0].y + 3 * u * u * t * p[1].y + 3 * u * t * t * p[2].y + t * t * t * p[3].y,
+  };
+};
+
+// Control points of the part of a cubic between t0 and t1 (de Casteljau, twice)
+const cubicPiece = (p: Point[], t0: number, t1: number): Point[] => {
+  const lerp = (a: Point, b: Point, t: number) => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+  const splitAt = (q: Point[], t: number) => {
+    const a = lerp(q[0], q[1], t); const b = lerp(q[1], q[2], t); const c = lerp(q[2], q[3], t);
+    const d = lerp(a, b, t); const e = lerp(b, c, t); const m = lerp(d, e, t);
+    return [[q[0], a, d, m], [m, e, c, q[3]]];
+  };
+  const tail = t0 > 0 ? splitAt(p, t0)[1] : p;
+  return t1 < 1 ? splitAt(tail, (t1 - t0) / (1 - t0))[0] : tail;
+};
+
+// An open curve parametrised over [0, 1] from its start to its end
+interface Curve {
+  prims: Primitive[];
+  // Parameter of the nearest point (or, on the curve's extension, beyond [0, 1])
+  param: (p: Point) => number;
+  piece: (t0: number, t1: number) => Shape;
+}
+
+const getCurve = (shape: Shape): Curve | null => {
+  if (shape.type === 'line') {
+    const a = { x: shape.x1, y: shape.y1 }; const b = { x: shape.x2, y: shape.y2 };
+    const l2 = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+    const at = (t: number) => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+    return {
+      prims: [{ kind: 'segment', a, b }],
+      param: p => l2 === 0 ? 0 : ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / l2,
+      piece: (t0, t1) => { const p = at(t0); const q = at(t1); return { ...shape, x1: p.x, y1: p.y, x2: q.x, y2: q.y }; },
+    };
+  }
+  if (shape.type === 'arc') {
+    const geo = getArcGeometry(shape);
+    if (isFullCircle(geo)) return null;
+    const dir = Math.sign(geo.sweep) || 1; const span = Math.abs(geo.sweep);
+    return {
+      prims: [{ kind: 'circle', arc: geo }],
+      param: p => turn(dir * (Math.atan2(p.y - geo.cy, p.x - geo.cx) - geo.startAngle)) / span,
+      piece: (t0, t1) => {
+        const startAngle = geo.startAngle + geo.sweep * t0;
+        const start = getArcPoint(geo, startAngle);
+        return { ...shape, x2: start.x, y2: start.y, startAngle, endAngle: geo.startAngle + geo.sweep * t1 };
+      },
+    };
+  }
+  if (shape.type === 'bezier' && shape.cx1 !== undefined) {
+    const ctrl = [{ x: shape.x1, y: shape.y1 }, { x: shape.cx1, y: shape.cy1 || 0 }, { x: shape.cx2 || 0, y: shape.cy2 || 0 }, { x: shape.x2, y: shape.y2 }];
+    const SAMPLES = 200;
+    return {
+      prims: [],
+      param: p => {
+        let best = 0;
+        for (let i = 1; i <= SAMPLES; i++) if (dist(cubicPoint(ctrl, i / SAMPLES), p) < dist(cubicPoint(ctrl, best / SAMPLES), p)) best = i;
+        return best / SAMPLES;
+      },
+      piece: (t0, t1) => {
+        const [a, c1, c2, b] = cubicPiece(ctrl, t0, t1);
+        return { ...shape, x1: a.x, y1: a.y, cx1: c1.x, cy1: c1.y, cx2: c2.x, cy2: c2.y, x2: b.x, y2: b.y };
+      },
+    };
+  }
+  return null;
+};
+
+// Pieces of a curve, the first keeping the shape's id. An arc's only anchor is its center, which
+// every piece keeps
+const getPieces = (shape: Shape, curve: Curve, ranges: [number, number][]): Shape[] =>
+  ranges.map(([t0, t1], i) => {
+    const hasStart = t0 <= 0; const hasEnd = t1 >= 1;
+    const keep: ShapeAnchor[] = shape.type === 'arc' ? ['start'] : [...(hasStart ? ['start' as const] : []), ...(hasEnd ? ['end' as const] : [])];
+    return keepAnchors({ ...curve.piece(t0, t1), id: i === 0 ? shape.id : newId(), arrow: keepArrow(shape, hasStart, hasEnd) }, keep);
+  });
+
+// The shapes left after trimming the piece around `at`; none when nothing is left
+export const trimShape = (shape: Shape, at: Point, others: Shape[]): Shape[] => {
+  const arc = shape.type === 'circle' ? getArcGeometry({ ...shape, startAngle: 0, endAngle: TAU }) : shape.type === 'arc' ? getArcGeometry(shape) : null;
+  if (arc && isFullCircle(arc)) {
+    // What is left runs counterclockwise from the next crossing after the click round to the one before it
+    const angles = getCrossings([{ kind: 'circle', arc }], others).map(p => turn(Math.atan2(p.y - arc.cy, p.x - arc.cx)));
+    const clicked = Math.atan2(at.y - arc.cy, at.x - arc.cx);
+    const ahead = angles.map(a => turn(a - clicked)).filter(t => t > EPS);
+    const behind = angles.map(a => turn(clicked - a)).filter(t => t > EPS);
+    if (ahead.length === 0 || Math.min(...ahead) + Math.min(...behind) >= TAU - EPS) throw new Error('A circle has to cross other shapes at two points or more to be trimmed.');
+    const startAngle = clicked + Math.min(...ahead);
+    const start = getArcPoint(arc, startAngle);
+    const { fillColor: _f, hatchStyle: _h, ...rest } = shape;
+    return [keepAnchors({ ...rest, type: 'arc', x2: start.x, y2: start.y, startAngle, endAngle: startAngle + TAU - Math.min(...ahead) - Math.min(...behind) }, ['start'])];
+  }
+  const curve = shape.type === 'line' || shape.type === 'arc' ? getCurve(shape) : null;
+  if (!curve) throw new Error('Only lines, circles and arcs can be trimmed.');
+  const cuts = getCrossings(curve.prims, others).map(curve.param).filter(t => t > EPS && t < 1 - EPS);
+  if (cuts.length === 0) throw new Error('Nothing crosses this shape, so there is nowhere to trim it.');
+  const clicked = curve.param(at);
+  const lo = Math.max(0, ...cuts.filter(t => t < clicked));
+  const hi = Math.min(1, ...cuts.filter(t => t > clicked));
+  const ranges: [number, number][] = [];
+  if (lo > 0) ranges.push([0, lo]);
+  if (hi < 1) ranges.push([hi, 1]);
+  return getPieces(shape, curve, ranges);
+};
+
+// Distance along the ray to the nearest other shape, or null when it meets none
+const castRay = (from: Point, direction: Point, others: Shape[]): number | null => {
+  const length = Math.hypot(direction.x, direction.y);
+  if (length === 0) return null;
+  const u = { x: direction.x / length, y: direction.y / length };
+  const hits = getCrossings([{ kind: 'segment', a: from, b: { x: from.x + u.x * RAY_LENGTH, y: from.y + u.y * RAY_LENGTH } }], others)
+    .map(p => dist(p, from)).filter(d => d > EPS);
+  return hits.length > 0 ? Math.min(...hits) : null;
+};
+
+// The shape with its end nearer `at` lengthened up to the nearest shape beyond it
+export const extendShape = (shape: Shape, at: Point, others: Shape[]): Shape => {
+  const nothing = 'Nothing lies beyond this end to extend it to.';
+  if (shape.type === 'line' || (shape.type === 'polygon' && !shape.closed)) {
+    const pts = shape.type === 'line' ? [{ x: shape.x1, y: shape.y1 }, { x: shape.x2, y: shape.y2 }] : getVertices(shape);
+    const atStart = dist(at, pts[0]) < dist(at, pts[pts.length - 1]);
+    const [end, before] = atStart ? [pts[0], pts[1]] : [pts[pts.length - 1], pts[pts.length - 2]];
+    const d = castRay(end, { x: end.x - before.x, y: end.y - before.y }, others);
+    if (d === null) throw new Error(nothing);
+    const length = dist(end, before);
+    const p = { x: end.x + (end.x - before.x) / length * d, y: end.y + (end.y - before.y) / length * d };
+    if (shape.type === 'polygon') return withVertices(shape, atStart ? [p, ...pts.slice(1)] : [...pts.slice(0, -1), p]);
+    return keepAnchors(atStart ? { ...shape, x1: p.x, y1: p.y } : { ...shape, x2: p.x, y2: p.y }, [atStart ? 'end' : 'start']);
+  }
+  if (shape.type === 'arc') {
+    const geo = getArcGeometry(shape);
+    if (isFullCircle(geo)) throw new Error('A full circle has no end to extend.');
+    const dir = Math.sign(geo.sweep) || 1;
+    const atStart = dist(at, getArcPoint(geo, geo.startAngle)) < dist(at, getArcPoint(geo, geo.endAngle));
+    // Turn from the end onwards (backwards from the start) to each crossing of the full circle
+    const gaps = getCrossings([{ kind: 'circle', arc: { ...geo, startAngle: 0, endAngle: TAU, sweep: TAU } }], others)
+      .map(p => Math.atan2(p.y - geo.cy, p.x - geo.cx))
+      .map(a => atStart ? turn(dir * (geo.startAngle - a)) : turn(dir * (a - geo.endAngle)))
+      .filter(t => t > EPS && t + Math.abs(geo.sweep) < TAU - EPS);
+    if (gaps.length === 0) throw new Error(nothing);
+    const gap = Math.min(...gaps);
+    const p = getArcPoint(geo, atStart ? geo.startAngle - dir * gap : geo.endAngle + dir * gap);
+    return setArcEnd(shape, atStart ? 'start' : 'end', p.x, p.y);
+  }
+  throw new Error('Only lines, open polylines and arcs can be extended.');
+};
+
+// Drops points that repeat the one before
+const dedupe = (pts: Point[]) => pts.filter((p, i) => i === 0 || dist(p, pts[i - 1]) > EPS);
+
+// The shape cut in two at the point on it nearest `at`; a closed polygon opens into one polyline
+export const splitShape = (shape: Shape, at: Point): Shape[] => {
+  const atEnd = 'Pick a point between the ends of the shape to split it there.';
+  if (shape.type === 'polygon') {
+    const pts = getVertices(shape);
+    const edges = shape.closed ? pts.map((a, i) => [a, pts[(i + 1) % pts.length]]) : pts.slice(1).map((b, i) => [pts[i], b]);
+    // Nearest point over all edges
+    let best = { i: 0, p: pts[0], d: Infinity };
+    edges.forEach(([a, b], i) => {
+      const l2 = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+      const t = l2 === 0 ? 0 : Math.max(0, Math.min(1, ((at.x - a.x) * (b.x - a.x) + (at.y - a.y) * (b.y - a.y)) / l2));
+      const p = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+      if (dist(p, at) < best.d) best = { i, p, d: dist(p, at) };
+    });
+    const { i, p } = best;
+    if (shape.closed) return [withVertices({ ...shape, closed: false }, dedupe([p, ...pts.slice(i + 1), ...pts.slice(0, i + 1), p]))];
+    const first = dedupe([...pts.slice(0, i + 1), p]); const second = dedupe([p, ...pts.slice(i + 1)]);
+    if (first.length < 2 || second.length < 2) throw new Error(atEnd);
+    return [
+      withVertices({ ...shape, arrow: keepArrow(shape, true, false) }, first),
+      withVertices({ ...shape, id: newId(), arrow: keepArrow(shape, false, true) }, second),
+    ];
+  }
+  if (shape.type === 'circle' || (shape.type === 'arc' && isFullCircle(getArcGeometry(shape)))) throw new Error('A full circle has no ends to split between; trim it into an arc first.');
+  const curve = getCurve(shape);
+  if (!curve) throw new Error('Only lines, arcs, bezier curves, polygons and polylines can be split.');
+  const t = Math.max(0, Math.min(1, curve.param(at)));
+  if (t < 1e-6 || t > 1 - 1e-6) throw new Error(atEnd);
+  return getPieces(shape, curve, [[0, t], [t, 1]]);
+};
+
+// Two lines rounded (or beveled) where they meet: both lines, cut or lengthened to the corner, and
+// the arc or bevel line joining them unless the size is zero. Each line keeps the side of the
+// corner it was clicked on.
+export const joinCorner = (a: Shape, atA: Point, b: Shape, atB: Point, size: number, kind: CornerKind): Shape[] => {
+  if (a.type !== 'line' || b.type !== 'line') throw new Error('Fillet and chamfer join two lines.');
+  if (a.id === b.id) throw new Error('Pick two different lines.');
+  if (!(size >= 0)) throw new Error(`The ${kind === 'fillet' ? 'radius' : 'distance'} cannot be negative.`);
+  const ra = { x: a.x2 - a.x1, y: a.y2 - a.y1 }; const rb = { x: b.x2 - b.x1, y: b.y2 - b.y1 };
+  const denom = ra.x * rb.y - ra.y * rb.x;
+  const la = Math.hypot(ra.x, ra.y); const lb = Math.hypot(rb.x, rb.y);
+  if (la === 0 || lb === 0 || Math.abs(denom) < EPS * la * lb) throw new Error('The lines are parallel, so they never meet.');
+  const s = ((b.x1 - a.x1) * rb.y - (b.y1 - a.y1) * rb.x) / denom;
+  const corner = { x: a.x1 + ra.x * s, y: a.y1 + ra.y * s };
+
+  // Unit direction from the corner towards the side that was clicked, and how far along it the kept end lies
+  const side = (line: Shape, r: Point, length: number, at: Point) => {
+    const u = { x: r.x / length, y: r.y / length };
+    const sign = (at.x - corner.x) * u.x + (at.y - corner.y) * u.y >= 0 ? 1 : -1;
+    const v = { x: u.x * sign, y: u.y * sign };
+    const along = (p: Point) => (p.x - corner.x) * v.x + (p.y - corner.y) * v.y;
+    // The end on the clicked side stays; the other one moves onto the corner
+    const keepsStart = along({ x: line.x1, y: line.y1 }) > along({ x: line.x2, y: line.y2 });
+    return { v, keepsStart, reach: Math.max(along({ x: line.x1, y: line.y1 }), along({ x: line.x2, y: line.y2 })) };
+  };
+  const sa = side(a, ra, la, atA); const sb = side(b, rb, lb, atB);
+  const cos = Math.max(-1, Math.min(1, sa.v.x * sb.v.x + sa.v.y * sb.v.y));
+  const half = Math.acos(cos) / 2;
+  // Distance from the corner to where each line now ends
+  const cut = kind === 'fillet' ? size / Math.tan(half) : size;
+  if (cut >= Math.min(sa.reach, sb.reach) - EPS) throw new Error(`The ${kind === 'fillet' ? 'radius' : 'distance'} is too large for these lines.`);
+
+  const trimmed = (line: Shape, { v, keepsStart }: typeof sa): Shape => {
+    const p = { x: corner.x + v.x * cut, y: corner.y + v.y * cut };
+    return keepAnchors(keepsStart ? { ...line, x2: p.x, y2: p.y } : { ...line, x1: p.x, y1: p.y }, [keepsStart ? 'start' : 'end']);
+  };
+  const na = trimmed(a, sa); const nb = trimmed(b, sb);
+  if (size === 0) return [na, nb];
+
+  const ta = { x: corner.x + sa.v.x * cut, y: corner.y + sa.v.y * cut };
+  const tb = { x: corner.x + sb.v.x * cut, y: corner.y + sb.v.y * cut };
+  const style = { style: a.style, arrow: 'none' as const, lineWidth: a.lineWidth, strokeColor: a.strokeColor, layerId: a.layerId };
+  if (kind === 'chamfer') return [na, nb, { id: newId(), type: 'line', x1: ta.x, y1: ta.y, x2: tb.x, y2: tb.y, ...style }];
+  // The arc passes through the point of its circle nearest the corner, on the bisector
+  const bisector = { x: sa.v.x + sb.v.x, y: sa.v.y + sb.v.y };
+  const bl = Math.hypot(bisector.x, bisector.y);
+  const toMid = size / Math.sin(half) - size;
+  const mid = { x: corner.x + bisector.x / bl * toMid, y: corner.y + bisector.y / bl * toMid };
+  const arc = arcFromThreePoints(ta, mid, tb);
+  if (!arc) throw new Error('The lines are parallel, so they never meet.');
+  return [na, nb, { id: newId(), type: 'arc', ...arc, ...style }];
+};
@@ -0,0 +1,1135 @@
+import { Shape, Layer, Point, ShapeAnchor, PlotDefinition } from '../components/CartesianCanvas';
+import { groupShapesByLayer, isShapeVisible } from './layers';
+import { getAngleMarkGeometry, getAngleMarkRadii } from './angleMark';
+import { getArcBounds, getArcGeometry, getArcPoint, isFullCircle } from './arc';
+import { getTkzPointNames, sortPointsByDependency } from './points';
+import { PLOT_VARIABLES, getPlotBounds, getPlotRuns, getPlotSegments, parsePlot } from './plot';
+import { toPgfMath } from './expression';
+import { AxesSettings, DEFAULT_AXES_SETTINGS, getAxesExtent, getAxisLabelTex, getAxisLabelText, getAxisTicks, getGridExtent, getMinorTicks, getTickSpacing } from './axes';
+import { getContours, getSlitCycles } from './boolean';
+import { DEFAULT_GRID_SETTINGS, GridExtent, GridSettings, getGridLines, getGridRings, isDefaultGrid } from './grid';
+
+// Pure code generators behind the export dialog. They have no React or DOM dependencies,
+// so the same output can be produced from scripts (see cli/project-to-tex.ts).
+
+export type ExportMode = 'standard' | 'tkz-euclide' | 'luamplib' | 'pgfplots';
+export const EXPORT_MODES: ExportMode[] = ['standard', 'tkz-euclide', 'luamplib', 'pgfplots'];
+
+// How each layer is wrapped in TikZ output: a plain scope, or a pgf layer so the stacking order is explicit
+export type LayerOutput = 'scope' | 'pgfonlayer';
+
+export interface ExportOptions {
+  exportAsNodes: boolean;
+  showAxes: boolean;
+  showGrid: boolean;
+  // With more than one layer, each visible layer is exported as its own section and hidden layers are left out
+  layers?: Layer[];
+  layerOutput?: LayerOutput;
+  // Labels, ticks, range and arrows of the axes and grid; the defaults when left out
+  axes?: AxesSettings;
+  // Mode and spacing of the grid; the plain square grid when left out
+  grid?: GridSettings;
+}
+
+export interface ColorRegistry {
+  // Uppercase hex (no '#') -> generated xcolor name
+  colorMap: Map<string, string>;
+  colorDefs: string;
+  getColorName: (color: string | undefined) => string | null;
+}
+
+// Helper to check if color is considered "default" (Black, Slate UI color, or default Yellow)
+export const isDefaultColor = (color: string | undefined) => {
+    if (!color || color === 'none') return true;
+    const hex = color.replace('#', '').toUpperCase();
+    return hex === 'FACC15' || hex === '94A3B8' || hex === '000000' || color.startsWith('black');
+};
+
+// Convert Hex to MetaPost RGB tuple (0,0,0) - (1,1,1)
+export const hexToMP = (hex: string | undefined): string | null => {
+    if (!hex || hex === 'none') return null;
+    if (hex.startsWith('#')) hex = hex.slice(1);
+    const r = parseInt(hex.substring(0, 2), 16) / 255;
+    const g = parseInt(hex.substring(2, 4), 16) / 255;
+    const b = parseInt(hex.substring(4, 6), 16) / 255;
+    if (isNaN(r) || isNaN(g) || isNaN(b)) return null;
+    return `(${r.toFixed(3)}, ${g.toFixed(3)}, ${b.toFixed(3)})`;
+};
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// SVG counterparts of TikZ's default metrics, in cm (the SVG user unit is 1cm like a TikZ unit)
+const SVG_PT = 0.03528;
+const SVG_ARROW_SIZE = 0.25;
+const SVG_BRACE_AMPLITUDE = 10 * SVG_PT;
+const SVG_BRACE_RAISE = 4 * SVG_PT;
+
+export const f = (n: number) => {
+    if (Math.abs(n) < 0.0001) return 0;
+    return Number(n.toFixed(3));
+};
+export const toDeg = (rad: number) => f(rad * 180 / Math.PI);
+
+// Construction guides are editor-only and never exported, nor are shapes on hidden layers
+export const getExportShapes = (shapes: Shape[], layers: Layer[] = []) => shapes.filter(s => !s.isGuide && isShapeVisible(s, layers));
+
+interface LayerSection {
+  layer: Layer;
+  shapes: Shape[];
+  // Identifier safe for \pgfdeclarelayer
+  pgfName: string;
+}
+
+// Null when the drawing has a single layer, so such exports look exactly as before layers existed
+const getLayerSections = (exportShapes: Shape[], layers: Layer[] = []): LayerSection[] | null => {
+  if (layers.length <= 1) return null;
+  const used = new Set<string>(['main']);
+  const sections = groupShapesByLayer(exportShapes, layers).map(({ layer, shapes }) => {
+    const base = layer.name.replace(/[^A-Za-z0-9]/g, '') || 'layer';
+    let pgfName = base; let n = 2;
+    while (used.has(pgfName)) pgfName = `${base}${n++}`;
+    used.add(pgfName);
+    return { layer, shapes, pgfName };
+  });
+  return sections.length > 0 ? sections : null;
+};
+
+const getPgfLayerPreamble = (sections: LayerSection[] | null, layerOutput: LayerOutput = 'scope') => {
+  if (!sections || sections.length === 0 || layerOutput !== 'pgfonlayer') return '';
+  return sections.map(sec => `\\pgfdeclarelayer{${sec.pgfName}}\n`).join('') + `\\pgfsetlayers{main,${sections.map(sec => sec.pgfName).join(',')}}\n`;
+};
+
+// Wraps each layer's (already indented) body lines in a scope or pgfonlayer environment
+const wrapLayerSections = (sections: LayerSection[], layerOutput: LayerOutput = 'scope', renderBody: (shapes: Shape[]) => string) => {
+  return sections.map(sec => {
+    const inner = renderBody(sec.shapes).replace(/^(?=.)/gm, '  ');
+    const [open, close] = layerOutput === 'pgfonlayer' ? [`\\begin{pgfonlayer}{${sec.pgfName}}`, '\\end{pgfonlayer}'] : ['\\begin{scope}', '\\end{scope}'];
+    return `  % Layer: ${sec.layer.name}\n  ${open}\n${inner}\n  ${close}`;
+  }).join('\n');
+};
+
+export const getBounds = (exportShapes: Shape[]) => {
+  let minX = 0, maxX = 0, minY = 0, maxY = 0;
+  if (exportShapes.length > 0) {
+      minX = Infinity; maxX = -Infinity; minY = Infinity; maxY = -Infinity;
+      const check = (x: number, y: number) => { if (x < minX) minX = x; if (x > maxX) maxX = x; if (y < minY) minY = y; if (y > maxY) maxY = y; };
+      exportShapes.forEach(s => {
+          if (s.type === 'circle') { const r = Math.sqrt(Math.pow(s.x2 - s.x1, 2) + Math.pow(s.y2 - s.y1, 2)); check(s.x1 - r, s.y1 - r); check(s.x1 + r, s.y1 + r); }
+          else if (s.type === 'arc') { const b = getArcBounds(s); check(b.minX, b.minY); check(b.maxX, b.maxY); }
+          else if (s.type === 'plot') { const b = getPlotBounds(s); check(b.minX, b.minY); check(b.maxX, b.maxY); }
+          else if (s.type === 'ellipse') { const rx = Math.abs(s.x2 - s.x1); const ry = Math.abs(s.y2 - s.y1); check(s.x1 - rx, s.y1 - ry); check(s.x1 + rx, s.y1 + ry); }
+          else if (s.type === 'text') { check(s.x1, s.y1); }
+          else { check(s.x1, s.y1); check(s.x2, s.y2); if (s.cx1 !== undefined) check(s.cx1, s.cy1); if (s.points) s.points.forEach(p => check(p.x, p.y)); }
+      });
+      minX = Math.floor(Math.min(minX, 0) - 1); maxX = Math.ceil(Math.max(maxX, 0) + 1); minY = Math.floor(Math.min(minY, 0) - 1); maxY = Math.ceil(Math.max(maxY, 0) + 1);
+  } else { minX = -5; maxX = 5; minY = -5; maxY = 5; }
+  return { minX, maxX, minY, maxY };
+};
+
+export const getHatchPattern = (style: string | undefined): string => {
+    if (!style || style === 'none') return '';
+    if (style === 'lines') return 'pattern=north east lines';
+    if (style === 'grid') return 'pattern=grid';
+    if (style === 'dots') return 'pattern=dots';
+    return '';
+};
+
+// Assigns userColorN names to every non-default stroke/fill color, in drawing order
+export const buildColorRegistry = (exportShapes: Shape[]): ColorRegistry => {
+    const uniqueColors = new Map<string, string>();
+    const definitions: string[] = [];
+    let counter = 1;
+    const registerColor = (color: string | undefined) => {
+        if (!color || color === 'none' || isDefaultColor(color)) return null;
+        const hex = color.replace('#', '').toUpperCase();
+        if (!uniqueColors.has(hex)) {
+            const name = `userColor${counter++}`;
+            uniqueColors.set(hex, name);
+            definitions.push(`\\definecolor{${name}}{HTML}{${hex}}`);
+        }
+        return uniqueColors.get(hex);
+    };
+    exportShapes.forEach(s => { registerColor(s.fillColor); registerColor(s.strokeColor); });
+    const getColorName = (color: string | undefined) => {
+        if (!color || color === 'none' || isDefaultColor(color)) return null;
+        const hex = color.replace('#', '').toUpperCase();
+        return uniqueColors.get(hex) || null;
+    };
+    return { colorMap: uniqueColors, colorDefs: definitions.join('\n'), getColorName };
+};
+
+export const getShapeSignature = (s: Shape) => {
+    let strokeSig = s.strokeColor;
+    if (isDefaultColor(strokeSig)) strokeSig = 'black'; 
+    const props = [ s.type, s.style, s.arrow, s.lineWidth, s.fillColor, strokeSig, s.hatchStyle, s.text ];
+    if (['line', 'bezier', 'measure', 'measure_radius', 'brace', 'mark_angle'].includes(s.type)) { props.push(f(s.x2 - s.x1)); props.push(f(s.y2 - s.y1)); }
+    if(s.type === 'circle') { const r = Math.sqrt(Math.pow(s.x2 - s.x1, 2) + Math.pow(s.y2 - s.y1, 2)); props.push(f(r)); } 
+    else if (s.type === 'rect') { props.push(f(Math.abs(s.x2 - s.x1))); props.push(f(Math.abs(s.y2 - s.y1))); } 
+    else if (s.type === 'round_rect') { props.push(f(Math.abs(s.x2 - s.x1))); props.push(f(Math.abs(s.y2 - s.y1))); props.push(f(s.cornerRadius ?? 0.5)); }
+    else if (s.type === 'ellipse') { props.push(f(Math.abs(s.x2 - s.x1))); props.push(f(Math.abs(s.y2 - s.y1))); }
+    else if (s.type === 'bezier') { props.push(f((s.cx1 ?? s.x1) - s.x1), f((s.cy1 ?? s.y1) - s.y1), f((s.cx2 ?? s.x2) - s.x1), f((s.cy2 ?? s.y2) - s.y1)); }
+    else if (s.type === 'freehand') { props.push((s.points || []).map(p => `${f(p.x - s.x1)},${f(p.y - s.y1)}`).join(' ')); }
+    else if (s.type === 'polygon') { props.push((s.points || []).map(p => `${f(p.x - s.x1)},${f(p.y - s.y1)}`).join(' '), s.closed ? 'closed' : 'open'); }
+    else if (s.type === 'compound') { props.push((s.points || []).map(p => `${f(p.x - s.x1)},${f(p.y - s.y1)}`).join(' '), (s.contourStarts || []).join(',')); }
+    else if (s.type === 'arc') { const geo = getArcGeometry(s); props.push(f(geo.radius), f(geo.startAngle), f(geo.endAngle)); }
+    else if (s.type === 'plot') { props.push(JSON.stringify(s.plot)); }
+    else if (s.type === 'mark_angle') { props.push(f((s.cx1 ?? s.x1) - s.x1)); props.push(f((s.cy1 ?? s.y1) - s.y1)); props.push(f(s.angleRadius ?? 0), s.angleArcs ?? 1, s.rightAngle ? 'right' : 'arc'); }
+    return props.join('|');
+};
+
+// TikZ keys shared by the standard and tkz-euclide exporters
+const getTikzLineWidth = (lineWidth: number) => lineWidth <= 1 ? 'semithick' : lineWidth === 2 ? 'thick' : `line width=${(lineWidth * 0.4).toFixed(1)}mm`;
+const getTikzArrow = (arrow: string) => arrow === 'start' ? '<-' : arrow === 'end' ? '->' : arrow === 'both' ? '<->' : '';
+
+// Shapes whose outline encloses an area, so fills and hatching apply
+const isClosedShape = (s: Shape) => ['rect', 'round_rect', 'circle', 'ellipse', 'compound'].includes(s.type) || (s.type === 'freehand' && !!s.fillColor && s.fillColor !== 'none') || (s.type === 'polygon' && !!s.closed);
+// Shapes drawn as a single open path, so arrow tips apply
+const isOpenPath = (s: Shape) => ['line', 'bezier', 'arc', 'plot'].includes(s.type) || ((s.type === 'freehand' || s.type === 'polygon') && !isClosedShape(s));
+
+// Vertices joined by straight segments, with -- cycle when the polygon is closed; a compound
+// shape gives one closed subpath per outline
+const getTikzPolygonPath = (s: Shape, point: (p: Point) => string) => s.type === 'compound'
+    ? getContours(s).map(c => `${c.map(point).join(' -- ')} -- cycle`).join(' ')
+    : (s.points ?? []).map(point).join(' -- ') + (s.closed ? ' -- cycle' : '');
+
+// Holes in a compound shape need the even-odd rule in TikZ and SVG
+const needsEvenOdd = (s: Shape) => s.type === 'compound' && getContours(s).length > 1;
+
+export const getTikzOptions = (shape: Shape, colorResolver: (c: string|undefined) => string|null, exportAsNodes: boolean) => {
+    const options: string[] = [];
+    const strokeName = colorResolver(shape.strokeColor);
+    const fillName = colorResolver(shape.fillColor);
+    if (strokeName) options.push(`draw=${strokeName}`);
+    if (fillName) options.push(`fill=${fillName}`);
+    if (shape.style === 'dashed') options.push('dashed');
+    if (shape.style === 'dotted') options.push('dotted');
+    options.push(getTikzLineWidth(shape.lineWidth));
+    const hatch = getHatchPattern(shape.hatchStyle);
+    if ( hatch) options.push(hatch);
+    if (shape.type === 'round_rect') { const r = shape.cornerRadius ?? 0.5; options.push(`rounded corners=${f(r)}`); }
+    if (needsEvenOdd(shape)) options.push('even odd rule');
+    if (shape.type !== 'brace' && (!exportAsNodes || ['line', 'bezier', 'arc', 'measure_radius', 'plot', 'polygon'].includes(shape.type))) {
+      const arrow = getTikzArrow(shape.arrow); if (arrow) options.push(arrow);
+    }
+    if (shape.rotation) {
+        let cx = shape.x1, cy = shape.y1;
+        if (['line','rect','round_rect','brace','measure'].includes(shape.type)) { cx = (shape.x1 + shape.x2) / 2; cy = (shape.y1 + shape.y2) / 2; }
+        options.push(`rotate around={${toDeg(-shape.rotation)}:(${f(cx)},${f(cy)})}`);
+    }
+    return `[${options.join(', ')}]`;
+};
+
+export const mergeNodeOpts = (baseOpts: string, shapeOpts: string) => {
+     const cleanBase = baseOpts.slice(1, -1).trim();
+     const parts = []; if (cleanBase) parts.push(cleanBase);
+     const hasDraw = cleanBase.includes('draw=') || cleanBase === 'draw' || cleanBase.includes('draw,') || cleanBase.includes(', draw');
+     if (!hasDraw) parts.push('draw');
+     parts.push(shapeOpts);
+     return `[${parts.join(', ')}]`;
+};
+
+// A plot's expressions in pgfmath with the free variable renamed to \x (cartesian) or \t
+const getPgfPlotExpressions = (plot: PlotDefinition) => {
+    const variable = plot.kind === 'cartesian' ? '\\x' : '\\t';
+    return parsePlot(plot).map(t => toPgfMath(t, Object.fromEntries(PLOT_VARIABLES[plot.kind].map(v => [v, variable]))));
+};
+
+// The sampling keys of each defined stretch of a plot, on the plot's own grid
+const getPgfPlotDomains = (shape: Shape): string[] => getPlotSegments(shape).filter(seg => seg.samples >= 2)
+    .map(seg => `domain=${f(seg.domain[0])}:${f(seg.domain[1])}, samples=${seg.samples}${shape.plot!.kind === 'cartesian' ? '' : ', variable=\\t'}`);
+
+// One \draw per defined stretch of a plot, each sampled by TikZ itself from the translated
+// expression; the plot's origin becomes a shift
+export const getTikzPlotCommands = (shape: Shape, optionsStr: string): string[] => {
+    if (!shape.plot) return [];
+    const { kind } = shape.plot;
+    let a, b;
+    try { [a, b] = getPgfPlotExpressions(shape.plot); } catch (e) { return [`% Plot skipped: ${(e as Error).message}`]; }
+    const coordinates = kind === 'cartesian' ? `(\\x, {${a}})` : kind === 'parametric' ? `({${a}}, {${b}})` : `({deg(\\t)}:{${a}})`;
+    const opts = shape.x1 || shape.y1 ? `[${[...splitTikzOptions(optionsStr), `shift={(${f(shape.x1)}, ${f(shape.y1)})}`].join(', ')}]` : optionsStr;
+    return getPgfPlotDomains(shape).map(domain => `\\draw${opts} plot[${domain}] ${coordinates};`);
+};
+
+export const getTikzDrawCommand = (shape: Shape, asNode: boolean, isLoop: boolean, optionsStr: string = '') => {
+    switch (shape.type) {
+      case 'line': return `\\draw${optionsStr} (${f(shape.x1)}, ${f(shape.y1)}) -- (${f(shape.x2)}, ${f(shape.y2)});`;
+      case 'rect': return asNode ? `\\node ${mergeNodeOpts(optionsStr, `rectangle, minimum width=${f(Math.abs(shape.x2-shape.x1))}cm, minimum height=${f(Math.abs(shape.y2-shape.y1))}cm`)} at (${f((shape.x1+shape.x2)/2)}, ${f((shape.y1+shape.y2)/2)}) {};` : `\\draw${optionsStr} (${f(shape.x1)}, ${f(shape.y1)}) rectangle (${f(shape.x2)}, ${f(shape.y2)});`;
+      case 'round_rect': {
+          const r = shape.cornerRadius ?? 0.5;
+          return asNode ? `\\node ${mergeNodeOpts(optionsStr, `rectangle, rounded corners=${f(r)}, minimum width=${f(Math.abs(shape.x2-shape.x1))}cm, minimum height=${f(Math.abs(shape.y2-shape.y1))}cm`)} at (${f((shape.x1+shape.x2)/2)}, ${f((shape.y1+shape.y2)/2)}) {};` : `\\draw${optionsStr} (${f(shape.x1)}, ${f(shape.y1)}) rectangle (${f(shape.x2)}, ${f(shape.y2)});`;
+      }
+      case 'circle': {
+          const r = Math.sqrt(Math.pow(shape.x2-shape.x1,2)+Math.pow(shape.y2-shape.y1,2));
+          return asNode ? `\\node ${mergeNodeOpts(optionsStr, `circle, minimum size=${f(2*r)}cm`)} at (${f(shape.x1)}, ${f(shape.y1)}) {};` : `\\draw${optionsStr} (${f(shape.x1)}, ${f(shape.y1)}) circle (${f(r)});`;
+      }
+      case 'text': return `\\node [text=${optionsStr.includes('draw=') ? optionsStr.match(/draw=([^,\]]+)/)?.[1] : 'black'}] at (${f(shape.x1)}, ${f(shape.y1)}) {${shape.text || 'Text'}};`;
+      case 'point': return `\\filldraw${optionsStr} (${f(shape.x1)}, ${f(shape.y1)}) circle (1.5pt)${shape.text ? ` node[above right] {${getPointLabelTex(shape.text)}}` : ''};`;
+      case 'plot': return getTikzPlotCommands(shape, optionsStr).join('\n  ');
+      case 'polygon': case 'compound': return `\\draw${optionsStr} ${getTikzPolygonPath(shape, p => `(${f(p.x)}, ${f(p.y)})`)};`;
+      case 'freehand': return `\\draw${optionsStr} plot[smooth, tension=0.7] coordinates {${shape.points?.map(p => `(${f(p.x)},${f(p.y)})`).join(' ')}} -- cycle;`;
+      case 'bezier': return `\\draw${optionsStr} (${f(shape.x1)}, ${f(shape.y1)}) .. controls (${f(shape.cx1||0)}, ${f(shape.cy1||0)}) and (${f(shape.cx2||0)}, ${f(shape.cy2||0)}) .. (${f(shape.x2)}, ${f(shape.y2)});`;
+      case 'measure_radius': return `\\draw${optionsStr} (${f(shape.x1)}, ${f(shape.y1)}) -- node[above, sloped, fill=white, inner sep=1pt] {${shape.text || f(Math.sqrt(Math.pow(shape.x2-shape.x1,2)+Math.pow(shape.y2-shape.y1,2)))}} (${f(shape.x2)}, ${f(shape.y2)});`;
+      case 'brace': return `\\draw [decorate,decoration={brace,amplitude=10pt,raise=4pt}, ${optionsStr.replace(/[\[\]]/g,'')}] (${f(shape.x1)}, ${f(shape.y1)}) -- (${f(shape.x2)}, ${f(shape.y2)});`;
+      case 'ellipse': return `\\draw${optionsStr} (${f(shape.x1)}, ${f(shape.y1)}) ellipse [x radius=${f(Math.abs(shape.x2 - shape.x1))}, y radius=${f(Math.abs(shape.y2 - shape.y1))}];`;
+      case 'arc': {
+          const geo = getArcGeometry(shape);
+          if (isFullCircle(geo)) return `\\draw${optionsStr} (${f(shape.x1)}, ${f(shape.y1)}) circle (${f(geo.radius)});`;
+          const start = getArcPoint(geo, geo.startAngle);
+          return `\\draw${optionsStr} (${f(start.x)}, ${f(start.y)}) arc[start angle=${toDeg(geo.startAngle)}, end angle=${toDeg(geo.endAngle)}, radius=${f(geo.radius)}];`;
+      }
+      case 'mark_angle': {
+          // pic {angle=A--O--B} needs named coordinates; one pic per arc, the label rides on the first
+          const geo = getAngleMarkGeometry(shape);
+          const name = `ang${shape.id.replace(/[^A-Za-z0-9]/g, '')}`;
+          const styleOpts = optionsStr.replace(/[\[\]]/g, '').split(', ').filter(o => o && !/^(<-|->|<->)$/.test(o) && !o.startsWith('rotate around'));
+          if (!styleOpts.some(o => o === 'draw' || o.startsWith('draw='))) styleOpts.unshift('draw');
+          const labelOpts = (r: number) => shape.text ? [`"{${shape.text}}"`, `angle eccentricity=${f(Math.hypot(geo.labelX - shape.x1, geo.labelY - shape.y1) / r)}`] : [];
+          const pics = geo.rightAngle
+              ? [`\\pic[${[...styleOpts, `angle radius=${f(geo.radius)}cm`, ...labelOpts(geo.radius)].join(', ')}] {right angle=${name}A--${name}O--${name}B};`]
+              : getAngleMarkRadii(geo).map((r, i) => `\\pic[${[...styleOpts, `angle radius=${f(r)}cm`, ...(i === 0 ? labelOpts(r) : [])].join(', ')}] {angle=${name}A--${name}O--${name}B};`);
+          return `\\coordinate (${name}A) at (${f(shape.x2)}, ${f(shape.y2)}); \\coordinate (${name}O) at (${f(shape.x1)}, ${f(shape.y1)}); \\coordinate (${name}B) at (${f(shape.cx1 ?? shape.x1)}, ${f(shape.cy1 ?? shape.y1)});\n  ${pics.join('\n  ')}`;
+      }
+      case 'measure': {
+          const dx = shape.x2 - shape.x1;
+          const dy = shape.y2 - shape.y1;
+          const len = Math.sqrt(dx*dx + dy*dy);
+          if(len === 0) return '';
+
+          const nx = -dy / len;
+          const ny = dx / len;
+
+          // Determine offset distance (default 0.1cm or based on control point)
+          let offsetDist = 0.1; 
+          if (shape.cx1 !== undefined && shape.cy1 !== undefined) {
+              const vcx = shape.cx1 - shape.x1;
+              const vcy = shape.cy1 - shape.y1;
+              // Project control point vector onto normal
+              offsetDist = vcx * nx + vcy * ny;
+          }
+          
+          // Ensure offset direction consistency relative to the shape vector
+          const sign = offsetDist >= 0 ? 1 : -1;
+          const gap = 0.05 * sign; 
+          const overshoot = 0.2 * sign;
+          const currentDist = offsetDist;
+
+          // Origin Points (Start of witness line, near object)
+          const w1x = shape.x1 + nx * gap;
+          const w1y = shape.y1 + ny * gap;
+          const w2x = shape.x2 + nx * gap;
+          const w2y = shape.y2 + ny * gap;
+
+          // End Points (End of witness line, past arrow)
+          const w1xe = shape.x1 + nx * (currentDist + overshoot);
+          const w1ye = shape.y1 + ny * (currentDist + overshoot);
+          const w2xe = shape.x2 + nx * (currentDist + overshoot);
+          const w2ye = shape.y2 + ny * (currentDist + overshoot);
+
+          // Dimension Line Points (at arrows)
+          const d1x = shape.x1 + nx * currentDist;
+          const d1y = shape.y1 + ny * currentDist;
+          const d2x = shape.x2 + nx * currentDist;
+          const d2y = shape.y2 + ny * currentDist;
+
+          const dimText = shape.text || f(len);
+          
+          // Clean options for style (remove arrow heads from witness lines, add them to dim line)
+          const rawOpts = optionsStr.replace(/[\[\]]/g,'');
+          const styleOpts = rawOpts.split(',').filter(s => !s.includes('->') && !s.includes('<-')).join(',');
+          const finalExtOpts = styleOpts ? `${styleOpts}, thin` : 'thin';
+
+          return `
+  % Measure ${dimText}
+  \\draw[${finalExtOpts}] (${f(w1x)},${f(w1y)}) -- (${f(w1xe)},${f(w1ye)});
+  \\draw[${finalExtOpts}] (${f(w2x)},${f(w2y)}) -- (${f(w2xe)},${f(w2ye)});
+  \\draw[<->, >=latex, ${finalExtOpts}] (${f(d1x)},${f(d1y)}) -- node[midway, fill=white, inner sep=1pt, sloped] {${dimText}} (${f(d2x)},${f(d2y)});`;
+      }
+      default: return `% ${shape.type} fallback`;
+    }
+};
+
+export const getTikzLoopCommand = (shape: Shape, asNode: boolean, optionsStr: string, count: number, startX: number, startY: number, dx: number, dy: number) => {
+    const coord = (start: number, step: number) => step === 0 ? f(start) : `{${f(start)} + \\i*${f(step)}}`;
+    const s = shape; let drawPart = "";
+    if (s.type === 'circle') {
+        const r = Math.sqrt(Math.pow(s.x2-s.x1,2)+Math.pow(s.y2-s.y1,2));
+        drawPart = asNode ? `\\node ${mergeNodeOpts(optionsStr, `circle, minimum size=${f(2*r)}cm`)} at (${coord(startX, dx)}, ${coord(startY, dy)}) {};` : `\\draw${optionsStr} (${coord(startX, dx)}, ${coord(startY, dy)}) circle (${f(r)});`;
+    } else if (s.type === 'rect' || s.type === 'round_rect') {
+        const w = s.x2 - s.x1; const h = s.y2 - s.y1; const r = s.cornerRadius ?? 0.5;
+        if(asNode) { const centerX = startX + w/2; const centerY = startY + h/2; drawPart = `\\node ${mergeNodeOpts(optionsStr, `rectangle${s.type==='round_rect'?`, rounded corners=${f(r)}`:''}, minimum width=${f(Math.abs(w))}cm, minimum height=${f(Math.abs(h))}cm`)} at (${coord(centerX, dx)}, ${coord(centerY, dy)}) {};`; } 
+        else drawPart = `\\draw${optionsStr} (${coord(startX, dx)}, ${coord(startY, dy)}) rectangle (${coord(startX + w, dx)}, ${coord(startY + h, dy)});`;
+    } else if (s.type === 'polygon' || s.type === 'compound') {
+        drawPart = `\\draw${optionsStr} ${getTikzPolygonPath(s, p => `(${coord(startX + p.x - s.x1, dx)}, ${coord(startY + p.y - s.y1, dy)})`)};`;
+    } else if (s.type === 'line') {
+        const lx = s.x2 - s.x1; const ly = s.y2 - s.y1; drawPart = `\\draw${optionsStr} (${coord(startX, dx)}, ${coord(startY, dy)}) -- (${coord(startX + lx, dx)}, ${coord(startY + ly, dy)});`;
+    } else return `% Loop fallback\n` + Array.from({length: count}).map((_, i) => getTikzDrawCommand({...s, x1: s.x1 + i*dx, y1: s.y1 + i*dy, x2: s.x2 + i*dx, y2: s.y2 + i*dy,
+        ...(s.cx1 !== undefined && s.cy1 !== undefined ? { cx1: s.cx1 + i*dx, cy1: s.cy1 + i*dy } : {}),
+        ...(s.cx2 !== undefined && s.cy2 !== undefined ? { cx2: s.cx2 + i*dx, cy2: s.cy2 + i*dy } : {}),
+        ...(s.points ? { points: s.points.map(p => ({ x: p.x + i*dx, y: p.y + i*dy })) } : {})}, asNode, false, optionsStr)).join('\n');
+    return `  \\foreach \\i in {0,...,${count - 1}} {\n    ${drawPart}\n  }`;
+};
+
+// Style options a group's scope can carry for all of its paths. Arrow tips stay on the
+// members because measures strip them from their witness lines.
+const isScopeOption = (opt: string) => /^(draw|fill|pattern|line width)=/.test(opt) || ['dashed', 'dotted', 'semithick', 'thick'].includes(opt);
+
+// Nodes do not pick up path options from an enclosing scope, so they always keep their own
+const rendersAsNode = (s: Shape, exportAsNodes: boolean) => s.type === 'text' || (exportAsNodes && ['rect', 'round_rect', 'circle'].includes(s.type));
+
+const splitTikzOptions = (opts: string) => opts.slice(1, -1).split(', ').filter(Boolean);
+
+// Draw commands for a set of shapes, folding evenly spaced copies into \\foreach loops.
+// Persistent groups become scopes (nested by depth) carrying the options all their members share.
+const buildTikzBody = (exportShapes: Shape[], getColorName: (c: string | undefined) => string | null, exportAsNodes: boolean, depth: number = 0, inherited: string[] = []): string => {
+  const optionsFor = (s: Shape) => {
+    const opts = getTikzOptions(s, getColorName, exportAsNodes);
+    if (inherited.length === 0 || rendersAsNode(s, exportAsNodes)) return opts;
+    const own = splitTikzOptions(opts).filter(o => !inherited.includes(o));
+    return own.length > 0 ? `[${own.join(', ')}]` : '';
+  };
+  const looseShapes = exportShapes.filter(s => (s.groupIds?.length ?? 0) <= depth);
+  const groups = new Map<string, Shape[]>();
+  looseShapes.forEach(s => { const sig = getShapeSignature(s); if(!groups.has(sig)) groups.set(sig, []); groups.get(sig)!.push(s); });
+  let body = "";
+  groups.forEach((groupShapes) => {
+      groupShapes.sort((a, b) => Math.abs(a.x1 - b.x1) > 0.01 ? a.x1 - b.x1 : a.y1 - b.y1);
+      const visited = new Set<string>();
+      for (let i = 0; i < groupShapes.length; i++) {
+          const startShape = groupShapes[i]; if (visited.has(startShape.id)) continue;
+          let bestChain: Shape[] = [startShape]; let bestDx = 0; let bestDy = 0;
+          for (let j = i + 1; j < groupShapes.length; j++) {
+              const secondShape = groupShapes[j]; if (visited.has(secondShape.id)) continue;
+              const dx = secondShape.x1 - startShape.x1; const dy = secondShape.y1 - startShape.y1;
+              if (Math.abs(dx) < 0.01 && Math.abs(dy) < 0.01) continue;
+              const currentChain = [startShape, secondShape]; let prev = secondShape;
+              while (true) {
+                  const nextX = prev.x1 + dx; const nextY = prev.y1 + dy;
+                  const nextShape = groupShapes.find(s => !visited.has(s.id) && !currentChain.includes(s) && Math.abs(s.x1 - nextX) < 0.05 && Math.abs(s.y1 - nextY) < 0.05);
+                  if (nextShape) { currentChain.push(nextShape); prev = nextShape; } else break;
+              }
+              if (currentChain.length > bestChain.length) { bestChain = currentChain; bestDx = dx; bestDy = dy; }
+          }
+          if (bestChain.length >= 3) {
+               bestChain.forEach(s => visited.add(s.id));
+               const opts = optionsFor(bestChain[0]);
+               body += getTikzLoopCommand(bestChain[0], exportAsNodes, opts, bestChain.length, bestChain[0].x1, bestChain[0].y1, bestDx, bestDy) + '\n';
+          } else {
+               visited.add(startShape.id);
+               body += `  ${getTikzDrawCommand(startShape, exportAsNodes, false, optionsFor(startShape))}\n`;
+          }
+      }
+  });
+
+  const scopes = new Map<string, Shape[]>();
+  exportShapes.forEach(s => {
+      const groupId = s.groupIds?.[depth];
+      if (!groupId) return;
+      if (!scopes.has(groupId)) scopes.set(groupId, []);
+      scopes.get(groupId)!.push(s);
+  });
+  scopes.forEach(members => {
+      const memberOptions = members.filter(s => !rendersAsNode(s, exportAsNodes)).map(s => splitTikzOptions(optionsFor(s)));
+      const shared = memberOptions.length > 0 ? memberOptions[0].filter(o => isScopeOption(o) && memberOptions.every(opts => opts.includes(o))) : [];
+      const inner = buildTikzBody(members, getColorName, exportAsNodes, depth + 1, [...inherited, ...shared]).replace(/\n$/, '');
+      body += `  \\begin{scope}${shared.length > 0 ? `[${shared.join(', ')}]` : ''}\n${inner.replace(/^(?=.)/gm, '  ')}\n  \\end{scope}\n`;
+  });
+  return body;
+};
+
+// Grid lines as TikZ paths. Rectangular grids use the grid operation (minor lines first, fainter)
+// unless explicit is set; other modes list their lines, and polar rings are clipped to the extent
+// unless the caller clips already (a pgfplots axis does)
+const getTikzGridCommands = (grid: GridSettings, g: GridExtent, explicit = false) => {
+  const corners = `(${f(g.minX)}, ${f(g.minY)}) grid (${f(g.maxX)}, ${f(g.maxY)})`;
+  if (grid.mode === 'rectangular' && !explicit) {
+      const n = Math.max(1, Math.round(grid.subdivisions));
+      const step = (k: number) => { const sx = f(grid.xSpacing / k); const sy = f(grid.ySpacing / k); return sx === sy ? `step=${sx}` : `xstep=${sx}, ystep=${sy}`; };
+      return (n > 1 ? `  \\draw[help lines, ${step(n)}, color=black!5] ${corners};\n` : '') + `  \\draw[help lines, ${step(1)}, color=black!10] ${corners};\n`;
+  }
+  const lines = getGridLines(grid, g); const rings = getGridRings(grid, g);
+  let out = '';
+  [true, false].forEach(minor => {
+      const parts = [
+          ...lines.filter(l => l.minor === minor).map(l => `(${f(l.x1)}, ${f(l.y1)}) -- (${f(l.x2)}, ${f(l.y2)})`),
+          ...rings.filter(r => r.minor === minor).map(r => `(0, 0) circle (${f(r.r)})`),
+      ];
+      if (parts.length > 0) out += `  \\draw[help lines, color=black!${minor ? 5 : 10}]\n    ${parts.join('\n    ')};\n`;
+  });
+  if (rings.length === 0 || explicit) return out;
+  return `  \\begin{scope}\n    \\clip (${f(g.minX)}, ${f(g.minY)}) rectangle (${f(g.maxX)}, ${f(g.maxY)});\n${out.replace(/^(?=.)/gm, '  ')}  \\end{scope}\n`;
+};
+
+// Grid, axes, ticks and origin label as plain TikZ, for every TikZ based export
+const getTikzAxesCommands = (options: ExportOptions, bounds: { minX: number; maxX: number; minY: number; maxY: number }) => {
+  const axes = options.axes ?? DEFAULT_AXES_SETTINGS;
+  let out = '';
+  if (options.showGrid) out += getTikzGridCommands(options.grid ?? DEFAULT_GRID_SETTINGS, getGridExtent(axes, bounds));
+  if (!options.showAxes) return out;
+  const { x0, x1, y0, y1 } = getAxesExtent(axes, bounds);
+  const arrow = axes.arrow === 'end' ? '->, ' : axes.arrow === 'both' ? '<->, ' : '';
+  const label = (text: string, anchor: string) => text ? ` node[${anchor}] {${getAxisLabelTex(text)}}` : '';
+  out += `  \\draw[${arrow}thick, color=black] (${f(x0)}, 0) -- (${f(x1)}, 0)${label(axes.xLabel, 'right')};\n  \\draw[${arrow}thick, color=black] (0, ${f(y0)}) -- (0, ${f(y1)})${label(axes.yLabel, 'above')};\n`;
+  const tickLoop = (axis: 'x' | 'y', min: number, max: number) => {
+      const ticks = getAxisTicks(axes, axis, min, max);
+      if (ticks.length === 0) return '';
+      const mark = axis === 'x' ? '(\\x, 2pt) -- (\\x, -2pt)' : '(2pt, \\y) -- (-2pt, \\y)';
+      const v = axis === 'x' ? '\\x' : '\\y';
+      return axes.numbered
+          ? `  \\foreach ${v}/\\l in {${ticks.map(t => `${f(t.value)}/{${t.tex}}`).join(', ')}} \\draw ${mark} node[${axis === 'x' ? 'below' : 'left'}] {$\\l$};\n`
+          : `  \\foreach ${v} in {${ticks.map(t => f(t.value)).join(', ')}} \\draw ${mark};\n`;
+  };
+  const minorLoop = (axis: 'x' | 'y', min: number, max: number) => {
+      const ticks = getMinorTicks(axes, axis, min, max);
+      if (ticks.length === 0) return '';
+      return axis === 'x'
+          ? `  \\foreach \\x in {${ticks.map(f).join(', ')}} \\draw (\\x, 1pt) -- (\\x, -1pt);\n`
+          : `  \\foreach \\y in {${ticks.map(f).join(', ')}} \\draw (1pt, \\y) -- (-1pt, \\y);\n`;
+  };
+  out += tickLoop('x', x0, x1) + tickLoop('y', y0, y1) + minorLoop('x', x0, x1) + minorLoop('y', y0, y1);
+  if (axes.originLabel) out += `  \\node[below left] at (0, 0) {${getAxisLabelTex(axes.originLabel)}};\n`;
+  return out;
+};
+
+export const generateStandardTikz = (shapes: Shape[], options: ExportOptions): string => {
+  const { exportAsNodes } = options;
+  const exportShapes = getExportShapes(shapes, options.layers);
+  const sections = getLayerSections(exportShapes, options.layers);
+  const { colorDefs, getColorName } = buildColorRegistry(exportShapes);
+  const { minX, maxX, minY, maxY } = getBounds(exportShapes);
+  const libraries = ['decorations.pathreplacing', 'patterns', ...(exportShapes.some(s => s.type === 'mark_angle') ? ['angles', 'quotes'] : [])];
+  let header = `\\documentclass[margin=3.14mm]{standalone}\n\\usepackage{tikz}\n\\usetikzlibrary{${libraries.join(', ')}}\n${colorDefs}\n${getPgfLayerPreamble(sections, options.layerOutput)}\\begin{document}\n\\begin{tikzpicture}[>=latex]\n`;
+  header += getTikzAxesCommands(options, { minX, maxX, minY, maxY });
+  const body = sections
+      ? wrapLayerSections(sections, options.layerOutput, layerShapes => buildTikzBody(layerShapes, getColorName, exportAsNodes).replace(/\n$/, '')) + '\n'
+      : buildTikzBody(exportShapes, getColorName, exportAsNodes);
+  return header + body + '\\end{tikzpicture}\n\\end{document}';
+};
+
+// Point labels are typeset as math unless they bring their own dollars
+export const getPointLabelTex = (label: string) => label.includes('$') ? label : `$${label}$`;
+
+// Named points in dependency order, each defined by the construction it was made with
+const getTkzPointDefinitions = (shapes: Shape[], names: Map<string, string>): string[] => sortPointsByDependency(shapes).map(p => {
+  const name = names.get(p.id)!;
+  const c = p.construction;
+  const parents = c?.of.map(id => names.get(id));
+  // Points whose parents were deleted keep their last position
+  if (!c || !parents || parents.some(n => !n)) return `  \\tkzDefPoint(${f(p.x1)},${f(p.y1)}){${name}}`;
+  const [a, b, d, e] = parents;
+  switch (c.kind) {
+    case 'midpoint': return `  \\tkzDefMidPoint(${a},${b}) \\tkzGetPoint{${name}}`;
+    case 'intersection': return `  \\tkzInterLL(${a},${b})(${d},${e}) \\tkzGetPoint{${name}}`;
+    case 'mediator': return `  \\tkzDefLine[mediator](${a},${b}) \\tkzGet${c.index === 1 ? 'Second' : 'First'}Point{${name}}`;
+    // The bisector's own point is only a direction; the figure's point is where it meets AB
+    case 'bisector': return `  \\tkzDefLine[bisector](${a},${b},${d}) \\tkzGetPoint{${name}aux}\n  \\tkzInterLL(${b},${name}aux)(${a},${d}) \\tkzGetPoint{${name}}`;
+    case 'foot': return `  \\tkzDefPointBy[projection=onto ${b}--${d}](${a}) \\tkzGetPoint{${name}}`;
+    case 'circumcenter': return `  \\tkzDefTriangleCenter[circum](${a},${b},${d}) \\tkzGetPoint{${name}}`;
+    case 'incenter': return `  \\tkzDefTriangleCenter[in](${a},${b},${d}) \\tkzGetPoint{${name}}`;
+    case 'on_circle': return `  \\tkzDefPointOnCircle[through = center ${a} angle ${f(c.angle ?? 0)} point ${b}] \\tkzGetPoint{${name}}`;
+  }
+});
+
+export const generateTkzEuclide = (shapes: Shape[], options: ExportOptions): string => {
+  const exportShapes = getExportShapes(shapes, options.layers);
+  const sections = getLayerSections(exportShapes, options.layers);
+  const { colorDefs, getColorName } = buildColorRegistry(exportShapes);
+  const { minX, maxX, minY, maxY } = getBounds(exportShapes);
+  let header = `\\documentclass[margin=3.14mm]{standalone}\n\\usepackage{tkz-euclide}\n\\usetikzlibrary{patterns,calc}\n${colorDefs}\n${getPgfLayerPreamble(sections, options.layerOutput)}\\begin{document}\n\\begin{tikzpicture}\n  \\tkzInit[xmin=${minX}, xmax=${maxX}, ymin=${minY}, ymax=${maxY}]\n`;
+  // \tkzGrid and \tkzDrawX can only step by rescaling the picture, so grid and axes are plain TikZ
+  header += getTikzAxesCommands(options, { minX, maxX, minY, maxY });
+  // Named points come first, under their own names, so every shape can refer to them
+  const pointNames = getTkzPointNames(shapes);
+  const pointDefs = getTkzPointDefinitions(shapes, pointNames);
+  if (pointDefs.length > 0) header += pointDefs.join('\n') + '\n';
+  // Generated names step around the named points' own, since a point may well be labelled A1
+  const taken = new Set(pointNames.values());
+  const fresh = (name: string) => { while (taken.has(name)) name += 'x'; taken.add(name); return name; };
+  // An end attached to a named point uses it; other points are numbered by drawing order, independent of layers
+  const endpoint = (shape: Shape, anchor: ShapeAnchor, generated: string, x: number, y: number) => {
+      const named = shape.anchors?.[anchor] && pointNames.get(shape.anchors[anchor]!);
+      if (named) return { def: '', name: named };
+      const name = fresh(generated);
+      return { def: `\\tkzDefPoint(${f(x)},${f(y)}){${name}}`, name };
+  };
+  const defLine = (...ends: { def: string }[]) => { const defs = ends.map(e => e.def).filter(Boolean).join(' '); return defs ? `  ${defs}\n` : ''; };
+  const shapeCommand = (shape: Shape, i: number) => {
+      const strokeName = getColorName(shape.strokeColor); const fillName = getColorName(shape.fillColor);
+      const colorOptions = []; if(strokeName) colorOptions.push(`color=${strokeName}`); if(fillName) colorOptions.push(`fill=${fillName}`);
+      // tkz-euclide commands pass their options on to TikZ, so styles use the same keys as the standard export
+      const options = [...colorOptions];
+      if (shape.style === 'dashed') options.push('dashed'); else if (shape.style === 'dotted') options.push('dotted');
+      if (shape.type !== 'text') options.push(getTikzLineWidth(shape.lineWidth));
+      if (isClosedShape(shape) && getHatchPattern(shape.hatchStyle)) options.push(getHatchPattern(shape.hatchStyle));
+      if (isOpenPath(shape) && getTikzArrow(shape.arrow)) options.push(getTikzArrow(shape.arrow));
+      if (shape.type === 'round_rect') options.push(`rounded corners=${f(shape.cornerRadius ?? 0.5)}`);
+      if (needsEvenOdd(shape)) options.push('even odd rule');
+      const optStr = options.length > 0 ? `[${options.join(',')}]` : '';
+      if (shape.type === 'point') {
+          const name = pointNames.get(shape.id)!;
+          return `  \\tkzDrawPoint${strokeName ? `[color=${strokeName},fill=${strokeName}]` : ''}(${name})${shape.text ? ` \\tkzLabelPoint[above right](${name}){${getPointLabelTex(shape.text)}}` : ''}`;
+      }
+      if (shape.type === 'line') { const a = endpoint(shape, 'start', `A${i+1}`, shape.x1, shape.y1); const b = endpoint(shape, 'end', `B${i+1}`, shape.x2, shape.y2); return `${defLine(a, b)}  \\tkzDrawSegment${optStr}(${a.name},${b.name})`; }
+      if (shape.type === 'measure_radius') {
+           const len = Math.sqrt(Math.pow(shape.x2-shape.x1, 2) + Math.pow(shape.y2-shape.y1, 2)); const label = shape.text || f(len);
+           let arrowOpts = [...options, getTikzArrow(shape.arrow)].filter(Boolean).join(','); if (!arrowOpts.includes('->') && !arrowOpts.includes('<-')) arrowOpts = arrowOpts ? `${arrowOpts}, <->, >=latex` : '<->, >=latex';
+           const a = endpoint(shape, 'start', `R${i+1}A`, shape.x1, shape.y1); const b = endpoint(shape, 'end', `R${i+1}B`, shape.x2, shape.y2);
+           return `${defLine(a, b)}  \\tkzDrawSegment[${arrowOpts}](${a.name},${b.name})\n  \\tkzLabelSegment[fill=white, inner sep=1pt](${a.name},${b.name}){${label}}`;
+      }
+      if (shape.type === 'arc') {
+          // The R variant takes the radius and both angles in degrees, so clockwise arcs survive
+          const geo = getArcGeometry(shape);
+          const c = endpoint(shape, 'start', `C${i+1}`, shape.x1, shape.y1);
+          return `${defLine(c)}  \\tkzDrawArc[${['R', ...options].join(',')}](${c.name},${f(geo.radius)})(${toDeg(geo.startAngle)},${toDeg(geo.endAngle)})`;
+      }
+      if (shape.type === 'circle') {
+          // Through its named rim point if it has one, otherwise through the point due east of the center
+          const r = Math.sqrt(Math.pow(shape.x2-shape.x1,2)+Math.pow(shape.y2-shape.y1,2));
+          const o = endpoint(shape, 'start', `O${i+1}`, shape.x1, shape.y1); const p = endpoint(shape, 'end', `P${i+1}`, shape.x1 + r, shape.y1);
+          return `${o.def ? `  ${o.def}\n` : ''}${p.def ? `  ${p.def}\n` : ''}  \\tkzDrawCircle[${options.join(',')}] (${o.name},${p.name})`;
+      }
+      if (shape.type === 'rect') {
+          const lx = Math.min(shape.x1, shape.x2); const rx = Math.max(shape.x1, shape.x2); const by = Math.min(shape.y1, shape.y2); const ty = Math.max(shape.y1, shape.y2);
+          const [a, b, c, d] = ['A', 'B', 'C', 'D'].map(k => fresh(`P${i+1}${k}`));
+          return `  \\tkzDefPoint(${f(lx)},${f(by)}){${a}} \\tkzDefPoint(${f(rx)},${f(by)}){${b}} \\tkzDefPoint(${f(rx)},${f(ty)}){${c}} \\tkzDefPoint(${f(lx)},${f(ty)}){${d}}\n  \\tkzDrawPolygon${optStr}(${a},${b},${c},${d})`;
+      }
+      if (shape.type === 'polygon') {
+          const pts = (shape.points ?? []).map((p, k) => { const name = fresh(`G${i+1}P${k+1}`); return { name, def: `\\tkzDefPoint(${f(p.x)},${f(p.y)}){${name}}` }; });
+          if (pts.length === 0) return '';
+          return `  ${pts.map(p => p.def).join(' ')}\n  \\${shape.closed ? 'tkzDrawPolygon' : 'tkzDrawPolySeg'}${optStr}(${pts.map(p => p.name).join(',')})`;
+      }
+      if (shape.type === 'round_rect') {
+          const lx = Math.min(shape.x1, shape.x2); const rx = Math.max(shape.x1, shape.x2); const by = Math.min(shape.y1, shape.y2); const ty = Math.max(shape.y1, shape.y2);
+          const min = fresh(`P${i+1}Min`); const max = fresh(`P${i+1}Max`);
+          return `  \\tkzDefPoint(${f(lx)},${f(by)}){${min}} \\tkzDefPoint(${f(rx)},${f(ty)}){${max}}\n  \\draw${optStr} (${min}) rectangle (${max});`;
+      }
+      if (shape.type === 'measure') { const len = Math.sqrt(Math.pow(shape.x2-shape.x1, 2) + Math.pow(shape.y2-shape.y1, 2)); const label = shape.text || f(len); const a = endpoint(shape, 'start', `M${i+1}A`, shape.x1, shape.y1); const b = endpoint(shape, 'end', `M${i+1}B`, shape.x2, shape.y2); return `${defLine(a, b)}  \\tkzDrawSegment[${[`dim={${label}, 0.1 cm, midway, font=\\small}`, ...options].join(',')}](${a.name},${b.name})`; }
+      if (shape.type === 'brace') { const a = endpoint(shape, 'start', `Br${i+1}A`, shape.x1, shape.y1); const b = endpoint(shape, 'end', `Br${i+1}B`, shape.x2, shape.y2); return `${defLine(a, b)}  \\draw [decorate,decoration={brace,amplitude=10pt,raise=4pt}, ${options.join(',')}] (${a.name}) -- (${b.name});`; }
+      if (shape.type === 'ellipse') {
+          const rx = Math.abs(shape.x2 - shape.x1); const ry = Math.abs(shape.y2 - shape.y1);
+          const e = fresh(`E${i+1}`);
+          return `  \\tkzDefPoint(${f(shape.x1)},${f(shape.y1)}){${e}}\n  \\draw${optStr} (${e}) ellipse [x radius=${f(rx)}, y radius=${f(ry)}];`;
+      }
+      if (shape.type === 'bezier') {
+          const a = endpoint(shape, 'start', `Z${i+1}A`, shape.x1, shape.y1); const b = endpoint(shape, 'end', `Z${i+1}B`, shape.x2, shape.y2);
+          const c = fresh(`Z${i+1}C`); const d = fresh(`Z${i+1}D`);
+          const pts = [a.def, `\\tkzDefPoint(${f(shape.cx1 ?? shape.x1)},${f(shape.cy1 ?? shape.y1)}){${c}} \\tkzDefPoint(${f(shape.cx2 ?? shape.x2)},${f(shape.cy2 ?? shape.y2)}){${d}}`, b.def].filter(Boolean).join(' ');
+          return `  ${pts}\n  \\draw${optStr} (${a.name}) .. controls (${c}) and (${d}) .. (${b.name});`;
+      }
+      // Plots are plain TikZ paths inside the tkz-euclide picture
+      if (shape.type === 'plot') return getTikzPlotCommands(shape, optStr).map(cmd => `  ${cmd}`).join('\n');
+      // Boolean results carry too many points to name; they stay a plain TikZ path
+      if (shape.type === 'compound') return `  \\draw${optStr} ${getTikzPolygonPath(shape, p => `(${f(p.x)},${f(p.y)})`)};`;
+      if (shape.type === 'freehand') {
+          // Sampled strokes carry too many points to name; they go straight to a plot
+          if (!shape.points || shape.points.length === 0) return '';
+          return `  \\draw${optStr} plot coordinates {${shape.points.map(p => `(${f(p.x)},${f(p.y)})`).join(' ')}}${isClosedShape(shape) ? ' -- cycle' : ''};`;
+      }
+      if (shape.type === 'text') return `  \\tkzText${colorOptions.length > 0 ? `[${colorOptions.join(',')}]` : ''}(${f(shape.x1)},${f(shape.y1)}){${shape.text || 'Text'}}`;
+      if (shape.type === 'mark_angle') {
+          const geo = getAngleMarkGeometry(shape);
+          const a = endpoint(shape, 'end', `K${i+1}A`, shape.x2, shape.y2); const o = endpoint(shape, 'start', `K${i+1}O`, shape.x1, shape.y1); const b = endpoint(shape, 'cp1', `K${i+1}B`, shape.cx1 ?? shape.x1, shape.cy1 ?? shape.y1);
+          const pts = `(${a.name},${o.name},${b.name})`;
+          let cmd = defLine(a, o, b);
+          cmd += geo.rightAngle
+              ? `  \\tkzMarkRightAngle[${[`size=${f(geo.radius)}`, ...options].join(',')}]${pts}`
+              : `  \\tkzMarkAngle[${[`arc=${'l'.repeat(geo.arcs)}`, `size=${f(geo.radius)}`, ...options].join(',')}]${pts}`;
+          if (shape.text) cmd += `\n  \\tkzLabelAngle[pos=${f(Math.hypot(geo.labelX - shape.x1, geo.labelY - shape.y1))}]${pts}{${shape.text}}`;
+          return cmd;
+      }
+      return `% tkz fallback for ${shape.type}`;
+  };
+  const body = sections
+      ? wrapLayerSections(sections, options.layerOutput, layerShapes => layerShapes.map(shape => shapeCommand(shape, exportShapes.indexOf(shape))).join('\n'))
+      : exportShapes.map(shapeCommand).join('\n');
+  return header + body + '\n\\end{tikzpicture}\n\\end{document}';
+};
+
+// Grid lines in MetaPost, minor ones fainter. Rows and columns are loops; other modes list their
+// lines, and polar rings are drawn into a picture clipped to the extent
+const getMetaPostGrid = (grid: GridSettings, g: GridExtent) => {
+  const lines = getGridLines(grid, g); const rings = getGridRings(grid, g);
+  const color = (minor: boolean) => minor ? '0.95white' : '0.9white';
+  let out = '';
+  [true, false].forEach(minor => {
+      const own = lines.filter(l => l.minor === minor);
+      if (grid.mode === 'rectangular') {
+          const xs = own.filter(l => l.x1 === l.x2).map(l => f(l.x1)); const ys = own.filter(l => l.y1 === l.y2).map(l => f(l.y1));
+          if (xs.length > 0) out += `for i=${xs.join(', ')}: draw (i*u, ${f(g.minY)}*u)--(i*u, ${f(g.maxY)}*u) withcolor ${color(minor)}; endfor\n`;
+          if (ys.length > 0) out += `for j=${ys.join(', ')}: draw (${f(g.minX)}*u, j*u)--(${f(g.maxX)}*u, j*u) withcolor ${color(minor)}; endfor\n`;
+          return;
+      }
+      const rs = rings.filter(r => r.minor === minor).map(r => f(r.r));
+      if (rs.length > 0) out += `for r=${rs.join(', ')}: draw fullcircle scaled (2*r*u) withcolor ${color(minor)}; endfor\n`;
+      own.forEach(l => { out += `draw (${f(l.x1)}*u, ${f(l.y1)}*u)--(${f(l.x2)}*u, ${f(l.y2)}*u) withcolor ${color(minor)};\n`; });
+  });
+  if (rings.length === 0) return out;
+  const box = `(${f(g.minX)}*u, ${f(g.minY)}*u)--(${f(g.maxX)}*u, ${f(g.minY)}*u)--(${f(g.maxX)}*u, ${f(g.maxY)}*u)--(${f(g.minX)}*u, ${f(g.maxY)}*u)--cycle`;
+  return `picture gridpic; gridpic := image(\n${out.replace(/^(?=.)/gm, '  ')});\nclip gridpic to ${box};\ndraw gridpic;\n`;
+};
+
+// Grid, axes, ticks and origin label in MetaPost, with u the unit length
+const getMetaPostAxes = (options: ExportOptions, bounds: { minX: number; maxX: number; minY: number; maxY: number }) => {
+  const axes = options.axes ?? DEFAULT_AXES_SETTINGS;
+  let out = '';
+  if (options.showGrid) out += '\n% Grid\n' + getMetaPostGrid(options.grid ?? DEFAULT_GRID_SETTINGS, getGridExtent(axes, bounds));
+  if (!options.showAxes) return out;
+  const { x0, x1, y0, y1 } = getAxesExtent(axes, bounds);
+  const draw = axes.arrow === 'end' ? 'drawarrow' : axes.arrow === 'both' ? 'drawdblarrow' : 'draw';
+  out += `\n% Axes\n${draw} (${f(x0)}*u, 0)--(${f(x1)}*u, 0);${axes.xLabel ? ` label.rt(btex ${getAxisLabelTex(axes.xLabel)} etex, (${f(x1)}*u, 0));` : ''}\n`;
+  out += `${draw} (0, ${f(y0)}*u)--(0, ${f(y1)}*u);${axes.yLabel ? ` label.top(btex ${getAxisLabelTex(axes.yLabel)} etex, (0, ${f(y1)}*u));` : ''}\n`;
+  const xTicks = getAxisTicks(axes, 'x', x0, x1); const yTicks = getAxisTicks(axes, 'y', y0, y1);
+  const xMinor = getMinorTicks(axes, 'x', x0, x1); const yMinor = getMinorTicks(axes, 'y', y0, y1);
+  if (xTicks.length > 0) out += `for x=${xTicks.map(t => f(t.value)).join(', ')}: draw (x*u, -2pt)--(x*u, 2pt); endfor\n`;
+  if (yTicks.length > 0) out += `for y=${yTicks.map(t => f(t.value)).join(', ')}: draw (-2pt, y*u)--(2pt, y*u); endfor\n`;
+  if (xMinor.length > 0) out += `for x=${xMinor.map(f).join(', ')}: draw (x*u, -1pt)--(x*u, 1pt); endfor\n`;
+  if (yMinor.length > 0) out += `for y=${yMinor.map(f).join(', ')}: draw (-1pt, y*u)--(1pt, y*u); endfor\n`;
+  // btex ... etex is read before the loop runs, so each number gets its own label
+  if (axes.numbered) {
+      xTicks.forEach(t => { out += `label.bot(btex $${t.tex}$ etex, (${f(t.value)}*u, -2pt));\n`; });
+      yTicks.forEach(t => { out += `label.lft(btex $${t.tex}$ etex, (-2pt, ${f(t.value)}*u));\n`; });
+  }
+  if (axes.originLabel) out += `label.llft(btex ${getAxisLabelTex(axes.originLabel)} etex, origin);\n`;
+  return out;
+};
+
+export const generateLuamplib = (shapes: Shape[], options: ExportOptions): string => {
+  const exportShapes = getExportShapes(shapes, options.layers);
+  const sections = getLayerSections(exportShapes, options.layers);
+  let header = `\\documentclass{standalone}\n\\usepackage{luamplib}\n\\begin{document}\n\\begin{mplibcode}\nbeginfig(1);\nu:=1cm;\n`;
+  // fullcircle has a knot every 45 degrees, so angles map straight to path times
+  if (exportShapes.some(s => s.type === 'mark_angle' && !s.rightAngle)) header += `\nvardef anglemark(expr O, A, B, r) =\n  save a, b; numeric a, b;\n  a := angle(A - O); b := angle(B - O);\n  if b <= a: b := b + 360; fi\n  subpath (a/45, b/45) of fullcircle scaled (2*r) shifted O\nenddef;\n`;
+  // Plain MetaPost has no fill patterns: hatching is a picture of lines or dots clipped to the outline
+  if (exportShapes.some(s => isClosedShape(s) && getHatchPattern(s.hatchStyle))) header += `\nvardef hatchlines(expr p, a, s) =\n  save q, c, r; picture q; pair c; numeric r;\n  c := center p; r := abs(urcorner p - llcorner p) / 2;\n  q := image(for t = -r step s until r: draw ((-r, t)--(r, t)) rotated a shifted c withpen pencircle scaled 0.4pt; endfor);\n  clip q to p; q\nenddef;\nvardef hatchdots(expr p, s) =\n  save q, c, r; picture q; pair c; numeric r;\n  c := center p; r := abs(urcorner p - llcorner p) / 2;\n  q := image(for i = -r step s until r: for j = -r step s until r: drawdot (i, j) shifted c withpen pencircle scaled 1pt; endfor endfor);\n  clip q to p; q\nenddef;\n`;
+  header += getMetaPostAxes(options, getBounds(exportShapes));
+  // Pen sizes match TikZ's semithick, thick and line width=...mm
+  const penOf = (lineWidth: number) => lineWidth <= 1 ? '0.6pt' : lineWidth === 2 ? '0.8pt' : `${(lineWidth * 0.4).toFixed(1)}mm`;
+  const strokeSuffix = (shape: Shape, pen: string = penOf(shape.lineWidth)) => {
+      let suffix = ''; if (shape.strokeColor && !isDefaultColor(shape.strokeColor)) { const strokeC = hexToMP(shape.strokeColor); if (strokeC) suffix += ` withcolor ${strokeC}`; }
+      suffix += ` withpen pencircle scaled ${pen}`;
+      if (shape.style === 'dashed') suffix += ' dashed evenly'; else if (shape.style === 'dotted') suffix += ' dashed withdots scaled 0.5';
+      return suffix;
+  };
+  const P = (x: number, y: number) => `(${f(x)}*u, ${f(y)}*u)`;
+  // Fill and hatching of the closed path p, one command per line
+  const fillPath = (shape: Shape) => {
+      let cmd = '';
+      if (isClosedShape(shape) && shape.fillColor && shape.fillColor !== 'none') { const fillC = hexToMP(shape.fillColor); if (fillC) cmd += `fill p withcolor ${fillC};\n`; }
+      if (isClosedShape(shape) && getHatchPattern(shape.hatchStyle)) {
+          const hatchC = isDefaultColor(shape.strokeColor) ? 'black' : hexToMP(shape.strokeColor) || 'black';
+          if (shape.hatchStyle === 'lines') cmd += `draw hatchlines(p, 45, 3pt) withcolor ${hatchC};\n`;
+          else if (shape.hatchStyle === 'grid') cmd += `draw hatchlines(p, 0, 3pt) withcolor ${hatchC};\ndraw hatchlines(p, 90, 3pt) withcolor ${hatchC};\n`;
+          else cmd += `draw hatchdots(p, 3pt) withcolor ${hatchC};\n`;
+      }
+      return cmd;
+  };
+  const shapeCommand = (shape: Shape) => {
+      let pathDef = '';
+      if (shape.type === 'measure' || shape.type === 'measure_radius' || shape.type === 'brace') {
+          const dx = shape.x2 - shape.x1; const dy = shape.y2 - shape.y1; const len = Math.sqrt(dx * dx + dy * dy);
+          if (len === 0) return '';
+          const nx = -dy / len; const ny = dx / len;
+          // Labels run along the segment but never upside down
+          let slope = Math.atan2(dy, dx) * 180 / Math.PI; if (slope > 90) slope -= 180; if (slope < -90) slope += 180;
+          const labelAt = (text: string, x: number, y: number) => `label(btex ${text} etex${f(slope) !== 0 ? ` rotated ${f(slope)}` : ''}, ${P(x, y)});`;
+          if (shape.type === 'measure_radius') {
+              // Like the tkz-euclide export: the shape's own arrows, or both ends when it has none
+              const segment = `${P(shape.x1, shape.y1)}--${P(shape.x2, shape.y2)}`;
+              const drawCmd = shape.arrow === 'end' ? `drawarrow ${segment}` : shape.arrow === 'start' ? `drawarrow reverse (${segment})` : `drawdblarrow ${segment}`;
+              return [`${drawCmd}${strokeSuffix(shape)};`, labelAt(shape.text || String(f(len)), (shape.x1 + shape.x2) / 2 + nx * 0.2, (shape.y1 + shape.y2) / 2 + ny * 0.2)].join('\n');
+          }
+          if (shape.type === 'measure') {
+              // Same construction as the TikZ exporter: witness lines plus an offset dimension line
+              let offsetDist = 0.1;
+              if (shape.cx1 !== undefined && shape.cy1 !== undefined) offsetDist = (shape.cx1 - shape.x1) * nx + (shape.cy1 - shape.y1) * ny;
+              const sign = offsetDist >= 0 ? 1 : -1; const gap = 0.05 * sign; const overshoot = 0.2 * sign;
+              const thin = strokeSuffix(shape, '0.4pt');
+              const witness = (x: number, y: number) => `draw ${P(x + nx * gap, y + ny * gap)}--${P(x + nx * (offsetDist + overshoot), y + ny * (offsetDist + overshoot))}${thin};`;
+              const d1x = shape.x1 + nx * offsetDist; const d1y = shape.y1 + ny * offsetDist; const d2x = shape.x2 + nx * offsetDist; const d2y = shape.y2 + ny * offsetDist;
+              return [witness(shape.x1, shape.y1), witness(shape.x2, shape.y2), `drawdblarrow ${P(d1x, d1y)}--${P(d2x, d2y)}${thin};`, labelAt(shape.text || String(f(len)), (d1x + d2x) / 2, (d1y + d2y) / 2)].join('\n');
+          }
+          // Brace: the shape of TikZ's brace decoration (amplitude 10pt, raise 4pt) on the left of the path direction
+          const ux = dx / len; const uy = dy / len; const a = SVG_BRACE_AMPLITUDE; const h = Math.min(a / 2, len / 4);
+          const at = (along: number, up: number) => ({ x: shape.x1 + ux * along + nx * (SVG_BRACE_RAISE + up), y: shape.y1 + uy * along + ny * (SVG_BRACE_RAISE + up) });
+          // Quadratic segment from p0 to p2 as the equivalent cubic
+          const quad = (p0: Point, c: Point, p2: Point) => `${P(p0.x, p0.y)}..controls ${P(p0.x + (c.x - p0.x) * 2 / 3, p0.y + (c.y - p0.y) * 2 / 3)} and ${P(p2.x + (c.x - p2.x) * 2 / 3, p2.y + (c.y - p2.y) * 2 / 3)}..${P(p2.x, p2.y)}`;
+          const left = `${quad(at(0, 0), at(0, a / 2), at(h, a / 2))}--${quad(at(len / 2 - h, a / 2), at(len / 2, a / 2), at(len / 2, a))}`;
+          const right = `${quad(at(len / 2, a), at(len / 2, a / 2), at(len / 2 + h, a / 2))}--${quad(at(len - h, a / 2), at(len, a / 2), at(len, 0))}`;
+          return `draw ${left} & ${right}${strokeSuffix(shape)};`;
+      }
+      if (shape.type === 'mark_angle') {
+          const geo = getAngleMarkGeometry(shape);
+          const lines = geo.rightAngle
+              ? [`draw ${P(shape.x1 + geo.radius * geo.ux, shape.y1 + geo.radius * geo.uy)}--${P(shape.x1 + geo.radius * (geo.ux + geo.vx), shape.y1 + geo.radius * (geo.uy + geo.vy))}--${P(shape.x1 + geo.radius * geo.vx, shape.y1 + geo.radius * geo.vy)}${strokeSuffix(shape)};`]
+              : getAngleMarkRadii(geo).map(r => `draw anglemark(${P(shape.x1, shape.y1)}, ${P(shape.x2, shape.y2)}, ${P(shape.cx1 ?? shape.x1, shape.cy1 ?? shape.y1)}, ${f(r)}*u)${strokeSuffix(shape)};`);
+          if (shape.text) lines.push(`label(btex ${shape.text} etex, ${P(geo.labelX, geo.labelY)});`);
+          return lines.join('\n');
+      }
+      if (shape.type === 'compound') {
+          // MetaPost fills one cycle at a time and has no even-odd rule, so each hole is slit into the
+          // outline around it for the fill; the outlines themselves are drawn without the slits.
+          // Not buildcycle: it traces a single outer boundary from intersecting paths, so it cannot
+          // leave a hole open, fails on disjoint parts, and the contours here are already resolved
+          const cycle = (c: Point[]) => c.map(p => P(p.x, p.y)).join('--') + '--cycle';
+          const contours = getContours(shape);
+          const fill = fillPath(shape);
+          return [
+              ...(fill ? getSlitCycles(contours).map(c => `path p; p := ${cycle(c)};\n${fill}`.trimEnd()) : []),
+              ...contours.map(c => `draw ${cycle(c)}${strokeSuffix(shape)};`),
+          ].join('\n');
+      }
+      if (shape.type === 'line') pathDef = `(${f(shape.x1)}*u, ${f(shape.y1)}*u)--(${f(shape.x2)}*u, ${f(shape.y2)}*u)`;
+      else if (shape.type === 'rect') pathDef = `(${f(shape.x1)}*u, ${f(shape.y1)}*u)--(${f(shape.x2)}*u, ${f(shape.y1)}*u)--(${f(shape.x2)}*u, ${f(shape.y2)}*u)--(${f(shape.x1)}*u, ${f(shape.y2)}*u)--cycle`;
+      else if (shape.type === 'round_rect') {
+          const lx = Math.min(shape.x1, shape.x2); const rx = Math.max(shape.x1, shape.x2); const by = Math.min(shape.y1, shape.y2); const ty = Math.max(shape.y1, shape.y2); const r = shape.cornerRadius ?? 0.5;
+          pathDef = `(${f(lx+r)}*u, ${f(by)}*u) -- (${f(rx-r)}*u, ${f(by)}*u) & quartercircle scaled (${f(2*r)}*u) rotated 270 shifted (${f(rx-r)}*u, ${f(by+r)}*u) -- (${f(rx)}*u, ${f(ty-r)}*u) & quartercircle scaled (${f(2*r)}*u) rotated 0 shifted (${f(rx-r)}*u, ${f(ty-r)}*u) -- (${f(lx+r)}*u, ${f(ty)}*u) & quartercircle scaled (${f(2*r)}*u) rotated 90 shifted (${f(lx+r)}*u, ${f(ty-r)}*u) -- (${f(lx)}*u, ${f(by+r)}*u) & quartercircle scaled (${f(2*r)}*u) rotated 180 shifted (${f(lx+r)}*u, ${f(by+r)}*u) -- cycle`;
+      } else if (shape.type === 'circle') { const r = Math.sqrt(Math.pow(shape.x2 - shape.x1, 2) + Math.pow(shape.y2 - shape.y1, 2)); pathDef = `fullcircle scaled (${f(2*r)}*u) shifted (${f(shape.x1)}*u, ${f(shape.y1)}*u)`; }
+      else if (shape.type === 'ellipse') pathDef = `fullcircle xscaled (${f(2*Math.abs(shape.x2 - shape.x1))}*u) yscaled (${f(2*Math.abs(shape.y2 - shape.y1))}*u) shifted (${f(shape.x1)}*u, ${f(shape.y1)}*u)`;
+      else if (shape.type === 'bezier') pathDef = `${P(shape.x1, shape.y1)}..controls ${P(shape.cx1 ?? shape.x1, shape.cy1 ?? shape.y1)} and ${P(shape.cx2 ?? shape.x2, shape.cy2 ?? shape.y2)}..${P(shape.x2, shape.y2)}`;
+      else if (shape.type === 'freehand') {
+          if (!shape.points || shape.points.length === 0) return '';
+          pathDef = shape.points.map(p => P(p.x, p.y)).join('--') + (isClosedShape(shape) ? '--cycle' : '');
+      }
+      else if (shape.type === 'polygon') {
+          if (!shape.points || shape.points.length === 0) return '';
+          pathDef = shape.points.map(p => P(p.x, p.y)).join('--') + (shape.closed ? '--cycle' : '');
+      }
+      else if (shape.type === 'arc') {
+          // fullcircle starts at 0 degrees with a knot every 45, so path time is angle/45; reversed times run clockwise
+          const geo = getArcGeometry(shape);
+          const circle = `fullcircle scaled (${f(2*geo.radius)}*u) shifted (${f(shape.x1)}*u, ${f(shape.y1)}*u)`;
+          pathDef = isFullCircle(geo) ? circle : `subpath (${f(toDeg(geo.startAngle) / 45)}, ${f(toDeg(geo.endAngle) / 45)}) of ${circle}`;
+      }
+      else if (shape.type === 'plot') {
+          // MetaPost has no function plotting; the sampled points are joined like on the canvas
+          const drawCmd = shape.arrow === 'end' ? 'drawarrow' : shape.arrow === 'start' ? 'drawarrow reverse' : shape.arrow === 'both' ? 'drawdblarrow' : 'draw';
+          return getPlotRuns(shape).filter(run => run.length >= 2).map(run => `${drawCmd} ${shape.arrow === 'start' ? `(${run.map(p => P(p.x, p.y)).join('--')})` : run.map(p => P(p.x, p.y)).join('--')}${strokeSuffix(shape)};`).join('\n');
+      }
+      else if (shape.type === 'point') return [`drawdot ${P(shape.x1, shape.y1)}${strokeSuffix({ ...shape, style: 'solid' }, '3pt')};`, ...(shape.text ? [`label.urt(btex ${getPointLabelTex(shape.text)} etex, ${P(shape.x1, shape.y1)});`] : [])].join('\n');
+      else if (shape.type === 'text') return `label(btex ${shape.text || "Text"} etex, (${f(shape.x1)}*u, ${f(shape.y1)}*u));`;
+      else return `% MetaPost fallback for ${shape.type}`;
+      
+      let cmd = `path p; p := ${pathDef};\n` + fillPath(shape);
+      let drawCmd = 'draw p';
+      if (isOpenPath(shape)) drawCmd = shape.arrow === 'end' ? 'drawarrow p' : shape.arrow === 'start' ? 'drawarrow reverse p' : shape.arrow === 'both' ? 'drawdblarrow p' : 'draw p';
+      cmd += drawCmd + strokeSuffix(shape) + ';';
+      return cmd;
+  };
+  // MetaPost has no layers; later drawing paints over earlier, so sections in layer order are enough
+  const body = sections
+      ? sections.map(sec => `% Layer: ${sec.layer.name}\n` + sec.shapes.map(shapeCommand).join('\n')).join('\n')
+      : exportShapes.map(shapeCommand).join('\n');
+  return header + body + `\nendfig;\n\\end{mplibcode}\n\\end{document}`;
+};
+
+// pgfmath offset, e.g. "\x^2 - 1"; a zero offset leaves the expression alone
+const withOffset = (expr: string, d: number) => d === 0 ? expr : `${expr} ${d < 0 ? '-' : '+'} ${f(Math.abs(d))}`;
+
+// Inside an axis every coordinate is in axis units. Plots, lines and freehand strokes become
+// \addplot; everything else keeps its TikZ command, which pgfplots reads in axis cs.
+const getPgfplotsCommand = (shape: Shape, asNode: boolean, optionsStr: string): string => {
+    if (shape.type === 'plot' && shape.plot) {
+        const { kind } = shape.plot;
+        let a, b;
+        try { [a, b] = getPgfPlotExpressions(shape.plot); } catch (e) { return `% Plot skipped: ${(e as Error).message}`; }
+        // pgfplots has no shift for \addplot expressions, so the origin is added to each coordinate
+        const [x, y] = kind === 'cartesian' ? ['\\x', a] : kind === 'parametric' ? [a, b] : [`(${a})*cos(deg(\\t))`, `(${a})*sin(deg(\\t))`];
+        const coordinates = `({${withOffset(x, shape.x1)}}, {${withOffset(y, shape.y1)}})`;
+        return getPgfPlotDomains(shape).map(domain => `\\addplot[${[...splitTikzOptions(optionsStr), domain].join(', ')}] ${coordinates};`).join('\n  ');
+    }
+    if (shape.type === 'line') return `\\addplot${optionsStr} coordinates {(${f(shape.x1)}, ${f(shape.y1)}) (${f(shape.x2)}, ${f(shape.y2)})};`;
+    if (shape.type === 'freehand') return `\\addplot[${[...splitTikzOptions(optionsStr), 'smooth', 'tension=0.7'].join(', ')}] coordinates {${shape.points?.map(p => `(${f(p.x)},${f(p.y)})`).join(' ')}} -- cycle;`;
+    return getTikzDrawCommand(shape, asNode, false, optionsStr);
+};
+
+// The drawing inside a pgfplots axis: limits from getBounds (or the fixed axes range), one unit per centimetre like the
+// other exports, and pgfplots' own ticks and axis labels instead of hand-drawn axes. The grid is pgfplots' major grid
+// while it is the square grid on the ticks; any other grid is drawn line by line.
+// Shapes are written one by one since \foreach bodies are expanded too late inside an axis.
+export const generatePgfplots = (shapes: Shape[], options: ExportOptions): string => {
+  const { exportAsNodes, showAxes, showGrid } = options;
+  const axes = options.axes ?? DEFAULT_AXES_SETTINGS;
+  const grid = options.grid ?? DEFAULT_GRID_SETTINGS;
+  const nativeGrid = isDefaultGrid(grid) && !axes.piTicks && axes.xStep === 1 && axes.yStep === 1;
+  const exportShapes = getExportShapes(shapes, options.layers);
+  const sections = getLayerSections(exportShapes, options.layers);
+  const { colorDefs, getColorName } = buildColorRegistry(exportShapes);
+  const { minX, maxX, minY, maxY } = getGridExtent(axes, getBounds(exportShapes));
+  const libraries = ['decorations.pathreplacing', 'patterns', ...(exportShapes.some(s => s.type === 'mark_angle') ? ['angles', 'quotes'] : [])];
+  // π ticks are listed one by one with their labels; plain ticks are a distance
+  const xTicks = getAxisTicks(axes, 'x', minX, maxX);
+  const tickOptions = [
+      axes.piTicks ? `xtick={${xTicks.map(t => f(t.value)).join(', ')}}` : `xtick distance=${f(axes.xStep)}`,
+      `ytick distance=${f(axes.yStep)}`,
+      ...(!axes.numbered ? ['xticklabels={}, yticklabels={}'] : axes.piTicks ? [`xticklabels={${xTicks.map(t => `$${t.tex}$`).join(', ')}}`] : []),
+      ...(axes.minorTicks > 0 ? [`minor x tick num=${axes.minorTicks}, minor y tick num=${axes.minorTicks}`] : []),
+  ];
+  const axisLines = [
+      'axis lines=middle',
+      ...(axes.xLabel ? [`xlabel={${getAxisLabelTex(axes.xLabel)}}`] : []),
+      ...(axes.yLabel ? [`ylabel={${getAxisLabelTex(axes.yLabel)}}`] : []),
+      // Middle axes carry an arrow at the far end by default
+      ...(axes.arrow === 'none' ? ['axis line style={-}'] : axes.arrow === 'both' ? ['axis line style={<->}'] : []),
+  ];
+  const axisOptions = [
+      `xmin=${f(minX)}, xmax=${f(maxX)}, ymin=${f(minY)}, ymax=${f(maxY)}`,
+      `axis equal image, scale only axis, width=${f(maxX - minX)}cm, height=${f(maxY - minY)}cm`,
+      tickOptions.join(', '),
+      showAxes ? axisLines.join(', ') : 'axis lines=none, xticklabels={}, yticklabels={}, major tick length=0pt',
+      ...(showGrid && nativeGrid ? ['grid=major, grid style={black!10}'] : []),
+  ];
+  const renderBody = (bodyShapes: Shape[]) => bodyShapes.map(s => `  ${getPgfplotsCommand(s, exportAsNodes, getTikzOptions(s, getColorName, exportAsNodes))}\n`).join('');
+  // pgf layers cannot be switched inside an axis, so layers are always scopes here
+  let body = showGrid && !nativeGrid ? getTikzGridCommands(grid, { minX, maxX, minY, maxY }, true) : '';
+  body += sections ? wrapLayerSections(sections, 'scope', layerShapes => renderBody(layerShapes).replace(/\n$/, '')) + '\n' : renderBody(exportShapes);
+  if (showAxes && axes.originLabel) body += `  \\node[below left] at (0, 0) {${getAxisLabelTex(axes.originLabel)}};\n`;
+  const header = `\\documentclass[margin=3.14mm]{standalone}\n\\usepackage{pgfplots}\n\\pgfplotsset{compat=1.18}\n\\usetikzlibrary{${libraries.join(', ')}}\n${colorDefs}\n\\begin{document}\n\\begin{tikzpicture}[>=latex]\n\\begin{axis}[\n  ${axisOptions.join(',\n  ')},\n]\n`;
+  return header + body + '\\end{axis}\n\\end{tikzpicture}\n\\end{document}';
+};
+
+export const generateSvg = (shapes: Shape[], options: ExportOptions): string => {
+  const { showAxes, showGrid } = options;
+  const axes = options.axes ?? DEFAULT_AXES_SETTINGS;
+  const exportShapes = getExportShapes(shapes, options.layers);
+  const sections = getLayerSections(exportShapes, options.layers);
+  const bounds = getBounds(exportShapes);
+  // A fixed axes range widens the picture; it never crops the drawing
+  const range = getGridExtent(axes, bounds);
+  const minX = Math.min(bounds.minX, range.minX); const maxX = Math.max(bounds.maxX, range.maxX);
+  const minY = Math.min(bounds.minY, range.minY); const maxY = Math.max(bounds.maxY, range.maxY);
+  const width = maxX - minX; const height = maxY - minY;
+  // SVG's y axis points down; flip every grid coordinate
+  const X = (x: number) => f(x);
+  const Y = (y: number) => f(-y);
+  const pt = (x: number, y: number) => `${X(x)} ${Y(y)}`;
+
+  const strokeOf = (s: Shape) => isDefaultColor(s.strokeColor) ? '#000000' : s.strokeColor!.toLowerCase();
+  const widthOf = (s: Shape) => f(s.lineWidth <= 1 ? 0.6 * SVG_PT : s.lineWidth === 2 ? 0.8 * SVG_PT : s.lineWidth * 0.04);
+
+  // Shared definitions are keyed by content so the output is identical for identical drawings
+  const markers = new Map<string, string>();
+  const patterns = new Map<string, string>();
+  const markerFor = (color: string) => {
+      const id = `arrow-${color.replace('#', '')}`;
+      if (!markers.has(id)) markers.set(id, `    <marker id="${id}" viewBox="0 0 10 10" refX="9" refY="5" markerUnits="userSpaceOnUse" markerWidth="${SVG_ARROW_SIZE}" markerHeight="${SVG_ARROW_SIZE}" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="${color}"/></marker>`);
+      return `url(#${id})`;
+  };
+  const patternFor = (style: string, color: string) => {
+      const id = `hatch-${style}-${color.replace('#', '')}`;
+      if (!patterns.has(id)) {
+          const stroke = `stroke="${color}" stroke-width="${f(0.4 * SVG_PT)}"`;
+          let content = '';
+          if (style === 'lines') content = `<path d="M 0 0.2 L 0.2 0" ${stroke}/>`;
+          else if (style === 'grid') content = `<path d="M 0 0 L 0.2 0 M 0 0 L 0 0.2" ${stroke}/>`;
+          else content = `<circle cx="0.1" cy="0.1" r="${f(0.5 * SVG_PT)}" fill="${color}"/>`;
+          patterns.set(id, `    <pattern id="${id}" patternUnits="userSpaceOnUse" width="0.2" height="0.2">${content}</pattern>`);
+      }
+      return `url(#${id})`;
+  };
+
+  const strokeAttrs = (s: Shape, withArrows: boolean) => {
+      const color = strokeOf(s);
+      const attrs = [`stroke="${color}"`, `stroke-width="${widthOf(s)}"`];
+      if (s.style === 'dashed') attrs.push(`stroke-dasharray="${f(3 * SVG_PT)} ${f(3 * SVG_PT)}"`);
+      if (s.style === 'dotted') attrs.push(`stroke-dasharray="${f(0.4 * SVG_PT)} ${f(2 * SVG_PT)}"`, 'stroke-linecap="round"');
+      if (withArrows) {
+          if (s.arrow === 'start' || s.arrow === 'both') attrs.push(`marker-start="${markerFor(color)}"`);
+          if (s.arrow === 'end' || s.arrow === 'both') attrs.push(`marker-end="${markerFor(color)}"`);
+      }
+      return attrs.join(' ');
+  };
+  const rotationAttr = (s: Shape) => {
+      if (!s.rotation) return '';
+      let cx = s.x1, cy = s.y1;
+      if (['line','rect','round_rect','brace','measure'].includes(s.type)) { cx = (s.x1 + s.x2) / 2; cy = (s.y1 + s.y2) / 2; }
+      return ` transform="rotate(${toDeg(-s.rotation)} ${pt(cx, cy)})"`;
+  };
+  // Emits a closed geometry with its fill, hatch overlay and outline
+  const filled = (s: Shape, element: string) => {
+      const out: string[] = [];
+      const fill = s.fillColor && s.fillColor !== 'none' ? s.fillColor.toLowerCase() : 'none';
+      if (s.hatchStyle && s.hatchStyle !== 'none') {
+          if (fill !== 'none') out.push(`<${element} fill="${fill}" stroke="none"/>`);
+          out.push(`<${element} fill="${patternFor(s.hatchStyle, strokeOf(s))}" ${strokeAttrs(s, false)}/>`);
+      } else {
+          out.push(`<${element} fill="${fill}" ${strokeAttrs(s, false)}/>`);
+      }
+      return out;
+  };
+  const label = (text: string, x: number, y: number, angleDeg: number, size: number, color: string) =>
+      `<text x="${X(x)}" y="${Y(y)}" font-size="${f(size)}" font-family="serif" text-anchor="middle" dominant-baseline="middle" fill="${color}" stroke="#ffffff" stroke-width="${f(2 * SVG_PT)}" paint-order="stroke"${angleDeg ? ` transform="rotate(${angleDeg} ${pt(x, y)})"` : ''}>${escapeXml(text.replace(/\$/g, ''))}</text>`;
+  // Keeps labels upright like TikZ's `sloped`
+  const slopedAngle = (dx: number, dy: number) => { let a = -Math.atan2(dy, dx) * 180 / Math.PI; if (a > 90) a -= 180; if (a < -90) a += 180; return f(a); };
+
+  const toSvg = (s: Shape): string[] => {
+      const color = strokeOf(s);
+      switch (s.type) {
+          case 'line': return [`<path d="M ${pt(s.x1, s.y1)} L ${pt(s.x2, s.y2)}" fill="none" ${strokeAttrs(s, true)}/>`];
+          case 'rect': case 'round_rect': {
+              const lx = Math.min(s.x1, s.x2); const ty = Math.max(s.y1, s.y2);
+              const r = s.type === 'round_rect' ? ` rx="${f(s.cornerRadius ?? 0.5)}" ry="${f(s.cornerRadius ?? 0.5)}"` : '';
+              return filled(s, `rect x="${X(lx)}" y="${Y(ty)}" width="${f(Math.abs(s.x2 - s.x1))}" height="${f(Math.abs(s.y2 - s.y1))}"${r}`);
+          }
+          case 'circle': { const r = Math.sqrt(Math.pow(s.x2 - s.x1, 2) + Math.pow(s.y2 - s.y1, 2)); return filled(s, `circle cx="${X(s.x1)}" cy="${Y(s.y1)}" r="${f(r)}"`); }
+          case 'ellipse': return filled(s, `ellipse cx="${X(s.x1)}" cy="${Y(s.y1)}" rx="${f(Math.abs(s.x2 - s.x1))}" ry="${f(Math.abs(s.y2 - s.y1))}"`);
+          case 'arc': {
+              const geo = getArcGeometry(s);
+              if (isFullCircle(geo)) return [`<circle cx="${X(s.x1)}" cy="${Y(s.y1)}" r="${f(geo.radius)}" fill="none" ${strokeAttrs(s, false)}/>`];
+              const start = getArcPoint(geo, geo.startAngle); const end = getArcPoint(geo, geo.endAngle);
+              // Counter-clockwise in grid space is sweep-flag 0 once y is flipped
+              return [`<path d="M ${pt(start.x, start.y)} A ${f(geo.radius)} ${f(geo.radius)} 0 ${Math.abs(geo.sweep) > Math.PI ? 1 : 0} ${geo.sweep > 0 ? 0 : 1} ${pt(end.x, end.y)}" fill="none" ${strokeAttrs(s, true)}/>`];
+          }
+          case 'bezier': return [`<path d="M ${pt(s.x1, s.y1)} C ${pt(s.cx1 ?? s.x1, s.cy1 ?? s.y1)} ${pt(s.cx2 ?? s.x2, s.cy2 ?? s.y2)} ${pt(s.x2, s.y2)}" fill="none" ${strokeAttrs(s, true)}/>`];
+          case 'polygon': {
+              if (!s.points || s.points.length === 0) return [];
+              const d = s.points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${pt(p.x, p.y)}`).join(' ');
+              if (s.closed) return filled(s, `path d="${d} Z"`);
+              return [`<path d="${d}" fill="none" ${strokeAttrs(s, true)} stroke-linejoin="round"/>`];
+          }
+          case 'compound': {
+              const d = getContours(s).map(c => c.map((p, i) => `${i === 0 ? 'M' : 'L'} ${pt(p.x, p.y)}`).join(' ') + ' Z').join(' ');
+              return d ? filled(s, `path d="${d}"${needsEvenOdd(s) ? ' fill-rule="evenodd"' : ''}`) : [];
+          }
+          case 'freehand': {
+              if (!s.points || s.points.length === 0) return [];
+              const d = s.points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${pt(p.x, p.y)}`).join(' ');
+              if (s.fillColor && s.fillColor !== 'none') return filled(s, `path d="${d} Z"`);
+              return [`<path d="${d}" fill="none" ${strokeAttrs(s, false)} stroke-linejoin="round"/>`];
+          }
+          case 'text': {
+              const fill = isDefaultColor(s.strokeColor) ? '#000000' : color;
+              return [`<text x="${X(s.x1)}" y="${Y(s.y1)}" font-size="${f(10 * SVG_PT)}" font-family="serif" text-anchor="middle" dominant-baseline="middle" fill="${fill}">${escapeXml((s.text || 'Text').replace(/\$/g, ''))}</text>`];
+          }
+          case 'plot': {
+              const d = getPlotRuns(s).filter(run => run.length >= 2).map(run => run.map((p, i) => `${i === 0 ? 'M' : 'L'} ${pt(p.x, p.y)}`).join(' ')).join(' ');
+              return d ? [`<path d="${d}" fill="none" ${strokeAttrs(s, true)} stroke-linejoin="round"/>`] : [];
+          }
+          case 'point': {
+              const fill = isDefaultColor(s.strokeColor) ? '#000000' : color;
+              const dot = `<circle cx="${X(s.x1)}" cy="${Y(s.y1)}" r="${f(1.5 * SVG_PT)}" fill="${fill}"/>`;
+              if (!s.text) return [dot];
+              return [dot, `<text x="${X(s.x1 + 0.1)}" y="${Y(s.y1 + 0.1)}" font-size="${f(10 * SVG_PT)}" font-family="serif" font-style="italic" fill="${fill}">${escapeXml(s.text.replace(/\$/g, ''))}</text>`];
+          }
+          case 'measure_radius': {
+              const len = Math.sqrt(Math.pow(s.x2 - s.x1, 2) + Math.pow(s.y2 - s.y1, 2));
+              const text = s.text || String(f(len));
+              return [
+                  `<path d="M ${pt(s.x1, s.y1)} L ${pt(s.x2, s.y2)}" fill="none" ${strokeAttrs(s, true)}/>`,
+                  label(text, (s.x1 + s.x2) / 2, (s.y1 + s.y2) / 2, slopedAngle(s.x2 - s.x1, s.y2 - s.y1), 8 * SVG_PT, color),
+              ];
+          }
+          case 'measure': {
+              // Same construction as the TikZ exporter: witness lines plus an offset dimension line
+              const dx = s.x2 - s.x1; const dy = s.y2 - s.y1;
+              const len = Math.sqrt(dx * dx + dy * dy);
+              if (len === 0) return [];
+              const nx = -dy / len; const ny = dx / len;
+              let offsetDist = 0.1;
+              if (s.cx1 !== undefined && s.cy1 !== undefined) offsetDist = (s.cx1 - s.x1) * nx + (s.cy1 - s.y1) * ny;
+              const sign = offsetDist >= 0 ? 1 : -1;
+              const gap = 0.05 * sign; const overshoot = 0.2 * sign;
+              const thin = `stroke="${color}" stroke-width="${f(0.4 * SVG_PT)}"`;
+              const d1x = s.x1 + nx * offsetDist; const d1y = s.y1 + ny * offsetDist;
+              const d2x = s.x2 + nx * offsetDist; const d2y = s.y2 + ny * offsetDist;
+              return [
+                  `<path d="M ${pt(s.x1 + nx * gap, s.y1 + ny * gap)} L ${pt(s.x1 + nx * (offsetDist + overshoot), s.y1 + ny * (offsetDist + overshoot))}" fill="none" ${thin}/>`,
+                  `<path d="M ${pt(s.x2 + nx * gap, s.y2 + ny * gap)} L ${pt(s.x2 + nx * (offsetDist + overshoot), s.y2 + ny * (offsetDist + overshoot))}" fill="none" ${thin}/>`,
+                  `<path d="M ${pt(d1x, d1y)} L ${pt(d2x, d2y)}" fill="none" ${thin} marker-start="${markerFor(color)}" marker-end="${markerFor(color)}"/>`,
+                  label(s.text || String(f(len)), (d1x + d2x) / 2, (d1y + d2y) / 2, slopedAngle(dx, dy), 8 * SVG_PT, color),
+              ];
+          }
+          case 'brace': {
+              // Mirrors TikZ's brace decoration (amplitude 10pt, raise 4pt) on the left of the path direction
+              const dx = s.x2 - s.x1; const dy = s.y2 - s.y1;
+              const L = Math.sqrt(dx * dx + dy * dy);
+              if (L === 0) return [];
+              const ux = dx / L; const uy = dy / L; const nx = -uy; const ny = ux;
+              const a = SVG_BRACE_AMPLITUDE; const h = Math.min(a / 2, L / 4);
+              const P = (along: number, up: number) => pt(s.x1 + ux * along + nx * (SVG_BRACE_RAISE + up), s.y1 + uy * along + ny * (SVG_BRACE_RAISE + up));
+              const d = `M ${P(0, 0)} Q ${P(0, a / 2)} ${P(h, a / 2)} L ${P(L / 2 - h, a / 2)} Q ${P(L / 2, a / 2)} ${P(L / 2, a)} Q ${P(L / 2, a / 2)} ${P(L / 2 + h, a / 2)} L ${P(L - h, a / 2)} Q ${P(L, a / 2)} ${P(L, 0)}`;
+              return [`<path d="${d}" fill="none" ${strokeAttrs(s, false)}/>`];
+          }
+          case 'mark_angle': {
+              const geo = getAngleMarkGeometry(s);
+              const out: string[] = [];
+              if (geo.rightAngle) {
+                  const r = geo.radius;
+                  out.push(`<path d="M ${pt(s.x1 + r * geo.ux, s.y1 + r * geo.uy)} L ${pt(s.x1 + r * (geo.ux + geo.vx), s.y1 + r * (geo.uy + geo.vy))} L ${pt(s.x1 + r * geo.vx, s.y1 + r * geo.vy)}" fill="none" ${strokeAttrs(s, false)}/>`);
+              } else {
+                  const end = geo.startAngle + geo.sweep;
+                  getAngleMarkRadii(geo).forEach(r => out.push(`<path d="M ${pt(s.x1 + r * geo.ux, s.y1 + r * geo.uy)} A ${f(r)} ${f(r)} 0 ${geo.sweep > Math.PI ? 1 : 0} 0 ${pt(s.x1 + r * Math.cos(end), s.y1 + r * Math.sin(end))}" fill="none" ${strokeAttrs(s, false)}/>`));
+              }
+              if (s.text) out.push(label(s.text, geo.labelX, geo.labelY, 0, 10 * SVG_PT, color));
+              return out;
+          }
+          default: return [`<!-- ${s.type} not supported -->`];
+      }
+  };
+
+  const body: string[] = [];
+  const clips: string[] = [];
+  if (showGrid) {
+      const grid = options.grid ?? DEFAULT_GRID_SETTINGS;
+      const lines = getGridLines(grid, range); const rings = getGridRings(grid, range);
+      // Rings reach past the extent; a clip path keeps them inside
+      const clip = rings.length > 0 ? ` clip-path="url(#grid-clip)"` : '';
+      if (clip) clips.push(`    <clipPath id="grid-clip"><rect x="${X(range.minX)}" y="${Y(range.maxY)}" width="${f(range.maxX - range.minX)}" height="${f(range.maxY - range.minY)}"/></clipPath>`);
+      [true, false].forEach(minor => {
+          const d = [
+              ...lines.filter(l => l.minor === minor).map(l => `M ${pt(l.x1, l.y1)} L ${pt(l.x2, l.y2)}`),
+              ...rings.filter(r => r.minor === minor).map(r => `M ${pt(r.r, 0)} A ${f(r.r)} ${f(r.r)} 0 1 0 ${pt(-r.r, 0)} A ${f(r.r)} ${f(r.r)} 0 1 0 ${pt(r.r, 0)}`),
+          ];
+          if (d.length > 0) body.push(`  <path d="${d.join(' ')}" fill="none" stroke="${minor ? '#f2f2f2' : '#e6e6e6'}" stroke-width="${f(0.4 * SVG_PT)}"${clip}/>`);
+      });
+  }
+  if (showAxes) {
+      const { x0, x1, y0, y1 } = getAxesExtent(axes, bounds);
+      const marker = markerFor('#000000');
+      const axis = `fill="none" stroke="#000000" stroke-width="${f(0.8 * SVG_PT)}"${axes.arrow === 'both' ? ` marker-start="${marker}"` : ''}${axes.arrow !== 'none' ? ` marker-end="${marker}"` : ''}`;
+      const font = `font-size="${f(10 * SVG_PT)}" font-family="serif"`;
+      body.push(`  <path d="M ${pt(x0, 0)} L ${pt(x1, 0)}" ${axis}/>`);
+      body.push(`  <path d="M ${pt(0, y0)} L ${pt(0, y1)}" ${axis}/>`);
+      if (axes.xLabel) body.push(`  <text x="${X(x1 + 0.2)}" y="${Y(0)}" ${font} font-style="italic" dominant-baseline="middle">${escapeXml(getAxisLabelText(axes.xLabel))}</text>`);
+      if (axes.yLabel) body.push(`  <text x="${X(0)}" y="${Y(y1 + 0.2)}" ${font} font-style="italic" text-anchor="middle">${escapeXml(getAxisLabelText(axes.yLabel))}</text>`);
+      const xTicks = getAxisTicks(axes, 'x', x0, x1); const yTicks = getAxisTicks(axes, 'y', y0, y1);
+      const marks = [
+          ...xTicks.map(t => `M ${pt(t.value, 2 * SVG_PT)} L ${pt(t.value, -2 * SVG_PT)}`),
+          ...yTicks.map(t => `M ${pt(2 * SVG_PT, t.value)} L ${pt(-2 * SVG_PT, t.value)}`),
+          ...getMinorTicks(axes, 'x', x0, x1).map(x => `M ${pt(x, SVG_PT)} L ${pt(x, -SVG_PT)}`),
+          ...getMinorTicks(axes, 'y', y0, y1).map(y => `M ${pt(SVG_PT, y)} L ${pt(-SVG_PT, y)}`),
+      ];
+      if (marks.length > 0) body.push(`  <path d="${marks.join(' ')}" fill="none" stroke="#000000" stroke-width="${f(0.4 * SVG_PT)}"/>`);
+      if (axes.numbered) {
+          xTicks.forEach(t => body.push(`  <text x="${X(t.value)}" y="${Y(-4 * SVG_PT)}" ${font} text-anchor="middle" dominant-baseline="hanging">${escapeXml(t.text)}</text>`));
+          yTicks.forEach(t => body.push(`  <text x="${X(-4 * SVG_PT)}" y="${Y(t.value)}" ${font} text-anchor="end" dominant-baseline="middle">${escapeXml(t.text)}</text>`));
+      }
+      if (axes.originLabel) body.push(`  <text x="${X(-4 * SVG_PT)}" y="${Y(-4 * SVG_PT)}" ${font} font-style="italic" text-anchor="end" dominant-baseline="hanging">${escapeXml(getAxisLabelText(axes.originLabel))}</text>`);
+  }
+  const shapeLines = (s: Shape): string[] => {
+      const parts = toSvg(s);
+      const transform = rotationAttr(s);
+      if (transform && parts.length > 0) return [`  <g${transform}>`, ...parts.map(p => `    ${p}`), '  </g>'];
+      return parts.map(p => `  ${p}`);
+  };
+  if (sections) {
+      sections.forEach(sec => body.push(`  <g id="layer-${sec.pgfName}" data-name="${escapeXml(sec.layer.name)}">`, ...sec.shapes.flatMap(shapeLines).map(l => `  ${l}`), '  </g>'));
+  } else {
+      exportShapes.forEach(s => body.push(...shapeLines(s)));
+  }
+
+  // Margin matches the standalone class option used by the TikZ exports (3.14mm)
+  const m = 0.314 + 0.5;
+  const defs = [...clips, ...Array.from(markers.values()), ...Array.from(patterns.values())];
+  return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${f(width + 2 * m)}cm" height="${f(height + 2 * m)}cm" viewBox="${f(minX - m)} ${f(-maxY - m)} ${f(width + 2 * m)} ${f(height + 2 * m)}">`,
+      ...(defs.length > 0 ? ['  <defs>', ...defs, '  </defs>'] : []),
+      ...body,
+      '</svg>',
+  ].join('\n');
+};
+
+export const generateExport = (shapes: Shape[], mode: ExportMode, options: ExportOptions): string => {
+  if (mode === 'tkz-euclide') return generateTkzEuclide(shapes, options);
+  if (mode === 'luamplib') return generateLuamplib(shapes, options);
+  if (mode === 'pgfplots') return generatePgfplots(shapes, options);
+  return generateStandardTikz(shapes, options);
+};
@@ -0,0 +1,202 @@
+// Safe arithmetic for plots and numeric inputs: numbers, + - * / ^, parentheses, implicit
+// multiplication (2x, 3(x+1)), the constants pi (or π) and e, √ as a square root, single-argument
+// functions and whichever variables the caller allows. Sources are parsed into a tree and
+// interpreted; nothing is eval'd.
+
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string }
+  | { type: 'negate'; arg: ExpressionNode }
+  | { type: 'binary'; op: '+' | '-' | '*' | '/' | '^'; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; arg: ExpressionNode };
+
+const FUNCTIONS: Record<string, (v: number) => number> = {
+  sin: Math.sin, cos: Math.cos, tan: Math.tan,
+  asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  sinh: Math.sinh, cosh: Math.cosh, tanh: Math.tanh,
+  sqrt: Math.sqrt, abs: Math.abs, exp: Math.exp, ln: Math.log, log: Math.log10,
+  floor: Math.floor, ceil: Math.ceil,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, 'π': Math.PI, e: Math.E };
+
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+type Token = { kind: 'number'; value: number } | { kind: 'name'; name: string } | { kind: 'symbol'; symbol: string };
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const c = source[i];
+    if (/\s/.test(c)) { i++; continue; }
+    const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+    if (number) { tokens.push({ kind: 'number', value: Number(number[0]) }); i += number[0].length; continue; }
+    const name = /^[A-Za-z\u0370-\u03ff_][A-Za-z0-9\u0370-\u03ff_]*/.exec(source.slice(i));
+    if (name) { tokens.push({ kind: 'name', name: name[0] }); i += name[0].length; continue; }
+    if ('+-*/^()√'.includes(c)) { tokens.push({ kind: 'symbol', symbol: c }); i++; continue; }
+    throw new Error(`Unexpected "${c}" in "${source}"`);
+  }
+  return tokens;
+};
+
+// Parses source into a tree; names must be a function, pi, e or one of the allowed variables
+export const parseExpression = (source: string, variables: string[] = []): ExpressionNode => {
+  const tokens = tokenize(source);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const isSymbol = (symbol: string) => { const t = peek(); return t?.kind === 'symbol' && t.symbol === symbol; };
+  const expect = (symbol: string) => {
+    if (!isSymbol(symbol)) throw new Error(`Expected "${symbol}" in "${source}"`);
+    pos++;
+  };
+  // Whether the next token can start a factor, so "2x" and "(a)(b)" multiply
+  const startsFactor = () => { const t = peek(); return !!t && (t.kind !== 'symbol' || t.symbol === '(' || t.symbol === '√'); };
+
+  const parseSum = (): ExpressionNode => {
+    let node = parseProduct();
+    while (isSymbol('+') || isSymbol('-')) {
+      const op = (tokens[pos++] as { symbol: '+' | '-' }).symbol;
+      node = { type: 'binary', op, left: node, right: parseProduct() };
+    }
+    return node;
+  };
+  const parseProduct = (): ExpressionNode => {
+    let node = parseUnary();
+    for (;;) {
+      if (isSymbol('*') || isSymbol('/')) {
+        const op = (tokens[pos++] as { symbol: '*' | '/' }).symbol;
+        node = { type: 'binary', op, left: node, right: parseUnary() };
+      } else if (startsFactor()) {
+        node = { type: 'binary', op: '*', left: node, right: parsePower() };
+      } else return node;
+    }
+  };
+  // -x^2 is -(x^2), as in written maths
+  const parseUnary = (): ExpressionNode => {
+    if (isSymbol('-')) { pos++; return { type: 'negate', arg: parseUnary() }; }
+    if (isSymbol('+')) { pos++; return parseUnary(); }
+    return parsePower();
+  };
+  // Right associative, and the exponent may carry its own sign: 2^-x
+  const parsePower = (): ExpressionNode => {
+    const base = parsePrimary();
+    if (!isSymbol('^')) return base;
+    pos++;
+    return { type: 'binary', op: '^', left: base, right: parseUnary() };
+  };
+  const parsePrimary = (): ExpressionNode => {
+    const t = peek();
+    if (!t) throw new Error(`Unexpected end of "${source}"`);
+    pos++;
+    if (t.kind === 'number') return { type: 'number', value: t.value };
+    if (t.kind === 'symbol') {
+      // √2, √(x+1): the root of the next number, name or bracket only, so √2^3 is (√2)^3
+      if (t.symbol === '√') return { type: 'call', name: 'sqrt', arg: parsePrimary() };
+      if (t.symbol !== '(') throw new Error(`Unexpected "${t.symbol}" in "${source}"`);
+      const inner = parseSum();
+      expect(')');
+      return inner;
+    }
+    if (Object.prototype.hasOwnProperty.call(FUNCTIONS, t.name)) {
+      if (!isSymbol('(')) throw new Error(`${t.name} needs parentheses, e.g. ${t.name}(x)`);
+      pos++;
+      const arg = parseSum();
+      expect(')');
+      return { type: 'call', name: t.name, arg };
+    }
+    if (variables.includes(t.name)) return { type: 'variable', name: t.name };
+    if (Object.prototype.hasOwnProperty.call(CONSTANTS, t.name)) return { type: 'number', value: CONSTANTS[t.name] };
+    throw new Error(`Unknown name "${t.name}"${variables.length ? `; use ${variables.join(' or ')}` : ''}`);
+  };
+
+  if (tokens.length === 0) throw new Error('Enter an expression');
+  const tree = parseSum();
+  if (pos < tokens.length) throw new Error(`Unexpected "${(peek() as { symbol: string }).symbol}" in "${source}"`);
+  return tree;
+};
+
+export const evaluateExpression = (node: ExpressionNode, scope: Record<string, number> = {}): number => {
+  switch (node.type) {
+    case 'number': return node.value;
+    case 'variable': return scope[node.name] ?? NaN;
+    case 'negate': return -evaluateExpression(node.arg, scope);
+    case 'call': return FUNCTIONS[node.name](evaluateExpression(node.arg, scope));
+    case 'binary': {
+      const a = evaluateExpression(node.left, scope); const b = evaluateExpression(node.right, scope);
+      switch (node.op) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        case '^': return Math.pow(a, b);
+      }
+    }
+  }
+};
+
+// A constant expression typed into a numeric field, e.g. "sqrt(2)" or "2*pi"; throws when invalid
+export const evaluateNumber = (source: string): number => {
+  const value = evaluateExpression(parseExpression(source));
+  if (!isFinite(value)) throw new Error(`"${source}" is not a finite number`);
+  return value;
+};
+
+// pgfmath works in degrees for trigonometry and names the decimal logarithm log10
+const PGF_CALLS: Record<string, (arg: string) => string> = {
+  sin: a => `sin(deg(${a}))`, cos: a => `cos(deg(${a}))`, tan: a => `tan(deg(${a}))`,
+  asin: a => `rad(asin(${a}))`, acos: a => `rad(acos(${a}))`, atan: a => `rad(atan(${a}))`,
+  log: a => `log10(${a})`,
+};
+
+const PRECEDENCE = { '+': 1, '-': 1, '*': 2, '/': 2, '^': 4 } as const;
+
+// The tree as a pgfmath expression, renaming variables (e.g. x -> \x); numbers keep 3 decimals
+export const toPgfMath = (node: ExpressionNode, names: Record<string, string> = {}): string => {
+  const num = (v: number) => v === Math.PI ? 'pi' : v === Math.E ? 'exp(1)' : String(Math.round(v * 1000) / 1000);
+  // Minimum parentheses from precedence, except around a negation and anything it applies to:
+  // pgfmath binds a leading minus tighter than ^, so -2^2 would come out as 4
+  const emit = (n: ExpressionNode, parent: number): string => {
+    switch (n.type) {
+      case 'number': return num(n.value);
+      // A plot variable expands to its value, sign included, so it is bracketed under ^ and minus
+      case 'variable': { const name = names[n.name] ?? n.name; return parent >= 5 ? `(${name})` : name; }
+      case 'negate': return `(-${emit(n.arg, 5)})`;
+      case 'call': { const arg = emit(n.arg, 0); return PGF_CALLS[n.name]?.(arg) ?? `${n.name}(${arg})`; }
+      case 'binary': {
+        const p = PRECEDENCE[n.op];
+        // Left associative operators need brackets on the right at equal precedence; ^ on the left
+        const left = emit(n.left, n.op === '^' ? 5 : p);
+        const right = emit(n.right, n.op === '^' ? 5 : p + 0.5);
+        const text = `${left}${n.op === '*' || n.op === '/' || n.op === '^' ? n.op : ` ${n.op} `}${right}`;
+        return p < parent ? `(${text})` : text;
+      }
+    }
+  };
+  return emit(node, 0);
+};
+
+// Removes the call to `name` that opens at `at`, keeping its argument
+const unwrapCall = (text: string, at: number, name: string) => {
+  let depth = 0;
+  for (let i = at + name.length; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')' && --depth === 0) return text.slice(0, at) + text.slice(at + name.length + 1, i) + text.slice(i + 1);
+  }
+  return text;
+};
+
+// A pgfmath expression as written by toPgfMath, back in this syntax: the degree conversions around
+// trigonometry come off, log10 is log again and each macro in `names` (e.g. \x) becomes its name
+export const fromPgfMath = (source: string, names: Record<string, string> = {}): string => {
+  let text = source;
+  for (let m; (m = /\b(?:sin|cos|tan)\(deg\(/.exec(text));) text = unwrapCall(text, m.index + m[0].length - 4, 'deg');
+  for (let m; (m = /\brad\(a(?:sin|cos|tan)\(/.exec(text));) text = unwrapCall(text, m.index, 'rad');
+  text = text.replace(/\blog10\(/g, 'log(').replace(/\bexp\(1\)/g, 'e');
+  Object.entries(names).forEach(([macro, name]) => {
+    const escaped = macro.replace(/\\/g, '\\\\');
+    // A variable is bracketed wherever its sign could bind wrongly in pgfmath; here it never can
+    text = text.replace(new RegExp(`(?<![\\w)])\\(${escaped}\\)`, 'g'), name).replace(new RegExp(escaped + '(?![A-Za-z])', 'g'), name);
+  });
+  return text;
+};
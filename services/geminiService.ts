@@ -1,4 +1,5 @@
 import { GoogleGenAI, Chat, GenerateContentResponse, Content } from "@google/genai";
+import { ExportMode } from "./exportGenerators";
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
 
@@ -33,7 +34,7 @@ Rules:
 // Helper function for delay
 const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-export const createChatSession = (modelId: string, exportMode: 'standard' | 'tkz-euclide' | 'luamplib', history?: Content[]): Chat => {
+export const createChatSession = (modelId: string, exportMode: ExportMode, history?: Content[]): Chat => {
   let packageInstruction = "Always include \\usepackage{tikz}.";
   
   // Default rule for Standard TikZ
@@ -58,6 +59,14 @@ export const createChatSession = (modelId: string, exportMode: 'standard' | 'tkz
    - Begin the figure with 'beginfig(1);' and end with 'endfig;'.
    - Use MetaPost syntax (e.g., 'draw (0,0)--(10,10);').
    - Convert coordinate units appropriately (e.g., 'u:=1cm;').`;
+  } else if (exportMode === 'pgfplots') {
+    packageInstruction = "Always include \\usepackage{pgfplots} followed by \\pgfplotsset{compat=1.18}.";
+    documentationRule = `9. **OFFICIAL REFERENCE & SYNTAX (PGFPLOTS):**
+   - STRICTLY FOLLOW the pgfplots manual at: https://ctan.org/pkg/pgfplots
+   - Keep everything inside the single \\begin{axis} ... \\end{axis} environment of the input, with its limits, ticks, labels and 'axis equal image' option.
+   - Coordinates inside the axis are axis units (axis cs); do not rescale them.
+   - Use \\addplot for functions and coordinate lists, and plain \\draw for other geometry.
+   - Do not use \\foreach inside the axis; use \\pgfplotsinvokeforeach if a loop is needed.`;
   }
 
   const systemInstruction = BASE_SYSTEM_INSTRUCTION
@@ -0,0 +1,190 @@
+import { Point } from '../components/CartesianCanvas';
+
+// Background grid shared by the editor canvas, snapping and every exporter. The grid is laid
+// out from the origin in one of three modes: rectangular cells with their own x and y spacing,
+// polar rings and rays, or isometric (triangular) lines at 0°, 60° and 120°. Subdivisions add
+// fainter minor lines inside each cell. Points snap to half the finest cell (so the default
+// square grid keeps its half-unit snap); polar snapping rounds the angle to the finest ray.
+
+export type GridMode = 'rectangular' | 'polar' | 'isometric';
+
+export interface GridSettings {
+  mode: GridMode;
+  // Rectangular cell size
+  xSpacing: number;
+  ySpacing: number;
+  // Polar distance between rings and number of major rays around the origin
+  ringSpacing: number;
+  rays: number;
+  // Isometric triangle side
+  isoSpacing: number;
+  // Minor divisions per cell (and per ray sector); 1 for none
+  subdivisions: number;
+}
+
+export const DEFAULT_GRID_SETTINGS: GridSettings = {
+  mode: 'rectangular', xSpacing: 1, ySpacing: 1, ringSpacing: 1, rays: 12, isoSpacing: 1, subdivisions: 1,
+};
+
+export const GRID_MODES: GridMode[] = ['rectangular', 'polar', 'isometric'];
+
+export const GRID_MODE_LABELS: Record<GridMode, string> = {
+  rectangular: 'Rectangular',
+  polar: 'Polar',
+  isometric: 'Isometric',
+};
+
+export interface GridExtent {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+export interface GridLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  minor: boolean;
+}
+
+export interface GridRing {
+  r: number;
+  minor: boolean;
+}
+
+// Families needing more lines than this are left out, so a tiny spacing cannot hang the editor
+const MAX_LINES = 2000;
+
+const SQRT3 = Math.sqrt(3);
+
+// Whether the settings draw the plain square grid every export has always had
+export const isDefaultGrid = (grid: GridSettings) =>
+  grid.mode === 'rectangular' && grid.xSpacing === 1 && grid.ySpacing === 1 && grid.subdivisions <= 1;
+
+// Smallest major cell dimension
+export const getGridCellSize = (grid: GridSettings) =>
+  grid.mode === 'rectangular' ? Math.min(grid.xSpacing, grid.ySpacing) : grid.mode === 'polar' ? grid.ringSpacing : grid.isoSpacing * SQRT3 / 2;
+
+const divisions = (grid: GridSettings) => Math.max(1, Math.round(grid.subdivisions));
+
+// Multiples of spacing / n within [min, max], every n-th one major
+const getLineValues = (spacing: number, n: number, min: number, max: number): { value: number; minor: boolean }[] => {
+  const step = spacing / n;
+  if (!(step > 0) || (max - min) / step > MAX_LINES) return [];
+  const values: { value: number; minor: boolean }[] = [];
+  for (let i = Math.ceil(min / step - 1e-9); i <= Math.floor(max / step + 1e-9); i++) values.push({ value: i * step, minor: i % n !== 0 });
+  return values;
+};
+
+// The part of the line p + t·d inside the extent, with t limited to [t0, t1]; null if it misses
+const clipLine = (p: Point, d: Point, extent: GridExtent, t0 = -Infinity, t1 = Infinity): [Point, Point] | null => {
+  const slabs: [number, number, number, number][] = [[p.x, d.x, extent.minX, extent.maxX], [p.y, d.y, extent.minY, extent.maxY]];
+  for (const [p0, d0, lo, hi] of slabs) {
+    if (Math.abs(d0) < 1e-12) { if (p0 < lo - 1e-9 || p0 > hi + 1e-9) return null; continue; }
+    const a = (lo - p0) / d0; const b = (hi - p0) / d0;
+    t0 = Math.max(t0, Math.min(a, b)); t1 = Math.min(t1, Math.max(a, b));
+  }
+  if (t0 >= t1) return null;
+  return [{ x: p.x + d.x * t0, y: p.y + d.y * t0 }, { x: p.x + d.x * t1, y: p.y + d.y * t1 }];
+};
+
+// Furthest corner of the extent from the origin
+const getOuterRadius = (extent: GridExtent) =>
+  Math.max(...[[extent.minX, extent.minY], [extent.maxX, extent.minY], [extent.minX, extent.maxY], [extent.maxX, extent.maxY]].map(([x, y]) => Math.hypot(x, y)));
+
+// Nearest point of the extent to the origin
+const getInnerRadius = (extent: GridExtent) =>
+  Math.hypot(Math.max(extent.minX, 0, -extent.maxX), Math.max(extent.minY, 0, -extent.maxY));
+
+// Ray directions in degrees, every n-th one major
+export const getGridRayAngles = (grid: GridSettings): { angle: number; minor: boolean }[] => {
+  const n = divisions(grid);
+  const count = Math.max(1, Math.round(grid.rays)) * n;
+  if (count > MAX_LINES) return [];
+  return Array.from({ length: count }, (_, i) => ({ angle: 360 * i / count, minor: i % n !== 0 }));
+};
+
+// Straight grid lines clipped to the extent: rows and columns, isometric lines or polar rays
+export const getGridLines = (grid: GridSettings, extent: GridExtent): GridLine[] => {
+  const n = divisions(grid);
+  const lines: GridLine[] = [];
+  const add = (segment: [Point, Point] | null, minor: boolean) => {
+    if (segment) lines.push({ x1: segment[0].x, y1: segment[0].y, x2: segment[1].x, y2: segment[1].y, minor });
+  };
+  if (grid.mode === 'rectangular') {
+    getLineValues(grid.xSpacing, n, extent.minX, extent.maxX).forEach(({ value, minor }) => lines.push({ x1: value, y1: extent.minY, x2: value, y2: extent.maxY, minor }));
+    getLineValues(grid.ySpacing, n, extent.minY, extent.maxY).forEach(({ value, minor }) => lines.push({ x1: extent.minX, y1: value, x2: extent.maxX, y2: value, minor }));
+  } else if (grid.mode === 'isometric') {
+    // Rows at multiples of the triangle height; the slanted lines x ∓ y/√3 = c cross the x axis
+    // at multiples of the side
+    getLineValues(grid.isoSpacing * SQRT3 / 2, n, extent.minY, extent.maxY).forEach(({ value, minor }) => lines.push({ x1: extent.minX, y1: value, x2: extent.maxX, y2: value, minor }));
+    getLineValues(grid.isoSpacing, n, extent.minX - extent.maxY / SQRT3, extent.maxX - extent.minY / SQRT3)
+      .forEach(({ value, minor }) => add(clipLine({ x: value, y: 0 }, { x: 0.5, y: SQRT3 / 2 }, extent), minor));
+    getLineValues(grid.isoSpacing, n, extent.minX + extent.minY / SQRT3, extent.maxX + extent.maxY / SQRT3)
+      .forEach(({ value, minor }) => add(clipLine({ x: value, y: 0 }, { x: -0.5, y: SQRT3 / 2 }, extent), minor));
+  } else {
+    const outer = getOuterRadius(extent);
+    getGridRayAngles(grid).forEach(({ angle, minor }) => {
+      const a = angle * Math.PI / 180;
+      add(clipLine({ x: 0, y: 0 }, { x: Math.cos(a), y: Math.sin(a) }, extent, 0, outer), minor);
+    });
+  }
+  return lines;
+};
+
+// Polar rings centred on the origin that cross the extent; none in the other modes
+export const getGridRings = (grid: GridSettings, extent: GridExtent): GridRing[] => {
+  if (grid.mode !== 'polar') return [];
+  return getLineValues(grid.ringSpacing, divisions(grid), getInnerRadius(extent), getOuterRadius(extent))
+    .filter(({ value }) => value > 1e-9)
+    .map(({ value, minor }) => ({ r: value, minor }));
+};
+
+// Nearest snapping position for a point in grid space
+export const snapToGrid = (p: Point, grid: GridSettings): Point => {
+  const n = divisions(grid);
+  if (grid.mode === 'rectangular') {
+    const sx = grid.xSpacing / n / 2; const sy = grid.ySpacing / n / 2;
+    return { x: Math.round(p.x / sx) * sx, y: Math.round(p.y / sy) * sy };
+  }
+  if (grid.mode === 'polar') {
+    const rStep = grid.ringSpacing / n / 2;
+    const aStep = 2 * Math.PI / (Math.max(1, Math.round(grid.rays)) * n);
+    const r = Math.round(Math.hypot(p.x, p.y) / rStep) * rStep;
+    const a = Math.round(Math.atan2(p.y, p.x) / aStep) * aStep;
+    return { x: r * Math.cos(a), y: r * Math.sin(a) };
+  }
+  // Triangular lattice spanned by (s, 0) and (s/2, s·√3/2): try the four lattice points around
+  // the point's lattice coordinates and keep the nearest
+  const s = grid.isoSpacing / n / 2;
+  const j = p.y / (s * SQRT3 / 2);
+  const i = p.x / s - j / 2;
+  let best = p; let bestDistance = Infinity;
+  for (const ci of [Math.floor(i), Math.ceil(i)]) {
+    for (const cj of [Math.floor(j), Math.ceil(j)]) {
+      const q = { x: (ci + cj / 2) * s, y: cj * s * SQRT3 / 2 };
+      const d = Math.hypot(q.x - p.x, q.y - p.y);
+      if (d < bestDistance) { best = q; bestDistance = d; }
+    }
+  }
+  return best;
+};
+
+const isPositive = (v: any): v is number => typeof v === 'number' && isFinite(v) && v > 0;
+
+// Settings from a saved file, falling back to the defaults for anything missing or malformed
+export const normalizeGridSettings = (raw: any): GridSettings => {
+  const d = DEFAULT_GRID_SETTINGS;
+  if (!raw || typeof raw !== 'object') return d;
+  return {
+    mode: GRID_MODES.includes(raw.mode) ? raw.mode : d.mode,
+    xSpacing: isPositive(raw.xSpacing) ? raw.xSpacing : d.xSpacing,
+    ySpacing: isPositive(raw.ySpacing) ? raw.ySpacing : d.ySpacing,
+    ringSpacing: isPositive(raw.ringSpacing) ? raw.ringSpacing : d.ringSpacing,
+    rays: isPositive(raw.rays) ? Math.max(1, Math.round(raw.rays)) : d.rays,
+    isoSpacing: isPositive(raw.isoSpacing) ? raw.isoSpacing : d.isoSpacing,
+    subdivisions: isPositive(raw.subdivisions) ? Math.max(1, Math.round(raw.subdivisions)) : d.subdivisions,
+  };
+};
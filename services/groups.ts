@@ -0,0 +1,53 @@
+import { Shape } from '../components/CartesianCanvas';
+
+// Groups live on their members: Shape.groupIds lists the enclosing groups, outermost first.
+// That keeps them in undo history and project files without a separate table to sync.
+
+const newGroupId = () => 'g' + Math.random().toString(36).substr(2, 9);
+
+export const getTopGroupId = (shape: Shape): string | undefined => shape.groupIds?.[0];
+
+// The shape itself, or every member of its outermost group
+export const getGroupMemberIds = (shapes: Shape[], id: string): string[] => {
+  const shape = shapes.find(s => s.id === id);
+  const groupId = shape && getTopGroupId(shape);
+  if (!groupId) return [id];
+  return shapes.filter(s => getTopGroupId(s) === groupId).map(s => s.id);
+};
+
+export const expandToGroups = (ids: Set<string>, shapes: Shape[]): Set<string> => {
+  const groupIds = new Set(shapes.filter(s => ids.has(s.id)).map(getTopGroupId).filter((g): g is string => !!g));
+  if (groupIds.size === 0) return ids;
+  const expanded = new Set(ids);
+  shapes.forEach(s => { const g = getTopGroupId(s); if (g && groupIds.has(g)) expanded.add(s.id); });
+  return expanded;
+};
+
+// Number of independent units (loose shapes or outermost groups) in a selection
+export const countSelectionUnits = (ids: Set<string>, shapes: Shape[]): number => {
+  const units = new Set<string>();
+  shapes.forEach(s => { if (ids.has(s.id)) units.add(getTopGroupId(s) ?? s.id); });
+  return units.size;
+};
+
+// Wraps the selected units in a new outermost group; existing groups become nested ones
+export const groupShapes = (shapes: Shape[], ids: Set<string>): Shape[] => {
+  const groupId = newGroupId();
+  return shapes.map(s => ids.has(s.id) ? { ...s, groupIds: [groupId, ...(s.groupIds || [])] } : s);
+};
+
+// Dissolves the outermost group of each selected shape, leaving nested groups intact
+export const ungroupShapes = (shapes: Shape[], ids: Set<string>): Shape[] => {
+  return shapes.map(s => {
+    if (!ids.has(s.id) || !s.groupIds?.length) return s;
+    const { groupIds, ...rest } = s;
+    return groupIds.length > 1 ? { ...rest, groupIds: groupIds.slice(1) } : rest;
+  });
+};
+
+// Copies made in one operation form their own groups instead of joining the originals'
+export const remapGroupIds = (copies: Shape[]): Shape[] => {
+  const mapping = new Map<string, string>();
+  const remap = (id: string) => { if (!mapping.has(id)) mapping.set(id, newGroupId()); return mapping.get(id)!; };
+  return copies.map(s => s.groupIds?.length ? { ...s, groupIds: s.groupIds.map(remap) } : s);
+};
@@ -0,0 +1,312 @@
+import { Shape } from '../components/CartesianCanvas';
+import { Viewport, GridStyle, BACKGROUND_COLOR, EDITOR_GRID_STYLE, drawGrid, drawShape, getShapesBounds } from '../components/canvasRenderer';
+import { AxesSettings, DEFAULT_AXES_SETTINGS } from './axes';
+import { GridSettings, DEFAULT_GRID_SETTINGS } from './grid';
+
+// Offscreen rendering of a drawing to PNG or PDF, reusing the editor's drawShape routine without any editor chrome.
+
+export type ImageBackground = 'editor' | 'white' | 'transparent';
+
+export interface ImageBounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+export interface ImageExportOptions {
+  dpi: number;
+  bounds: ImageBounds;
+  showGrid: boolean;
+  showAxes: boolean;
+  axes?: AxesSettings;
+  grid?: GridSettings;
+  background: ImageBackground;
+}
+
+const CM_PER_INCH = 2.54;
+const PT_PER_INCH = 72;
+// Browsers refuse canvases much larger than this; keep exports well inside the limit
+const MAX_CANVAS_PIXELS = 8192 * 8192;
+// Pixels per grid unit at the editor's default zoom; line widths, arrows and fonts keep their on-screen proportions
+const REFERENCE_SCALE = 30;
+
+const LIGHT_GRID_STYLE: Omit<GridStyle, 'showGrid' | 'showAxes'> = { gridColor: '#e2e8f0', axisColor: '#475569', labelColor: '#64748b' };
+// Colors the editor uses as "default ink"; on a light page they print black, as in the TikZ export
+const EDITOR_INK_COLORS = ['#facc15', '#94a3b8', '#e2e8f0'];
+
+// Content bounds of the drawing plus a margin, in grid units (1 unit = 1cm)
+export const getContentBounds = (shapes: Shape[], margin: number = 0.5): ImageBounds => {
+  const b = getShapesBounds(shapes) || { minX: -5, maxX: 5, minY: -5, maxY: 5 };
+  return { minX: b.minX - margin, maxX: b.maxX + margin, minY: b.minY - margin, maxY: b.maxY + margin };
+};
+
+const backgroundFill = (background: ImageBackground) => background === 'editor' ? BACKGROUND_COLOR : background === 'white' ? '#ffffff' : null;
+
+// Shapes as they should appear on the chosen background; guides are editor-only and dropped
+const printableShapes = (shapes: Shape[], background: ImageBackground): Shape[] => {
+  const visible = shapes.filter(s => !s.isGuide);
+  if (background === 'editor') return visible;
+  return visible.map(s => {
+    const ink = !s.strokeColor || EDITOR_INK_COLORS.includes(s.strokeColor.toLowerCase());
+    return ink ? { ...s, strokeColor: '#000000' } : s;
+  });
+};
+
+// Renders onto any context that behaves like a 2D canvas, with 1 grid unit = unitSize device units
+const renderDrawing = (ctx: CanvasRenderingContext2D, shapes: Shape[], options: ImageExportOptions, unitSize: number) => {
+  const { bounds, background } = options;
+  const view: Viewport = {
+    width: (bounds.maxX - bounds.minX) * REFERENCE_SCALE,
+    height: (bounds.maxY - bounds.minY) * REFERENCE_SCALE,
+    scale: REFERENCE_SCALE,
+    offset: { x: -(bounds.minX + bounds.maxX) / 2 * REFERENCE_SCALE, y: (bounds.minY + bounds.maxY) / 2 * REFERENCE_SCALE },
+  };
+  ctx.scale(unitSize / REFERENCE_SCALE, unitSize / REFERENCE_SCALE);
+  const fill = backgroundFill(background);
+  if (fill) { ctx.fillStyle = fill; ctx.fillRect(0, 0, view.width, view.height); }
+  if (options.showGrid || options.showAxes) {
+    const palette = background === 'editor' ? EDITOR_GRID_STYLE : LIGHT_GRID_STYLE;
+    drawGrid(ctx, view, { ...palette, showGrid: options.showGrid, showAxes: options.showAxes }, options.axes ?? DEFAULT_AXES_SETTINGS, options.grid ?? DEFAULT_GRID_SETTINGS);
+  }
+  const labelBackground = fill || '#ffffff';
+  printableShapes(shapes, background).forEach(shape => drawShape(ctx, shape, view, { backgroundColor: labelBackground }));
+};
+
+export const getPixelSize = (options: ImageExportOptions) => {
+  const pxPerUnit = options.dpi / CM_PER_INCH;
+  return {
+    width: Math.max(1, Math.round((options.bounds.maxX - options.bounds.minX) * pxPerUnit)),
+    height: Math.max(1, Math.round((options.bounds.maxY - options.bounds.minY) * pxPerUnit)),
+  };
+};
+
+export const renderPng = (shapes: Shape[], options: ImageExportOptions): Promise<Blob> => {
+  const { width, height } = getPixelSize(options);
+  if (width * height > MAX_CANVAS_PIXELS) return Promise.reject(new Error(`The image would be ${width}×${height} pixels. Lower the DPI or shrink the bounding box.`));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas rendering is not available in this browser.'));
+  renderDrawing(ctx, shapes, options, options.dpi / CM_PER_INCH);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the PNG image.')), 'image/png');
+  });
+};
+
+// --- Vector PDF ---
+
+type Matrix = [number, number, number, number, number, number];
+
+interface PdfState {
+  matrix: Matrix;
+  strokeStyle: string;
+  fillStyle: string;
+  lineWidth: number;
+  lineDash: number[];
+  globalAlpha: number;
+  font: string;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+}
+
+const pdfNum = (n: number) => {
+  const r = Math.round(n * 1000) / 1000;
+  return Object.is(r, -0) ? '0' : String(r);
+};
+
+const parseColor = (color: string): { rgb: [number, number, number], alpha: number } => {
+  const c = color.trim().toLowerCase();
+  let m = /^#([0-9a-f]{3})$/.exec(c);
+  if (m) return { rgb: [0, 1, 2].map(i => parseInt(m![1][i] + m![1][i], 16) / 255) as [number, number, number], alpha: 1 };
+  m = /^#([0-9a-f]{6})$/.exec(c);
+  if (m) return { rgb: [0, 2, 4].map(i => parseInt(m![1].slice(i, i + 2), 16) / 255) as [number, number, number], alpha: 1 };
+  m = /^rgba?\(([^)]*)\)$/.exec(c);
+  if (m) {
+    const parts = m[1].split(',').map(v => parseFloat(v));
+    return { rgb: [parts[0] / 255, parts[1] / 255, parts[2] / 255], alpha: parts.length > 3 ? parts[3] : 1 };
+  }
+  if (c === 'white') return { rgb: [1, 1, 1], alpha: 1 };
+  return { rgb: [0, 0, 0], alpha: 1 };
+};
+
+// Standard 14 Helvetica has no embedded metrics here; an average advance keeps label boxes roughly right
+const HELVETICA_AVG_ADVANCE = 0.55;
+
+/**
+ * Records the subset of CanvasRenderingContext2D that drawGrid/drawShape use and
+ * turns it into a PDF content stream. Coordinates are transformed eagerly, so the
+ * stream never needs `cm` and the page space is canvas space flipped vertically.
+ */
+class PdfContext {
+  private ops: string[] = [];
+  private path: string[] = [];
+  private stack: PdfState[] = [];
+  private alphaStates = new Map<string, string>();
+  private state: PdfState = {
+    matrix: [1, 0, 0, 1, 0, 0], strokeStyle: '#000000', fillStyle: '#000000', lineWidth: 1, lineDash: [],
+    globalAlpha: 1, font: '10px sans-serif', textAlign: 'start', textBaseline: 'alphabetic',
+  };
+
+  // Canvas-only effects with no PDF counterpart are accepted and ignored
+  shadowColor = 'transparent';
+  shadowBlur = 0;
+
+  constructor(private pageHeight: number) {}
+
+  get strokeStyle() { return this.state.strokeStyle; }
+  set strokeStyle(v: string) { this.state.strokeStyle = v; }
+  get fillStyle() { return this.state.fillStyle; }
+  set fillStyle(v: string) { this.state.fillStyle = v; }
+  get lineWidth() { return this.state.lineWidth; }
+  set lineWidth(v: number) { this.state.lineWidth = v; }
+  get globalAlpha() { return this.state.globalAlpha; }
+  set globalAlpha(v: number) { this.state.globalAlpha = v; }
+  get font() { return this.state.font; }
+  set font(v: string) { this.state.font = v; }
+  get textAlign() { return this.state.textAlign; }
+  set textAlign(v: CanvasTextAlign) { this.state.textAlign = v; }
+  get textBaseline() { return this.state.textBaseline; }
+  set textBaseline(v: CanvasTextBaseline) { this.state.textBaseline = v; }
+
+  get extGStates() { return this.alphaStates; }
+  get content() { return this.ops.join('\n'); }
+
+  save() { this.stack.push({ ...this.state, lineDash: [...this.state.lineDash] }); this.ops.push('q'); }
+  restore() { const prev = this.stack.pop(); if (prev) { this.state = prev; this.ops.push('Q'); } }
+
+  scale(sx: number, sy: number) { this.transform(sx, 0, 0, sy, 0, 0); }
+  translate(x: number, y: number) { this.transform(1, 0, 0, 1, x, y); }
+  rotate(angle: number) { const c = Math.cos(angle), s = Math.sin(angle); this.transform(c, s, -s, c, 0, 0); }
+  private transform(a: number, b: number, c: number, d: number, e: number, f: number) {
+    const [m0, m1, m2, m3, m4, m5] = this.state.matrix;
+    this.state.matrix = [m0 * a + m2 * b, m1 * a + m3 * b, m0 * c + m2 * d, m1 * c + m3 * d, m0 * e + m2 * f + m4, m1 * e + m3 * f + m5];
+  }
+  private toPage(x: number, y: number): string {
+    const [a, b, c, d, e, f] = this.state.matrix;
+    return `${pdfNum(a * x + c * y + e)} ${pdfNum(this.pageHeight - (b * x + d * y + f))}`;
+  }
+
+  setLineDash(segments: number[]) { this.state.lineDash = [...segments]; }
+  getLineDash() { return [...this.state.lineDash]; }
+
+  beginPath() { this.path = []; }
+  moveTo(x: number, y: number) { this.path.push(`${this.toPage(x, y)} m`); }
+  lineTo(x: number, y: number) { this.path.push(`${this.toPage(x, y)} l`); }
+  bezierCurveTo(c1x: number, c1y: number, c2x: number, c2y: number, x: number, y: number) {
+    this.path.push(`${this.toPage(c1x, c1y)} ${this.toPage(c2x, c2y)} ${this.toPage(x, y)} c`);
+  }
+  closePath() { this.path.push('h'); }
+  rect(x: number, y: number, w: number, h: number) {
+    this.moveTo(x, y); this.lineTo(x + w, y); this.lineTo(x + w, y + h); this.lineTo(x, y + h); this.closePath();
+  }
+  roundRect(x: number, y: number, w: number, h: number, radius: number) {
+    const r = Math.max(0, Math.min(radius, Math.abs(w) / 2, Math.abs(h) / 2));
+    this.moveTo(x + r, y);
+    this.lineTo(x + w - r, y); this.arc(x + w - r, y + r, r, -Math.PI / 2, 0);
+    this.lineTo(x + w, y + h - r); this.arc(x + w - r, y + h - r, r, 0, Math.PI / 2);
+    this.lineTo(x + r, y + h); this.arc(x + r, y + h - r, r, Math.PI / 2, Math.PI);
+    this.lineTo(x, y + r); this.arc(x + r, y + r, r, Math.PI, 1.5 * Math.PI);
+    this.closePath();
+  }
+  arc(cx: number, cy: number, r: number, start: number, end: number, counterclockwise = false) {
+    this.ellipse(cx, cy, r, r, 0, start, end, counterclockwise);
+  }
+  ellipse(cx: number, cy: number, rx: number, ry: number, rotation: number, start: number, end: number, counterclockwise = false) {
+    let sweep = end - start;
+    if (!counterclockwise && sweep < 0) sweep = sweep % (2 * Math.PI) + 2 * Math.PI;
+    if (counterclockwise && sweep > 0) sweep = sweep % (2 * Math.PI) - 2 * Math.PI;
+    if (Math.abs(end - start) >= 2 * Math.PI) sweep = counterclockwise ? -2 * Math.PI : 2 * Math.PI;
+    const cos = Math.cos(rotation), sin = Math.sin(rotation);
+    const at = (t: number) => { const x = rx * Math.cos(t), y = ry * Math.sin(t); return { x: cx + x * cos - y * sin, y: cy + x * sin + y * cos }; };
+    const deriv = (t: number) => { const x = -rx * Math.sin(t), y = ry * Math.cos(t); return { x: x * cos - y * sin, y: x * sin + y * cos }; };
+    const first = at(start);
+    if (this.path.length === 0) this.moveTo(first.x, first.y); else this.lineTo(first.x, first.y);
+    // Cubic approximation per quarter turn at most
+    const segments = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2)));
+    const step = sweep / segments;
+    const k = 4 / 3 * Math.tan(step / 4);
+    for (let i = 0; i < segments; i++) {
+      const t0 = start + i * step, t1 = t0 + step;
+      const p0 = at(t0), p1 = at(t1), d0 = deriv(t0), d1 = deriv(t1);
+      this.bezierCurveTo(p0.x + k * d0.x, p0.y + k * d0.y, p1.x - k * d1.x, p1.y - k * d1.y, p1.x, p1.y);
+    }
+  }
+
+  private alphaOp(alpha: number) {
+    if (alpha >= 1) return '/GSOpaque gs';
+    const key = pdfNum(alpha);
+    if (!this.alphaStates.has(key)) this.alphaStates.set(key, `GSA${this.alphaStates.size}`);
+    return `/${this.alphaStates.get(key)} gs`;
+  }
+  private strokeSetup() {
+    const { rgb, alpha } = parseColor(this.state.strokeStyle);
+    // Widths and dash lengths are in user space, so they take the transform's scale too
+    const [a, b, c, d] = this.state.matrix;
+    const k = Math.sqrt(Math.abs(a * d - b * c));
+    const dash = this.state.lineDash.length > 0 ? `[${this.state.lineDash.map(v => pdfNum(v * k)).join(' ')}] 0 d` : '[] 0 d';
+    return [`${rgb.map(pdfNum).join(' ')} RG`, `${pdfNum(this.state.lineWidth * k)} w`, dash, this.alphaOp(alpha * this.state.globalAlpha)];
+  }
+  private fillSetup() {
+    const { rgb, alpha } = parseColor(this.state.fillStyle);
+    return [`${rgb.map(pdfNum).join(' ')} rg`, this.alphaOp(alpha * this.state.globalAlpha)];
+  }
+
+  stroke() { if (this.path.length) this.ops.push(...this.strokeSetup(), ...this.path, 'S'); }
+  fill() { if (this.path.length) this.ops.push(...this.fillSetup(), ...this.path, 'f'); }
+  clip() { if (this.path.length) this.ops.push(...this.path, 'W n'); }
+  fillRect(x: number, y: number, w: number, h: number) { const saved = this.path; this.beginPath(); this.rect(x, y, w, h); this.fill(); this.path = saved; }
+  strokeRect(x: number, y: number, w: number, h: number) { const saved = this.path; this.beginPath(); this.rect(x, y, w, h); this.stroke(); this.path = saved; }
+
+  private fontSize() { const m = /(\d+(?:\.\d+)?)px/.exec(this.state.font); return m ? parseFloat(m[1]) : 10; }
+  measureText(text: string) { return { width: text.length * this.fontSize() * HELVETICA_AVG_ADVANCE } as TextMetrics; }
+  fillText(text: string, x: number, y: number) {
+    const size = this.fontSize();
+    const width = this.measureText(text).width;
+    let dx = 0;
+    if (this.state.textAlign === 'center') dx = -width / 2;
+    else if (this.state.textAlign === 'right' || this.state.textAlign === 'end') dx = -width;
+    let dy = 0;
+    if (this.state.textBaseline === 'middle') dy = size * 0.35;
+    else if (this.state.textBaseline === 'top' || this.state.textBaseline === 'hanging') dy = size * 0.75;
+    else if (this.state.textBaseline === 'bottom') dy = -size * 0.2;
+    const [a, b, c, d] = this.state.matrix;
+    const origin = this.toPage(x + dx, y + dy);
+    // Text space is y-up while canvas space is y-down, so the glyph "up" vector is the flipped canvas -y
+    const encoded = text.replace(/[^\x20-\x7e]/g, '?').replace(/([\\()])/g, '\\$1');
+    this.ops.push(...this.fillSetup(), 'BT', `/F1 ${pdfNum(size)} Tf`, `${pdfNum(a)} ${pdfNum(-b)} ${pdfNum(-c)} ${pdfNum(d)} ${origin} Tm`, `(${encoded}) Tj`, 'ET');
+  }
+}
+
+const buildPdf = (content: string, alphaStates: Map<string, string>, width: number, height: number): string => {
+  const gStates = [`/GSOpaque << /Type /ExtGState /CA 1 /ca 1 >>`, ...Array.from(alphaStates.entries()).map(([alpha, name]) => `/${name} << /Type /ExtGState /CA ${alpha} /ca ${alpha} >>`)];
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pdfNum(width)} ${pdfNum(height)}] /Resources << /Font << /F1 5 0 R >> /ExtGState << ${gStates.join(' ')} >> >> /Contents 4 0 R >>`,
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+  ];
+  let out = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(out.length);
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach(o => { out += `${String(o).padStart(10, '0')} 00000 n \n`; });
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return out;
+};
+
+// The page is sized to the bounding box at 1:1 scale (1 grid unit = 1cm); DPI does not apply to vectors
+export const renderPdf = (shapes: Shape[], options: ImageExportOptions): Blob => {
+  const ptPerUnit = PT_PER_INCH / CM_PER_INCH;
+  const width = (options.bounds.maxX - options.bounds.minX) * ptPerUnit;
+  const height = (options.bounds.maxY - options.bounds.minY) * ptPerUnit;
+  const ctx = new PdfContext(height);
+  renderDrawing(ctx as unknown as CanvasRenderingContext2D, shapes, options, ptPerUnit);
+  return new Blob([buildPdf(ctx.content, ctx.extGStates, width, height)], { type: 'application/pdf' });
+};
@@ -0,0 +1,48 @@
+import { Shape, Layer } from '../components/CartesianCanvas';
+
+// Layers are kept bottom-to-top: the first layer is drawn first and exported first.
+
+export const DEFAULT_LAYER: Layer = { id: 'layer-1', name: 'Layer 1', visible: true, locked: false };
+
+export const createLayer = (existing: Layer[]): Layer => {
+  let n = existing.length + 1;
+  while (existing.some(l => l.name === `Layer ${n}`)) n++;
+  return { id: Math.random().toString(36).substr(2, 9), name: `Layer ${n}`, visible: true, locked: false };
+};
+
+// Shapes whose layer no longer exists (or never had one) belong to the bottom layer
+export const resolveLayerId = (shape: Shape, layers: Layer[]): string | undefined => {
+  if (shape.layerId && layers.some(l => l.id === shape.layerId)) return shape.layerId;
+  return layers[0]?.id;
+};
+
+export const isShapeVisible = (shape: Shape, layers: Layer[]): boolean => {
+  const id = resolveLayerId(shape, layers);
+  const layer = layers.find(l => l.id === id);
+  return !layer || layer.visible;
+};
+
+// Hidden layers cannot be edited either, since their shapes are not on screen
+export const isShapeEditable = (shape: Shape, layers: Layer[]): boolean => {
+  const id = resolveLayerId(shape, layers);
+  const layer = layers.find(l => l.id === id);
+  return !layer || (layer.visible && !layer.locked);
+};
+
+// Stable sort into layer order; within a layer shapes keep their drawing order
+export const sortShapesByLayer = (shapes: Shape[], layers: Layer[]): Shape[] => {
+  if (layers.length <= 1) return shapes;
+  const order = new Map(layers.map((l, i) => [l.id, i]));
+  return shapes
+    .map((shape, index) => ({ shape, index, layer: order.get(resolveLayerId(shape, layers) || '') ?? 0 }))
+    .sort((a, b) => a.layer - b.layer || a.index - b.index)
+    .map(entry => entry.shape);
+};
+
+// Visible layers with their shapes, bottom to top; empty layers are omitted
+export const groupShapesByLayer = (shapes: Shape[], layers: Layer[]): { layer: Layer, shapes: Shape[] }[] => {
+  return layers
+    .filter(layer => layer.visible)
+    .map(layer => ({ layer, shapes: shapes.filter(s => resolveLayerId(s, layers) === layer.id) }))
+    .filter(group => group.shapes.length > 0);
+};
@@ -0,0 +1,220 @@
+import { Shape, Point } from '../components/CartesianCanvas';
+import { ArcGeometry, getArcGeometry, getArcPoint, isAngleOnArc, isFullCircle } from './arc';
+import { getPlotRuns } from './plot';
+import { getPolygonEdges, getVertices } from './polygon';
+import { getContours } from './boolean';
+
+// Object snapping: geometric points on existing shapes that the cursor locks onto while drawing.
+// Perpendicular and tangent snaps are relative to the point the current shape started from.
+
+export type SnapKind = 'endpoint' | 'midpoint' | 'center' | 'quadrant' | 'intersection' | 'perpendicular' | 'tangent';
+
+// Also the tie-break order when two snaps coincide
+export const SNAP_KINDS: SnapKind[] = ['endpoint', 'intersection', 'midpoint', 'center', 'quadrant', 'perpendicular', 'tangent'];
+
+export const SNAP_KIND_LABELS: Record<SnapKind, string> = {
+  endpoint: 'Endpoint',
+  midpoint: 'Midpoint',
+  center: 'Center',
+  quadrant: 'Quadrant',
+  intersection: 'Intersection',
+  perpendicular: 'Perpendicular',
+  tangent: 'Tangent',
+};
+
+export interface SnapPoint extends Point {
+  kind: SnapKind;
+}
+
+// Shapes reduced to the pieces snapping (and trimming) works with
+export type Primitive = { kind: 'segment'; a: Point; b: Point } | { kind: 'circle'; arc: ArcGeometry };
+
+const dist = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Box shapes turn counterclockwise about their center by `rotation`, as on the canvas
+const rotateAbout = (p: Point, c: Point, angle: number): Point => {
+  if (!angle) return p;
+  const cos = Math.cos(angle); const sin = Math.sin(angle);
+  return { x: c.x + (p.x - c.x) * cos - (p.y - c.y) * sin, y: c.y + (p.x - c.x) * sin + (p.y - c.y) * cos };
+};
+
+const rectCorners = (s: Shape): Point[] => {
+  const c = { x: (s.x1 + s.x2) / 2, y: (s.y1 + s.y2) / 2 };
+  return [{ x: s.x1, y: s.y1 }, { x: s.x2, y: s.y1 }, { x: s.x2, y: s.y2 }, { x: s.x1, y: s.y2 }].map(p => rotateAbout(p, c, s.rotation || 0));
+};
+
+const circleArc = (s: Shape): ArcGeometry => {
+  const radius = Math.hypot(s.x2 - s.x1, s.y2 - s.y1);
+  return { cx: s.x1, cy: s.y1, radius, startAngle: 0, endAngle: 2 * Math.PI, sweep: 2 * Math.PI };
+};
+
+export const getPrimitives = (s: Shape): Primitive[] => {
+  switch (s.type) {
+    case 'line': case 'measure': case 'measure_radius': case 'brace':
+      return [{ kind: 'segment', a: { x: s.x1, y: s.y1 }, b: { x: s.x2, y: s.y2 } }];
+    case 'rect': case 'round_rect': {
+      const corners = rectCorners(s);
+      return corners.map((a, i) => ({ kind: 'segment' as const, a, b: corners[(i + 1) % 4] }));
+    }
+    case 'circle': return [{ kind: 'circle', arc: circleArc(s) }];
+    case 'arc': return [{ kind: 'circle', arc: getArcGeometry(s) }];
+    case 'polygon': return getPolygonEdges(s).map(([a, b]) => ({ kind: 'segment' as const, a, b }));
+    case 'compound': return getContours(s).flatMap(c => c.map((a, i) => ({ kind: 'segment' as const, a, b: c[(i + 1) % c.length] })));
+    // The sampled polyline, so a curve meets lines and other curves at its plotted crossings
+    case 'plot': return getPlotRuns(s).flatMap(run => run.slice(1).map((b, i) => ({ kind: 'segment' as const, a: run[i], b })));
+    default: return [];
+  }
+};
+
+// Snap points that exist on their own, without another shape or a start point
+const getShapeSnapPoints = (s: Shape): SnapPoint[] => {
+  const pts: SnapPoint[] = [];
+  const add = (kind: SnapKind, p: Point) => pts.push({ ...p, kind });
+  switch (s.type) {
+    case 'point':
+      add('endpoint', { x: s.x1, y: s.y1 });
+      break;
+    case 'line': case 'measure': case 'measure_radius': case 'brace': case 'bezier':
+      add('endpoint', { x: s.x1, y: s.y1 }); add('endpoint', { x: s.x2, y: s.y2 });
+      if (s.type !== 'bezier') add('midpoint', { x: (s.x1 + s.x2) / 2, y: (s.y1 + s.y2) / 2 });
+      break;
+    case 'rect': case 'round_rect': {
+      const corners = rectCorners(s);
+      if (s.type === 'rect') corners.forEach(p => add('endpoint', p));
+      corners.forEach((a, i) => { const b = corners[(i + 1) % 4]; add('midpoint', { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }); });
+      add('center', { x: (s.x1 + s.x2) / 2, y: (s.y1 + s.y2) / 2 });
+      break;
+    }
+    case 'circle': case 'arc': {
+      const arc = s.type === 'arc' ? getArcGeometry(s) : circleArc(s);
+      add('center', { x: arc.cx, y: arc.cy });
+      for (let k = 0; k < 4; k++) if (isAngleOnArc(arc, k * Math.PI / 2)) add('quadrant', getArcPoint(arc, k * Math.PI / 2));
+      if (!isFullCircle(arc)) {
+        add('endpoint', getArcPoint(arc, arc.startAngle)); add('endpoint', getArcPoint(arc, arc.endAngle));
+        add('midpoint', getArcPoint(arc, arc.startAngle + arc.sweep / 2));
+      }
+      break;
+    }
+    case 'ellipse': {
+      const c = { x: s.x1, y: s.y1 }; const rx = Math.abs(s.x2 - s.x1); const ry = Math.abs(s.y2 - s.y1);
+      add('center', c);
+      [{ x: c.x + rx, y: c.y }, { x: c.x, y: c.y + ry }, { x: c.x - rx, y: c.y }, { x: c.x, y: c.y - ry }].forEach(p => add('quadrant', rotateAbout(p, c, s.rotation || 0)));
+      break;
+    }
+    case 'polygon':
+      getVertices(s).forEach(p => add('endpoint', p));
+      getPolygonEdges(s).forEach(([a, b]) => add('midpoint', { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }));
+      break;
+    // Corners only: sampled curves would put a snap every few degrees
+    case 'compound':
+      getContours(s).forEach(c => c.forEach((p, i) => {
+        const a = c[(i + c.length - 1) % c.length]; const b = c[(i + 1) % c.length];
+        const turn = Math.abs(Math.atan2((p.x - a.x) * (b.y - p.y) - (p.y - a.y) * (b.x - p.x), (p.x - a.x) * (b.x - p.x) + (p.y - a.y) * (b.y - p.y)));
+        if (turn > Math.PI / 12) add('endpoint', p);
+      }));
+      break;
+    case 'freehand':
+      if (s.points && s.points.length > 0) { add('endpoint', s.points[0]); add('endpoint', s.points[s.points.length - 1]); }
+      break;
+    case 'plot':
+      getPlotRuns(s).forEach(run => { add('endpoint', run[0]); add('endpoint', run[run.length - 1]); });
+      break;
+    case 'mark_angle':
+      add('endpoint', { x: s.x1, y: s.y1 });
+      break;
+  }
+  return pts;
+};
+
+const distToPrimitive = (p: Point, prim: Primitive) => {
+  if (prim.kind === 'circle') return Math.abs(dist(p, { x: prim.arc.cx, y: prim.arc.cy }) - prim.arc.radius);
+  const { a, b } = prim; const l2 = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+  if (l2 === 0) return dist(p, a);
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / l2));
+  return dist(p, { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) });
+};
+
+const onArc = (arc: ArcGeometry, p: Point) => isAngleOnArc(arc, Math.atan2(p.y - arc.cy, p.x - arc.cx));
+
+// Crossings within both pieces
+export const intersect = (p: Primitive, q: Primitive): Point[] => {
+  if (p.kind === 'segment' && q.kind === 'segment') {
+    const r = { x: p.b.x - p.a.x, y: p.b.y - p.a.y }; const s = { x: q.b.x - q.a.x, y: q.b.y - q.a.y };
+    const denom = r.x * s.y - r.y * s.x;
+    if (Math.abs(denom) < 1e-12) return [];
+    const t = ((q.a.x - p.a.x) * s.y - (q.a.y - p.a.y) * s.x) / denom;
+    const u = ((q.a.x - p.a.x) * r.y - (q.a.y - p.a.y) * r.x) / denom;
+    return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? [{ x: p.a.x + t * r.x, y: p.a.y + t * r.y }] : [];
+  }
+  if (p.kind === 'circle' && q.kind === 'segment') return intersect(q, p);
+  if (p.kind === 'segment' && q.kind === 'circle') {
+    const { arc } = q; const d = { x: p.b.x - p.a.x, y: p.b.y - p.a.y }; const f = { x: p.a.x - arc.cx, y: p.a.y - arc.cy };
+    const a = d.x * d.x + d.y * d.y; const b = 2 * (f.x * d.x + f.y * d.y); const c = f.x * f.x + f.y * f.y - arc.radius * arc.radius;
+    const disc = b * b - 4 * a * c;
+    if (a === 0 || disc < 0) return [];
+    return [(-b - Math.sqrt(disc)) / (2 * a), (-b + Math.sqrt(disc)) / (2 * a)]
+      .filter(t => t >= 0 && t <= 1)
+      .map(t => ({ x: p.a.x + t * d.x, y: p.a.y + t * d.y }))
+      .filter(pt => onArc(arc, pt));
+  }
+  if (p.kind === 'circle' && q.kind === 'circle') {
+    const a = p.arc; const b = q.arc; const d = Math.hypot(b.cx - a.cx, b.cy - a.cy);
+    if (d === 0 || d > a.radius + b.radius || d < Math.abs(a.radius - b.radius)) return [];
+    const along = (a.radius * a.radius - b.radius * b.radius + d * d) / (2 * d);
+    const h = Math.sqrt(Math.max(0, a.radius * a.radius - along * along));
+    const mx = a.cx + along * (b.cx - a.cx) / d; const my = a.cy + along * (b.cy - a.cy) / d;
+    const ox = -h * (b.cy - a.cy) / d; const oy = h * (b.cx - a.cx) / d;
+    return [{ x: mx + ox, y: my + oy }, { x: mx - ox, y: my - oy }].filter(pt => onArc(a, pt) && onArc(b, pt));
+  }
+  return [];
+};
+
+// Feet of the perpendiculars dropped from `from` onto the primitive
+const perpendicularFeet = (from: Point, prim: Primitive): Point[] => {
+  if (prim.kind === 'segment') {
+    const { a, b } = prim; const l2 = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+    if (l2 === 0) return [];
+    const t = ((from.x - a.x) * (b.x - a.x) + (from.y - a.y) * (b.y - a.y)) / l2;
+    return t >= 0 && t <= 1 ? [{ x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) }] : [];
+  }
+  const { arc } = prim; const d = Math.hypot(from.x - arc.cx, from.y - arc.cy);
+  if (d === 0) return [];
+  const ux = (from.x - arc.cx) / d; const uy = (from.y - arc.cy) / d;
+  return [{ x: arc.cx + ux * arc.radius, y: arc.cy + uy * arc.radius }, { x: arc.cx - ux * arc.radius, y: arc.cy - uy * arc.radius }].filter(pt => onArc(arc, pt));
+};
+
+// Points where a line from `from` touches the circle
+const tangentPoints = (from: Point, prim: Primitive): Point[] => {
+  if (prim.kind !== 'circle') return [];
+  const { arc } = prim; const d = Math.hypot(from.x - arc.cx, from.y - arc.cy);
+  if (d <= arc.radius) return [];
+  const base = Math.atan2(from.y - arc.cy, from.x - arc.cx); const spread = Math.acos(arc.radius / d);
+  return [base + spread, base - spread].map(a => getArcPoint(arc, a)).filter(pt => onArc(arc, pt));
+};
+
+// Nearest enabled snap within `tolerance` (grid units) of the cursor, or null
+export const findObjectSnap = (shapes: Shape[], cursor: Point, tolerance: number, kinds: Set<SnapKind>, from?: Point | null): SnapPoint | null => {
+  const candidates: SnapPoint[] = [];
+  shapes.forEach(s => getShapeSnapPoints(s).forEach(p => { if (kinds.has(p.kind)) candidates.push(p); }));
+
+  // Curves that pass near the cursor are the only ones that can intersect or be touched there
+  const near = shapes.flatMap(getPrimitives).filter(prim => distToPrimitive(cursor, prim) <= tolerance);
+  if (kinds.has('intersection')) {
+    for (let i = 0; i < near.length; i++) for (let j = i + 1; j < near.length; j++) intersect(near[i], near[j]).forEach(p => candidates.push({ ...p, kind: 'intersection' }));
+  }
+  if (from) {
+    near.forEach(prim => {
+      if (kinds.has('perpendicular')) perpendicularFeet(from, prim).forEach(p => candidates.push({ ...p, kind: 'perpendicular' }));
+      if (kinds.has('tangent')) tangentPoints(from, prim).forEach(p => candidates.push({ ...p, kind: 'tangent' }));
+    });
+  }
+
+  let best: SnapPoint | null = null; let bestDist = Infinity;
+  candidates.forEach(p => {
+    const d = dist(p, cursor);
+    if (d > tolerance) return;
+    const tie = best && Math.abs(d - bestDist) < 1e-9;
+    if (d < bestDist - 1e-9 || (tie && SNAP_KINDS.indexOf(p.kind) < SNAP_KINDS.indexOf(best!.kind))) { best = p; bestDist = d; }
+  });
+  return best;
+};
@@ -0,0 +1,239 @@
+import { Shape, Point } from '../components/CartesianCanvas';
+import { getArcGeometry } from './arc';
+import { getContours, withContours, getContourArea } from './boolean';
+import { getVertices, withVertices, isPointInPolygon } from './polygon';
+
+// Offset copies: a shape moved a fixed distance sideways, everywhere along its outline. Closed
+// shapes go inside or outside; lines, polylines and bezier curves have no inside, so a clicked
+// point picks their side. Where a polyline or polygon turns away from the offset, the corner is
+// mitered (sharp), rounded or beveled; on the other side the offset edges are simply cut where
+// they meet. Bezier curves are approximated by offsetting their control polygon (Tiller-Hanson).
+
+export type OffsetSide = 'inside' | 'outside' | 'click';
+export type OffsetJoin = 'miter' | 'round' | 'bevel';
+
+export const OFFSET_SIDE_LABELS: Record<OffsetSide, string> = {
+  inside: 'Inside',
+  outside: 'Outside',
+  click: 'Click a side',
+};
+
+export const OFFSET_JOINS: OffsetJoin[] = ['miter', 'round', 'bevel'];
+
+export const OFFSET_JOIN_LABELS: Record<OffsetJoin, string> = {
+  miter: 'Miter',
+  round: 'Round',
+  bevel: 'Bevel',
+};
+
+// Sharp corners longer than this many distances are beveled instead, as in TikZ and SVG
+const MITER_LIMIT = 4;
+// Round joins are approximated by a vertex at least this often
+const ROUND_STEP = Math.PI / 18;
+
+const OFFSETABLE = ['line', 'polygon', 'compound', 'rect', 'round_rect', 'circle', 'ellipse', 'arc', 'bezier'];
+
+export const isOffsetable = (shape: Shape) => OFFSETABLE.includes(shape.type);
+
+// Shapes without an inside, whose offset side has to be clicked
+export const isOpenShape = (shape: Shape) => shape.type === 'line' || shape.type === 'bezier' || (shape.type === 'polygon' && !shape.closed);
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+const cross = (a: Point, b: Point) => a.x * b.y - a.y * b.x;
+
+// Box shapes turn counterclockwise about their center by `rotation`, as on the canvas
+const rotateAbout = (p: Point, c: Point, angle: number): Point => {
+  if (!angle) return p;
+  const cos = Math.cos(angle); const sin = Math.sin(angle);
+  return { x: c.x + (p.x - c.x) * cos - (p.y - c.y) * sin, y: c.y + (p.x - c.x) * sin + (p.y - c.y) * cos };
+};
+
+const getBezierControls = (s: Shape): Point[] =>
+  [{ x: s.x1, y: s.y1 }, { x: s.cx1 ?? s.x1, y: s.cy1 ?? s.y1 }, { x: s.cx2 ?? s.x2, y: s.cy2 ?? s.y2 }, { x: s.x2, y: s.y2 }];
+
+// Whether a point lies inside a closed shape (or, for an arc, inside its circle)
+const containsPoint = (s: Shape, p: Point): boolean => {
+  const c = { x: (s.x1 + s.x2) / 2, y: (s.y1 + s.y2) / 2 };
+  switch (s.type) {
+    case 'rect': case 'round_rect': {
+      const q = rotateAbout(p, c, -(s.rotation || 0));
+      return q.x >= Math.min(s.x1, s.x2) && q.x <= Math.max(s.x1, s.x2) && q.y >= Math.min(s.y1, s.y2) && q.y <= Math.max(s.y1, s.y2);
+    }
+    case 'circle': return Math.hypot(p.x - s.x1, p.y - s.y1) <= Math.hypot(s.x2 - s.x1, s.y2 - s.y1);
+    case 'arc': return Math.hypot(p.x - s.x1, p.y - s.y1) <= getArcGeometry(s).radius;
+    case 'ellipse': {
+      const q = rotateAbout(p, { x: s.x1, y: s.y1 }, -(s.rotation || 0));
+      const rx = Math.abs(s.x2 - s.x1); const ry = Math.abs(s.y2 - s.y1);
+      return rx > 0 && ry > 0 && ((q.x - s.x1) / rx) ** 2 + ((q.y - s.y1) / ry) ** 2 <= 1;
+    }
+    case 'polygon': return isPointInPolygon(p, getVertices(s));
+    case 'compound': return getContours(s).reduce((inside, contour) => inside !== isPointInPolygon(p, contour), false);
+    default: return false;
+  }
+};
+
+// +1 when the point is left of the path's direction of travel where the path passes nearest, else -1
+const getClickedSide = (pts: Point[], p: Point): number => {
+  let best = { d: Infinity, side: 1 };
+  pts.slice(1).forEach((b, i) => {
+    const a = pts[i]; const u = { x: b.x - a.x, y: b.y - a.y }; const l2 = u.x * u.x + u.y * u.y;
+    if (l2 === 0) return;
+    const t = Math.max(0, Math.min(1, ((p.x - a.x) * u.x + (p.y - a.y) * u.y) / l2));
+    const d = Math.hypot(p.x - a.x - t * u.x, p.y - a.y - t * u.y);
+    if (d < best.d) best = { d, side: cross(u, { x: p.x - a.x, y: p.y - a.y }) >= 0 ? 1 : -1 };
+  });
+  return best.side;
+};
+
+// Left normal of a -> b
+const getNormal = (a: Point, b: Point): Point => {
+  const l = Math.hypot(b.x - a.x, b.y - a.y);
+  return { x: -(b.y - a.y) / l, y: (b.x - a.x) / l };
+};
+
+// Offset points at vertex v between edges with left normals n1 and n2, `d` to the left (negative: right)
+const getJoin = (v: Point, n1: Point, n2: Point, d: number, join: OffsetJoin): Point[] => {
+  const dot = n1.x * n2.x + n1.y * n2.y;
+  const turn = cross(n1, n2);
+  const a = { x: v.x + n1.x * d, y: v.y + n1.y * d }; const b = { x: v.x + n2.x * d, y: v.y + n2.y * d };
+  if (Math.abs(turn) < 1e-12 && dot > 0) return [a];
+  // The offset edges overlap on the inner side of the turn (or form a sharp miter): they meet at one point
+  const miter = () => ({ x: v.x + (n1.x + n2.x) * d / (1 + dot), y: v.y + (n1.y + n2.y) * d / (1 + dot) });
+  const outer = turn * d < 0 || (Math.abs(turn) < 1e-12 && dot < 0);
+  if (!outer) return [miter()];
+  if (join === 'miter' && 1 + dot > 2 / (MITER_LIMIT * MITER_LIMIT)) return [miter()];
+  if (join !== 'round') return [a, b];
+  const a1 = Math.atan2(n1.y * d, n1.x * d);
+  let sweep = Math.atan2(n2.y * d, n2.x * d) - a1;
+  while (sweep > Math.PI) sweep -= 2 * Math.PI;
+  while (sweep <= -Math.PI) sweep += 2 * Math.PI;
+  const steps = Math.max(1, Math.ceil(Math.abs(sweep) / ROUND_STEP));
+  return Array.from({ length: steps + 1 }, (_, i) => ({ x: v.x + Math.abs(d) * Math.cos(a1 + sweep * i / steps), y: v.y + Math.abs(d) * Math.sin(a1 + sweep * i / steps) }));
+};
+
+// Points of each join along a polyline (or, when closed, a polygon) moved `d` to the left of its
+// direction of travel, with the vertices the joins stand for; the open ends get one point each
+const getJoins = (points: Point[], closed: boolean, d: number, join: OffsetJoin): { pts: Point[]; joins: Point[][] } => {
+  const pts = points.filter((p, i) => { const q = points[(i + points.length - 1) % points.length]; return (i === 0 && !closed) || Math.hypot(p.x - q.x, p.y - q.y) > 1e-12; });
+  if (pts.length < 2) return { pts, joins: [] };
+  const edges = (closed ? pts : pts.slice(1)).map((p, i) => closed ? [p, pts[(i + 1) % pts.length]] : [pts[i], p]);
+  const normals = edges.map(([a, b]) => getNormal(a, b));
+  if (closed) return { pts, joins: pts.map((v, i) => getJoin(v, normals[(i + normals.length - 1) % normals.length], normals[i], d, join)) };
+  const first = { x: pts[0].x + normals[0].x * d, y: pts[0].y + normals[0].y * d };
+  const lastPoint = pts[pts.length - 1]; const lastNormal = normals[normals.length - 1];
+  const last = { x: lastPoint.x + lastNormal.x * d, y: lastPoint.y + lastNormal.y * d };
+  return { pts, joins: [[first], ...pts.slice(1, -1).map((v, i) => getJoin(v, normals[i], normals[i + 1], d, join)), [last]] };
+};
+
+const offsetPath = (points: Point[], closed: boolean, d: number, join: OffsetJoin): Point[] => getJoins(points, closed, d, join).joins.flat();
+
+// Offset outline of a closed polygon, or null when an inward offset has made it vanish: some
+// edge then comes out pointing backwards
+const offsetContour = (contour: Point[], d: number, join: OffsetJoin): Point[] | null => {
+  const { pts, joins } = getJoins(contour, true, d, join);
+  const reversed = joins.some((j, i) => {
+    const from = j[j.length - 1]; const to = joins[(i + 1) % joins.length][0];
+    const a = pts[i]; const b = pts[(i + 1) % pts.length];
+    return (to.x - from.x) * (b.x - a.x) + (to.y - from.y) * (b.y - a.y) <= 0;
+  });
+  const result = joins.flat();
+  return !reversed && result.length >= 3 ? result : null;
+};
+
+// A copy of the shape `distance` further out, further in, or towards the clicked point; null when
+// an inward offset leaves nothing
+export const offsetShape = (shape: Shape, distance: number, side: 'inside' | 'outside' | Point, join: OffsetJoin): Shape | null => {
+  const copy: Shape = { ...shape, id: newId() };
+  const outward = typeof side === 'string' ? side === 'outside' : !containsPoint(shape, side);
+  const grow = outward ? distance : -distance;
+  switch (shape.type) {
+    case 'line': case 'bezier': case 'polygon': case 'compound': break;
+    case 'circle': case 'arc': {
+      const radius = Math.hypot(shape.x2 - shape.x1, shape.y2 - shape.y1) + grow;
+      if (radius <= 0) return null;
+      const angle = Math.atan2(shape.y2 - shape.y1, shape.x2 - shape.x1);
+      return { ...copy, x2: shape.x1 + radius * Math.cos(angle), y2: shape.y1 + radius * Math.sin(angle) };
+    }
+    // The true offset of an ellipse is no ellipse; the radii are offset instead
+    case 'ellipse': {
+      const rx = Math.abs(shape.x2 - shape.x1) + grow; const ry = Math.abs(shape.y2 - shape.y1) + grow;
+      if (rx <= 0 || ry <= 0) return null;
+      return { ...copy, x2: shape.x1 + (shape.x2 >= shape.x1 ? rx : -rx), y2: shape.y1 + (shape.y2 >= shape.y1 ? ry : -ry) };
+    }
+    case 'rect': case 'round_rect': {
+      // Resized about the center, so a rotated box stays in place
+      const minX = Math.min(shape.x1, shape.x2) - grow; const maxX = Math.max(shape.x1, shape.x2) + grow;
+      const minY = Math.min(shape.y1, shape.y2) - grow; const maxY = Math.max(shape.y1, shape.y2) + grow;
+      if (maxX <= minX || maxY <= minY) return null;
+      const box = { ...copy, x1: minX, y1: minY, x2: maxX, y2: maxY };
+      // Rounded corners stay rounded, the radius following the offset; sharp corners only change outward
+      if (shape.type === 'round_rect') return { ...box, cornerRadius: Math.max(0, (shape.cornerRadius ?? 0.5) + grow) };
+      if (!outward || join === 'miter') return box;
+      if (join === 'round') return { ...box, type: 'round_rect', cornerRadius: distance };
+      const corners = [{ x: minX, y: minY }, { x: maxX, y: minY }, { x: maxX, y: maxY }, { x: minX, y: maxY }];
+      const c = { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
+      const beveled = corners.flatMap((p, i) => {
+        const sx = i === 0 || i === 3 ? 1 : -1; const sy = i < 2 ? 1 : -1;
+        return i % 2 === 0 ? [{ x: p.x, y: p.y + sy * distance }, { x: p.x + sx * distance, y: p.y }] : [{ x: p.x + sx * distance, y: p.y }, { x: p.x, y: p.y + sy * distance }];
+      }).map(p => rotateAbout(p, c, shape.rotation || 0));
+      const { rotation: _, cornerRadius: __, ...rest } = box;
+      return withVertices({ ...rest, type: 'polygon', closed: true }, beveled);
+    }
+    default: return null;
+  }
+
+  if (shape.type === 'compound') {
+    // Outlines keep the filled side on their left, so inward is to the left of every one of them
+    const contours = getContours(shape).map(c => offsetContour(c, -grow, join)).filter((c): c is Point[] => !!c);
+    return contours.some(c => getContourArea(c) > 0) ? withContours(copy, contours) : null;
+  }
+  if (shape.type === 'polygon' && shape.closed) {
+    const pts = getVertices(shape);
+    // Inside is to the left of a counterclockwise polygon
+    const result = offsetContour(pts, getContourArea(pts) > 0 ? -grow : grow, join);
+    return result ? withVertices(copy, result) : null;
+  }
+
+  // Open shapes: to the left or right of the direction they were drawn in
+  const path = shape.type === 'line' ? [{ x: shape.x1, y: shape.y1 }, { x: shape.x2, y: shape.y2 }] : shape.type === 'bezier' ? getBezierControls(shape) : getVertices(shape);
+  const d = typeof side === 'string' ? distance : distance * getClickedSide(shape.type === 'bezier' ? sampleBezier(path) : path, side);
+  if (shape.type === 'polygon') return withVertices(copy, offsetPath(path, false, d, join));
+  if (shape.type === 'line') {
+    const n = getNormal(path[0], path[1]);
+    return { ...copy, x1: shape.x1 + n.x * d, y1: shape.y1 + n.y * d, x2: shape.x2 + n.x * d, y2: shape.y2 + n.y * d };
+  }
+  const [a, c1, c2, b] = offsetControls(path, d);
+  return { ...copy, x1: a.x, y1: a.y, cx1: c1.x, cy1: c1.y, cx2: c2.x, cy2: c2.y, x2: b.x, y2: b.y };
+};
+
+// Tiller-Hanson: each leg of the control polygon moves `d` to its left; the ends move with the
+// first and last legs and the inner control points go where neighbouring moved legs meet.
+// A leg of zero length borrows the direction of the curve there.
+const offsetControls = ([p0, p1, p2, p3]: Point[], d: number): Point[] => {
+  const firstOf = (pairs: [Point, Point][]) => {
+    const pair = pairs.find(([a, b]) => Math.hypot(b.x - a.x, b.y - a.y) > 1e-12);
+    return pair ? getNormal(pair[0], pair[1]) : { x: 0, y: 0 };
+  };
+  const n0 = firstOf([[p0, p1], [p0, p2], [p0, p3]]);
+  const n1 = firstOf([[p1, p2], [p0, p3]]);
+  const n2 = firstOf([[p2, p3], [p1, p3], [p0, p3]]);
+  const meet = (v: Point, m1: Point, m2: Point) => {
+    const dot = m1.x * m2.x + m1.y * m2.y;
+    const k = 1 + dot > 1e-6 ? d / (1 + dot) : d / 2;
+    return { x: v.x + (m1.x + m2.x) * k, y: v.y + (m1.y + m2.y) * k };
+  };
+  return [
+    { x: p0.x + n0.x * d, y: p0.y + n0.y * d },
+    meet(p1, n0, n1), meet(p2, n1, n2),
+    { x: p3.x + n2.x * d, y: p3.y + n2.y * d },
+  ];
+};
+
+// Points along a cubic, for finding which side of it a click falls
+const sampleBezier = (ctrl: Point[]): Point[] => Array.from({ length: 33 }, (_, i) => {
+  const t = i / 32; const u = 1 - t;
+  return {
+    x: u * u * u * ctrl[0].x + 3 * u * u * t * ctrl[1].x + 3 * u * t * t * ctrl[2].x + t * t * t * ctrl[3].x,
+    y: u * u * u * ctrl[0].y + 3 * u * u * t * ctrl[1].y + 3 * u * t * t * ctrl[2].y + t * t * t * ctrl[3].y,
+  };
+});
@@ -0,0 +1,111 @@
+import { Shape, Point, PlotDefinition, PlotKind } from '../components/CartesianCanvas';
+import { ExpressionNode, parseExpression, evaluateExpression } from './expression';
+
+// A plot keeps its definition in `plot` and draws it from the origin (x1, y1), so moving the
+// shape shifts the curve; (x2, y2) stay equal to (x1, y1). Samples are spread evenly over the
+// domain, first and last included, exactly like TikZ's plot[domain=a:b, samples=n].
+
+export const PLOT_KINDS: PlotKind[] = ['cartesian', 'parametric', 'polar'];
+
+export const PLOT_KIND_LABELS: Record<PlotKind, string> = {
+  cartesian: 'y = f(x)',
+  parametric: 'x(t), y(t)',
+  polar: 'r(θ)',
+};
+
+// Names each kind's expressions may use for the free variable
+export const PLOT_VARIABLES: Record<PlotKind, string[]> = {
+  cartesian: ['x'],
+  parametric: ['t'],
+  polar: ['theta', 'θ', 't'],
+};
+
+// Starting point when switching kinds in the toolbar
+export const PLOT_PRESETS: Record<PlotKind, PlotDefinition> = {
+  cartesian: { kind: 'cartesian', expression: 'sin(x)', domain: [-Math.PI, Math.PI], samples: 100 },
+  parametric: { kind: 'parametric', expression: '2cos(t)', expressionY: 'sin(t)', domain: [0, 2 * Math.PI], samples: 100 },
+  polar: { kind: 'polar', expression: '2cos(3θ)', domain: [0, Math.PI], samples: 200 },
+};
+
+export const MAX_PLOT_SAMPLES = 1000;
+// Samples further out than this count as undefined, so a pole does not stretch the drawing
+const PLOT_LIMIT = 1e4;
+
+// The expression trees, y(t) second for parametric plots; throws with the first problem found
+export const parsePlot = (plot: PlotDefinition): ExpressionNode[] => {
+  const variables = PLOT_VARIABLES[plot.kind];
+  const trees = [parseExpression(plot.expression, variables)];
+  if (plot.kind === 'parametric') trees.push(parseExpression(plot.expressionY ?? '', variables));
+  return trees;
+};
+
+// What is wrong with each expression (x(t) then y(t) for parametric plots), null where it parses
+export const getPlotErrors = (plot: PlotDefinition): (string | null)[] =>
+  (plot.kind === 'parametric' ? [plot.expression, plot.expressionY ?? ''] : [plot.expression]).map(source => {
+    try { parseExpression(source, PLOT_VARIABLES[plot.kind]); return null; } catch (e) { return (e as Error).message; }
+  });
+
+// The canvas resamples every plot on each frame; parse each source once
+const parsed = new Map<string, ExpressionNode[] | null>();
+const parsePlotCached = (plot: PlotDefinition) => {
+  const key = [plot.kind, plot.expression, plot.expressionY ?? ''].join('\n');
+  if (!parsed.has(key)) { try { parsed.set(key, parsePlot(plot)); } catch { parsed.set(key, null); } }
+  return parsed.get(key)!;
+};
+
+export const getPlotParameters = (plot: PlotDefinition): number[] => {
+  const n = Math.max(2, Math.min(MAX_PLOT_SAMPLES, Math.round(plot.samples)));
+  const [a, b] = plot.domain;
+  return Array.from({ length: n }, (_, i) => a + (b - a) * i / (n - 1));
+};
+
+// One sample relative to the origin
+const evaluatePlot = (kind: PlotKind, trees: ExpressionNode[], v: number): Point => {
+  if (kind === 'cartesian') return { x: v, y: evaluateExpression(trees[0], { x: v }) };
+  if (kind === 'parametric') return { x: evaluateExpression(trees[0], { t: v }), y: evaluateExpression(trees[1], { t: v }) };
+  const r = evaluateExpression(trees[0], { theta: v, 'θ': v, t: v });
+  return { x: r * Math.cos(v), y: r * Math.sin(v) };
+};
+
+export interface PlotSegment {
+  // Parameter range and sample count of this stretch, on the plot's own sampling grid
+  domain: [number, number];
+  samples: number;
+  points: Point[];
+}
+
+// The curve in grid space in stretches, broken wherever it is undefined (sqrt(x) for x < 0) or
+// heads off to a pole; an invalid definition gives none
+export const getPlotSegments = (shape: Shape): PlotSegment[] => {
+  if (!shape.plot) return [];
+  const trees = parsePlotCached(shape.plot);
+  if (!trees) return [];
+  const segments: PlotSegment[] = [];
+  let current: PlotSegment | null = null;
+  getPlotParameters(shape.plot).forEach(v => {
+    const p = evaluatePlot(shape.plot!.kind, trees, v);
+    if (Math.abs(p.x) < PLOT_LIMIT && Math.abs(p.y) < PLOT_LIMIT) {
+      if (!current) { current = { domain: [v, v], samples: 0, points: [] }; segments.push(current); }
+      current.domain[1] = v; current.samples++;
+      current.points.push({ x: shape.x1 + p.x, y: shape.y1 + p.y });
+    } else current = null;
+  });
+  return segments;
+};
+
+export const getPlotRuns = (shape: Shape): Point[][] => getPlotSegments(shape).map(s => s.points);
+
+export const getPlotBounds = (shape: Shape) => {
+  const points = getPlotRuns(shape).flat();
+  if (points.length === 0) return { minX: shape.x1, maxX: shape.x1, minY: shape.y1, maxY: shape.y1 };
+  return {
+    minX: Math.min(...points.map(p => p.x)), maxX: Math.max(...points.map(p => p.x)),
+    minY: Math.min(...points.map(p => p.y)), maxY: Math.max(...points.map(p => p.y)),
+  };
+};
+
+export const isValidPlot = (raw: any): boolean =>
+  !!raw && PLOT_KINDS.includes(raw.kind) && typeof raw.expression === 'string'
+  && (raw.expressionY === undefined || typeof raw.expressionY === 'string')
+  && Array.isArray(raw.domain) && raw.domain.length === 2 && raw.domain.every((v: any) => typeof v === 'number' && isFinite(v))
+  && typeof raw.samples === 'number' && raw.samples >= 2;
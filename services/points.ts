@@ -0,0 +1,278 @@
+import { Shape, Point, PointConstruction, PointConstructionKind, ShapeAnchor } from '../components/CartesianCanvas';
+
+// Named points are shapes of type 'point' at (x1, y1) whose label lives in `text`. A constructed
+// point also carries the construction it was made with and is recomputed from its parent points
+// whenever they move. Other shapes attach their ends to points through `anchors` and follow them.
+
+export const CONSTRUCTION_LABELS: Record<PointConstructionKind, string> = {
+  midpoint: 'Midpoint',
+  intersection: 'Intersection',
+  mediator: 'Perpendicular Bisector',
+  bisector: 'Angle Bisector',
+  foot: 'Foot of Perpendicular',
+  circumcenter: 'Circumcenter',
+  incenter: 'Incenter',
+  on_circle: 'Point on Circle',
+};
+
+// What each construction is built from, in selection order
+export const CONSTRUCTION_HINTS: Record<PointConstructionKind, string> = {
+  midpoint: 'two points A, B (or a segment between named points)',
+  intersection: 'two segments between named points, or four points A, B, C, D',
+  mediator: 'two points A, B (or a segment between named points)',
+  bisector: 'three points A, O, B with the vertex O in the middle',
+  foot: 'a point P, then two points A, B (or a segment) to drop the perpendicular onto',
+  circumcenter: 'three points A, B, C',
+  incenter: 'three points A, B, C',
+  on_circle: 'the center O and a point A on the circle (or a circle between named points)',
+};
+
+const PARENT_COUNTS: Record<PointConstructionKind, number> = {
+  midpoint: 2, intersection: 4, mediator: 2, bisector: 3, foot: 3, circumcenter: 3, incenter: 3, on_circle: 2,
+};
+
+const ANCHOR_FIELDS: Record<ShapeAnchor, ['x1' | 'x2' | 'cx1', 'y1' | 'y2' | 'cy1']> = {
+  start: ['x1', 'y1'],
+  end: ['x2', 'y2'],
+  cp1: ['cx1', 'cy1'],
+};
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+export const isNamedPoint = (shape: Shape) => shape.type === 'point';
+
+const lineIntersection = (a: Point, b: Point, c: Point, d: Point): Point | null => {
+  const den = (b.x - a.x) * (d.y - c.y) - (b.y - a.y) * (d.x - c.x);
+  if (Math.abs(den) < 1e-12) return null;
+  const t = ((c.x - a.x) * (d.y - c.y) - (c.y - a.y) * (d.x - c.x)) / den;
+  return { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) };
+};
+
+// B turned a quarter counterclockwise about the midpoint of AB
+const quarterTurn = (center: Point, p: Point): Point => ({ x: center.x - (p.y - center.y), y: center.y + (p.x - center.x) });
+
+// Where a construction puts its point; null when it is undefined (e.g. parallel lines)
+export const computeConstruction = (construction: PointConstruction, parents: Point[]): Point | null => {
+  const [a, b, c, d] = parents;
+  switch (construction.kind) {
+    case 'midpoint': return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    case 'intersection': return lineIntersection(a, b, c, d);
+    case 'mediator': {
+      // Same points as \tkzDefLine[mediator]: B, then A, turned 90° about the midpoint
+      const m = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+      return quarterTurn(m, construction.index === 1 ? a : b);
+    }
+    case 'bisector': {
+      // Where the bisector of angle AOB meets line AB
+      const la = Math.hypot(a.x - b.x, a.y - b.y); const lb = Math.hypot(c.x - b.x, c.y - b.y);
+      if (la === 0 || lb === 0) return null;
+      const dir = { x: (a.x - b.x) / la + (c.x - b.x) / lb, y: (a.y - b.y) / la + (c.y - b.y) / lb };
+      return lineIntersection(b, { x: b.x + dir.x, y: b.y + dir.y }, a, c);
+    }
+    case 'foot': {
+      const dx = c.x - b.x; const dy = c.y - b.y; const len2 = dx * dx + dy * dy;
+      if (len2 === 0) return null;
+      const t = ((a.x - b.x) * dx + (a.y - b.y) * dy) / len2;
+      return { x: b.x + t * dx, y: b.y + t * dy };
+    }
+    case 'circumcenter': {
+      const den = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+      if (Math.abs(den) < 1e-12) return null;
+      const a2 = a.x * a.x + a.y * a.y; const b2 = b.x * b.x + b.y * b.y; const c2 = c.x * c.x + c.y * c.y;
+      return { x: (a2 * (b.y - c.y) + b2 * (c.y - a.y) + c2 * (a.y - b.y)) / den, y: (a2 * (c.x - b.x) + b2 * (a.x - c.x) + c2 * (b.x - a.x)) / den };
+    }
+    case 'incenter': {
+      // Vertices weighted by the lengths of the opposite sides
+      const la = Math.hypot(c.x - b.x, c.y - b.y); const lb = Math.hypot(c.x - a.x, c.y - a.y); const lc = Math.hypot(b.x - a.x, b.y - a.y);
+      const sum = la + lb + lc;
+      if (sum === 0) return null;
+      return { x: (la * a.x + lb * b.x + lc * c.x) / sum, y: (la * a.y + lb * b.y + lc * c.y) / sum };
+    }
+    case 'on_circle': {
+      const r = Math.hypot(b.x - a.x, b.y - a.y); const angle = (construction.angle ?? 0) * Math.PI / 180;
+      return { x: a.x + r * Math.cos(angle), y: a.y + r * Math.sin(angle) };
+    }
+  }
+};
+
+// Points in an order where every constructed point comes after the points it is built from
+export const sortPointsByDependency = (shapes: Shape[]): Shape[] => {
+  const byId = new Map(shapes.filter(isNamedPoint).map(s => [s.id, s]));
+  const sorted: Shape[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (id: string) => {
+    const point = byId.get(id);
+    // Missing parents and cycles are left for computeConstruction's callers to skip
+    if (!point || state.has(id)) return;
+    state.set(id, 'visiting');
+    point.construction?.of.forEach(visit);
+    state.set(id, 'done');
+    sorted.push(point);
+  };
+  byId.forEach((_, id) => visit(id));
+  return sorted;
+};
+
+// Recomputes constructed points from their parents, then moves anchored shape ends onto their points
+export const resolvePoints = (shapes: Shape[]): Shape[] => {
+  if (!shapes.some(s => isNamedPoint(s))) return shapes;
+  const positions = new Map<string, Point>();
+  const moved = new Map<string, Shape>();
+  sortPointsByDependency(shapes).forEach(point => {
+    let position: Point = { x: point.x1, y: point.y1 };
+    const parents = point.construction?.of.map(id => positions.get(id));
+    if (point.construction && parents && parents.length === PARENT_COUNTS[point.construction.kind] && parents.every(p => p)) {
+      position = computeConstruction(point.construction, parents as Point[]) ?? position;
+    }
+    positions.set(point.id, position);
+    if (position.x !== point.x1 || position.y !== point.y1) moved.set(point.id, { ...point, x1: position.x, y1: position.y, x2: position.x, y2: position.y });
+  });
+
+  return shapes.map(s => {
+    if (moved.has(s.id)) return moved.get(s.id)!;
+    if (!s.anchors) return s;
+    let next = s;
+    (Object.keys(s.anchors) as ShapeAnchor[]).forEach(anchor => {
+      const p = positions.get(s.anchors![anchor]!);
+      const [fx, fy] = ANCHOR_FIELDS[anchor];
+      if (p && (next[fx] !== p.x || next[fy] !== p.y)) next = { ...next, [fx]: p.x, [fy]: p.y };
+    });
+    return next;
+  });
+};
+
+// Free points take over the ends the user dragged on shapes anchored to them
+export const pushAnchorsToPoints = (shapes: Shape[], edited: Shape[]): Shape[] => {
+  const targets = new Map<string, Point>();
+  edited.forEach(s => {
+    if (!s.anchors || isNamedPoint(s)) return;
+    (Object.keys(s.anchors) as ShapeAnchor[]).forEach(anchor => {
+      const [fx, fy] = ANCHOR_FIELDS[anchor];
+      const x = s[fx]; const y = s[fy];
+      if (x !== undefined && y !== undefined) targets.set(s.anchors![anchor]!, { x, y });
+    });
+  });
+  if (targets.size === 0) return shapes;
+  return shapes.map(s => {
+    const p = targets.get(s.id);
+    return p && isNamedPoint(s) && !s.construction ? { ...s, x1: p.x, y1: p.y, x2: p.x, y2: p.y } : s;
+  });
+};
+
+// Ends that stand for a point of their own: an arc's (x2, y2) only fixes its radius and start
+// angle, and a bezier's control points are not points of the figure
+const ANCHORABLE: Record<string, ShapeAnchor[]> = {
+  line: ['start', 'end'], measure: ['start', 'end'], measure_radius: ['start', 'end'], brace: ['start', 'end'],
+  bezier: ['start', 'end'], circle: ['start', 'end'], arc: ['start'], mark_angle: ['start', 'end', 'cp1'],
+};
+
+// Attaches the ends of a new shape to named points lying exactly where they are
+export const attachToPoints = (shape: Shape, shapes: Shape[]): Shape => {
+  const points = shapes.filter(isNamedPoint);
+  const anchors: Partial<Record<ShapeAnchor, string>> = {};
+  (ANCHORABLE[shape.type] || []).forEach(anchor => {
+    const [fx, fy] = ANCHOR_FIELDS[anchor];
+    const x = shape[fx]; const y = shape[fy];
+    if (x === undefined || y === undefined) return;
+    const hit = points.find(p => Math.abs(p.x1 - x) < 1e-9 && Math.abs(p.y1 - y) < 1e-9);
+    if (hit) anchors[anchor] = hit.id;
+  });
+  return Object.keys(anchors).length > 0 ? { ...shape, anchors } : shape;
+};
+
+// First free label in A..Z, then A1..Z1, A2..
+export const nextPointLabel = (shapes: Shape[], taken: Set<string> = new Set()): string => {
+  const used = new Set([...taken, ...shapes.filter(isNamedPoint).map(s => s.text)]);
+  for (let round = 0; ; round++) {
+    for (let c = 0; c < 26; c++) {
+      const label = String.fromCharCode(65 + c) + (round === 0 ? '' : round);
+      if (!used.has(label)) return label;
+    }
+  }
+};
+
+// Copies no longer follow the originals' parents; copied points are primed (A -> A')
+export const detachCopies = (copies: Shape[]): Shape[] => copies.map(s => {
+  if (!s.anchors && !s.construction && !isNamedPoint(s)) return s;
+  const { anchors, construction, ...rest } = s;
+  return isNamedPoint(s) ? { ...rest, text: `${s.text || ''}'` } : rest;
+});
+
+// The named points a selection stands for: points themselves, plus both ends of anchored shapes
+const selectionPoints = (selected: Shape[], shapes: Shape[]): Shape[] => {
+  const byId = new Map(shapes.map(s => [s.id, s]));
+  return selected.flatMap(s => {
+    if (isNamedPoint(s)) return [s];
+    const start = s.anchors?.start ? byId.get(s.anchors.start) : undefined;
+    const end = s.anchors?.end ? byId.get(s.anchors.end) : undefined;
+    if (!start || !end) throw new Error('Constructions need named points: draw shapes between points, or select the points themselves.');
+    return [start, end];
+  });
+};
+
+export interface ConstructionStyle {
+  style: Shape['style'];
+  lineWidth: number;
+  strokeColor?: string;
+}
+
+// Builds the points (and, for the bisectors, the line) a construction adds to the drawing
+export const createConstruction = (kind: PointConstructionKind, selected: Shape[], shapes: Shape[], lineStyle: ConstructionStyle, angle: number = 0): Shape[] => {
+  const parents = selectionPoints(selected, shapes);
+  if (parents.length !== PARENT_COUNTS[kind]) throw new Error(`${CONSTRUCTION_LABELS[kind]} needs ${CONSTRUCTION_HINTS[kind]}.`);
+  if (new Set(parents.map(p => p.id)).size !== parents.length && kind !== 'intersection') {
+    throw new Error(`${CONSTRUCTION_LABELS[kind]} needs ${CONSTRUCTION_HINTS[kind]}, all different.`);
+  }
+
+  const taken = new Set<string>();
+  const positions = parents.map(p => ({ x: p.x1, y: p.y1 }));
+  const point = (construction: PointConstruction): Shape => {
+    const p = computeConstruction(construction, positions);
+    if (!p) throw new Error(`The ${CONSTRUCTION_LABELS[kind].toLowerCase()} of these points is not defined.`);
+    const text = nextPointLabel(shapes, taken);
+    taken.add(text);
+    return { id: newId(), type: 'point', x1: p.x, y1: p.y, x2: p.x, y2: p.y, text, construction, style: 'solid', arrow: 'none', lineWidth: 2 };
+  };
+  const line = (from: Shape, to: Shape): Shape => ({
+    id: newId(), type: 'line', x1: from.x1, y1: from.y1, x2: to.x1, y2: to.y1,
+    style: lineStyle.style, arrow: 'none', lineWidth: lineStyle.lineWidth, strokeColor: lineStyle.strokeColor,
+    anchors: { start: from.id, end: to.id },
+  });
+  const of = parents.map(p => p.id);
+
+  if (kind === 'mediator') {
+    const first = point({ kind, of, index: 0 });
+    const second = point({ kind, of, index: 1 });
+    return [first, second, line(first, second)];
+  }
+  if (kind === 'bisector') {
+    const foot = point({ kind, of });
+    return [foot, line(parents[1], foot)];
+  }
+  return [point(kind === 'on_circle' ? { kind, of, angle } : { kind, of })];
+};
+
+// Shape checks for project files
+export const isValidConstruction = (raw: any): boolean =>
+  !!raw && Object.keys(PARENT_COUNTS).includes(raw.kind) && Array.isArray(raw.of) && raw.of.length === PARENT_COUNTS[raw.kind as PointConstructionKind]
+  && raw.of.every((id: any) => typeof id === 'string')
+  && (raw.index === undefined || raw.index === 0 || raw.index === 1)
+  && (raw.angle === undefined || (typeof raw.angle === 'number' && isFinite(raw.angle)));
+
+export const isValidAnchors = (raw: any): boolean =>
+  !!raw && typeof raw === 'object' && Object.entries(raw).every(([key, id]) => Object.keys(ANCHOR_FIELDS).includes(key) && typeof id === 'string');
+
+// Identifier-safe tkz-euclide names for every named point, unique across the drawing
+export const getTkzPointNames = (shapes: Shape[]): Map<string, string> => {
+  const names = new Map<string, string>();
+  const used = new Set<string>();
+  shapes.filter(isNamedPoint).forEach((p, i) => {
+    // Primes and subscripts are dropped: A' becomes Ap, $A_1$ becomes A1
+    let name = (p.text || '').replace(/'/g, 'p').replace(/[^A-Za-z0-9]/g, '');
+    if (!/^[A-Za-z]/.test(name)) name = `N${i + 1}${name}`;
+    while (used.has(name)) name += 'x';
+    used.add(name);
+    names.set(p.id, name);
+  });
+  return names;
+};
@@ -0,0 +1,72 @@
+import { Shape, Point } from '../components/CartesianCanvas';
+
+// A polygon keeps its vertices in `points`; `closed` joins the last back to the first, otherwise
+// it is an open polyline. (x1, y1) and (x2, y2) mirror the first and last vertex so code that
+// only knows the two ends (object snaps, anchors, bounds) still sees sensible values.
+
+// Fewest vertices that still make the shape
+export const getMinVertices = (shape: Shape) => shape.closed ? 3 : 2;
+
+export const getVertices = (shape: Shape): Point[] => shape.points ?? [];
+
+// The shape with new vertices and its ends kept in step
+export const withVertices = (shape: Shape, points: Point[]): Shape => {
+  if (points.length === 0) return { ...shape, points };
+  const first = points[0]; const last = points[points.length - 1];
+  return { ...shape, points, x1: first.x, y1: first.y, x2: last.x, y2: last.y };
+};
+
+// Edges in drawing order, the closing edge last
+export const getPolygonEdges = (shape: Shape): [Point, Point][] => {
+  const pts = getVertices(shape);
+  const edges = pts.slice(1).map((b, i) => [pts[i], b] as [Point, Point]);
+  if (shape.closed && pts.length > 2) edges.push([pts[pts.length - 1], pts[0]]);
+  return edges;
+};
+
+export const moveVertex = (shape: Shape, index: number, p: Point): Shape =>
+  withVertices(shape, getVertices(shape).map((q, i) => i === index ? p : q));
+
+// A new vertex after `index`, i.e. on the edge that starts there
+export const insertVertex = (shape: Shape, index: number, p: Point): Shape => {
+  const pts = [...getVertices(shape)];
+  pts.splice(index + 1, 0, p);
+  return withVertices(shape, pts);
+};
+
+// Null when the shape would be left with too few vertices
+export const removeVertex = (shape: Shape, index: number): Shape | null => {
+  const pts = getVertices(shape);
+  if (pts.length <= getMinVertices(shape)) return null;
+  return withVertices(shape, pts.filter((_, i) => i !== index));
+};
+
+// Even-odd test, matching how the canvas and the exports fill
+export const isPointInPolygon = (p: Point, pts: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    const a = pts[i]; const b = pts[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+export const getPolygonBounds = (shape: Shape) => {
+  const pts = getVertices(shape);
+  if (pts.length === 0) return { minX: shape.x1, maxX: shape.x1, minY: shape.y1, maxY: shape.y1 };
+  return {
+    minX: Math.min(...pts.map(p => p.x)), maxX: Math.max(...pts.map(p => p.x)),
+    minY: Math.min(...pts.map(p => p.y)), maxY: Math.max(...pts.map(p => p.y)),
+  };
+};
+
+// Vertices of a regular polygon (or a star, alternating two radii) around the origin, the first
+// one straight up
+export const getRegularVertices = (count: number, radius: number, innerRadius?: number): Point[] => {
+  const n = innerRadius === undefined ? count : 2 * count;
+  return Array.from({ length: n }, (_, i) => {
+    const r = innerRadius !== undefined && i % 2 === 1 ? innerRadius : radius;
+    const a = Math.PI / 2 + 2 * Math.PI * i / n;
+    return { x: r * Math.cos(a), y: r * Math.sin(a) };
+  });
+};
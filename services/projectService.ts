@@ -0,0 +1,221 @@
+import { Shape, Layer, LineStyle, ArrowStyle, HatchStyle, Point } from '../components/CartesianCanvas';
+import { ExportMode, EXPORT_MODES, LayerOutput } from './exportGenerators';
+import { DEFAULT_LAYER } from './layers';
+import { Constraint, normalizeConstraints } from './constraints';
+import { isValidAnchors, isValidConstruction } from './points';
+import { isValidPlot } from './plot';
+import { AxesSettings, DEFAULT_AXES_SETTINGS, normalizeAxesSettings } from './axes';
+import { GridSettings, DEFAULT_GRID_SETTINGS, normalizeGridSettings } from './grid';
+
+// Identifies our files so a random JSON document is not mistaken for a drawing.
+export const PROJECT_FORMAT = 'tikz-cad-project';
+export const PROJECT_VERSION = 3;
+export const PROJECT_FILE_EXTENSION = '.tikzcad.json';
+
+export interface ProjectView {
+  scale: number;
+  offset: Point;
+}
+
+export interface ProjectExportOptions {
+  exportMode: ExportMode;
+  showAxes: boolean;
+  showGrid: boolean;
+  exportAsNodes: boolean;
+  layerOutput: LayerOutput;
+  axes: AxesSettings;
+  grid: GridSettings;
+}
+
+export interface ProjectStyleDefaults {
+  lineStyle: LineStyle;
+  arrowStyle: ArrowStyle;
+  lineWidth: number;
+  fillColor: string;
+  strokeColor: string;
+  hatchStyle: HatchStyle;
+}
+
+// Everything needed to restore an editable drawing.
+export interface ProjectDocument {
+  shapes: Shape[];
+  // Bottom to top; always at least one
+  layers: Layer[];
+  constraints: Constraint[];
+  view: ProjectView;
+  exportOptions: ProjectExportOptions;
+  styleDefaults: ProjectStyleDefaults;
+}
+
+export interface ProjectFile extends ProjectDocument {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+}
+
+export const DEFAULT_PROJECT: ProjectDocument = {
+  shapes: [],
+  layers: [DEFAULT_LAYER],
+  constraints: [],
+  view: { scale: 30, offset: { x: 0, y: 0 } },
+  exportOptions: { exportMode: 'standard', showAxes: true, showGrid: true, exportAsNodes: false, layerOutput: 'scope', axes: DEFAULT_AXES_SETTINGS, grid: DEFAULT_GRID_SETTINGS },
+  styleDefaults: { lineStyle: 'solid', arrowStyle: 'none', lineWidth: 2, fillColor: 'none', strokeColor: '#facc15', hatchStyle: 'none' },
+};
+
+// Each entry upgrades a file from version `n` to `n + 1`.
+// Version 0 is the unversioned format: either a bare Shape[] or an object without `version`.
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  0: (data: any) => {
+    const legacy = Array.isArray(data) ? { shapes: data } : (data || {});
+    return { ...legacy, format: PROJECT_FORMAT, version: 1 };
+  },
+  // v2 introduced layers: everything drawn so far lives on a single default layer
+  1: (data: any) => ({
+    ...data,
+    version: 2,
+    layers: [DEFAULT_LAYER],
+    shapes: Array.isArray(data.shapes) ? data.shapes.map((s: any) => (s && typeof s === 'object' ? { ...s, layerId: DEFAULT_LAYER.id } : s)) : data.shapes,
+  }),
+  // v3 introduced geometric constraints between shapes
+  2: (data: any) => ({ ...data, version: 3, constraints: [] }),
+};
+
+export const migrateProject = (data: any): any => {
+  let current = data;
+  let version = (!Array.isArray(current) && typeof current?.version === 'number') ? current.version : 0;
+  if (version > PROJECT_VERSION) {
+    throw new Error(`This file was saved by a newer version of TikZ CAD (format v${version}).`);
+  }
+  while (version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration available for project format v${version}.`);
+    current = migrate(current);
+    version++;
+  }
+  return current;
+};
+
+const num = (value: any, fallback: number): number => (typeof value === 'number' && isFinite(value) ? value : fallback);
+const optNum = (value: any): number | undefined => (typeof value === 'number' && isFinite(value) ? value : undefined);
+
+const LINE_STYLES: LineStyle[] = ['solid', 'dashed', 'dotted'];
+const ARROW_STYLES: ArrowStyle[] = ['none', 'start', 'end', 'both'];
+const HATCH_STYLES: HatchStyle[] = ['none', 'lines', 'grid', 'dots'];
+
+const normalizeShape = (raw: any): Shape | null => {
+  if (!raw || typeof raw !== 'object' || typeof raw.type !== 'string') return null;
+  const shape: Shape = {
+    ...raw,
+    id: typeof raw.id === 'string' && raw.id ? raw.id : Math.random().toString(36).substr(2, 9),
+    x1: num(raw.x1, 0), y1: num(raw.y1, 0),
+    x2: num(raw.x2, 0), y2: num(raw.y2, 0),
+    style: LINE_STYLES.includes(raw.style) ? raw.style : 'solid',
+    arrow: ARROW_STYLES.includes(raw.arrow) ? raw.arrow : 'none',
+    lineWidth: num(raw.lineWidth, 2),
+  };
+  (['cx1', 'cy1', 'cx2', 'cy2', 'textX', 'textY', 'rotation', 'startAngle', 'endAngle', 'cornerRadius', 'angleRadius', 'angleArcs'] as const).forEach(key => {
+    const value = optNum(raw[key]);
+    if (value === undefined) delete shape[key]; else shape[key] = value;
+  });
+  if (Array.isArray(raw.points)) {
+    shape.points = raw.points.filter((p: any) => p && isFinite(p.x) && isFinite(p.y)).map((p: any) => ({ x: Number(p.x), y: Number(p.y) }));
+  } else {
+    delete shape.points;
+  }
+  if (typeof raw.rightAngle !== 'boolean') delete shape.rightAngle;
+  if (typeof raw.closed !== 'boolean') delete shape.closed;
+  // A polygon is nothing without enough vertices
+  if (shape.type === 'polygon' && (shape.points?.length ?? 0) < (shape.closed ? 3 : 2)) return null;
+  const starts = raw.contourStarts;
+  const validStarts = Array.isArray(starts) && starts.length > 0 && starts[0] === 0 && starts.every((s: any, i: number) => Number.isInteger(s) && (i === 0 || s > starts[i - 1]) && s < (shape.points?.length ?? 0));
+  if (!validStarts) { if (shape.type === 'compound') return null; delete shape.contourStarts; }
+  if (typeof raw.layerId !== 'string') delete shape.layerId;
+  if (!Array.isArray(raw.groupIds) || raw.groupIds.length === 0 || !raw.groupIds.every((g: any) => typeof g === 'string')) delete shape.groupIds;
+  if (!isValidAnchors(raw.anchors)) delete shape.anchors;
+  if (!isValidConstruction(raw.construction)) delete shape.construction;
+  // A plot is nothing without its definition
+  if (!isValidPlot(raw.plot)) { if (shape.type === 'plot') return null; delete shape.plot; }
+  return shape;
+};
+
+const normalizeLayers = (raw: any): Layer[] => {
+  if (!Array.isArray(raw)) return [DEFAULT_LAYER];
+  const seen = new Set<string>();
+  const layers = raw
+    .filter((l: any) => l && typeof l.id === 'string' && l.id && !seen.has(l.id) && seen.add(l.id))
+    .map((l: any, i: number): Layer => ({
+      id: l.id,
+      name: typeof l.name === 'string' && l.name.trim() ? l.name : `Layer ${i + 1}`,
+      visible: l.visible !== false,
+      locked: l.locked === true,
+    }));
+  return layers.length > 0 ? layers : [DEFAULT_LAYER];
+};
+
+// Each field checked on its own, so one bad value does not reset the others; unknown keys are dropped
+const normalizeStyleDefaults = (raw: any): ProjectStyleDefaults => {
+  const defaults = DEFAULT_PROJECT.styleDefaults;
+  const style = raw && typeof raw === 'object' ? raw : {};
+  const color = (value: any, fallback: string) => (typeof value === 'string' && value ? value : fallback);
+  return {
+    lineStyle: LINE_STYLES.includes(style.lineStyle) ? style.lineStyle : defaults.lineStyle,
+    arrowStyle: ARROW_STYLES.includes(style.arrowStyle) ? style.arrowStyle : defaults.arrowStyle,
+    lineWidth: num(style.lineWidth, 0) > 0 ? style.lineWidth : defaults.lineWidth,
+    fillColor: color(style.fillColor, defaults.fillColor),
+    strokeColor: color(style.strokeColor, defaults.strokeColor),
+    hatchStyle: HATCH_STYLES.includes(style.hatchStyle) ? style.hatchStyle : defaults.hatchStyle,
+  };
+};
+
+export const parseProject = (text: string): ProjectDocument => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!Array.isArray(data) && data?.format !== undefined && data.format !== PROJECT_FORMAT) {
+    throw new Error('The file is not a TikZ CAD project.');
+  }
+
+  const project = migrateProject(data);
+  if (!Array.isArray(project.shapes)) throw new Error('The project file does not contain a shape list.');
+
+  const view = project.view || {};
+  const exportOptions = project.exportOptions || {};
+  const defaults = DEFAULT_PROJECT;
+  const layers = normalizeLayers(project.layers);
+  const shapes: Shape[] = project.shapes.map(normalizeShape).filter((s: Shape | null): s is Shape => s !== null)
+    .map((s: Shape) => (s.layerId && layers.some(l => l.id === s.layerId) ? s : { ...s, layerId: layers[0].id }));
+  const shapeIds = new Set(shapes.map(s => s.id));
+
+  return {
+    shapes,
+    layers,
+    constraints: normalizeConstraints(project.constraints).filter(c => c.refs.every(r => shapeIds.has(r.shapeId))),
+    view: {
+      scale: num(view.scale, 0) > 0 ? view.scale : defaults.view.scale,
+      offset: { x: num(view.offset?.x, 0), y: num(view.offset?.y, 0) },
+    },
+    exportOptions: {
+      exportMode: EXPORT_MODES.includes(exportOptions.exportMode) ? exportOptions.exportMode : defaults.exportOptions.exportMode,
+      showAxes: typeof exportOptions.showAxes === 'boolean' ? exportOptions.showAxes : defaults.exportOptions.showAxes,
+      showGrid: typeof exportOptions.showGrid === 'boolean' ? exportOptions.showGrid : defaults.exportOptions.showGrid,
+      exportAsNodes: typeof exportOptions.exportAsNodes === 'boolean' ? exportOptions.exportAsNodes : defaults.exportOptions.exportAsNodes,
+      layerOutput: exportOptions.layerOutput === 'pgfonlayer' ? 'pgfonlayer' : 'scope',
+      axes: normalizeAxesSettings(exportOptions.axes),
+      grid: normalizeGridSettings(exportOptions.grid),
+    },
+    styleDefaults: normalizeStyleDefaults(project.styleDefaults),
+  };
+};
+
+export const serializeProject = (doc: ProjectDocument): string => {
+  const file: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    ...doc,
+  };
+  return JSON.stringify(file, null, 2);
+};
@@ -0,0 +1,111 @@
+import { Shape } from '../components/CartesianCanvas';
+import { getArcGeometry, setArcRadius } from './arc';
+import { translateShape } from './transform';
+
+// Exact values for the property inspector. Each property reads a number off a shape and writes
+// one back, keeping the rest of the shape sensible: a new length keeps the line's start and
+// direction, a new width keeps the rectangle's first corner, a new center moves the whole circle.
+// Angles are shown in degrees, counterclockwise from the positive x axis.
+
+export type PropertyKey = 'x1' | 'y1' | 'x2' | 'y2' | 'cx1' | 'cy1' | 'cx2' | 'cy2' | 'length' | 'angle' | 'radius' | 'diameter' | 'width' | 'height' | 'rx' | 'ry' | 'rotation' | 'cornerRadius';
+
+// One line of the inspector: a label and one or two fields side by side
+export interface PropertyRow {
+  label: string;
+  keys: PropertyKey[];
+  // Shown after the fields
+  unit?: string;
+}
+
+const LINE_TYPES = ['line', 'measure', 'measure_radius', 'brace'];
+// Shapes placed by (x1, y1) as a whole; moving that point moves everything
+const CENTERED_TYPES = ['circle', 'ellipse', 'arc', 'text', 'point'];
+
+const row = (label: string, keys: PropertyKey[], unit?: string): PropertyRow => ({ label, keys, ...(unit ? { unit } : {}) });
+
+const toDegrees = (rad: number) => rad * 180 / Math.PI;
+const toRadians = (deg: number) => deg * Math.PI / 180;
+
+export const getPropertyRows = (shape: Shape): PropertyRow[] => {
+  if (LINE_TYPES.includes(shape.type)) return [row('Start', ['x1', 'y1']), row('End', ['x2', 'y2']), row('Length', ['length']), row('Angle', ['angle'], '°')];
+  switch (shape.type) {
+    case 'bezier': return [row('Start', ['x1', 'y1']), row('End', ['x2', 'y2']), row('Control 1', ['cx1', 'cy1']), row('Control 2', ['cx2', 'cy2'])];
+    case 'rect': return [row('Corner', ['x1', 'y1']), row('Opposite', ['x2', 'y2']), row('Width / height', ['width', 'height']), row('Rotation', ['rotation'], '°')];
+    case 'round_rect': return [...getPropertyRows({ ...shape, type: 'rect' }), row('Corner radius', ['cornerRadius'])];
+    case 'circle': return [row('Center', ['x1', 'y1']), row('Radius', ['radius']), row('Diameter', ['diameter'])];
+    case 'ellipse': return [row('Center', ['x1', 'y1']), row('Radius x / y', ['rx', 'ry']), row('Rotation', ['rotation'], '°')];
+    case 'arc': return [row('Center', ['x1', 'y1']), row('Radius', ['radius'])];
+    case 'text': return [row('Position', ['x1', 'y1']), row('Rotation', ['rotation'], '°')];
+    // Constructed points follow their parents
+    case 'point': return shape.construction ? [] : [row('Position', ['x1', 'y1'])];
+    default: return [];
+  }
+};
+
+// Rows every one of the shapes has, labelled as for the first
+export const getCommonPropertyRows = (shapes: Shape[]): PropertyRow[] => {
+  if (shapes.length === 0) return [];
+  const key = (r: PropertyRow) => r.keys.join(',');
+  const others = shapes.slice(1).map(s => new Set(getPropertyRows(s).map(key)));
+  return getPropertyRows(shapes[0]).filter(r => others.every(keys => keys.has(key(r))));
+};
+
+// What the label field is called for the shape, or null when it has none
+export const getLabelName = (shape: Shape): string | null => {
+  switch (shape.type) {
+    case 'text': return 'Text';
+    case 'point': return 'Name';
+    case 'measure': case 'measure_radius': case 'mark_angle': return 'Label';
+    default: return null;
+  }
+};
+
+export const getProperty = (s: Shape, key: PropertyKey): number => {
+  switch (key) {
+    case 'x1': case 'y1': case 'x2': case 'y2': return s[key];
+    case 'cx1': return s.cx1 ?? s.x1;
+    case 'cy1': return s.cy1 ?? s.y1;
+    case 'cx2': return s.cx2 ?? s.x2;
+    case 'cy2': return s.cy2 ?? s.y2;
+    case 'length': return Math.hypot(s.x2 - s.x1, s.y2 - s.y1);
+    case 'angle': return toDegrees(Math.atan2(s.y2 - s.y1, s.x2 - s.x1));
+    case 'radius': return s.type === 'arc' ? getArcGeometry(s).radius : Math.hypot(s.x2 - s.x1, s.y2 - s.y1);
+    case 'diameter': return 2 * Math.hypot(s.x2 - s.x1, s.y2 - s.y1);
+    case 'width': case 'rx': return Math.abs(s.x2 - s.x1);
+    case 'height': case 'ry': return Math.abs(s.y2 - s.y1);
+    case 'rotation': return toDegrees(s.rotation || 0);
+    case 'cornerRadius': return s.cornerRadius ?? 0.5;
+  }
+};
+
+// Keeps the start and moves the end to the given length and direction
+const withPolar = (s: Shape, length: number, angle: number): Shape =>
+  ({ ...s, x2: s.x1 + length * Math.cos(angle), y2: s.y1 + length * Math.sin(angle) });
+
+const positive = (v: number, what: string) => { if (!(v > 0)) throw new Error(`The ${what} must be positive.`); };
+
+// The shape with the property set; throws when the value does not fit
+export const setProperty = (s: Shape, key: PropertyKey, v: number): Shape => {
+  const direction = s.x1 === s.x2 && s.y1 === s.y2 ? 0 : Math.atan2(s.y2 - s.y1, s.x2 - s.x1);
+  switch (key) {
+    case 'x1': return CENTERED_TYPES.includes(s.type) ? translateShape(s, v - s.x1, 0) : { ...s, x1: v };
+    case 'y1': return CENTERED_TYPES.includes(s.type) ? translateShape(s, 0, v - s.y1) : { ...s, y1: v };
+    case 'x2': case 'y2': case 'cx1': case 'cy1': case 'cx2': case 'cy2': return { ...s, [key]: v };
+    case 'length': positive(v, 'length'); return withPolar(s, v, direction);
+    case 'angle': return withPolar(s, getProperty(s, 'length'), toRadians(v));
+    case 'radius':
+      positive(v, 'radius');
+      return s.type === 'arc' ? setArcRadius(s, v) : withPolar(s, v, direction);
+    case 'diameter': positive(v, 'diameter'); return withPolar(s, v / 2, direction);
+    // Sides keep the first corner and the way the shape was drawn
+    case 'width': case 'rx': positive(v, key === 'width' ? 'width' : 'radius'); return { ...s, x2: s.x1 + (s.x2 < s.x1 ? -v : v) };
+    case 'height': case 'ry': positive(v, key === 'height' ? 'height' : 'radius'); return { ...s, y2: s.y1 + (s.y2 < s.y1 ? -v : v) };
+    case 'rotation': {
+      const { rotation, ...rest } = s;
+      return v === 0 ? rest : { ...rest, rotation: toRadians(v) };
+    }
+    case 'cornerRadius':
+      if (v < 0) throw new Error('The corner radius cannot be negative.');
+      return { ...s, cornerRadius: v };
+  }
+};
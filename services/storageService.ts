@@ -0,0 +1,134 @@
+import { Shape } from '../components/CartesianCanvas';
+import { ProjectDocument, PROJECT_FORMAT, PROJECT_VERSION, parseProject, serializeProject } from './projectService';
+
+const DB_NAME = 'tikz-cad';
+const DB_VERSION = 1;
+const AUTOSAVE_STORE = 'autosave';
+const DOCUMENTS_STORE = 'documents';
+const AUTOSAVE_KEY = 'current';
+
+// Undo stacks can grow without bound during a long session; only the most recent steps are persisted.
+const MAX_PERSISTED_HISTORY = 100;
+const MAX_RECENT_DOCUMENTS = 20;
+
+export interface AutosaveRecord {
+  documentId: string;
+  documentName: string;
+  project: ProjectDocument;
+  history: Shape[][];
+  future: Shape[][];
+  savedAt: number;
+  // True when the drawing has changes that were never written to a project file
+  dirty: boolean;
+}
+
+export interface RecentDocument {
+  id: string;
+  name: string;
+  updatedAt: number;
+  thumbnail: string;
+  project: ProjectDocument;
+}
+
+// On disk the project is kept as a versioned project file, so records written by an older
+// version of the editor go through the same migrations as opening a file.
+// Records from before that were a bare, unversioned ProjectDocument.
+type Stored<T extends { project: ProjectDocument }> = Omit<T, 'project'> & { project: string | ProjectDocument };
+
+const toStored = <T extends { project: ProjectDocument }>(record: T): Stored<T> =>
+  ({ ...record, project: serializeProject(record.project) });
+
+// A bare record has no version; the fields it holds show which format it was written in,
+// so layers and constraints it already has are not replaced by the migrations that add them
+const getLegacyVersion = (project: any) => Array.isArray(project?.constraints) ? 3 : Array.isArray(project?.layers) ? 2 : 1;
+
+const fromStored = <T extends { project: ProjectDocument }>(record: Stored<T>): T => {
+  const text = typeof record.project === 'string' ? record.project
+    : JSON.stringify({ ...record.project, format: PROJECT_FORMAT, version: getLegacyVersion(record.project) });
+  return { ...record, project: parseProject(text) } as T;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(AUTOSAVE_STORE)) db.createObjectStore(AUTOSAVE_STORE);
+      if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error('Could not open the autosave database.'));
+  });
+  // Let a later call retry if opening failed (e.g. private browsing)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const runRequest = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error || request.error);
+    tx.onabort = () => reject(tx.error || new Error('Storage transaction aborted.'));
+  });
+};
+
+// Undo snapshots are bare shape lists with no migrations of their own; they are only restored
+// when written in the current project format
+type StoredAutosave = Stored<AutosaveRecord> & { historyVersion?: number };
+
+export const saveAutosave = async (record: AutosaveRecord): Promise<void> => {
+  const trimmed: StoredAutosave = {
+    ...toStored(record),
+    history: record.history.slice(-MAX_PERSISTED_HISTORY),
+    future: record.future.slice(-MAX_PERSISTED_HISTORY),
+    historyVersion: PROJECT_VERSION,
+  };
+  await runRequest(AUTOSAVE_STORE, 'readwrite', store => store.put(trimmed, AUTOSAVE_KEY));
+};
+
+export const loadAutosave = async (): Promise<AutosaveRecord | null> => {
+  const stored = await runRequest<StoredAutosave | undefined>(AUTOSAVE_STORE, 'readonly', store => store.get(AUTOSAVE_KEY));
+  if (!stored) return null;
+  const { historyVersion, ...record } = stored;
+  const current = historyVersion === PROJECT_VERSION;
+  return fromStored<AutosaveRecord>({ ...record, history: current ? record.history : [], future: current ? record.future : [] });
+};
+
+export const clearAutosave = async (): Promise<void> => {
+  await runRequest(AUTOSAVE_STORE, 'readwrite', store => store.delete(AUTOSAVE_KEY));
+};
+
+export const saveRecentDocument = async (doc: RecentDocument): Promise<void> => {
+  await runRequest(DOCUMENTS_STORE, 'readwrite', store => store.put(toStored(doc)));
+  // Drop the oldest entries beyond the limit
+  const all = await listStoredDocuments();
+  const stale = all.slice(MAX_RECENT_DOCUMENTS);
+  for (const old of stale) await deleteRecentDocument(old.id);
+};
+
+const listStoredDocuments = async (): Promise<Stored<RecentDocument>[]> => {
+  const docs = await runRequest<Stored<RecentDocument>[]>(DOCUMENTS_STORE, 'readonly', store => store.getAll());
+  return docs.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Entries whose project can no longer be read are left out
+export const listRecentDocuments = async (): Promise<RecentDocument[]> => {
+  const docs = await listStoredDocuments();
+  return docs.flatMap(doc => {
+    try { return [fromStored(doc)]; } catch (e) { console.warn(`Skipping unreadable recent document "${doc.name}":`, e); return []; }
+  });
+};
+
+export const deleteRecentDocument = async (id: string): Promise<void> => {
+  await runRequest(DOCUMENTS_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,915 @@
+import { Shape, Point, LineStyle, ArrowStyle, HatchStyle, PlotDefinition } from '../components/CartesianCanvas';
+import { orientContours, withContours } from './boolean';
+import { fromPgfMath } from './expression';
+import { parsePlot } from './plot';
+
+// Parses TikZ source back into editable shapes.
+// Covers everything the standard exporter emits (paths, nodes, \definecolor, \foreach loops, group scopes, points, angle marks, measures)
+// and reports every construct it could not represent instead of silently dropping it.
+
+export interface TikzImportResult {
+  shapes: Shape[];
+  skipped: string[];
+  showGrid: boolean;
+  showAxes: boolean;
+}
+
+// An open \begin{scope}: the options its paths inherit, where its shapes start in `shapes`, and
+// whether it stands for a group (layer sections are scopes too, announced by a `% Layer:` comment)
+interface OpenScope {
+  options: string;
+  start: number;
+  isGroup: boolean;
+}
+
+interface ImportContext {
+  colors: Map<string, string>;
+  coordinates: Map<string, Point>;
+  skipped: string[];
+  shapes: Shape[];
+  scopes: OpenScope[];
+  showGrid: boolean;
+  showAxes: boolean;
+}
+
+type Statement =
+  | { kind: 'comment'; text: string }
+  | { kind: 'macro'; name: string; args: string[]; raw: string }
+  | { kind: 'path'; name: string; body: string }
+  | { kind: 'foreach'; variable: string; list: string; body: string; raw: string };
+
+const PATH_COMMANDS = ['draw', 'fill', 'filldraw', 'path', 'node', 'coordinate', 'pic', 'shade', 'shadedraw', 'clip', 'pattern'];
+// Structural commands that carry no geometry
+const IGNORED_MACROS = ['documentclass', 'usepackage', 'usetikzlibrary', 'begin', 'end', 'tikzset', 'centering', 'small', 'footnotesize', 'pgfdeclarelayer', 'pgfsetlayers'];
+
+const XCOLOR_NAMES: Record<string, string> = {
+  black: '#000000', white: '#ffffff', red: '#ff0000', green: '#00ff00', blue: '#0000ff', cyan: '#00ffff',
+  magenta: '#ff00ff', yellow: '#ffff00', gray: '#808080', darkgray: '#404040', lightgray: '#bfbfbf',
+  brown: '#bf8040', lime: '#bfff00', olive: '#808000', orange: '#ff8000', pink: '#ffbfbf',
+  purple: '#bf0040', teal: '#008080', violet: '#800080',
+};
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+// --- Low-level scanning ---
+
+const CLOSERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+// Returns the index just past the group that opens at `start`, honouring nested brackets of every kind.
+const skipGroup = (src: string, start: number): number => {
+  const stack: string[] = [];
+  for (let i = start; i < src.length; i++) {
+    const ch = src[i];
+    if (ch === '\\') { i++; continue; }
+    if (ch === '(' || ch === '[' || ch === '{') {
+      // Parentheses inside braces are plain text in TikZ; only track them at the outer level
+      if (ch === '(' && stack.length > 0 && stack[stack.length - 1] === '}') continue;
+      stack.push(CLOSERS[ch]);
+    } else if (stack.length > 0 && ch === stack[stack.length - 1]) {
+      stack.pop();
+      if (stack.length === 0) return i + 1;
+    }
+  }
+  return src.length;
+};
+
+const splitTopLevel = (src: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0; let current = '';
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (ch === '{' || ch === '(' || ch === '[') depth++;
+    else if (ch === '}' || ch === ')' || ch === ']') depth--;
+    if (ch === separator && depth === 0) { parts.push(current); current = ''; }
+    else current += ch;
+  }
+  parts.push(current);
+  return parts.map(p => p.trim()).filter(p => p.length > 0);
+};
+
+const stripOuter = (group: string) => group.slice(1, -1).trim();
+
+const readStatements = (src: string): Statement[] => {
+  const statements: Statement[] = [];
+  let i = 0;
+  const skipSpace = () => { while (i < src.length && /\s/.test(src[i])) i++; };
+
+  while (i < src.length) {
+    skipSpace();
+    if (i >= src.length) break;
+    const ch = src[i];
+
+    if (ch === '%') {
+      const end = src.indexOf('\n', i);
+      const stop = end === -1 ? src.length : end;
+      statements.push({ kind: 'comment', text: src.slice(i + 1, stop).trim() });
+      i = stop;
+      continue;
+    }
+
+    if (ch === '\\') {
+      const match = /^\\([A-Za-z@]+)/.exec(src.slice(i));
+      if (!match) { i += 2; continue; }
+      const name = match[1];
+      const start = i;
+      i += match[0].length;
+
+      if (name === 'foreach') {
+        const header = /^\s*(\\[A-Za-z]+(?:\/\\[A-Za-z]+)*)\s+in\s*/.exec(src.slice(i));
+        if (!header || src[i + header[0].length] !== '{') {
+          const stop = src.indexOf(';', i);
+          const end = stop === -1 ? src.length : stop + 1;
+          statements.push({ kind: 'macro', name, args: [], raw: src.slice(start, end) });
+          i = end;
+          continue;
+        }
+        const listStart = i + header[0].length;
+        const listEnd = skipGroup(src, listStart);
+        i = listEnd;
+        skipSpace();
+        let body: string;
+        if (src[i] === '{') {
+          const bodyEnd = skipGroup(src, i);
+          body = stripOuter(src.slice(i, bodyEnd));
+          i = bodyEnd;
+        } else {
+          const stop = src.indexOf(';', i);
+          const end = stop === -1 ? src.length : stop + 1;
+          body = src.slice(i, end);
+          i = end;
+        }
+        statements.push({ kind: 'foreach', variable: header[1], list: stripOuter(src.slice(listStart, listEnd)), body, raw: src.slice(start, i) });
+        continue;
+      }
+
+      if (PATH_COMMANDS.includes(name)) {
+        // Read up to the terminating semicolon at bracket depth 0
+        let j = i;
+        while (j < src.length && src[j] !== ';') {
+          if (src[j] === '(' || src[j] === '[' || src[j] === '{') j = skipGroup(src, j);
+          else if (src[j] === '\\') j += 2;
+          else j++;
+        }
+        statements.push({ kind: 'path', name, body: src.slice(i, j).trim() });
+        i = j + 1;
+        continue;
+      }
+
+      // Generic macro: collect directly following [..] / {..} arguments
+      const args: string[] = [];
+      while (true) {
+        let j = i;
+        while (j < src.length && (src[j] === ' ' || src[j] === '\t')) j++;
+        if (src[j] !== '[' && src[j] !== '{') break;
+        const end = skipGroup(src, j);
+        args.push(src.slice(j, end));
+        i = end;
+      }
+      statements.push({ kind: 'macro', name, args, raw: src.slice(start, i) });
+      continue;
+    }
+
+    // Stray text (e.g. document body content); skip to the next line
+    const end = src.indexOf('\n', i);
+    const stop = end === -1 ? src.length : end;
+    const text = src.slice(i, stop).trim();
+    if (text) statements.push({ kind: 'macro', name: '', args: [], raw: text });
+    i = stop;
+  }
+  return statements;
+};
+
+// --- Numbers, coordinates and colors ---
+
+// Evaluates the arithmetic TikZ allows inside coordinates: numbers, + - * /, parentheses and a `cm` unit.
+export const evaluateNumber = (expr: string): number => {
+  const src = expr.replace(/[{}]/g, '').replace(/cm\b/g, '').trim();
+  let pos = 0;
+  const peek = () => { while (src[pos] === ' ') pos++; return src[pos]; };
+  const parseAtom = (): number => {
+    const c = peek();
+    if (c === '(') { pos++; const v = parseSum(); if (peek() === ')') pos++; return v; }
+    if (c === '-') { pos++; return -parseAtom(); }
+    if (c === '+') { pos++; return parseAtom(); }
+    const m = /^\d*\.?\d+(?:e[+-]?\d+)?/i.exec(src.slice(pos));
+    if (!m) return NaN;
+    pos += m[0].length;
+    return parseFloat(m[0]);
+  };
+  const parseProduct = (): number => {
+    let v = parseAtom();
+    while (peek() === '*' || peek() === '/') { const op = src[pos++]; const r = parseAtom(); v = op === '*' ? v * r : v / r; }
+    return v;
+  };
+  const parseSum = (): number => {
+    let v = parseProduct();
+    while (peek() === '+' || peek() === '-') { const op = src[pos++]; const r = parseProduct(); v = op === '+' ? v + r : v - r; }
+    return v;
+  };
+  const value = parseSum();
+  return peek() === undefined ? value : NaN;
+};
+
+const parseCoordinate = (inner: string, ctx: ImportContext): Point | null => {
+  const text = inner.trim();
+  const named = ctx.coordinates.get(text);
+  if (named) return named;
+  const parts = splitTopLevel(text, ',');
+  if (parts.length === 2) {
+    const x = evaluateNumber(parts[0]); const y = evaluateNumber(parts[1]);
+    if (isFinite(x) && isFinite(y)) return { x, y };
+  }
+  const polar = /^(.+):(.+)$/.exec(text);
+  if (polar) {
+    const angle = evaluateNumber(polar[1]) * Math.PI / 180; const r = evaluateNumber(polar[2]);
+    if (isFinite(angle) && isFinite(r)) return { x: r * Math.cos(angle), y: r * Math.sin(angle) };
+  }
+  return null;
+};
+
+const resolveColor = (value: string, ctx: ImportContext): string | null => {
+  const name = value.trim();
+  if (ctx.colors.has(name)) return ctx.colors.get(name)!;
+  const mix = /^([A-Za-z]+)!(\d+)$/.exec(name);
+  const base = mix ? mix[1] : name;
+  const hex = ctx.colors.get(base) || XCOLOR_NAMES[base];
+  if (!hex) return null;
+  if (!mix) return hex;
+  // xcolor `color!pct` mixes with white
+  const pct = Number(mix[2]) / 100;
+  const channel = (k: number) => Math.round(parseInt(hex.slice(1 + 2 * k, 3 + 2 * k), 16) * pct + 255 * (1 - pct)).toString(16).padStart(2, '0');
+  return `#${channel(0)}${channel(1)}${channel(2)}`;
+};
+
+// --- Options ---
+
+interface ParsedStyle {
+  style: LineStyle;
+  arrow: ArrowStyle;
+  lineWidth: number;
+  strokeColor?: string;
+  fillColor?: string;
+  hatchStyle?: HatchStyle;
+  cornerRadius?: number;
+  rotation?: number;
+  isBrace: boolean;
+  isGrid: boolean;
+  nodeShape?: 'rectangle' | 'circle';
+  minimumWidth?: number;
+  minimumHeight?: number;
+  minimumSize?: number;
+  textColor?: string;
+}
+
+// Option keys that only affect presentation details we do not model
+const NEUTRAL_OPTIONS = ['draw', '>=latex', 'latex', 'sloped', 'midway', 'above', 'below', 'left', 'right', 'inner sep', 'smooth', 'tension', 'decorate', 'amplitude', 'raise', 'thin', 'help lines', 'step', 'xstep', 'ystep', 'anchor', 'font', 'pos', 'solid', 'even odd rule'];
+
+const parseOptions = (raw: string, ctx: ImportContext, lineWidthDefault: number = 1): ParsedStyle => {
+  const result: ParsedStyle = { style: 'solid', arrow: 'none', lineWidth: lineWidthDefault, isBrace: false, isGrid: false };
+  splitTopLevel(raw, ',').forEach(opt => {
+    const eq = opt.indexOf('=');
+    const key = (eq === -1 ? opt : opt.slice(0, eq)).trim();
+    const value = eq === -1 ? '' : opt.slice(eq + 1).trim();
+
+    if (key === 'dashed' || key === 'densely dashed' || key === 'loosely dashed') result.style = 'dashed';
+    else if (key === 'dotted' || key === 'densely dotted' || key === 'loosely dotted') result.style = 'dotted';
+    else if (key === '->') result.arrow = 'end';
+    else if (key === '<-') result.arrow = 'start';
+    else if (key === '<->') result.arrow = 'both';
+    else if (key === 'semithick' || key === 'thin' || key === 'very thin' || key === 'ultra thin') result.lineWidth = 1;
+    else if (key === 'thick') result.lineWidth = 2;
+    else if (key === 'very thick') result.lineWidth = 3;
+    else if (key === 'ultra thick') result.lineWidth = 4;
+    else if (key === 'line width') {
+      const mm = /^([\d.]+)\s*mm$/.exec(value); const pt = /^([\d.]+)\s*pt$/.exec(value);
+      if (mm) result.lineWidth = Math.max(1, Math.round(parseFloat(mm[1]) / 0.4));
+      else if (pt) result.lineWidth = Math.max(1, Math.round(parseFloat(pt[1]) / 1.138));
+      else ctx.skipped.push(`option "${opt}"`);
+    }
+    else if (key === 'draw' || key === 'color') {
+      if (!value) return;
+      const c = resolveColor(value, ctx);
+      if (c === null) ctx.skipped.push(`unknown color "${value}"`);
+      else if (c !== '#000000') result.strokeColor = c; // Black is the exporter's default stroke
+    }
+    else if (key === 'fill') {
+      const c = resolveColor(value, ctx);
+      if (c === null) ctx.skipped.push(`unknown color "${value}"`); else result.fillColor = c;
+    }
+    else if (key === 'text') {
+      const c = resolveColor(value, ctx);
+      if (c === null) ctx.skipped.push(`unknown color "${value}"`); else if (c !== '#000000') result.textColor = c;
+    }
+    else if (key === 'pattern') {
+      if (value === 'north east lines' || value === 'north west lines' || value === 'horizontal lines' || value === 'vertical lines') result.hatchStyle = 'lines';
+      else if (value === 'grid' || value === 'crosshatch') result.hatchStyle = 'grid';
+      else if (value === 'dots' || value === 'crosshatch dots') result.hatchStyle = 'dots';
+      else ctx.skipped.push(`pattern "${value}"`);
+    }
+    else if (key === 'rounded corners') result.cornerRadius = value ? evaluateNumber(value) : 0.5;
+    else if (key === 'rotate around') {
+      const m = /^\{?\s*([-\d.]+)\s*:\s*\(([^)]*)\)\s*\}?$/.exec(value);
+      if (m) result.rotation = -parseFloat(m[1]) * Math.PI / 180; else ctx.skipped.push(`option "${opt}"`);
+    }
+    else if (key === 'decoration') { if (value.includes('brace')) result.isBrace = true; else ctx.skipped.push(`decoration "${value}"`); }
+    else if (key === 'help lines') result.isGrid = true;
+    else if (key === 'rectangle' || key === 'circle') result.nodeShape = key;
+    else if (key === 'minimum width') result.minimumWidth = evaluateNumber(value);
+    else if (key === 'minimum height') result.minimumHeight = evaluateNumber(value);
+    else if (key === 'minimum size') result.minimumSize = evaluateNumber(value);
+    else if (!NEUTRAL_OPTIONS.includes(key)) ctx.skipped.push(`option "${opt}"`);
+  });
+  if (raw.includes('decorate')) result.isBrace = result.isBrace || /brace/.test(raw);
+  return result;
+};
+
+// Options of the enclosing scopes come first so the path's own options override them
+const withScopeOptions = (options: string, ctx: ImportContext) => [...ctx.scopes.map(sc => sc.options), options].filter(Boolean).join(', ');
+
+const baseShape = (type: string, style: ParsedStyle): Shape => {
+  const shape: Shape = { id: generateId(), type, x1: 0, y1: 0, x2: 0, y2: 0, style: style.style, arrow: style.arrow, lineWidth: style.lineWidth };
+  if (style.strokeColor) shape.strokeColor = style.strokeColor;
+  if (style.fillColor) shape.fillColor = style.fillColor;
+  if (style.hatchStyle) shape.hatchStyle = style.hatchStyle;
+  if (style.rotation) shape.rotation = style.rotation;
+  return shape;
+};
+
+// --- Path interpretation ---
+
+type PathToken =
+  | { kind: 'coord'; text: string }
+  | { kind: 'opts'; text: string }
+  | { kind: 'brace'; text: string }
+  | { kind: 'word'; text: string }
+  | { kind: 'op'; text: string };
+
+const tokenizePath = (src: string): PathToken[] => {
+  const tokens: PathToken[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    if (ch === '(' || ch === '[' || ch === '{') {
+      const end = skipGroup(src, i);
+      const text = stripOuter(src.slice(i, end));
+      tokens.push({ kind: ch === '(' ? 'coord' : ch === '[' ? 'opts' : 'brace', text });
+      i = end;
+      continue;
+    }
+    const op = /^(--|\.\.|-\||\|-|\+\+|\+)/.exec(src.slice(i));
+    if (op) { tokens.push({ kind: 'op', text: op[1] }); i += op[1].length; continue; }
+    const word = /^[A-Za-z]+/.exec(src.slice(i));
+    if (word) { tokens.push({ kind: 'word', text: word[0] }); i += word[0].length; continue; }
+    tokens.push({ kind: 'op', text: ch });
+    i++;
+  }
+  return tokens;
+};
+
+interface PathLabel { text: string; options: string }
+
+type Primitive =
+  | { kind: 'line'; a: Point; b: Point; label?: PathLabel; endLabel?: PathLabel; closes?: boolean }
+  | { kind: 'polygon'; points: Point[]; closed: boolean }
+  | { kind: 'compound'; contours: Point[][] }
+  | { kind: 'rect'; a: Point; b: Point }
+  | { kind: 'circle'; c: Point; r: number }
+  | { kind: 'ellipse'; c: Point; rx: number; ry: number }
+  | { kind: 'arc'; c: Point; r: number; start: number; end: number }
+  | { kind: 'bezier'; a: Point; c1: Point; c2: Point; b: Point }
+  | { kind: 'plot'; points: Point[]; closed: boolean }
+  | { kind: 'grid'; a: Point; b: Point };
+
+const interpretPath = (src: string, ctx: ImportContext): Primitive[] => {
+  const tokens = tokenizePath(src);
+  const prims: Primitive[] = [];
+  let current: Point | null = null;
+  let subpathStart: Point | null = null;
+  let k = 0;
+
+  const coordAt = (idx: number): Point | null => {
+    const t = tokens[idx];
+    if (!t || t.kind !== 'coord') return null;
+    const p = parseCoordinate(t.text, ctx);
+    if (!p) ctx.skipped.push(`coordinate "(${t.text})"`);
+    return p;
+  };
+  // Reads `node[opts] {text}` starting at k (the `node` word); returns the label and the index after it
+  const readNode = (idx: number): { label: PathLabel; next: number } => {
+    let j = idx + 1; let options = '';
+    if (tokens[j]?.kind === 'opts') { options = tokens[j].text; j++; }
+    let text = '';
+    if (tokens[j]?.kind === 'brace') { text = tokens[j].text; j++; }
+    return { label: { text, options }, next: j };
+  };
+
+  while (k < tokens.length) {
+    const t = tokens[k];
+    if (t.kind === 'coord') {
+      const p = coordAt(k); k++;
+      if (p) { current = p; subpathStart = p; }
+      continue;
+    }
+    if (t.kind === 'op' && t.text === '--') {
+      k++;
+      let label: PathLabel | undefined;
+      if (tokens[k]?.kind === 'word' && tokens[k].text === 'node') { const n = readNode(k); label = n.label; k = n.next; }
+      if (tokens[k]?.kind === 'word' && tokens[k].text === 'cycle') {
+        k++;
+        const last = prims[prims.length - 1];
+        if (last && last.kind === 'plot') last.closed = true;
+        else if (current && subpathStart) prims.push({ kind: 'line', a: current, b: subpathStart, closes: true });
+        current = subpathStart;
+        continue;
+      }
+      const p = coordAt(k);
+      if (p && current) { prims.push({ kind: 'line', a: current, b: p, label }); current = p; k++; }
+      else { ctx.skipped.push('incomplete "--" segment'); k++; }
+      continue;
+    }
+    if (t.kind === 'op' && t.text === '..') {
+      // .. controls (c1) [and (c2)] .. (b)
+      let j = k + 1;
+      if (tokens[j]?.kind === 'word' && tokens[j].text === 'controls') {
+        const c1 = coordAt(j + 1); j += 2;
+        let c2 = c1;
+        if (tokens[j]?.kind === 'word' && tokens[j].text === 'and') { c2 = coordAt(j + 1); j += 2; }
+        if (tokens[j]?.kind === 'op' && tokens[j].text === '..') j++;
+        const b = coordAt(j); j++;
+        if (current && c1 && c2 && b) { prims.push({ kind: 'bezier', a: current, c1, c2, b }); current = b; }
+        k = j;
+        continue;
+      }
+      ctx.skipped.push('curve-to without controls');
+      k++;
+      continue;
+    }
+    if (t.kind === 'word') {
+      const w = t.text;
+      if (w === 'rectangle') {
+        const p = coordAt(k + 1);
+        if (current && p) { prims.push({ kind: 'rect', a: current, b: p }); current = p; }
+        k += 2;
+        continue;
+      }
+      if (w === 'circle') {
+        let r = NaN;
+        if (tokens[k + 1]?.kind === 'coord') r = evaluateNumber(tokens[k + 1].text);
+        else if (tokens[k + 1]?.kind === 'opts') { const m = /radius\s*=\s*([^,]+)/.exec(tokens[k + 1].text); if (m) r = evaluateNumber(m[1]); }
+        if (current && isFinite(r)) prims.push({ kind: 'circle', c: current, r }); else ctx.skipped.push('circle without radius');
+        k += 2;
+        continue;
+      }
+      if (w === 'arc') {
+        // arc[start angle=a, end angle=b, radius=r] (or delta angle), or the short form arc (a:b:r)
+        let start = NaN, end = NaN, r = NaN;
+        const arg = tokens[k + 1];
+        if (arg?.kind === 'coord') { const parts = arg.text.split(':'); if (parts.length === 3) { start = evaluateNumber(parts[0]); end = evaluateNumber(parts[1]); r = evaluateNumber(parts[2]); } }
+        else if (arg?.kind === 'opts') {
+          const read = (key: string) => { const m = new RegExp(`(?:^|,)\\s*${key}\\s*=\\s*([^,]+)`).exec(arg.text); return m ? evaluateNumber(m[1]) : NaN; };
+          start = read('start angle'); end = read('end angle'); r = read('radius');
+          if (isNaN(end)) end = start + read('delta angle');
+        }
+        if (current && isFinite(start) && isFinite(end) && isFinite(r)) {
+          const a = start * Math.PI / 180; const b = end * Math.PI / 180;
+          const c = { x: round(current.x - r * Math.cos(a)), y: round(current.y - r * Math.sin(a)) };
+          prims.push({ kind: 'arc', c, r, start: a, end: b });
+          current = { x: round(c.x + r * Math.cos(b)), y: round(c.y + r * Math.sin(b)) };
+        } else ctx.skipped.push('arc without start angle, end angle and radius');
+        k += 2;
+        continue;
+      }
+      if (w === 'ellipse') {
+        let rx = NaN, ry = NaN;
+        const arg = tokens[k + 1];
+        if (arg?.kind === 'coord') { const m = /^(.+)\s+and\s+(.+)$/.exec(arg.text); if (m) { rx = evaluateNumber(m[1]); ry = evaluateNumber(m[2]); } }
+        else if (arg?.kind === 'opts') {
+          const mx = /x radius\s*=\s*([^,]+)/.exec(arg.text); const my = /y radius\s*=\s*([^,]+)/.exec(arg.text);
+          if (mx && my) { rx = evaluateNumber(mx[1]); ry = evaluateNumber(my[1]); }
+        }
+        if (current && isFinite(rx) && isFinite(ry)) prims.push({ kind: 'ellipse', c: current, rx, ry }); else ctx.skipped.push('ellipse without radii');
+        k += 2;
+        continue;
+      }
+      if (w === 'plot') {
+        let j = k + 1;
+        if (tokens[j]?.kind === 'opts') j++;
+        if (tokens[j]?.kind === 'word' && tokens[j].text === 'coordinates' && tokens[j + 1]?.kind === 'brace') {
+          const pts: Point[] = [];
+          tokenizePath(tokens[j + 1].text).forEach(pt => { if (pt.kind === 'coord') { const p = parseCoordinate(pt.text, ctx); if (p) pts.push(p); } });
+          prims.push({ kind: 'plot', points: pts, closed: false });
+          if (pts.length > 0) { current = pts[pts.length - 1]; subpathStart = pts[0]; }
+          k = j + 2;
+        } else {
+          ctx.skipped.push('plot without coordinate list');
+          k = j + 1;
+        }
+        continue;
+      }
+      if (w === 'grid') {
+        const p = coordAt(k + 1);
+        if (current && p) prims.push({ kind: 'grid', a: current, b: p });
+        k += 2;
+        continue;
+      }
+      if (w === 'node') {
+        const n = readNode(k);
+        const last = prims[prims.length - 1];
+        if (last && last.kind === 'line' && current === last.b) last.endLabel = n.label;
+        else ctx.skipped.push(`node "${n.label.text}" inside path`);
+        k = n.next;
+        continue;
+      }
+      ctx.skipped.push(`path operation "${w}"`);
+      k++;
+      continue;
+    }
+    if (t.kind === 'opts') { k++; continue; }
+    ctx.skipped.push(`path token "${t.text}"`);
+    k++;
+  }
+  return prims;
+};
+
+// Runs of plain segments, each starting where the previous one ended, become one polyline;
+// a run ended by -- cycle becomes a closed polygon
+const joinSegments = (prims: Primitive[]): Primitive[] => {
+  const out: Primitive[] = [];
+  let run: Extract<Primitive, { kind: 'line' }>[] = [];
+  const flush = () => {
+    const closed = !!run[run.length - 1]?.closes;
+    if (run.length >= (closed ? 3 : 2)) out.push({ kind: 'polygon', points: [run[0].a, ...run.slice(0, closed ? -1 : undefined).map(l => l.b)], closed });
+    else out.push(...run);
+    run = [];
+  };
+  prims.forEach(prim => {
+    const plain = prim.kind === 'line' && !prim.label && !prim.endLabel;
+    const last = run[run.length - 1];
+    if (plain && last && !last.closes && last.b.x === prim.a.x && last.b.y === prim.a.y) { run.push(prim); return; }
+    flush();
+    if (plain) run.push(prim); else out.push(prim);
+  });
+  flush();
+  // Several closed outlines in one path fill as one region with holes, like a boolean result
+  if (out.length >= 2 && out.every(prim => prim.kind === 'polygon' && prim.closed)) return [{ kind: 'compound', contours: out.map(prim => (prim as Extract<Primitive, { kind: 'polygon' }>).points) }];
+  return out;
+};
+
+const primitiveToShape = (prim: Primitive, style: ParsedStyle, ctx: ImportContext): Shape | null => {
+  // Help lines are the background grid in whichever mode it was drawn
+  if (style.isGrid) { ctx.showGrid = true; return null; }
+  switch (prim.kind) {
+    case 'line': {
+      // An axis runs through the origin and carries its label at the far end, $x$ unless renamed
+      const crossesOrigin = prim.a.y === 0 && prim.b.y === 0 && prim.a.x < 0 && prim.b.x > 0 || prim.a.x === 0 && prim.b.x === 0 && prim.a.y < 0 && prim.b.y > 0;
+      if (prim.endLabel && (crossesOrigin || /^\$[xy]\$$/.test(prim.endLabel.text.trim()) && (prim.a.y === 0 && prim.b.y === 0 || prim.a.x === 0 && prim.b.x === 0))) { ctx.showAxes = true; return null; }
+      if (prim.endLabel) ctx.skipped.push(`node "${prim.endLabel.text}" at end of path`);
+      const type = style.isBrace ? 'brace' : prim.label && /sloped/.test(prim.label.options) ? 'measure_radius' : 'line';
+      const shape = { ...baseShape(type, style), x1: prim.a.x, y1: prim.a.y, x2: prim.b.x, y2: prim.b.y };
+      if (style.isBrace) shape.arrow = 'none';
+      if (prim.label) {
+        if (type === 'measure_radius') {
+          const len = Math.sqrt(Math.pow(prim.b.x - prim.a.x, 2) + Math.pow(prim.b.y - prim.a.y, 2));
+          // The exporter prints the length when no custom text is set; keep it implicit so it stays live
+          if (prim.label.text !== String(round(len))) shape.text = prim.label.text;
+        } else {
+          ctx.skipped.push(`node "${prim.label.text}" on segment`);
+        }
+      }
+      return shape;
+    }
+    case 'rect': {
+      const type = style.cornerRadius !== undefined ? 'round_rect' : 'rect';
+      const shape = { ...baseShape(type, style), x1: prim.a.x, y1: prim.a.y, x2: prim.b.x, y2: prim.b.y };
+      if (style.cornerRadius !== undefined) shape.cornerRadius = style.cornerRadius;
+      return shape;
+    }
+    case 'circle': return { ...baseShape('circle', style), x1: prim.c.x, y1: prim.c.y, x2: prim.c.x + prim.r, y2: prim.c.y };
+    case 'arc': return { ...baseShape('arc', style), x1: prim.c.x, y1: prim.c.y, x2: round(prim.c.x + prim.r * Math.cos(prim.start)), y2: round(prim.c.y + prim.r * Math.sin(prim.start)), startAngle: prim.start, endAngle: prim.end };
+    case 'ellipse': return { ...baseShape('ellipse', style), x1: prim.c.x, y1: prim.c.y, x2: prim.c.x + prim.rx, y2: prim.c.y + prim.ry };
+    case 'bezier': return { ...baseShape('bezier', style), x1: prim.a.x, y1: prim.a.y, x2: prim.b.x, y2: prim.b.y, cx1: prim.c1.x, cy1: prim.c1.y, cx2: prim.c2.x, cy2: prim.c2.y };
+    case 'polygon': {
+      const first = prim.points[0]; const last = prim.points[prim.points.length - 1];
+      return { ...baseShape('polygon', style), x1: first.x, y1: first.y, x2: last.x, y2: last.y, points: prim.points, closed: prim.closed };
+    }
+    case 'compound': return withContours(baseShape('compound', style), orientContours(prim.contours));
+    case 'plot': {
+      if (prim.points.length === 0) return null;
+      const first = prim.points[0]; const last = prim.points[prim.points.length - 1];
+      return { ...baseShape('freehand', style), x1: first.x, y1: first.y, x2: last.x, y2: last.y, points: prim.points };
+    }
+    case 'grid': ctx.showGrid = true; return null;
+  }
+};
+
+// A function plot as the exporter writes it, plot[domain=a:b, samples=n, variable=\t] followed by
+// (\x, {y}), ({x}, {y}) or ({deg(\t)}:{r}); keys left out take TikZ's defaults
+const parseFunctionPlot = (keys: string, coordinate: string): PlotDefinition | null => {
+  let domain = [-5, 5]; let samples = 25; let variable = '\\x';
+  splitTopLevel(keys, ',').forEach(opt => {
+    const eq = opt.indexOf('=');
+    const key = (eq === -1 ? opt : opt.slice(0, eq)).trim();
+    const value = eq === -1 ? '' : opt.slice(eq + 1).trim();
+    if (key === 'domain') domain = value.split(':').map(evaluateNumber);
+    else if (key === 'samples') samples = Number(value);
+    else if (key === 'variable') variable = value;
+  });
+  if (domain.length !== 2 || !domain.every(isFinite) || !(samples >= 2)) return null;
+  const unbrace = (text: string) => text.startsWith('{') && skipGroup(text, 0) === text.length ? stripOuter(text) : text;
+  const parts = splitTopLevel(coordinate, ',');
+  const polar = /^\{\s*deg\((\\[A-Za-z]+)\)\s*\}\s*:([\s\S]+)$/.exec(coordinate.trim());
+  const base = { domain: domain as [number, number], samples };
+  let plot: PlotDefinition;
+  if (polar && polar[1] === variable) plot = { ...base, kind: 'polar', expression: fromPgfMath(unbrace(polar[2].trim()), { [variable]: 't' }) };
+  else if (parts.length === 2 && parts[0] === variable) plot = { ...base, kind: 'cartesian', expression: fromPgfMath(unbrace(parts[1]), { [variable]: 'x' }) };
+  else if (parts.length === 2) plot = { ...base, kind: 'parametric', expression: fromPgfMath(unbrace(parts[0]), { [variable]: 't' }), expressionY: fromPgfMath(unbrace(parts[1]), { [variable]: 't' }) };
+  else return null;
+  try { parsePlot(plot); } catch { return null; }
+  return plot;
+};
+
+// --- Statement handlers ---
+
+const handleNode = (body: string, ctx: ImportContext) => {
+  // \node [opts] (name) at (x, y) {text}
+  const tokens = tokenizePath(body);
+  let options = ''; let at: Point | null = null; let text = ''; let hasText = false;
+  for (let k = 0; k < tokens.length; k++) {
+    const t = tokens[k];
+    if (t.kind === 'opts' && !options) options = t.text;
+    else if (t.kind === 'word' && t.text === 'at') { at = parseCoordinate(tokens[k + 1]?.text || '', ctx); k++; }
+    else if (t.kind === 'brace') { text = t.text; hasText = true; }
+  }
+  if (!at || !hasText) { ctx.skipped.push(`\\node ${body}`); return; }
+  const style = parseOptions(options, ctx, 2);
+
+  if (style.nodeShape === 'circle' && style.minimumSize !== undefined) {
+    const r = style.minimumSize / 2;
+    ctx.shapes.push({ ...baseShape('circle', style), x1: at.x, y1: at.y, x2: at.x + r, y2: at.y });
+    return;
+  }
+  if (style.nodeShape === 'rectangle' && style.minimumWidth !== undefined && style.minimumHeight !== undefined) {
+    const w = style.minimumWidth / 2; const h = style.minimumHeight / 2;
+    const type = style.cornerRadius !== undefined ? 'round_rect' : 'rect';
+    const shape: Shape = { ...baseShape(type, style), x1: at.x - w, y1: at.y - h, x2: at.x + w, y2: at.y + h };
+    if (style.cornerRadius !== undefined) shape.cornerRadius = style.cornerRadius;
+    ctx.shapes.push(shape);
+    return;
+  }
+  const shape: Shape = { ...baseShape('text', style), x1: at.x, y1: at.y, x2: at.x, y2: at.y, text };
+  if (style.textColor) shape.strokeColor = style.textColor;
+  ctx.shapes.push(shape);
+};
+
+// A `plot` shape drawn from the origin given by the path's shift
+const handleFunctionPlot = (options: string, keys: string, coordinate: string, ctx: ImportContext) => {
+  const own = splitTopLevel(options, ',');
+  const shift = own.find(opt => /^shift\s*=/.test(opt));
+  const offset = shift ? /^shift\s*=\s*\{?\s*\(([^)]*)\)\s*\}?$/.exec(shift) : null;
+  const origin = offset ? parseCoordinate(offset[1], ctx) : shift ? null : { x: 0, y: 0 };
+  const plot = parseFunctionPlot(keys, coordinate);
+  if (!plot || !origin) { ctx.skipped.push(`plot[${keys}] (${coordinate})`); return; }
+  const style = parseOptions(withScopeOptions(own.filter(opt => opt !== shift).join(', '), ctx), ctx);
+  const shape: Shape = { ...baseShape('plot', style), x1: origin.x, y1: origin.y, x2: origin.x, y2: origin.y, plot };
+
+  // A plot undefined in places is written as one \draw per defined stretch, all on the plot's own
+  // sampling grid; the stretches join up again into one plot over the whole range
+  const last = ctx.shapes[ctx.shapes.length - 1];
+  const signature = (s: Shape) => JSON.stringify({ ...s, id: '', plot: { ...s.plot, domain: [], samples: 0 } });
+  if (last?.plot && last.plot.samples >= 2 && signature(last) === signature(shape)) {
+    const [a, b] = last.plot.domain;
+    const step = (b - a) / (last.plot.samples - 1);
+    const gap = (plot.domain[0] - b) / step;
+    if (step > 0 && gap >= 1 && Math.abs(gap - Math.round(gap)) < 0.01) {
+      last.plot = { ...last.plot, domain: [a, plot.domain[1]], samples: Math.round((plot.domain[1] - a) / step) + 1 };
+      return;
+    }
+  }
+  ctx.shapes.push(shape);
+};
+
+const handleDraw = (name: string, body: string, ctx: ImportContext) => {
+  let options = ''; let path = body;
+  if (body.startsWith('[')) {
+    const end = skipGroup(body, 0);
+    options = stripOuter(body.slice(0, end));
+    path = body.slice(end);
+  }
+  const functionPlot = /^\s*plot\s*\[([^\]]*)\]\s*\(([\s\S]*)\)\s*$/.exec(path);
+  if (functionPlot) { handleFunctionPlot(options, functionPlot[1], functionPlot[2], ctx); return; }
+  const style = parseOptions(withScopeOptions(options, ctx), ctx);
+  if (name === 'fill' && !style.fillColor) {
+    style.fillColor = style.strokeColor || '#000000';
+  }
+  // A point is a 1.5pt dot with its label above right, in math mode unless it had dollars already
+  const dot = name === 'filldraw' ? /^\s*\(([^()]*)\)\s*circle\s*\(1\.5pt\)\s*(?:node\s*\[above right\]\s*\{([\s\S]*)\})?\s*$/.exec(path) : null;
+  const at = dot ? parseCoordinate(dot[1], ctx) : null;
+  if (dot && at) {
+    const shape: Shape = { ...baseShape('point', style), x1: at.x, y1: at.y, x2: at.x, y2: at.y };
+    if (dot[2]) shape.text = /^\$[^$]*\$$/.test(dot[2]) ? dot[2].slice(1, -1) : dot[2];
+    ctx.shapes.push(shape);
+    return;
+  }
+  const prims = interpretPath(path, ctx);
+  (style.isBrace ? prims : joinSegments(prims)).forEach(prim => {
+    const shape = primitiveToShape(prim, style, ctx);
+    if (shape) ctx.shapes.push(shape);
+  });
+};
+
+// Rebuilds a `measure` shape from the three draws the standard exporter writes after a `% Measure` comment:
+// two witness lines (offset by a 0.05 gap, overshooting by 0.2) and the dimension line with its label.
+const handleMeasure = (draws: { name: string; body: string }[], ctx: ImportContext): boolean => {
+  // The exporter appends `thin` to the shape's own options; drop it so the original width survives
+  const collect = (body: string) => {
+    const local: ImportContext = { ...ctx, shapes: [], skipped: [] };
+    handleDraw('draw', body.replace(/,\s*thin\s*\]/, ']').replace(/^\[\s*thin\s*\]/, ''), local);
+    return local;
+  };
+  const witness = collect(draws[0].body);
+  const dimensionTokens = draws[2].body;
+  const dim = collect(dimensionTokens);
+  const w1 = witness.shapes[0]; const d = dim.shapes[0];
+  if (!w1 || !d) return false;
+
+  const dx = d.x2 - d.x1; const dy = d.y2 - d.y1;
+  const len = Math.sqrt(dx * dx + dy * dy);
+  if (len === 0) return false;
+  const nx = -dy / len; const ny = dx / len;
+  const proj = (px: number, py: number) => px * nx + py * ny;
+  // (witness end - witness start)·n - (dim start - witness start)·n == 0.2 * sign
+  const sign = proj(w1.x2 - w1.x1, w1.y2 - w1.y1) - proj(d.x1 - w1.x1, d.y1 - w1.y1) >= 0 ? 1 : -1;
+  const offsetDist = proj(d.x1 - w1.x1, d.y1 - w1.y1) + 0.05 * sign;
+
+  const labelMatch = /node\s*\[[^\]]*\]\s*\{([^}]*)\}/.exec(dimensionTokens);
+  const label = labelMatch ? labelMatch[1] : '';
+  const style = { ...d };
+  const shape: Shape = {
+    ...style,
+    id: generateId(),
+    type: 'measure',
+    x1: round(d.x1 - nx * offsetDist), y1: round(d.y1 - ny * offsetDist),
+    x2: round(d.x2 - nx * offsetDist), y2: round(d.y2 - ny * offsetDist),
+    cx1: d.x1, cy1: d.y1,
+    arrow: 'none',
+  };
+  delete shape.text;
+  if (label && label !== String(round(len))) shape.text = label;
+  // The exporter draws 0.1 out without a control point; keep that implicit too
+  if (Math.abs(offsetDist - 0.1) < 1e-6) { delete shape.cx1; delete shape.cy1; }
+  ctx.shapes.push(shape);
+  ctx.skipped.push(...witness.skipped);
+  return true;
+};
+
+// Rebuilds a `mark_angle` from the pics the standard exporter writes after naming its three corners:
+// \pic[opts, angle radius=r, "{label}", angle eccentricity=e] {angle=A--O--B}, one per arc with the
+// label on the first, or a single {right angle=A--O--B}. The label position follows from the radius.
+const handleAngleMark = (pics: string[], ctx: ImportContext): boolean => {
+  const parsePic = (body: string) => {
+    const m = /^\s*(?:\[([\s\S]*)\])?\s*\{\s*(right angle|angle)\s*=\s*([^}]*)\}\s*$/.exec(body);
+    return m ? { options: m[1] ?? '', rightAngle: m[2] === 'right angle', target: m[3].trim() } : null;
+  };
+  const first = parsePic(pics[0]);
+  const corners = first?.target.split('--').map(name => ctx.coordinates.get(name.trim()));
+  if (!first || !corners || corners.length !== 3 || corners.some(p => !p)) return false;
+  const [a, o, b] = corners as Point[];
+
+  let radius = NaN; let label = '';
+  const style = splitTopLevel(first.options, ',').filter(opt => {
+    const eq = opt.indexOf('=');
+    const key = (eq === -1 ? opt : opt.slice(0, eq)).trim();
+    if (key === 'angle radius') { radius = evaluateNumber(opt.slice(eq + 1)); return false; }
+    if (key === 'angle eccentricity') return false;
+    if (opt.startsWith('"')) {
+      const quoted = opt.slice(1, opt.lastIndexOf('"'));
+      label = quoted.startsWith('{') && skipGroup(quoted, 0) === quoted.length ? stripOuter(quoted) : quoted;
+      return false;
+    }
+    return true;
+  });
+  const shape: Shape = {
+    ...baseShape('mark_angle', parseOptions(withScopeOptions(style.join(', '), ctx), ctx)),
+    x1: o.x, y1: o.y, x2: a.x, y2: a.y, cx1: b.x, cy1: b.y,
+    angleArcs: pics.length,
+  };
+  if (isFinite(radius)) shape.angleRadius = radius;
+  if (first.rightAngle) shape.rightAngle = true;
+  if (label) shape.text = label;
+  ctx.shapes.push(shape);
+  return true;
+};
+
+// The number of pics from `s` on that draw the same angle, up to the three arcs a mark can have
+const countAnglePics = (statements: Statement[], s: number): number => {
+  const target = (st: Statement | undefined) => st?.kind === 'path' && st.name === 'pic' ? /\{\s*angle\s*=\s*([^}]*)\}\s*$/.exec(st.body)?.[1].trim() : undefined;
+  const first = target(statements[s]);
+  let n = 1;
+  while (first && n < 3 && target(statements[s + n]) === first) n++;
+  return n;
+};
+
+const expandForeachList = (list: string): number[] | null => {
+  const items = splitTopLevel(list, ',');
+  const values: number[] = [];
+  for (let i = 0; i < items.length; i++) {
+    if (items[i] === '...') {
+      const prev = values[values.length - 1];
+      const before = values.length >= 2 ? values[values.length - 2] : prev - 1;
+      const end = evaluateNumber(items[i + 1] || '');
+      const step = prev - before;
+      if (!isFinite(end) || step === 0 || Math.abs((end - prev) / step) > 10000) return null;
+      for (let v = prev + step; step > 0 ? v <= end + 1e-9 : v >= end - 1e-9; v += step) values.push(round(v));
+      i++;
+      continue;
+    }
+    const v = evaluateNumber(items[i]);
+    if (!isFinite(v)) return null;
+    values.push(v);
+  }
+  return values;
+};
+
+const processStatements = (statements: Statement[], ctx: ImportContext) => {
+  for (let s = 0; s < statements.length; s++) {
+    const st = statements[s];
+    if (st.kind === 'comment') {
+      if (/^Measure\b/.test(st.text)) {
+        const draws = statements.slice(s + 1, s + 4);
+        if (draws.length === 3 && draws.every(d => d.kind === 'path' && d.name === 'draw')) {
+          if (handleMeasure(draws as { name: string; body: string }[], ctx)) { s += 3; continue; }
+        }
+      }
+      const fallback = /^(?:tkz |MetaPost )?(\w+) fallback/.exec(st.text) || /fallback for (\w+)/.exec(st.text);
+      if (fallback && fallback[1] !== 'Loop') ctx.skipped.push(`${fallback[1]} (exported as a fallback comment)`);
+      continue;
+    }
+    if (st.kind === 'foreach') {
+      // Axis tick marks, e.g. \draw (\x, 2pt) -- (\x, -2pt), belong to the axes rather than the drawing
+      if (/^\s*\\draw \((?:\\x, -?[\d.]+pt|-?[\d.]+pt, \\y)\) -- /.test(st.body)) { ctx.showAxes = true; continue; }
+      const values = expandForeachList(st.list);
+      if (st.variable.includes('/') || !values) { ctx.skipped.push(`\\foreach loop "${st.raw.split('\n')[0]}"`); continue; }
+      const varPattern = new RegExp(st.variable.replace('\\', '\\\\') + '(?![A-Za-z])', 'g');
+      values.forEach(v => processStatements(readStatements(st.body.replace(varPattern, String(v))), ctx));
+      continue;
+    }
+    if (st.kind === 'macro') {
+      if (st.name === 'definecolor' && st.args.length >= 3) {
+        const name = stripOuter(st.args[0]); const model = stripOuter(st.args[1]); const spec = stripOuter(st.args[2]);
+        if (model === 'HTML') ctx.colors.set(name, `#${spec.toLowerCase()}`);
+        else if (model === 'rgb' || model === 'RGB') {
+          const parts = spec.split(',').map(Number);
+          const scale = model === 'rgb' ? 255 : 1;
+          ctx.colors.set(name, '#' + parts.map(p => Math.round(p * scale).toString(16).padStart(2, '0')).join(''));
+        } else ctx.skipped.push(`\\definecolor model "${model}"`);
+        continue;
+      }
+      if (st.name === 'begin' && stripOuter(st.args[0] ?? '') === 'scope') {
+        const previous = statements[s - 1];
+        const isLayer = previous?.kind === 'comment' && /^Layer:/.test(previous.text);
+        ctx.scopes.push({ options: st.args[1] ? stripOuter(st.args[1]) : '', start: ctx.shapes.length, isGroup: !isLayer });
+        continue;
+      }
+      if (st.name === 'end' && stripOuter(st.args[0] ?? '') === 'scope') {
+        // Groups list the outermost first, and outer scopes close last
+        const scope = ctx.scopes.pop();
+        const members = scope ? ctx.shapes.slice(scope.start) : [];
+        if (scope?.isGroup && members.length >= 2) {
+          const groupId = generateId();
+          members.forEach(shape => { shape.groupIds = [groupId, ...(shape.groupIds ?? [])]; });
+        }
+        continue;
+      }
+      if (IGNORED_MACROS.includes(st.name)) continue;
+      ctx.skipped.push(st.name ? `\\${st.name}` : `text "${st.raw}"`);
+      continue;
+    }
+    // Path commands
+    if (st.name === 'node') handleNode(st.body, ctx);
+    else if (st.name === 'coordinate') {
+      const m = /^\s*(?:\[[^\]]*\])?\s*\(([^)]+)\)\s*at\s*\(([^)]+)\)/.exec(st.body);
+      const p = m ? parseCoordinate(m[2], ctx) : null;
+      if (m && p) ctx.coordinates.set(m[1].trim(), p); else ctx.skipped.push(`\\coordinate ${st.body}`);
+    }
+    else if (st.name === 'pic') {
+      const n = countAnglePics(statements, s);
+      if (handleAngleMark(statements.slice(s, s + n).map(p => (p as { body: string }).body), ctx)) s += n - 1;
+      else ctx.skipped.push(`\\pic ${st.body}`);
+    }
+    else if (st.name === 'draw' || st.name === 'fill' || st.name === 'filldraw') handleDraw(st.name, st.body, ctx);
+    else ctx.skipped.push(`\\${st.name}`);
+  }
+};
+
+export const importTikz = (code: string): TikzImportResult => {
+  const ctx: ImportContext = { colors: new Map(), coordinates: new Map(), skipped: [], shapes: [], scopes: [], showGrid: false, showAxes: false };
+  processStatements(readStatements(code), ctx);
+  return {
+    shapes: ctx.shapes,
+    skipped: Array.from(new Set(ctx.skipped)),
+    showGrid: ctx.showGrid,
+    showAxes: ctx.showAxes,
+  };
+};
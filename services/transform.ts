@@ -0,0 +1,251 @@
+import { Shape, Point } from '../components/CartesianCanvas';
+import { getArcGeometry, getArcBounds, isFullCircle } from './arc';
+import { getContours, withContours, getShapeContours } from './boolean';
+import { ANGLE_MARK_DEFAULT_RADIUS } from './angleMark';
+import { getPlotBounds } from './plot';
+
+// Free transforms of a selection: rotation by an exact angle, scaling and skewing, all about a
+// pivot. Each is an affine map x' = a·x + c·y + e, y' = b·x + d·y + f applied to every point a
+// shape stores. Shapes that cannot carry the result in their own fields change type: a circle
+// scaled unevenly becomes an ellipse, a skewed rectangle a polygon, a stretched arc a polyline.
+
+export interface Affine {
+  a: number; b: number;
+  c: number; d: number;
+  e: number; f: number;
+}
+
+export type PivotKind = 'selection' | 'first' | 'origin' | 'custom';
+
+export const PIVOT_KINDS: PivotKind[] = ['selection', 'first', 'origin', 'custom'];
+
+export const PIVOT_LABELS: Record<PivotKind, string> = {
+  selection: 'Selection center',
+  first: 'First selected',
+  origin: 'Origin',
+  custom: 'Custom point',
+};
+
+export interface Bounds {
+  minX: number; maxX: number;
+  minY: number; maxY: number;
+}
+
+// Shapes whose `rotation` the transform keeps (and updates) rather than folding into their points
+const BOX_TYPES = ['rect', 'round_rect', 'ellipse', 'text'];
+// Points per full turn when an arc has to become a polyline
+const ARC_SAMPLES = 64;
+const EPS = 1e-9;
+
+export const applyAffine = (m: Affine, p: Point): Point => ({ x: m.a * p.x + m.c * p.y + m.e, y: m.b * p.x + m.d * p.y + m.f });
+
+// A linear map (a, b, c, d) moved so that it leaves `pivot` where it is
+const about = (pivot: Point, a: number, b: number, c: number, d: number): Affine =>
+  ({ a, b, c, d, e: pivot.x - a * pivot.x - c * pivot.y, f: pivot.y - b * pivot.x - d * pivot.y });
+
+// Counterclockwise, in radians
+export const rotationAbout = (angle: number, pivot: Point): Affine =>
+  about(pivot, Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle));
+
+export const scalingAbout = (sx: number, sy: number, pivot: Point): Affine => about(pivot, sx, 0, 0, sy);
+
+// Angles in radians: x moves by tan(ax)·y (TikZ's xslant), y by tan(ay)·x (yslant)
+export const skewingAbout = (ax: number, ay: number, pivot: Point): Affine => about(pivot, 1, Math.tan(ay), Math.tan(ax), 1);
+
+const getDeterminant = (m: Affine) => m.a * m.d - m.b * m.c;
+
+// Whether the map keeps shapes similar: a rotation (or reflection) and one uniform scale
+const isSimilarity = (m: Affine) => {
+  const tol = EPS * (m.a * m.a + m.b * m.b + m.c * m.c + m.d * m.d);
+  return Math.abs(m.a * m.c + m.b * m.d) <= tol && Math.abs(m.a * m.a + m.b * m.b - m.c * m.c - m.d * m.d) <= tol;
+};
+
+const rotateAbout = (p: Point, c: Point, angle: number): Point => {
+  if (!angle) return p;
+  const cos = Math.cos(angle); const sin = Math.sin(angle);
+  return { x: c.x + (p.x - c.x) * cos - (p.y - c.y) * sin, y: c.y + (p.x - c.x) * sin + (p.y - c.y) * cos };
+};
+
+// The point a shape's `rotation` turns it about, as on the canvas and in the exports
+const getRotationCenter = (s: Shape): Point =>
+  ['line', 'rect', 'round_rect', 'brace', 'measure'].includes(s.type) ? { x: (s.x1 + s.x2) / 2, y: (s.y1 + s.y2) / 2 } : { x: s.x1, y: s.y1 };
+
+// Every stored point of the shape sent through `map`
+const mapPoints = (s: Shape, map: (p: Point) => Point): Shape => {
+  const ns = { ...s };
+  const p1 = map({ x: s.x1, y: s.y1 }); ns.x1 = p1.x; ns.y1 = p1.y;
+  const p2 = map({ x: s.x2, y: s.y2 }); ns.x2 = p2.x; ns.y2 = p2.y;
+  if (s.cx1 !== undefined && s.cy1 !== undefined) { const p = map({ x: s.cx1, y: s.cy1 }); ns.cx1 = p.x; ns.cy1 = p.y; }
+  if (s.cx2 !== undefined && s.cy2 !== undefined) { const p = map({ x: s.cx2, y: s.cy2 }); ns.cx2 = p.x; ns.cy2 = p.y; }
+  if (s.textX !== undefined && s.textY !== undefined) { const p = map({ x: s.textX, y: s.textY }); ns.textX = p.x; ns.textY = p.y; }
+  if (s.points) ns.points = s.points.map(map);
+  return ns;
+};
+
+// The shape with its rotation folded into its points (arcs: into their angles); box shapes keep theirs
+const bakeRotation = (s: Shape): Shape => {
+  if (!s.rotation || BOX_TYPES.includes(s.type)) return s;
+  const { rotation, ...rest } = s;
+  if (s.type === 'arc') {
+    const geo = getArcGeometry(s);
+    const start = geo.startAngle + rotation;
+    return { ...rest, x2: s.x1 + geo.radius * Math.cos(start), y2: s.y1 + geo.radius * Math.sin(start), startAngle: start, endAngle: geo.endAngle + rotation };
+  }
+  const c = getRotationCenter(s);
+  return mapPoints(rest, p => rotateAbout(p, c, rotation));
+};
+
+// A new type for the shape: fields that only made sense for the old one go, as do attachments
+const retype = (s: Shape, changes: Partial<Shape>): Shape => {
+  const { anchors, rotation, cornerRadius, startAngle, endAngle, ...rest } = s;
+  return { ...rest, ...changes };
+};
+
+// Keeps the stored rotation tidy: none at all when the shape ends up square to the axes
+const withRotation = (s: Shape, angle: number): Shape => {
+  const { rotation, ...rest } = s;
+  return Math.abs(Math.atan2(Math.sin(angle), Math.cos(angle))) < EPS ? rest : { ...rest, rotation: angle };
+};
+
+// Semi-axes and tilt of the ellipse the unit circle maps to under the linear map (a, b, c, d)
+const getEllipseAxes = (a: number, b: number, c: number, d: number) => {
+  const p = a * a + c * c; const q = a * b + c * d; const r = b * b + d * d;
+  const mean = (p + r) / 2; const dev = Math.hypot((p - r) / 2, q);
+  return { rx: Math.sqrt(mean + dev), ry: Math.sqrt(Math.max(0, mean - dev)), angle: Math.atan2(2 * q, p - r) / 2 };
+};
+
+// A box turned by a whole number of quarter turns is stored with swapped sides and no rotation
+const squareUp = (angle: number, w: number, h: number) => {
+  const quarters = Math.round(angle / (Math.PI / 2));
+  if (Math.abs(angle - quarters * Math.PI / 2) >= EPS) return { angle, w, h };
+  return quarters % 2 === 0 ? { angle: 0, w, h } : { angle: 0, w: h, h: w };
+};
+
+const toEllipse = (s: Shape, center: Point, axes: { rx: number, ry: number, angle: number }): Shape => {
+  const { angle, w, h } = squareUp(axes.angle, axes.rx, axes.ry);
+  return withRotation({ ...s, x1: center.x, y1: center.y, x2: center.x + w, y2: center.y + h }, angle);
+};
+
+// A plain move, which every shape takes (function plots are drawn from their (x1, y1))
+export const translateShape = (shape: Shape, dx: number, dy: number): Shape => mapPoints(shape, p => ({ x: p.x + dx, y: p.y + dy }));
+
+// The transformed shape, or null for shapes that cannot be transformed (function plots)
+export const transformShape = (shape: Shape, m: Affine): Shape | null => {
+  if (shape.type === 'plot') return null;
+  const s = bakeRotation(shape);
+  const map = (p: Point) => applyAffine(m, p);
+  const det = getDeterminant(m);
+  const similar = isSimilarity(m);
+  const moved = mapPoints(s, map);
+
+  switch (s.type) {
+    case 'circle': {
+      if (similar) return moved;
+      const r = Math.hypot(s.x2 - s.x1, s.y2 - s.y1);
+      return toEllipse(retype(moved, { type: 'ellipse' }), map({ x: s.x1, y: s.y1 }), getEllipseAxes(m.a * r, m.b * r, m.c * r, m.d * r));
+    }
+    case 'ellipse': {
+      // The unit circle goes to the ellipse by rotate·diag(rx, ry), then on through the map
+      const rx = Math.abs(s.x2 - s.x1); const ry = Math.abs(s.y2 - s.y1);
+      const cos = Math.cos(s.rotation || 0); const sin = Math.sin(s.rotation || 0);
+      const a = (m.a * cos + m.c * sin) * rx; const b = (m.b * cos + m.d * sin) * rx;
+      const c = (m.c * cos - m.a * sin) * ry; const d = (m.d * cos - m.b * sin) * ry;
+      return toEllipse(moved, map({ x: s.x1, y: s.y1 }), getEllipseAxes(a, b, c, d));
+    }
+    case 'rect': case 'round_rect': {
+      // Images of the rectangle's own axes; while they stay square it is still a rectangle
+      const rot = s.rotation || 0;
+      const u = { x: m.a * Math.cos(rot) + m.c * Math.sin(rot), y: m.b * Math.cos(rot) + m.d * Math.sin(rot) };
+      const v = { x: m.c * Math.cos(rot) - m.a * Math.sin(rot), y: m.d * Math.cos(rot) - m.b * Math.sin(rot) };
+      const lu = Math.hypot(u.x, u.y); const lv = Math.hypot(v.x, v.y);
+      const square = Math.abs(u.x * v.x + u.y * v.y) <= EPS * lu * lv;
+      // Rounded corners only survive a uniform scale
+      if (square && (s.type === 'rect' || Math.abs(lu - lv) <= EPS * (lu + lv))) {
+        const c = map({ x: (s.x1 + s.x2) / 2, y: (s.y1 + s.y2) / 2 });
+        const { angle, w, h } = squareUp(Math.atan2(u.y, u.x), Math.abs(s.x2 - s.x1) * lu, Math.abs(s.y2 - s.y1) * lv);
+        const box = withRotation({ ...moved, x1: c.x - w / 2, y1: c.y - h / 2, x2: c.x + w / 2, y2: c.y + h / 2 }, angle);
+        return s.type === 'round_rect' && Math.abs(lu - 1) > EPS ? { ...box, cornerRadius: (s.cornerRadius ?? 0.5) * lu } : box;
+      }
+      const outline = getShapeContours(s)[0].map(map);
+      return retype(moved, { type: 'polygon', closed: true, points: outline, x1: outline[0].x, y1: outline[0].y, x2: outline[outline.length - 1].x, y2: outline[outline.length - 1].y });
+    }
+    case 'text': {
+      // Labels keep their size; they only turn with the map
+      const rot = s.rotation || 0;
+      return withRotation(moved, Math.atan2(m.b * Math.cos(rot) + m.d * Math.sin(rot), m.a * Math.cos(rot) + m.c * Math.sin(rot)));
+    }
+    case 'arc': {
+      const geo = getArcGeometry(s);
+      if (similar) {
+        // A mirror image runs the other way round, from the reflected start angle
+        const turn = Math.atan2(m.b, m.a);
+        const start = det < 0 ? turn - geo.startAngle : geo.startAngle + turn;
+        const end = det < 0 ? turn - geo.endAngle : geo.endAngle + turn;
+        const r = geo.radius * Math.hypot(m.a, m.b);
+        return { ...moved, x2: moved.x1 + r * Math.cos(start), y2: moved.y1 + r * Math.sin(start), startAngle: start, endAngle: end };
+      }
+      const full = isFullCircle(geo);
+      const n = Math.max(8, Math.ceil(Math.abs(geo.sweep) / (2 * Math.PI) * ARC_SAMPLES));
+      const pts = Array.from({ length: full ? n : n + 1 }, (_, i) => {
+        const t = geo.startAngle + geo.sweep * i / n;
+        return map({ x: geo.cx + geo.radius * Math.cos(t), y: geo.cy + geo.radius * Math.sin(t) });
+      });
+      return retype(moved, { type: 'polygon', closed: full, points: pts, x1: pts[0].x, y1: pts[0].y, x2: pts[pts.length - 1].x, y2: pts[pts.length - 1].y });
+    }
+    case 'mark_angle': {
+      // The mark stays circular; its radius follows the map's average scale
+      const k = Math.sqrt(Math.abs(det));
+      const sized = Math.abs(k - 1) < EPS ? moved : { ...moved, angleRadius: (s.angleRadius ?? ANGLE_MARK_DEFAULT_RADIUS) * k };
+      if (det >= 0 || sized.cx1 === undefined || sized.cy1 === undefined) return sized;
+      // Mirrored, the counterclockwise sweep starts from the other ray
+      const anchors = sized.anchors && { ...sized.anchors, end: sized.anchors.cp1, cp1: sized.anchors.end };
+      return { ...sized, x2: sized.cx1, y2: sized.cy1, cx1: sized.x2, cy1: sized.y2, ...(anchors ? { anchors } : {}) };
+    }
+    case 'compound':
+      // Outlines keep the inside on their left, so a mirror image runs them backwards
+      return det < 0 ? withContours(moved, getContours(moved).map(c => [...c].reverse())) : moved;
+    default:
+      return moved;
+  }
+};
+
+export const getShapeBounds = (shape: Shape): Bounds => {
+  const s = bakeRotation(shape);
+  const fromPoints = (pts: Point[]): Bounds => ({
+    minX: Math.min(...pts.map(p => p.x)), maxX: Math.max(...pts.map(p => p.x)),
+    minY: Math.min(...pts.map(p => p.y)), maxY: Math.max(...pts.map(p => p.y)),
+  });
+  switch (s.type) {
+    case 'plot': return getPlotBounds(s);
+    case 'arc': return getArcBounds(s);
+    case 'circle': {
+      const r = Math.hypot(s.x2 - s.x1, s.y2 - s.y1);
+      return { minX: s.x1 - r, maxX: s.x1 + r, minY: s.y1 - r, maxY: s.y1 + r };
+    }
+    case 'ellipse': {
+      const rx = Math.abs(s.x2 - s.x1); const ry = Math.abs(s.y2 - s.y1);
+      const cos = Math.cos(s.rotation || 0); const sin = Math.sin(s.rotation || 0);
+      const w = Math.hypot(rx * cos, ry * sin); const h = Math.hypot(rx * sin, ry * cos);
+      return { minX: s.x1 - w, maxX: s.x1 + w, minY: s.y1 - h, maxY: s.y1 + h };
+    }
+    case 'rect': case 'round_rect': return fromPoints(getShapeContours(s)[0]);
+    case 'text': return { minX: s.x1, maxX: s.x1, minY: s.y1, maxY: s.y1 };
+    default: {
+      const pts = [{ x: s.x1, y: s.y1 }, { x: s.x2, y: s.y2 }, ...(s.points ?? [])];
+      if (s.cx1 !== undefined && s.cy1 !== undefined) pts.push({ x: s.cx1, y: s.cy1 });
+      if (s.cx2 !== undefined && s.cy2 !== undefined) pts.push({ x: s.cx2, y: s.cy2 });
+      return fromPoints(pts);
+    }
+  }
+};
+
+// Box around all the shapes, or null when there are none
+export const getSelectionBounds = (shapes: Shape[]): Bounds | null => {
+  if (shapes.length === 0) return null;
+  return shapes.map(getShapeBounds).reduce((acc, b) => ({
+    minX: Math.min(acc.minX, b.minX), maxX: Math.max(acc.maxX, b.maxX),
+    minY: Math.min(acc.minY, b.minY), maxY: Math.max(acc.maxY, b.maxY),
+  }));
+};
+
+export const getBoundsCenter = (b: Bounds): Point => ({ x: (b.minX + b.maxX) / 2, y: (b.minY + b.maxY) / 2 });